@@ -1,10 +1,39 @@
 import { QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
 import queryClient from "./lib/queryClient";
 import Register from "./pages/auth/Register";
 import { Toaster } from "sonner";
 import Login from "./pages/auth/Login";
+import ForgotPassword from "./pages/auth/ForgotPassword";
+import AcceptInvitation from "./pages/auth/AcceptInvitation";
+import {
+  DashboardRedirect,
+  ProtectedRoute,
+  RoleRoute,
+} from "./components/ProtectedRoute";
+import DashboardLayout from "./components/layout/DashboardLayout";
+import { LOGBOOK_PRINT_PATH } from "./lib/navigation";
+import StudentDashboard from "./pages/student/Dashboard";
+import StudentProposal from "./pages/student/Proposal";
+import StudentTopics from "./pages/student/Topics";
+import StudentLogbook from "./pages/student/Logbook";
+import StudentLogbookPrint from "./pages/student/LogbookPrint";
+import StudentAppointments from "./pages/student/Appointments";
+import LecturerDashboard from "./pages/lecturer/Dashboard";
+import LecturerTopics from "./pages/lecturer/Topics";
+import SupervisorLogbook from "./pages/lecturer/Logbook";
+import SupervisorAppointments from "./pages/lecturer/Appointments";
+import CoordinatorDashboard from "./pages/coordinator/Dashboard";
+import CoordinatorUsers from "./pages/coordinator/Users";
+import CoordinatorInvitations from "./pages/coordinator/Invitations";
+import CoordinatorSupervision from "./pages/coordinator/Supervision";
+import CoordinatorSeminars from "./pages/coordinator/Seminars";
+import ExaminerDashboard from "./pages/examiner/Dashboard";
+import Profile from "./pages/profile/Profile";
+import Security from "./pages/profile/Security";
+import Notifications from "./pages/notifications/Notifications";
+import Seminars from "./pages/seminars/Seminars";
 
 const App = () => {
   return (
@@ -14,6 +43,93 @@ const App = () => {
           <Routes>
             <Route path="/register" element={<Register />} />
             <Route path="/login" element={<Login />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/invite/:token" element={<AcceptInvitation />} />
+            <Route element={<ProtectedRoute />}>
+              <Route path="/" element={<Navigate to="/dashboard" replace />} />
+              <Route path="/dashboard" element={<DashboardRedirect />} />
+              <Route element={<RoleRoute roles={["STUDENT"]} />}>
+                <Route
+                  path={LOGBOOK_PRINT_PATH}
+                  element={<StudentLogbookPrint />}
+                />
+              </Route>
+              <Route element={<DashboardLayout />}>
+                <Route path="/profile" element={<Profile />} />
+                <Route path="/security" element={<Security />} />
+                <Route path="/notifications" element={<Notifications />} />
+                <Route element={<RoleRoute roles={["STUDENT"]} />}>
+                  <Route
+                    path="/student/dashboard"
+                    element={<StudentDashboard />}
+                  />
+                  <Route
+                    path="/student/proposal"
+                    element={<StudentProposal />}
+                  />
+                  <Route path="/student/topics" element={<StudentTopics />} />
+                  <Route path="/student/logbook" element={<StudentLogbook />} />
+                  <Route
+                    path="/student/appointments"
+                    element={<StudentAppointments />}
+                  />
+                  <Route path="/student/seminars" element={<Seminars />} />
+                </Route>
+                <Route element={<RoleRoute roles={["LECTURER"]} />}>
+                  <Route
+                    path="/lecturer/dashboard"
+                    element={<LecturerDashboard />}
+                  />
+                  <Route path="/lecturer/topics" element={<LecturerTopics />} />
+                  <Route
+                    path="/lecturer/logbook"
+                    element={<SupervisorLogbook />}
+                  />
+                  <Route
+                    path="/lecturer/appointments"
+                    element={<SupervisorAppointments />}
+                  />
+                  <Route path="/lecturer/seminars" element={<Seminars />} />
+                </Route>
+                <Route element={<RoleRoute roles={["COORDINATOR"]} />}>
+                  <Route
+                    path="/coordinator/dashboard"
+                    element={<CoordinatorDashboard />}
+                  />
+                  <Route
+                    path="/coordinator/users"
+                    element={<CoordinatorUsers />}
+                  />
+                  <Route
+                    path="/coordinator/invitations"
+                    element={<CoordinatorInvitations />}
+                  />
+                  <Route
+                    path="/coordinator/supervision"
+                    element={<CoordinatorSupervision />}
+                  />
+                  <Route
+                    path="/coordinator/logbook"
+                    element={<SupervisorLogbook />}
+                  />
+                  <Route
+                    path="/coordinator/appointments"
+                    element={<SupervisorAppointments />}
+                  />
+                  <Route
+                    path="/coordinator/seminars"
+                    element={<CoordinatorSeminars />}
+                  />
+                </Route>
+                <Route element={<RoleRoute roles={["EXAMINER"]} />}>
+                  <Route
+                    path="/examiner/dashboard"
+                    element={<ExaminerDashboard />}
+                  />
+                  <Route path="/examiner/seminars" element={<Seminars />} />
+                </Route>
+              </Route>
+            </Route>
           </Routes>
         </AuthProvider>
       </BrowserRouter>
@@ -0,0 +1,140 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Send } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { formatNumber } from "@/i18n/format";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  FormErrors,
+  firstErrors,
+  MOTIVATION_MAX_LENGTH,
+  topicApplicationSchema,
+} from "@/lib/validations";
+import { applyToTopic } from "@/services/api/topics";
+import { Topic } from "@/types/topics";
+
+interface ApplyTopicDialogProps {
+  topic: Topic;
+  onClose: () => void;
+}
+
+// Mahasiswa melamar topik dosen dengan surat motivasi singkat
+const ApplyTopicDialog: FC<ApplyTopicDialogProps> = ({ topic, onClose }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [motivation, setMotivation] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: (value: string) =>
+      applyToTopic(topic.id, { motivation: value }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["topics"] });
+      queryClient.invalidateQueries({ queryKey: ["topic-applications"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const result = topicApplicationSchema.safeParse({ motivation });
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    mutation.mutate(result.data.motivation);
+  };
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("topics.apply.title")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("topics.apply.description", {
+                title: topic.title,
+                lecturer: topic.lecturer.name,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="topic-motivation">{t("fields.motivation")}</Label>
+            <Textarea
+              id="topic-motivation"
+              rows={6}
+              value={motivation}
+              onChange={(e) => {
+                setMotivation(e.target.value);
+                setErrors({});
+              }}
+              maxLength={MOTIVATION_MAX_LENGTH}
+              placeholder={t("topics.apply.placeholder")}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.motivation}
+            />
+            {errors.motivation && (
+              <p className="text-sm text-destructive">{errors.motivation}</p>
+            )}
+            <p className="text-xs text-gray-500 text-right">
+              {t("proposals.form.characters", {
+                count: formatNumber(motivation.length),
+                maximum: formatNumber(MOTIVATION_MAX_LENGTH),
+              })}
+            </p>
+          </div>
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+              {t("topics.apply.submit")}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ApplyTopicDialog;
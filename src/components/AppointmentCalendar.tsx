@@ -0,0 +1,253 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDate } from "@/i18n/format";
+import {
+  calendarDays,
+  CalendarView,
+  formatTimeRange,
+  shiftAnchor,
+  WEEKDAY_ORDER,
+  weekdayLabel,
+} from "@/lib/appointments";
+import { toDateValue } from "@/lib/logbook";
+import { cn } from "@/lib/utils";
+
+export interface CalendarItem {
+  key: string;
+  start: string;
+  end: string;
+  title: string;
+  description?: string;
+  // open: slot kosong yang bisa dipesan, taken: slot milik mahasiswa lain
+  tone: "confirmed" | "cancelled" | "open" | "taken";
+  onSelect?: () => void;
+}
+
+interface AppointmentCalendarProps {
+  view: CalendarView;
+  anchor: Date;
+  items: CalendarItem[];
+  isLoading?: boolean;
+  onViewChange: (view: CalendarView) => void;
+  onAnchorChange: (anchor: Date) => void;
+}
+
+const MONTH_CELL_LIMIT = 3;
+
+const toneClasses: Record<CalendarItem["tone"], string> = {
+  confirmed: "border-env-base bg-env-lighter text-env-darker",
+  cancelled: "border-gray-200 bg-gray-50 text-gray-400 line-through",
+  open: "border-dashed border-jewel-green/60 bg-pastel-green/30 text-jewel-green",
+  taken: "border-gray-200 bg-gray-100 text-gray-500",
+};
+
+const CalendarEntry: FC<{ item: CalendarItem; compact?: boolean }> = ({
+  item,
+  compact,
+}) => {
+  const className = cn(
+    "w-full rounded-md border text-left text-xs transition-colors",
+    compact ? "truncate px-1.5 py-0.5" : "space-y-0.5 px-2 py-1.5",
+    toneClasses[item.tone],
+    item.onSelect && "cursor-pointer hover:brightness-95"
+  );
+  const content = compact ? (
+    `${formatDate(item.start, { timeStyle: "short" })} ${item.title}`
+  ) : (
+    <>
+      <span className="block font-semibold">
+        {formatTimeRange(item.start, item.end)}
+      </span>
+      <span className="block">{item.title}</span>
+      {item.description && (
+        <span className="block opacity-80">{item.description}</span>
+      )}
+    </>
+  );
+
+  return item.onSelect ? (
+    <button
+      type="button"
+      className={className}
+      title={compact ? item.title : undefined}
+      onClick={item.onSelect}
+    >
+      {content}
+    </button>
+  ) : (
+    <div className={className} title={compact ? item.title : undefined}>
+      {content}
+    </div>
+  );
+};
+
+// Kalender pekan atau bulan untuk janji temu dan slot bimbingan
+const AppointmentCalendar: FC<AppointmentCalendarProps> = ({
+  view,
+  anchor,
+  items,
+  isLoading,
+  onViewChange,
+  onAnchorChange,
+}) => {
+  const { t } = useTranslation();
+  const days = calendarDays(view, anchor);
+  const today = toDateValue();
+
+  const itemsByDate = new Map<string, CalendarItem[]>();
+  [...items]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .forEach((item) => {
+      const date = toDateValue(new Date(item.start));
+      itemsByDate.set(date, [...(itemsByDate.get(date) ?? []), item]);
+    });
+
+  const title =
+    view === "week"
+      ? `${formatDate(days[0], { day: "numeric", month: "short" })} – ${formatDate(
+          days[6],
+          { dateStyle: "medium" }
+        )}`
+      : formatDate(anchor, { month: "long", year: "numeric" });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onAnchorChange(shiftAnchor(view, anchor, -1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">
+              {t("appointments.calendar.previous")}
+            </span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onAnchorChange(shiftAnchor(view, anchor, 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">{t("appointments.calendar.next")}</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onAnchorChange(new Date())}
+          >
+            {t("appointments.calendar.today")}
+          </Button>
+          <h2 className="ml-2 font-semibold text-gray-900">{title}</h2>
+          {isLoading && (
+            <Loader2 className="h-4 w-4 animate-spin text-env-base" />
+          )}
+        </div>
+        <div className="flex gap-1" role="group">
+          {(["week", "month"] as const).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={view === option ? "default" : "ghost"}
+              aria-pressed={view === option}
+              onClick={() => onViewChange(option)}
+            >
+              {t(`appointments.calendar.${option}`)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {view === "week" ? (
+        <div className="grid gap-2 md:grid-cols-7">
+          {days.map((day) => {
+            const date = toDateValue(day);
+            const dayItems = itemsByDate.get(date) ?? [];
+            return (
+              <div
+                key={date}
+                className={cn(
+                  "min-h-32 space-y-2 rounded-md border border-gray-200 p-2",
+                  date === today && "border-env-base"
+                )}
+              >
+                <p
+                  className={cn(
+                    "text-xs font-medium text-gray-500",
+                    date === today && "text-env-base"
+                  )}
+                >
+                  {formatDate(day, {
+                    weekday: "short",
+                    day: "numeric",
+                    month: "short",
+                  })}
+                </p>
+                {dayItems.map((item) => (
+                  <CalendarEntry key={item.key} item={item} />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAY_ORDER.map((weekday) => (
+            <p
+              key={weekday}
+              className="pb-1 text-center text-xs font-medium text-gray-500"
+            >
+              {weekdayLabel(weekday, "short")}
+            </p>
+          ))}
+          {days.map((day) => {
+            const date = toDateValue(day);
+            const dayItems = itemsByDate.get(date) ?? [];
+            const outside = day.getMonth() !== anchor.getMonth();
+            return (
+              <div
+                key={date}
+                className={cn(
+                  "min-h-24 min-w-0 space-y-1 rounded-md border border-gray-200 p-1",
+                  outside && "bg-gray-50",
+                  date === today && "border-env-base"
+                )}
+              >
+                {/* Tanggal membuka tampilan pekan agar detailnya terbaca */}
+                <button
+                  type="button"
+                  className={cn(
+                    "rounded px-1 text-xs font-medium hover:bg-env-lighter",
+                    outside ? "text-gray-400" : "text-gray-700",
+                    date === today && "text-env-base"
+                  )}
+                  onClick={() => {
+                    onAnchorChange(day);
+                    onViewChange("week");
+                  }}
+                >
+                  {day.getDate()}
+                </button>
+                {dayItems.slice(0, MONTH_CELL_LIMIT).map((item) => (
+                  <CalendarEntry key={item.key} item={item} compact />
+                ))}
+                {dayItems.length > MONTH_CELL_LIMIT && (
+                  <p className="px-1 text-xs text-gray-500">
+                    {t("appointments.calendar.more", {
+                      count: dayItems.length - MONTH_CELL_LIMIT,
+                    })}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentCalendar;
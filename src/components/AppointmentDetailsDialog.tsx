@@ -0,0 +1,215 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { CalendarClock, Loader2, NotebookPen } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { formatDate } from "@/i18n/format";
+import {
+  appointmentStatusVariants,
+  canRecordAppointment,
+  formatTimeRange,
+  isUpcoming,
+} from "@/lib/appointments";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  APPOINTMENT_REASON_MAX_LENGTH,
+  cancelAppointmentSchema,
+  FormErrors,
+  firstErrors,
+} from "@/lib/validations";
+import { cancelAppointment } from "@/services/api/appointments";
+import { Appointment } from "@/types/appointments";
+
+interface AppointmentDetailsDialogProps {
+  appointment: Appointment;
+  // Hanya untuk mahasiswa; pembimbing cukup bisa membatalkan
+  onReschedule?: () => void;
+  onRecord?: () => void;
+  onClose: () => void;
+}
+
+// Rincian janji temu beserta pembatalan yang wajib disertai alasan
+const AppointmentDetailsDialog: FC<AppointmentDetailsDialogProps> = ({
+  appointment,
+  onReschedule,
+  onRecord,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [cancelling, setCancelling] = useState(false);
+  const [reason, setReason] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: (data: { reason: string }) =>
+      cancelAppointment(appointment.id, data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const submitCancel = () => {
+    if (mutation.isPending) return;
+    const result = cancelAppointmentSchema.safeParse({ reason });
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+    mutation.mutate(result.data);
+  };
+
+  const upcoming = isUpcoming(appointment);
+  const rows = [
+    {
+      label: t("appointments.details.time"),
+      value: `${formatDate(appointment.start, { dateStyle: "full" })}, ${formatTimeRange(
+        appointment.start,
+        appointment.end
+      )}`,
+    },
+    { label: t("fields.venue"), value: appointment.venue },
+    {
+      label: t("appointments.details.student"),
+      value: [appointment.student.name, appointment.student.nim]
+        .filter(Boolean)
+        .join(" · "),
+    },
+    {
+      label: t("appointments.details.supervisor"),
+      value: appointment.supervisor.name,
+    },
+    { label: t("fields.agenda"), value: appointment.agenda },
+  ];
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex flex-wrap items-center gap-2">
+            {t("appointments.details.title")}
+            <Badge variant={appointmentStatusVariants[appointment.status]}>
+              {t(`appointments.status.${appointment.status}`)}
+            </Badge>
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <dl className="space-y-2 text-sm">
+              {rows.map((row) => (
+                <div key={row.label}>
+                  <dt className="text-gray-500">{row.label}</dt>
+                  <dd className="whitespace-pre-line text-gray-900">
+                    {row.value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {appointment.status === "CANCELLED" && (
+          <p className="rounded-md bg-gray-50 px-3 py-2 text-sm text-gray-600">
+            {t("appointments.details.cancelledBy", {
+              name: appointment.cancelledBy ?? "-",
+              reason: appointment.cancelReason ?? "-",
+            })}
+          </p>
+        )}
+        {appointment.logbookEntryId !== null && (
+          <p className="text-sm text-jewel-green">
+            {t("appointments.details.recorded")}
+          </p>
+        )}
+
+        {cancelling && (
+          <div className="space-y-2">
+            <Textarea
+              aria-label={t("fields.reason")}
+              placeholder={t("appointments.details.cancelPlaceholder")}
+              rows={2}
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                setErrors({});
+              }}
+              maxLength={APPOINTMENT_REASON_MAX_LENGTH}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.reason}
+              autoFocus
+            />
+            {errors.reason && (
+              <p className="text-sm text-destructive">{errors.reason}</p>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter className="flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={mutation.isPending}
+          >
+            {t("appointments.details.close")}
+          </Button>
+          {upcoming &&
+            (cancelling ? (
+              <Button
+                variant="destructive"
+                onClick={submitCancel}
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending && (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                )}
+                {t("appointments.details.confirmCancel")}
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setCancelling(true)}>
+                {t("appointments.details.cancel")}
+              </Button>
+            ))}
+          {upcoming && onReschedule && !cancelling && (
+            <Button
+              className="bg-env-base hover:bg-env-dark text-white"
+              onClick={onReschedule}
+            >
+              <CalendarClock className="h-4 w-4" />
+              {t("appointments.details.reschedule")}
+            </Button>
+          )}
+          {onRecord && canRecordAppointment(appointment) && (
+            <Button
+              className="bg-env-base hover:bg-env-dark text-white"
+              onClick={onRecord}
+            >
+              <NotebookPen className="h-4 w-4" />
+              {t("appointments.details.record")}
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default AppointmentDetailsDialog;
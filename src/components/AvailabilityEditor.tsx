@@ -0,0 +1,242 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { WEEKDAY_ORDER, weekdayLabel } from "@/lib/appointments";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { availabilitySlotSchema, FormErrors } from "@/lib/validations";
+import { updateMyAvailability } from "@/services/api/appointments";
+import {
+  AvailabilitySlot,
+  AvailabilitySlotRequest,
+} from "@/types/appointments";
+
+interface AvailabilityEditorProps {
+  slots: AvailabilitySlot[];
+}
+
+// Key lokal agar baris baru yang belum punya id tetap stabil saat dirender
+type SlotDraft = AvailabilitySlotRequest & { key: string };
+
+const toDraft = (slot: AvailabilitySlot): SlotDraft => ({
+  ...slot,
+  key: slot.id,
+});
+
+// Dosen menyusun slot mingguan lalu menyimpannya sekaligus
+const AvailabilityEditor: FC<AvailabilityEditorProps> = ({ slots }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  // null berarti belum diubah, tampilkan slot dari server
+  const [draft, setDraft] = useState<SlotDraft[] | null>(null);
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const rows = draft ?? slots.map(toDraft);
+
+  const mutation = useMutation({
+    mutationFn: updateMyAvailability,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      toaster.success(data.message);
+      setDraft(null);
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const updateRows = (next: SlotDraft[]) => {
+    setDraft(next);
+    setErrors({});
+  };
+
+  const updateRow = (index: number, patch: Partial<SlotDraft>) =>
+    updateRows(
+      rows.map((row, position) =>
+        position === index ? { ...row, ...patch } : row
+      )
+    );
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    updateRows([
+      ...rows,
+      {
+        key: crypto.randomUUID(),
+        weekday: last?.weekday ?? 1,
+        startTime: last?.endTime ?? "09:00",
+        endTime: "",
+        venue: last?.venue ?? "",
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    if (draft === null || mutation.isPending) return;
+
+    const rowErrors: FormErrors = {};
+    draft.forEach((row, index) => {
+      const result = availabilitySlotSchema.safeParse(row);
+      if (!result.success) {
+        rowErrors[`slots.${index}`] = result.error.issues[0]?.message;
+      }
+    });
+    if (Object.keys(rowErrors).length > 0) {
+      setErrors(rowErrors);
+      return;
+    }
+
+    mutation.mutate({
+      slots: draft.map((row) => ({
+        id: row.id,
+        weekday: row.weekday,
+        startTime: row.startTime,
+        endTime: row.endTime,
+        venue: row.venue.trim(),
+      })),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("appointments.availability.title")}</CardTitle>
+        <CardDescription>
+          {t("appointments.availability.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {t("appointments.availability.empty")}
+          </p>
+        )}
+        {rows.map((row, index) => {
+          const error = errors[`slots.${index}`];
+          return (
+            <div key={row.key} className="space-y-1">
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-[9rem_6.5rem_6.5rem_1fr_auto]">
+                <NativeSelect
+                  aria-label={t("fields.weekday")}
+                  value={row.weekday}
+                  onChange={(e) =>
+                    updateRow(index, { weekday: Number(e.target.value) })
+                  }
+                  disabled={mutation.isPending}
+                >
+                  {WEEKDAY_ORDER.map((weekday) => (
+                    <option key={weekday} value={weekday}>
+                      {weekdayLabel(weekday)}
+                    </option>
+                  ))}
+                </NativeSelect>
+                <Input
+                  type="time"
+                  aria-label={t("fields.startTime")}
+                  value={row.startTime}
+                  onChange={(e) =>
+                    updateRow(index, { startTime: e.target.value })
+                  }
+                  disabled={mutation.isPending}
+                  aria-invalid={!!error}
+                />
+                <Input
+                  type="time"
+                  aria-label={t("fields.endTime")}
+                  value={row.endTime}
+                  onChange={(e) =>
+                    updateRow(index, { endTime: e.target.value })
+                  }
+                  disabled={mutation.isPending}
+                  aria-invalid={!!error}
+                />
+                <Input
+                  aria-label={t("fields.venue")}
+                  placeholder={t("fields.venue")}
+                  value={row.venue}
+                  onChange={(e) => updateRow(index, { venue: e.target.value })}
+                  maxLength={100}
+                  disabled={mutation.isPending}
+                  aria-invalid={!!error}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={t("appointments.availability.remove")}
+                  className="text-destructive hover:text-destructive"
+                  onClick={() =>
+                    updateRows(rows.filter((_, position) => position !== index))
+                  }
+                  disabled={mutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">
+                    {t("appointments.availability.remove")}
+                  </span>
+                </Button>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          );
+        })}
+        {errors.slots && (
+          <p className="text-sm text-destructive">{errors.slots}</p>
+        )}
+
+        <div className="flex flex-wrap justify-between gap-2 pt-2">
+          <Button
+            variant="outline"
+            onClick={addRow}
+            disabled={mutation.isPending}
+          >
+            <Plus className="h-4 w-4" />
+            {t("appointments.availability.add")}
+          </Button>
+          {draft !== null && (
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setDraft(null);
+                  setErrors({});
+                }}
+                disabled={mutation.isPending}
+              >
+                {t("appointments.availability.reset")}
+              </Button>
+              <Button
+                className="bg-env-base hover:bg-env-dark text-white"
+                onClick={handleSave}
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {t("appointments.availability.saving")}
+                  </>
+                ) : (
+                  t("appointments.availability.save")
+                )}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AvailabilityEditor;
@@ -0,0 +1,233 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { toDateValue } from "@/lib/logbook";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  availabilityExceptionSchema,
+  FormErrors,
+  firstErrors,
+} from "@/lib/validations";
+import { createAvailabilityException } from "@/services/api/appointments";
+
+interface AvailabilityExceptionDialogProps {
+  onClose: () => void;
+}
+
+interface ExceptionFormState {
+  date: string;
+  available: boolean;
+  startTime: string;
+  endTime: string;
+  venue: string;
+  note: string;
+}
+
+// Menutup jadwal pada satu tanggal atau membuka slot tambahan
+const AvailabilityExceptionDialog: FC<AvailabilityExceptionDialogProps> = ({
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ExceptionFormState>({
+    date: toDateValue(),
+    available: false,
+    startTime: "",
+    endTime: "",
+    venue: "",
+    note: "",
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: createAvailabilityException,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const updateField = <K extends keyof ExceptionFormState>(
+    field: K,
+    value: ExceptionFormState[K]
+  ) => {
+    setForm({ ...form, [field]: value });
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const result = availabilityExceptionSchema.safeParse(form);
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+    mutation.mutate({
+      ...result.data,
+      startTime: result.data.startTime || null,
+      endTime: result.data.endTime || null,
+      venue: result.data.available ? result.data.venue : "",
+    });
+  };
+
+  const fieldError = (field: keyof ExceptionFormState) =>
+    errors[field] && (
+      <p className="text-sm text-destructive">{errors[field]}</p>
+    );
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("appointments.exceptions.form.title")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("appointments.exceptions.form.description")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="exception-type">
+                {t("appointments.exceptions.form.type")}
+              </Label>
+              <NativeSelect
+                id="exception-type"
+                value={form.available ? "EXTRA" : "UNAVAILABLE"}
+                onChange={(e) =>
+                  updateField("available", e.target.value === "EXTRA")
+                }
+                disabled={mutation.isPending}
+              >
+                {(["UNAVAILABLE", "EXTRA"] as const).map((type) => (
+                  <option key={type} value={type}>
+                    {t(`appointments.exceptions.types.${type}`)}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exception-date">{t("fields.date")}</Label>
+              <Input
+                id="exception-date"
+                type="date"
+                min={toDateValue()}
+                value={form.date}
+                onChange={(e) => updateField("date", e.target.value)}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.date}
+              />
+              {fieldError("date")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exception-start">{t("fields.startTime")}</Label>
+              <Input
+                id="exception-start"
+                type="time"
+                value={form.startTime}
+                onChange={(e) => updateField("startTime", e.target.value)}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.startTime}
+              />
+              {fieldError("startTime")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exception-end">{t("fields.endTime")}</Label>
+              <Input
+                id="exception-end"
+                type="time"
+                value={form.endTime}
+                onChange={(e) => updateField("endTime", e.target.value)}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.endTime}
+              />
+              {fieldError("endTime")}
+            </div>
+          </div>
+
+          {form.available && (
+            <div className="space-y-2">
+              <Label htmlFor="exception-venue">{t("fields.venue")}</Label>
+              <Input
+                id="exception-venue"
+                value={form.venue}
+                onChange={(e) => updateField("venue", e.target.value)}
+                maxLength={100}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.venue}
+              />
+              {fieldError("venue")}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="exception-note">{t("fields.note")}</Label>
+            <Input
+              id="exception-note"
+              value={form.note}
+              onChange={(e) => updateField("note", e.target.value)}
+              maxLength={200}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.note}
+            />
+            {fieldError("note")}
+          </div>
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("appointments.exceptions.form.saving")}
+                </>
+              ) : (
+                t("appointments.exceptions.form.submit")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default AvailabilityExceptionDialog;
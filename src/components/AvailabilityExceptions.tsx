@@ -0,0 +1,130 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import AvailabilityExceptionDialog from "@/components/AvailabilityExceptionDialog";
+import { formatDate } from "@/i18n/format";
+import { parseDateValue } from "@/lib/logbook";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { deleteAvailabilityException } from "@/services/api/appointments";
+import { AvailabilityException } from "@/types/appointments";
+
+interface AvailabilityExceptionsProps {
+  exceptions: AvailabilityException[];
+}
+
+// Daftar libur dan slot tambahan dosen yang akan datang
+const AvailabilityExceptions: FC<AvailabilityExceptionsProps> = ({
+  exceptions,
+}) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState(false);
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAvailabilityException,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const deletingId = deleteMutation.isPending ? deleteMutation.variables : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{t("appointments.exceptions.title")}</CardTitle>
+          <CardDescription>
+            {t("appointments.exceptions.description")}
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setAdding(true)}>
+          <Plus className="h-4 w-4" />
+          {t("appointments.exceptions.add")}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {t("appointments.exceptions.empty")}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {exceptions.map((exception) => (
+              <li
+                key={exception.id}
+                className="flex items-start justify-between gap-4 py-3 text-sm"
+              >
+                <div className="space-y-1">
+                  <p className="flex flex-wrap items-center gap-2 font-medium text-gray-900">
+                    {formatDate(parseDateValue(exception.date), {
+                      dateStyle: "full",
+                    })}
+                    <Badge
+                      variant={exception.available ? "success" : "warning"}
+                    >
+                      {t(
+                        `appointments.exceptions.types.${
+                          exception.available ? "EXTRA" : "UNAVAILABLE"
+                        }`
+                      )}
+                    </Badge>
+                  </p>
+                  <p className="text-gray-600">
+                    {[
+                      exception.startTime && exception.endTime
+                        ? `${exception.startTime}–${exception.endTime}`
+                        : t("appointments.exceptions.allDay"),
+                      exception.venue,
+                      exception.note,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={t("appointments.exceptions.remove")}
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => deleteMutation.mutate(exception.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  {deletingId === exception.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                  <span className="sr-only">
+                    {t("appointments.exceptions.remove")}
+                  </span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {adding && (
+        <AvailabilityExceptionDialog onClose={() => setAdding(false)} />
+      )}
+    </Card>
+  );
+};
+
+export default AvailabilityExceptions;
@@ -0,0 +1,238 @@
+import { FC, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2, RotateCcw, RotateCw, ZoomIn } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  CropTransform,
+  DecodedImage,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  clampCropTransform,
+  decodeImage,
+  drawCroppedImage,
+  exportCroppedImage,
+  ImageProcessingError,
+  initialCropTransform,
+} from "@/lib/image";
+
+interface AvatarEditorProps {
+  // Editor terbuka selama file tidak null
+  file: File | null;
+  onCancel: () => void;
+  onConfirm: (file: File) => void;
+}
+
+const PREVIEW_SIZE = 256;
+
+const errorKeyOf = (error: unknown) =>
+  error instanceof ImageProcessingError
+    ? error.i18nKey
+    : "avatarEditor.errors.processing";
+
+// Crop persegi dengan geser, zoom, dan rotasi sebelum foto diunggah
+const AvatarEditor: FC<AvatarEditorProps> = ({ file, onCancel, onConfirm }) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<DecodedImage | null>(null);
+  const [transform, setTransform] =
+    useState<CropTransform>(initialCropTransform);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    let decoded: DecodedImage | null = null;
+    setImage(null);
+    setError(null);
+    setTransform(initialCropTransform);
+    decodeImage(file)
+      .then((result) => {
+        decoded = result;
+        if (!cancelled) setImage(result);
+      })
+      .catch((error) => {
+        if (!cancelled) setError(t(errorKeyOf(error)));
+      });
+
+    return () => {
+      cancelled = true;
+      if (decoded instanceof ImageBitmap) decoded.close();
+    };
+  }, [file, t]);
+
+  useEffect(() => {
+    if (!image || !canvasRef.current) return;
+    drawCroppedImage(
+      canvasRef.current,
+      image,
+      transform,
+      PREVIEW_SIZE * window.devicePixelRatio
+    );
+  }, [image, transform]);
+
+  const updateTransform = (patch: Partial<CropTransform>) => {
+    if (!image) return;
+    setTransform((prev) => clampCropTransform(image, { ...prev, ...patch }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current || !image) return;
+    const { width } = e.currentTarget.getBoundingClientRect();
+    const dx = (e.clientX - dragRef.current.x) / width;
+    const dy = (e.clientY - dragRef.current.y) / width;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setTransform((prev) =>
+      clampCropTransform(image, {
+        ...prev,
+        offsetX: prev.offsetX + dx,
+        offsetY: prev.offsetY + dy,
+      })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleConfirm = async () => {
+    if (!image || isExporting) return;
+
+    setIsExporting(true);
+    try {
+      onConfirm(await exportCroppedImage(image, transform));
+    } catch (error) {
+      setError(t(errorKeyOf(error)));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <AlertDialog
+      open={!!file}
+      onOpenChange={(open) => !open && !isExporting && onCancel()}
+    >
+      <AlertDialogContent className="sm:max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t("avatarEditor.title")}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t("avatarEditor.description")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative rounded-full overflow-hidden border border-gray-300 bg-gray-100"
+            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+          >
+            {image ? (
+              <canvas
+                ref={canvasRef}
+                className="w-full h-full cursor-grab active:cursor-grabbing touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            ) : (
+              !error && (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-6 w-6 animate-spin text-env-base" />
+                  {t("avatarEditor.loading")}
+                </div>
+              )
+            )}
+          </div>
+          {error && (
+            <p className="text-sm text-destructive text-center">{error}</p>
+          )}
+
+          <div className="flex items-center gap-3 w-full">
+            <ZoomIn className="h-4 w-4 text-gray-500 shrink-0" />
+            <input
+              type="range"
+              aria-label={t("avatarEditor.zoom")}
+              min={MIN_ZOOM}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={transform.zoom}
+              onChange={(e) =>
+                updateTransform({ zoom: Number(e.target.value) })
+              }
+              disabled={!image || isExporting}
+              className="flex-1 accent-env-base"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() =>
+                updateTransform({ rotation: (transform.rotation + 270) % 360 })
+              }
+              disabled={!image || isExporting}
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span className="sr-only">{t("avatarEditor.rotateLeft")}</span>
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() =>
+                updateTransform({ rotation: (transform.rotation + 90) % 360 })
+              }
+              disabled={!image || isExporting}
+            >
+              <RotateCw className="h-4 w-4" />
+              <span className="sr-only">{t("avatarEditor.rotateRight")}</span>
+            </Button>
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isExporting}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            type="button"
+            className="bg-env-base hover:bg-env-dark text-white"
+            onClick={handleConfirm}
+            disabled={!image || isExporting}
+          >
+            {isExporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("avatarEditor.applying")}
+              </>
+            ) : (
+              t("avatarEditor.apply")
+            )}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default AvatarEditor;
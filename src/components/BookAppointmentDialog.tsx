@@ -0,0 +1,154 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { formatDate } from "@/i18n/format";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  APPOINTMENT_AGENDA_MAX_LENGTH,
+  bookAppointmentSchema,
+  FormErrors,
+  firstErrors,
+} from "@/lib/validations";
+import { bookAppointment } from "@/services/api/appointments";
+import { OpenSlot } from "@/types/appointments";
+import { SupervisorOption } from "@/types/proposals";
+
+interface BookAppointmentDialogProps {
+  supervisor: SupervisorOption;
+  slot: OpenSlot;
+  onClose: () => void;
+}
+
+// Mahasiswa memesan satu slot kosong pembimbing beserta agendanya
+const BookAppointmentDialog: FC<BookAppointmentDialogProps> = ({
+  supervisor,
+  slot,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [agenda, setAgenda] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: bookAppointment,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+      // Slot bisa saja baru dipesan mahasiswa lain
+      queryClient.invalidateQueries({ queryKey: ["appointments", "slots"] });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const result = bookAppointmentSchema.safeParse({ agenda });
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+    mutation.mutate({
+      supervisorId: supervisor.id,
+      start: slot.start,
+      agenda: result.data.agenda,
+    });
+  };
+
+  const slotError = errors.start;
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("appointments.book.title")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("appointments.book.description", {
+                name: supervisor.name,
+                time: formatDate(slot.start, {
+                  dateStyle: "full",
+                  timeStyle: "short",
+                }),
+                venue: slot.venue,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="appointment-agenda">{t("fields.agenda")}</Label>
+            <Textarea
+              id="appointment-agenda"
+              rows={4}
+              placeholder={t("appointments.book.placeholder")}
+              value={agenda}
+              onChange={(e) => {
+                setAgenda(e.target.value);
+                setErrors({});
+              }}
+              maxLength={APPOINTMENT_AGENDA_MAX_LENGTH}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.agenda}
+            />
+            {errors.agenda && (
+              <p className="text-sm text-destructive">{errors.agenda}</p>
+            )}
+            {slotError && (
+              <p className="text-sm text-destructive">{slotError}</p>
+            )}
+          </div>
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("appointments.book.saving")}
+                </>
+              ) : (
+                t("appointments.book.submit")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default BookAppointmentDialog;
@@ -0,0 +1,25 @@
+import { ComponentType, FC } from "react";
+import { BotProtectionProvider, env } from "@/lib/env";
+import GoogleBotProtection from "@/components/botProtection/GoogleBotProtection";
+import StubBotProtection from "@/components/botProtection/StubBotProtection";
+import { BotProtectionProps } from "@/components/botProtection/types";
+
+// Penyedia baru cukup ditambahkan di sini dan dipilih lewat VITE_BOT_PROTECTION
+const providers: Record<
+  BotProtectionProvider,
+  ComponentType<BotProtectionProps>
+> = {
+  google: GoogleBotProtection,
+  stub: StubBotProtection,
+};
+
+type Props = Omit<BotProtectionProps, "mode"> & {
+  mode?: BotProtectionProps["mode"];
+};
+
+const BotProtection: FC<Props> = ({ mode = env.botProtectionMode, ref }) => {
+  const Provider = providers[env.botProtection];
+  return <Provider mode={mode} ref={ref} />;
+};
+
+export default BotProtection;
@@ -0,0 +1,164 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { KeyRound, Loader2, ShieldCheck } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import useAuth from "@/hooks/useAuth";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  disableTwoFactorSchema,
+  FormErrors,
+  firstErrors,
+} from "@/lib/validations";
+import { disableTwoFactor } from "@/services/api/twoFactor";
+import { DisableTwoFactorRequest } from "@/types/twoFactor";
+
+interface DisableTwoFactorDialogProps {
+  onClose: () => void;
+}
+
+// Kata sandi dan kode verifikasi diminta agar sesi yang tertinggal terbuka
+// tidak bisa mematikan verifikasi dua langkah
+const DisableTwoFactorDialog: FC<DisableTwoFactorDialogProps> = ({
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { updateUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<DisableTwoFactorRequest>({
+    currentPassword: "",
+    code: "",
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: disableTwoFactor,
+    onSuccess: (data) => {
+      updateUser(data.user);
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const updateField = (field: keyof DisableTwoFactorRequest, value: string) => {
+    setForm({ ...form, [field]: value });
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const result = disableTwoFactorSchema.safeParse(form);
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    mutation.mutate({ ...form, code: form.code.trim() });
+  };
+
+  const fields = [
+    {
+      id: "currentPassword" as const,
+      label: t("profile.currentPassword"),
+      icon: KeyRound,
+      type: "password",
+      hint: undefined,
+    },
+    {
+      id: "code" as const,
+      label: t("auth.twoFactor.codeLabel"),
+      icon: ShieldCheck,
+      type: "text",
+      hint: t("security.twoFactor.disable.codeHint"),
+    },
+  ];
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("security.twoFactor.disable.title")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("security.twoFactor.disable.subtitle")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {fields.map(({ id, label, icon: Icon, type, hint }) => (
+            <div key={id} className="space-y-2">
+              <Label htmlFor={`disable-${id}`}>{label}</Label>
+              <div className="relative">
+                <Icon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id={`disable-${id}`}
+                  type={type}
+                  autoComplete={id === "code" ? "one-time-code" : undefined}
+                  className="h-11 pl-10"
+                  value={form[id]}
+                  onChange={(e) => updateField(id, e.target.value)}
+                  disabled={mutation.isPending}
+                  aria-invalid={!!errors[id]}
+                />
+              </div>
+              {errors[id] && (
+                <p className="text-sm text-destructive">{errors[id]}</p>
+              )}
+              {hint && <p className="text-xs text-gray-600">{hint}</p>}
+            </div>
+          ))}
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("security.twoFactor.disable.submitting")}
+                </>
+              ) : (
+                t("security.twoFactor.disable.submit")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DisableTwoFactorDialog;
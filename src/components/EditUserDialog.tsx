@@ -0,0 +1,164 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { IdCard, Loader2, Phone, User } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { identityFieldForRole } from "@/lib/domainPolicy";
+import { FormErrors, firstErrors, profileSchema } from "@/lib/validations";
+import { updateUser } from "@/services/api/users";
+import { ManagedUser, UpdateUserRequest } from "@/types/users";
+
+interface EditUserDialogProps {
+  user: ManagedUser;
+  onClose: () => void;
+}
+
+// Koreksi data identitas pengguna oleh koordinator. Email tidak bisa diubah
+// karena menentukan role pengguna
+const EditUserDialog: FC<EditUserDialogProps> = ({ user, onClose }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const identityField = identityFieldForRole(user.role);
+
+  const [form, setForm] = useState<UpdateUserRequest>({
+    name: user.profile?.name ?? "",
+    nim: user.profile?.nim ?? "",
+    nip: user.profile?.nip ?? "",
+    phoneNumber: user.profile?.phoneNumber ?? "",
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: (data: UpdateUserRequest) => updateUser(user.id, data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const updateField = (field: keyof UpdateUserRequest, value: string) => {
+    setForm({ ...form, [field]: value });
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const data = {
+      name: form.name,
+      phoneNumber: form.phoneNumber,
+      [identityField]: form[identityField],
+    };
+    const result = profileSchema.safeParse(data);
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    mutation.mutate(data as UpdateUserRequest);
+  };
+
+  const fields = [
+    {
+      id: "name" as const,
+      label: t("fields.name"),
+      icon: User,
+      type: "text",
+    },
+    {
+      id: identityField,
+      label: t(`fields.${identityField}`),
+      icon: IdCard,
+      type: "text",
+    },
+    {
+      id: "phoneNumber" as const,
+      label: t("fields.phoneNumber"),
+      icon: Phone,
+      type: "tel",
+    },
+  ];
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("users.edit.title")}</AlertDialogTitle>
+            <AlertDialogDescription>{user.email}</AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {fields.map(({ id, label, icon: Icon, type }) => (
+            <div key={id} className="space-y-2">
+              <Label htmlFor={`edit-${id}`}>{label}</Label>
+              <div className="relative">
+                <Icon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id={`edit-${id}`}
+                  type={type}
+                  className="h-11 pl-10"
+                  value={form[id]}
+                  onChange={(e) => updateField(id, e.target.value)}
+                  disabled={mutation.isPending}
+                  aria-invalid={!!errors[id]}
+                />
+              </div>
+              {errors[id] && (
+                <p className="text-sm text-destructive">{errors[id]}</p>
+              )}
+            </div>
+          ))}
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("profile.saving")}
+                </>
+              ) : (
+                t("profile.save")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default EditUserDialog;
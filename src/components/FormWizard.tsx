@@ -0,0 +1,74 @@
+import { ReactNode } from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import Stepper from "@/components/Stepper";
+import { FormWizard as FormWizardState } from "@/hooks/useFormWizard";
+
+interface FormWizardProps<T extends object> {
+  wizard: FormWizardState<T>;
+  children: ReactNode;
+  // Menonaktifkan navigasi saat ada proses lain, misalnya kirim ulang OTP
+  disabled?: boolean;
+}
+
+// Stepper, form, dan tombol kembali/lanjut untuk useFormWizard
+const FormWizard = <T extends object>({
+  wizard,
+  children,
+  disabled = false,
+}: FormWizardProps<T>) => {
+  const { t } = useTranslation();
+  const { step, isFirst, isLast, isSubmitting } = wizard;
+  const isDisabled = isSubmitting || disabled;
+
+  return (
+    <>
+      <div className="flex justify-center">
+        <Stepper
+          steps={wizard.stepTitles}
+          currentStep={wizard.currentStep}
+          className="mb-6"
+        />
+      </div>
+      <form onSubmit={wizard.handleSubmit}>
+        <div className="space-y-6">
+          {children}
+          <div className="flex gap-2">
+            {!isFirst && (
+              <Button
+                type="button"
+                variant="outline"
+                className="h-11 border-gray-300 text-gray-700 hover:bg-gray-50"
+                onClick={wizard.back}
+                disabled={isDisabled}
+              >
+                {!isSubmitting && <ArrowLeft className="mr-2 h-4 w-4" />}
+                {t("common.back")}
+              </Button>
+            )}
+            <Button
+              type="submit"
+              className="flex-1 h-11 bg-env-base hover:bg-env-dark text-white font-medium text-base"
+              disabled={isDisabled}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {step?.submittingLabel ?? t("common.processing")}
+                </>
+              ) : (
+                <>
+                  {step?.submitLabel ?? t("common.next")}
+                  {!isLast && <ArrowRight className="ml-2 h-4 w-4" />}
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </>
+  );
+};
+
+export default FormWizard;
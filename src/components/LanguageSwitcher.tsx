@@ -0,0 +1,42 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { Languages } from "lucide-react";
+import useAuth from "@/hooks/useAuth";
+import { languages, languageLabels, setLanguage } from "@/i18n";
+import { cn } from "@/lib/utils";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+const LanguageSwitcher: FC<LanguageSwitcherProps> = ({ className }) => {
+  const { t, i18n } = useTranslation();
+  const { auth } = useAuth();
+
+  return (
+    <div
+      className={cn("flex items-center gap-1 text-sm", className)}
+      aria-label={t("common.language")}
+    >
+      <Languages className="h-4 w-4 text-gray-400" />
+      {languages.map((language) => (
+        <button
+          key={language}
+          type="button"
+          title={languageLabels[language]}
+          className={cn(
+            "px-1.5 py-0.5 rounded uppercase font-medium transition-colors",
+            i18n.language === language
+              ? "bg-env-base text-white"
+              : "text-gray-500 hover:text-env-base"
+          )}
+          onClick={() => setLanguage(language, auth.user?.id)}
+        >
+          {language}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
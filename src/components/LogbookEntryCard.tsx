@@ -0,0 +1,117 @@
+import { FC, ReactNode } from "react";
+import { useTranslation } from "react-i18next";
+import { MessageSquare, Paperclip } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { formatDate, formatDateTime } from "@/i18n/format";
+import {
+  formatFileSize,
+  logbookStatusVariants,
+  parseDateValue,
+} from "@/lib/logbook";
+import { LogbookEntry, SupervisedLogbookEntry } from "@/types/logbook";
+
+interface LogbookEntryCardProps {
+  entry: LogbookEntry | SupervisedLogbookEntry;
+  // Tombol ubah/hapus untuk mahasiswa
+  actions?: ReactNode;
+  // Form pemeriksaan untuk pembimbing
+  children?: ReactNode;
+}
+
+// Satu pertemuan bimbingan; pembimbing melihat nama mahasiswa, mahasiswa
+// melihat nama pembimbing
+const LogbookEntryCard: FC<LogbookEntryCardProps> = ({
+  entry,
+  actions,
+  children,
+}) => {
+  const { t } = useTranslation();
+  const person =
+    "student" in entry
+      ? [entry.student.name, entry.student.nim].filter(Boolean).join(" · ")
+      : entry.supervisor.name;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500">
+            {formatDate(parseDateValue(entry.meetingDate), {
+              dateStyle: "full",
+            })}
+          </p>
+          <h3 className="font-semibold text-gray-900">{entry.topic}</h3>
+          <p className="text-sm text-gray-600">{person}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={logbookStatusVariants[entry.status]}>
+            {t(`logbook.status.${entry.status}`)}
+          </Badge>
+          {actions}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <dl className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <dt className="text-gray-500">{t("fields.notes")}</dt>
+            <dd className="whitespace-pre-line text-gray-900">{entry.notes}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t("fields.nextActions")}</dt>
+            <dd className="whitespace-pre-line text-gray-900">
+              {entry.nextActions}
+            </dd>
+          </div>
+        </dl>
+
+        {entry.attachments.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {entry.attachments.map((attachment) => (
+              <li key={attachment.id}>
+                <a
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1.5 rounded-md border border-gray-200 px-2 py-1 text-env-darker hover:bg-gray-50"
+                >
+                  <Paperclip className="h-3.5 w-3.5" />
+                  {attachment.name}
+                  <span className="text-xs text-gray-500">
+                    {formatFileSize(attachment.size)}
+                  </span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {entry.comments.length > 0 && (
+          <ul className="space-y-2">
+            {entry.comments.map((comment) => (
+              <li
+                key={comment.id}
+                className="rounded-md bg-gray-50 p-3 text-gray-700"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="flex items-center gap-2 font-medium text-gray-900">
+                    <MessageSquare className="h-4 w-4 text-gray-400" />
+                    {comment.author}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatDateTime(comment.createdAt)}
+                  </span>
+                </div>
+                <p className="mt-1 whitespace-pre-line">{comment.message}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {children}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LogbookEntryCard;
@@ -0,0 +1,367 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Paperclip, X } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import UploadProgress from "@/components/UploadProgress";
+import { formatNumber } from "@/i18n/format";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { formatFileSize, toDateValue } from "@/lib/logbook";
+import {
+  FormErrors,
+  firstErrors,
+  LOGBOOK_MAX_ATTACHMENTS,
+  LOGBOOK_NOTES_MAX_LENGTH,
+  logbookEntrySchema,
+  validateLogbookAttachment,
+} from "@/lib/validations";
+import { createLogbookEntry, updateLogbookEntry } from "@/services/api/logbook";
+import { Appointment } from "@/types/appointments";
+import {
+  LogbookEntry,
+  LogbookEntryRequest,
+  MyLogbookResponse,
+} from "@/types/logbook";
+
+interface LogbookEntryDialogProps {
+  // Kosong untuk catatan baru
+  entry?: LogbookEntry;
+  // Janji temu yang sudah berlangsung untuk mengisi awal catatan baru
+  appointment?: Appointment;
+  supervisors: MyLogbookResponse["supervisors"];
+  onClose: () => void;
+}
+
+interface LogbookFormState {
+  meetingDate: string;
+  supervisorId: string;
+  topic: string;
+  notes: string;
+  nextActions: string;
+}
+
+// Mahasiswa mencatat atau memperbaiki satu pertemuan bimbingan
+const LogbookEntryDialog: FC<LogbookEntryDialogProps> = ({
+  entry,
+  appointment,
+  supervisors,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState<LogbookFormState>({
+    meetingDate:
+      entry?.meetingDate ??
+      toDateValue(appointment ? new Date(appointment.start) : undefined),
+    supervisorId: String(
+      entry?.supervisor.id ??
+        appointment?.supervisor.id ??
+        supervisors[0]?.id ??
+        ""
+    ),
+    topic: entry?.topic ?? appointment?.agenda.slice(0, 200) ?? "",
+    notes: entry?.notes ?? "",
+    nextActions: entry?.nextActions ?? "",
+  });
+  const [files, setFiles] = useState<File[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const keptAttachments = (entry?.attachments ?? []).filter(
+    (attachment) => !removedIds.includes(attachment.id)
+  );
+  const attachmentCount = keptAttachments.length + files.length;
+
+  const mutation = useMutation({
+    mutationFn: (data: LogbookEntryRequest) =>
+      entry
+        ? updateLogbookEntry(entry.id, data, files, removedIds, setProgress)
+        : createLogbookEntry(data, files, setProgress),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["logbook"] });
+      if (appointment) {
+        queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      }
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+    onSettled: () => setProgress(null),
+  });
+
+  const updateField = (field: keyof LogbookFormState, value: string) => {
+    setForm({ ...form, [field]: value });
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const addFiles = (selected: FileList | null) => {
+    const incoming = Array.from(selected ?? []);
+    const invalid = incoming
+      .map(validateLogbookAttachment)
+      .find((message) => message !== null);
+    if (invalid) {
+      setErrors((prev) => ({ ...prev, attachments: invalid }));
+      return;
+    }
+    if (attachmentCount + incoming.length > LOGBOOK_MAX_ATTACHMENTS) {
+      setErrors((prev) => ({
+        ...prev,
+        attachments: t("validation.attachmentCount", {
+          maximum: LOGBOOK_MAX_ATTACHMENTS,
+        }),
+      }));
+      return;
+    }
+    setFiles([...files, ...incoming]);
+    setErrors((prev) => ({ ...prev, attachments: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const result = logbookEntrySchema.safeParse({
+      ...form,
+      supervisorId: Number(form.supervisorId),
+    });
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    mutation.mutate({ ...result.data, appointmentId: appointment?.id });
+  };
+
+  const fieldError = (field: keyof LogbookFormState | "attachments") =>
+    errors[field] && (
+      <p className="text-sm text-destructive">{errors[field]}</p>
+    );
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {entry ? t("logbook.form.editTitle") : t("logbook.form.newTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {appointment
+                ? t("logbook.form.fromAppointment")
+                : t("logbook.form.description")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="logbook-date">{t("fields.meetingDate")}</Label>
+              <Input
+                id="logbook-date"
+                type="date"
+                max={toDateValue()}
+                value={form.meetingDate}
+                onChange={(e) => updateField("meetingDate", e.target.value)}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.meetingDate}
+              />
+              {fieldError("meetingDate")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="logbook-supervisor">
+                {t("fields.supervisorId")}
+              </Label>
+              <NativeSelect
+                id="logbook-supervisor"
+                value={form.supervisorId}
+                onChange={(e) => updateField("supervisorId", e.target.value)}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.supervisorId}
+              >
+                {supervisors.map((supervisor) => (
+                  <option key={supervisor.id} value={supervisor.id}>
+                    {`${supervisor.name} (${t(`supervision.positions.${supervisor.position}`)})`}
+                  </option>
+                ))}
+              </NativeSelect>
+              {fieldError("supervisorId")}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="logbook-topic">{t("fields.topic")}</Label>
+            <Input
+              id="logbook-topic"
+              value={form.topic}
+              onChange={(e) => updateField("topic", e.target.value)}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.topic}
+            />
+            {fieldError("topic")}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="logbook-notes">{t("fields.notes")}</Label>
+            <Textarea
+              id="logbook-notes"
+              rows={5}
+              value={form.notes}
+              onChange={(e) => updateField("notes", e.target.value)}
+              maxLength={LOGBOOK_NOTES_MAX_LENGTH}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.notes}
+            />
+            {fieldError("notes")}
+            <p className="text-xs text-gray-500 text-right">
+              {t("proposals.form.characters", {
+                count: formatNumber(form.notes.length),
+                maximum: formatNumber(LOGBOOK_NOTES_MAX_LENGTH),
+              })}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="logbook-next">{t("fields.nextActions")}</Label>
+            <Textarea
+              id="logbook-next"
+              rows={3}
+              value={form.nextActions}
+              onChange={(e) => updateField("nextActions", e.target.value)}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.nextActions}
+            />
+            {fieldError("nextActions")}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="logbook-attachments">
+              {t("logbook.form.attachments")}
+            </Label>
+            {attachmentCount > 0 && (
+              <ul className="space-y-1 text-sm">
+                {[
+                  ...keptAttachments.map((attachment) => ({
+                    key: attachment.id,
+                    name: attachment.name,
+                    size: attachment.size,
+                    remove: () => setRemovedIds([...removedIds, attachment.id]),
+                  })),
+                  ...files.map((file, index) => ({
+                    key: `${file.name}-${index}`,
+                    name: file.name,
+                    size: file.size,
+                    remove: () =>
+                      setFiles(
+                        files.filter((_, position) => position !== index)
+                      ),
+                  })),
+                ].map((item) => (
+                  <li
+                    key={item.key}
+                    className="flex items-center justify-between gap-2 rounded-md border border-gray-200 px-2 py-1"
+                  >
+                    <span className="flex min-w-0 items-center gap-1.5">
+                      <Paperclip className="h-3.5 w-3.5 shrink-0 text-gray-400" />
+                      <span className="truncate">{item.name}</span>
+                      <span className="text-xs text-gray-500">
+                        {formatFileSize(item.size)}
+                      </span>
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={item.remove}
+                      disabled={mutation.isPending}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">
+                        {t("logbook.form.removeAttachment")}
+                      </span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {attachmentCount < LOGBOOK_MAX_ATTACHMENTS && (
+              <Input
+                id="logbook-attachments"
+                type="file"
+                multiple
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.jpg,.jpeg,.png"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = "";
+                }}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.attachments}
+              />
+            )}
+            {errors.attachments ? (
+              fieldError("attachments")
+            ) : (
+              <p className="text-xs text-gray-500">
+                {t("logbook.form.attachmentsHint", {
+                  maximum: LOGBOOK_MAX_ATTACHMENTS,
+                })}
+              </p>
+            )}
+          </div>
+
+          {progress !== null && files.length > 0 && (
+            <UploadProgress value={progress} />
+          )}
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("logbook.form.saving")}
+                </>
+              ) : (
+                t("logbook.form.submit")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default LogbookEntryDialog;
@@ -0,0 +1,61 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { LogbookEntry } from "@/types/logbook";
+
+interface LogbookProgressProps {
+  entries: LogbookEntry[];
+  minApproved: number;
+}
+
+// Jumlah pertemuan disetujui dibanding syarat minimal sidang
+const LogbookProgress: FC<LogbookProgressProps> = ({
+  entries,
+  minApproved,
+}) => {
+  const { t } = useTranslation();
+  const approved = entries.filter(
+    (entry) => entry.status === "APPROVED"
+  ).length;
+  const pending = entries.filter((entry) => entry.status === "PENDING").length;
+  const complete = approved >= minApproved;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end justify-between gap-2 text-sm">
+        <p className="font-semibold text-gray-900">
+          {t("logbook.progress.count", { approved, minimum: minApproved })}
+        </p>
+        {pending > 0 && (
+          <p className="text-gray-500">
+            {t("logbook.progress.pending", { count: pending })}
+          </p>
+        )}
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={minApproved}
+        aria-valuenow={approved}
+        className="h-2 w-full overflow-hidden rounded-full bg-env-lighter"
+      >
+        <div
+          className={cn(
+            "h-full rounded-full transition-all duration-200",
+            complete ? "bg-jewel-green" : "bg-env-base"
+          )}
+          style={{ width: `${Math.min(100, (approved / minApproved) * 100)}%` }}
+        />
+      </div>
+      {complete && (
+        <p className="flex items-center gap-1.5 text-sm text-jewel-green">
+          <CheckCircle2 className="h-4 w-4" />
+          {t("logbook.progress.complete")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LogbookProgress;
@@ -0,0 +1,117 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Check, Loader2, MessageSquare, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { LOGBOOK_COMMENT_MAX_LENGTH } from "@/lib/validations";
+import { reviewLogbookEntry } from "@/services/api/logbook";
+import { LogbookReviewDecision, SupervisedLogbookEntry } from "@/types/logbook";
+
+interface LogbookReviewFormProps {
+  entry: SupervisedLogbookEntry;
+}
+
+// Pembimbing menyetujui, menolak, atau sekadar mengomentari catatan.
+// Penolakan dan komentar wajib disertai pesan untuk mahasiswa
+const LogbookReviewForm: FC<LogbookReviewFormProps> = ({ entry }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string>();
+
+  const mutation = useMutation({
+    mutationFn: (decision: LogbookReviewDecision) =>
+      reviewLogbookEntry(entry.id, { decision, comment: comment.trim() }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["logbook"] });
+      toaster.success(data.message);
+      setComment("");
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setError(apiError.fieldErrors.comment);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const submit = (decision: LogbookReviewDecision) => {
+    if (mutation.isPending) return;
+    if (decision !== "APPROVED" && !comment.trim()) {
+      setError(t("validation.required", { field: t("fields.comment") }));
+      return;
+    }
+    mutation.mutate(decision);
+  };
+
+  const pendingDecision = mutation.isPending ? mutation.variables : null;
+  const spinner = <Loader2 className="h-4 w-4 animate-spin" />;
+
+  return (
+    <div className="space-y-2 border-t border-gray-100 pt-4">
+      <Textarea
+        aria-label={t("fields.comment")}
+        placeholder={t("logbook.review.placeholder")}
+        rows={2}
+        value={comment}
+        onChange={(e) => {
+          setComment(e.target.value);
+          setError(undefined);
+        }}
+        maxLength={LOGBOOK_COMMENT_MAX_LENGTH}
+        disabled={mutation.isPending}
+        aria-invalid={!!error}
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => submit("COMMENT")}
+          disabled={mutation.isPending}
+        >
+          {pendingDecision === "COMMENT" ? (
+            spinner
+          ) : (
+            <MessageSquare className="h-4 w-4" />
+          )}
+          {t("logbook.review.comment")}
+        </Button>
+        {entry.status === "PENDING" && (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => submit("REJECTED")}
+              disabled={mutation.isPending}
+            >
+              {pendingDecision === "REJECTED" ? (
+                spinner
+              ) : (
+                <X className="h-4 w-4" />
+              )}
+              {t("logbook.review.reject")}
+            </Button>
+            <Button
+              size="sm"
+              className="bg-env-base hover:bg-env-dark text-white"
+              onClick={() => submit("APPROVED")}
+              disabled={mutation.isPending}
+            >
+              {pendingDecision === "APPROVED" ? (
+                spinner
+              ) : (
+                <Check className="h-4 w-4" />
+              )}
+              {t("logbook.review.approve")}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LogbookReviewForm;
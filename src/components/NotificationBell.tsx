@@ -0,0 +1,136 @@
+import { FC, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import NotificationItem from "@/components/NotificationItem";
+import useNotificationActions from "@/hooks/useNotificationActions";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { formatNumber } from "@/i18n/format";
+import { NOTIFICATIONS_PATH } from "@/lib/navigation";
+import {
+  NOTIFICATIONS_QUERY_KEY,
+  NOTIFICATIONS_REFETCH_INTERVAL,
+} from "@/lib/notifications";
+import {
+  getUnreadNotificationCount,
+  listNotifications,
+} from "@/services/api/notifications";
+import { Notification } from "@/types/notifications";
+
+const PREVIEW_SIZE = 5;
+const MAX_BADGE_COUNT = 99;
+
+// Lonceng di header: jumlah belum dibaca dan beberapa notifikasi terbaru
+const NotificationBell: FC = () => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const {
+    toggleRead,
+    markAllRead,
+    open: openNotification,
+  } = useNotificationActions();
+  const refetchInterval = usePollingInterval(NOTIFICATIONS_REFETCH_INTERVAL);
+
+  const { data: unread } = useQuery({
+    queryKey: [...NOTIFICATIONS_QUERY_KEY, "unread-count"],
+    queryFn: getUnreadNotificationCount,
+    refetchInterval,
+  });
+
+  const preview = useQuery({
+    queryKey: [
+      ...NOTIFICATIONS_QUERY_KEY,
+      "list",
+      { page: 1, pageSize: PREVIEW_SIZE },
+    ],
+    queryFn: () => listNotifications({ page: 1, pageSize: PREVIEW_SIZE }),
+    enabled: open,
+  });
+
+  const unreadCount = unread?.unreadCount ?? 0;
+  const notifications = preview.data?.notifications ?? [];
+
+  const handleOpen = (notification: Notification) => {
+    setOpen(false);
+    openNotification(notification);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-gray-600">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-jewel-red px-1 text-[10px] font-semibold text-white">
+              {unreadCount > MAX_BADGE_COUNT
+                ? `${MAX_BADGE_COUNT}+`
+                : formatNumber(unreadCount)}
+            </span>
+          )}
+          <span className="sr-only">
+            {t("notifications.unreadLabel", { count: unreadCount })}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 max-w-[calc(100vw-2rem)] p-0">
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+          <p className="font-semibold text-gray-900">
+            {t("notifications.title")}
+          </p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-env-base hover:text-env-light"
+            onClick={() => markAllRead.mutate()}
+            disabled={unreadCount === 0 || markAllRead.isPending}
+          >
+            <CheckCheck className="h-4 w-4" />
+            {t("notifications.markAllRead")}
+          </Button>
+        </div>
+        <div className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+          {preview.isLoading ? (
+            <Loader2 className="mx-auto my-8 h-6 w-6 animate-spin text-env-base" />
+          ) : preview.isError ? (
+            <p className="px-4 py-8 text-center text-sm text-destructive">
+              {t("notifications.loadFailed")}
+            </p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500">
+              {t("notifications.empty")}
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onOpen={handleOpen}
+                onToggleRead={(item) => toggleRead.mutate(item)}
+                toggling={
+                  toggleRead.isPending &&
+                  toggleRead.variables?.id === notification.id
+                }
+              />
+            ))
+          )}
+        </div>
+        <Link
+          to={NOTIFICATIONS_PATH}
+          className="block border-t border-gray-200 px-4 py-3 text-center text-sm font-medium text-env-base hover:text-env-light"
+          onClick={() => setOpen(false)}
+        >
+          {t("notifications.viewAll")}
+        </Link>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
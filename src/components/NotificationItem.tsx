@@ -0,0 +1,90 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { Mail, MailOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDateTime, formatRelativeTime } from "@/i18n/format";
+import {
+  notificationIconClasses,
+  notificationIcons,
+} from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import { Notification } from "@/types/notifications";
+
+interface NotificationItemProps {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+  onToggleRead: (notification: Notification) => void;
+  toggling?: boolean;
+}
+
+const NotificationItem: FC<NotificationItemProps> = ({
+  notification,
+  onOpen,
+  onToggleRead,
+  toggling,
+}) => {
+  const { t } = useTranslation();
+  const Icon = notificationIcons[notification.type];
+  const toggleLabel = notification.read
+    ? t("notifications.markUnread")
+    : t("notifications.markRead");
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-3 px-4 py-3",
+        !notification.read && "bg-env-lighter/30"
+      )}
+    >
+      <span
+        className={cn(
+          "flex h-9 w-9 shrink-0 items-center justify-center rounded-full",
+          notificationIconClasses[notification.type]
+        )}
+      >
+        <Icon className="h-4 w-4" />
+      </span>
+      <button
+        type="button"
+        className="min-w-0 flex-1 text-left disabled:cursor-default"
+        onClick={() => onOpen(notification)}
+        disabled={!notification.link && notification.read}
+      >
+        <p
+          className={cn(
+            "text-sm text-gray-900",
+            !notification.read && "font-semibold"
+          )}
+        >
+          {notification.title}
+        </p>
+        {notification.message && (
+          <p className="text-sm text-gray-600">{notification.message}</p>
+        )}
+        <p
+          className="mt-1 text-xs text-gray-500"
+          title={formatDateTime(notification.createdAt)}
+        >
+          {formatRelativeTime(notification.createdAt)}
+        </p>
+      </button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="shrink-0 text-gray-500"
+        title={toggleLabel}
+        onClick={() => onToggleRead(notification)}
+        disabled={toggling}
+      >
+        {notification.read ? (
+          <Mail className="h-4 w-4" />
+        ) : (
+          <MailOpen className="h-4 w-4" />
+        )}
+        <span className="sr-only">{toggleLabel}</span>
+      </Button>
+    </div>
+  );
+};
+
+export default NotificationItem;
@@ -0,0 +1,75 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface OtpFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Keterangan asal kode, misalnya email tujuan atau aplikasi autentikator
+  hint: string;
+  label?: string;
+  error?: string;
+  disabled?: boolean;
+  // Tidak ada untuk kode dari aplikasi autentikator yang tidak bisa dikirim ulang
+  resend?: {
+    countdown: number;
+    disabled: boolean;
+    onResend: () => void;
+  };
+}
+
+const OtpField: FC<OtpFieldProps> = ({
+  value,
+  onChange,
+  hint,
+  label,
+  error,
+  disabled,
+  resend,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="otp" className="text-sm font-medium text-gray-700">
+        {label ?? t("auth.otp.label")}
+      </Label>
+      <div className="relative">
+        <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          id="otp"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder={t("auth.otp.placeholder")}
+          className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <p className="text-sm text-gray-600">{hint}</p>
+      {resend && (
+        <Button
+          type="button"
+          variant="link"
+          className="justify-start px-0 h-auto text-env-base hover:text-env-light font-medium"
+          onClick={() => {
+            if (!resend.disabled) resend.onResend();
+          }}
+          disabled={resend.disabled || disabled}
+        >
+          {resend.disabled
+            ? t("auth.otp.resendIn", { seconds: resend.countdown })
+            : t("auth.otp.resend")}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default OtpField;
@@ -0,0 +1,347 @@
+import { FC } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import FormWizard from "@/components/FormWizard";
+import useFormWizard from "@/hooks/useFormWizard";
+import { formatNumber } from "@/i18n/format";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  MAX_PREFERRED_SUPERVISORS,
+  PROPOSAL_ABSTRACT_MAX_LENGTH,
+  proposalScopeSchema,
+  proposalSummarySchema,
+  proposalSupervisorsSchema,
+} from "@/lib/validations";
+import {
+  createProposal,
+  submitProposal,
+  updateProposal,
+} from "@/services/api/proposals";
+import {
+  Proposal,
+  ProposalRequest,
+  ResearchField,
+  researchFieldSchema,
+  SupervisorOption,
+} from "@/types/proposals";
+
+interface ProposalFormValues extends ProposalRequest {
+  // Terisi setelah draf pertama kali tersimpan di server
+  id?: number;
+}
+
+interface ProposalFormProps {
+  // Draf atau pengajuan yang diminta revisi; kosong untuk pengajuan baru
+  proposal?: Proposal;
+  supervisors: SupervisorOption[];
+}
+
+const toRequest = (values: ProposalFormValues): ProposalRequest => ({
+  title: values.title,
+  abstract: values.abstract,
+  researchField: values.researchField,
+  location: values.location,
+  preferredSupervisorIds: values.preferredSupervisorIds,
+});
+
+const initialValuesFrom = (proposal?: Proposal): ProposalFormValues => ({
+  id: proposal?.id,
+  title: proposal?.title ?? "",
+  abstract: proposal?.abstract ?? "",
+  researchField: proposal?.researchField ?? null,
+  location: proposal?.location ?? "",
+  preferredSupervisorIds:
+    proposal?.preferredSupervisors.map((supervisor) => supervisor.id) ?? [],
+});
+
+// Setiap langkah menyimpan draf ke server, langkah terakhir mengajukannya
+const ProposalForm: FC<ProposalFormProps> = ({ proposal, supervisors }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const saveDraft = async (values: ProposalFormValues) => {
+    const result = values.id
+      ? await updateProposal(values.id, toRequest(values))
+      : await createProposal(toRequest(values));
+    queryClient.invalidateQueries({ queryKey: ["proposals"] });
+    return result;
+  };
+
+  const saveStep = async (values: ProposalFormValues) => {
+    const result = await saveDraft(values);
+    return { id: result.proposal.id };
+  };
+
+  const wizard = useFormWizard<ProposalFormValues>({
+    initialValues: initialValuesFrom(proposal),
+    steps: [
+      {
+        title: t("proposals.form.steps.summary"),
+        schema: proposalSummarySchema,
+        submit: saveStep,
+      },
+      {
+        title: t("proposals.form.steps.scope"),
+        schema: proposalScopeSchema,
+        submit: saveStep,
+      },
+      {
+        title: t("proposals.form.steps.supervisors"),
+        schema: proposalSupervisorsSchema,
+        submit: saveStep,
+      },
+      {
+        title: t("proposals.form.steps.review"),
+        submit: async (values) => {
+          const { proposal: saved } = await saveDraft(values);
+          const result = await submitProposal(saved.id);
+          queryClient.invalidateQueries({ queryKey: ["proposals"] });
+          toaster.success(result.message);
+          return { id: saved.id };
+        },
+        submitLabel: t("proposals.form.submit"),
+        submittingLabel: t("proposals.form.submitting"),
+      },
+    ],
+  });
+  const { currentStep, values, errors, isSubmitting } = wizard;
+
+  // Simpan draf tanpa validasi kelengkapan, bisa dari langkah mana pun
+  const draftMutation = useMutation({
+    mutationFn: saveDraft,
+    onSuccess: (data) => {
+      wizard.setValue("id", data.proposal.id);
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const setSupervisorChoice = (index: number, value: string) => {
+    const ids = [...values.preferredSupervisorIds];
+    ids[index] = Number(value);
+    wizard.setValue(
+      "preferredSupervisorIds",
+      ids.filter((id, position) => id && ids.indexOf(id) === position)
+    );
+  };
+
+  const supervisorName = (id: number) =>
+    supervisors.find((supervisor) => supervisor.id === id)?.name ?? "-";
+
+  const isBusy = isSubmitting || draftMutation.isPending;
+
+  const fieldError = (field: keyof ProposalFormValues) =>
+    errors[field] && (
+      <p className="text-sm text-destructive">{errors[field]}</p>
+    );
+
+  const renderStep = () => {
+    switch (currentStep) {
+      case 1:
+        return (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-title">{t("fields.title")}</Label>
+              <Input
+                id="proposal-title"
+                value={values.title}
+                onChange={(e) => wizard.setValue("title", e.target.value)}
+                placeholder={t("proposals.form.titlePlaceholder")}
+                disabled={isBusy}
+                aria-invalid={!!errors.title}
+              />
+              {fieldError("title")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-abstract">{t("fields.abstract")}</Label>
+              <Textarea
+                id="proposal-abstract"
+                rows={8}
+                value={values.abstract}
+                onChange={(e) => wizard.setValue("abstract", e.target.value)}
+                maxLength={PROPOSAL_ABSTRACT_MAX_LENGTH}
+                disabled={isBusy}
+                aria-invalid={!!errors.abstract}
+              />
+              {fieldError("abstract")}
+              <p className="text-xs text-gray-500 text-right">
+                {t("proposals.form.characters", {
+                  count: formatNumber(values.abstract.length),
+                  maximum: formatNumber(PROPOSAL_ABSTRACT_MAX_LENGTH),
+                })}
+              </p>
+            </div>
+          </>
+        );
+
+      case 2:
+        return (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-field">
+                {t("fields.researchField")}
+              </Label>
+              <NativeSelect
+                id="proposal-field"
+                value={values.researchField ?? ""}
+                onChange={(e) =>
+                  wizard.setValue(
+                    "researchField",
+                    (e.target.value as ResearchField) || null
+                  )
+                }
+                disabled={isBusy}
+                aria-invalid={!!errors.researchField}
+              >
+                <option value="">{t("proposals.form.chooseField")}</option>
+                {researchFieldSchema.options.map((field) => (
+                  <option key={field} value={field}>
+                    {t(`proposals.researchFields.${field}`)}
+                  </option>
+                ))}
+              </NativeSelect>
+              {fieldError("researchField")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-location">{t("fields.location")}</Label>
+              <Input
+                id="proposal-location"
+                value={values.location}
+                onChange={(e) => wizard.setValue("location", e.target.value)}
+                placeholder={t("proposals.form.locationPlaceholder")}
+                disabled={isBusy}
+                aria-invalid={!!errors.location}
+              />
+              {fieldError("location")}
+            </div>
+          </>
+        );
+
+      case 3:
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {t("proposals.form.supervisorsHint", {
+                maximum: MAX_PREFERRED_SUPERVISORS,
+              })}
+            </p>
+            {Array.from({ length: MAX_PREFERRED_SUPERVISORS }, (_, index) => (
+              <div key={index} className="space-y-2">
+                <Label htmlFor={`proposal-supervisor-${index}`}>
+                  {t("proposals.form.supervisorChoice", {
+                    position: index + 1,
+                  })}
+                </Label>
+                <NativeSelect
+                  id={`proposal-supervisor-${index}`}
+                  value={values.preferredSupervisorIds[index] ?? ""}
+                  onChange={(e) => setSupervisorChoice(index, e.target.value)}
+                  // Pilihan berikutnya baru bisa diisi setelah pilihan sebelumnya
+                  disabled={
+                    isBusy ||
+                    (index > 0 && !values.preferredSupervisorIds[index - 1])
+                  }
+                >
+                  <option value="">
+                    {index === 0
+                      ? t("proposals.form.chooseSupervisor")
+                      : t("proposals.form.noSupervisor")}
+                  </option>
+                  {supervisors.map((supervisor) => (
+                    <option
+                      key={supervisor.id}
+                      value={supervisor.id}
+                      disabled={
+                        values.preferredSupervisorIds.includes(supervisor.id) &&
+                        values.preferredSupervisorIds[index] !== supervisor.id
+                      }
+                    >
+                      {supervisor.name}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+            ))}
+            {fieldError("preferredSupervisorIds")}
+          </div>
+        );
+
+      default:
+        return (
+          <div className="space-y-4">
+            <dl className="grid gap-4 text-sm sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <dt className="text-gray-500">{t("fields.title")}</dt>
+                <dd className="font-medium text-gray-900">{values.title}</dd>
+              </div>
+              <div className="sm:col-span-2">
+                <dt className="text-gray-500">{t("fields.abstract")}</dt>
+                <dd className="whitespace-pre-line text-gray-700">
+                  {values.abstract}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{t("fields.researchField")}</dt>
+                <dd className="text-gray-900">
+                  {values.researchField &&
+                    t(`proposals.researchFields.${values.researchField}`)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{t("fields.location")}</dt>
+                <dd className="text-gray-900">{values.location}</dd>
+              </div>
+              <div className="sm:col-span-2">
+                <dt className="text-gray-500">
+                  {t("fields.preferredSupervisorIds")}
+                </dt>
+                <dd className="text-gray-900">
+                  <ol className="list-decimal pl-5">
+                    {values.preferredSupervisorIds.map((id) => (
+                      <li key={id}>{supervisorName(id)}</li>
+                    ))}
+                  </ol>
+                </dd>
+              </div>
+            </dl>
+            <p className="text-sm text-gray-600">
+              {t("proposals.form.reviewHint")}
+            </p>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <FormWizard wizard={wizard} disabled={draftMutation.isPending}>
+        {renderStep()}
+      </FormWizard>
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full text-gray-600"
+        onClick={() => draftMutation.mutate(values)}
+        disabled={isBusy}
+      >
+        {draftMutation.isPending ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Save className="h-4 w-4" />
+        )}
+        {t("proposals.form.saveDraft")}
+      </Button>
+    </div>
+  );
+};
+
+export default ProposalForm;
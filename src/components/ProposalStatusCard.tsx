@@ -0,0 +1,119 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDateTime, formatList } from "@/i18n/format";
+import { proposalStatusVariants } from "@/lib/proposals";
+import { Proposal } from "@/types/proposals";
+
+interface ProposalStatusCardProps {
+  proposal: Proposal;
+}
+
+// Ringkasan pengajuan judul beserta status dan komentar peninjau
+const ProposalStatusCard: FC<ProposalStatusCardProps> = ({ proposal }) => {
+  const { t } = useTranslation();
+  // Komentar terbaru ditampilkan paling atas
+  const comments = [...proposal.comments].reverse();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{proposal.title || t("proposals.untitled")}</CardTitle>
+          <CardDescription>
+            {proposal.submittedAt
+              ? t("proposals.submittedAt", {
+                  date: formatDateTime(proposal.submittedAt),
+                })
+              : t("proposals.updatedAt", {
+                  date: formatDateTime(proposal.updatedAt),
+                })}
+          </CardDescription>
+        </div>
+        <Badge variant={proposalStatusVariants[proposal.status]}>
+          {t(`proposals.status.${proposal.status}`)}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-600">
+          {t(`proposals.statusHint.${proposal.status}`)}
+        </p>
+
+        <dl className="grid gap-4 text-sm sm:grid-cols-2">
+          <div>
+            <dt className="text-gray-500">{t("fields.researchField")}</dt>
+            <dd className="text-gray-900">
+              {proposal.researchField
+                ? t(`proposals.researchFields.${proposal.researchField}`)
+                : "-"}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t("fields.location")}</dt>
+            <dd className="text-gray-900">{proposal.location || "-"}</dd>
+          </div>
+          <div className="sm:col-span-2">
+            <dt className="text-gray-500">
+              {t("fields.preferredSupervisorIds")}
+            </dt>
+            <dd className="text-gray-900">
+              {proposal.preferredSupervisors.length > 0
+                ? formatList(
+                    proposal.preferredSupervisors.map(
+                      (supervisor) => supervisor.name
+                    )
+                  )
+                : "-"}
+            </dd>
+          </div>
+        </dl>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">
+            {t("proposals.comments.title")}
+          </h3>
+          {comments.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {t("proposals.comments.empty")}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {comments.map((comment) => (
+                <li
+                  key={comment.id}
+                  className="rounded-md border border-gray-200 p-3 text-sm"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 font-medium text-gray-900">
+                      <MessageSquare className="h-4 w-4 text-gray-400" />
+                      {comment.author}
+                    </span>
+                    <Badge variant={proposalStatusVariants[comment.status]}>
+                      {t(`proposals.status.${comment.status}`)}
+                    </Badge>
+                  </div>
+                  <p className="mt-2 whitespace-pre-line text-gray-700">
+                    {comment.message}
+                  </p>
+                  <p className="mt-2 text-xs text-gray-500">
+                    {formatDateTime(comment.createdAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProposalStatusCard;
@@ -0,0 +1,57 @@
+import { FC } from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import useAuth from "@/hooks/useAuth";
+import { roleHomePaths, SECURITY_PATH } from "@/lib/navigation";
+import { Role } from "@/types/auth";
+
+// Hanya untuk pengguna yang sudah login; selain itu diarahkan ke /login
+export const ProtectedRoute: FC = () => {
+  const { auth } = useAuth();
+  const location = useLocation();
+
+  if (!auth.token || !auth.user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  // Role yang diwajibkan verifikasi dua langkah harus mengaktifkannya dulu
+  const { twoFactorRequired, twoFactorEnabled } = auth.user;
+  if (
+    twoFactorRequired &&
+    !twoFactorEnabled &&
+    location.pathname !== SECURITY_PATH
+  ) {
+    return <Navigate to={SECURITY_PATH} replace />;
+  }
+
+  return <Outlet />;
+};
+
+interface RoleRouteProps {
+  roles: Role[];
+}
+
+// Membatasi akses berdasarkan role; role lain diarahkan ke dashboard-nya sendiri
+export const RoleRoute: FC<RoleRouteProps> = ({ roles }) => {
+  const { auth } = useAuth();
+
+  if (!auth.user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!roles.includes(auth.user.role)) {
+    return <Navigate to={roleHomePaths[auth.user.role]} replace />;
+  }
+
+  return <Outlet />;
+};
+
+// Mengarahkan /dashboard ke dashboard sesuai role pengguna
+export const DashboardRedirect: FC = () => {
+  const { auth } = useAuth();
+
+  if (!auth.user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  return <Navigate to={roleHomePaths[auth.user.role]} replace />;
+};
@@ -0,0 +1,31 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import useRealtimeStatus from "@/hooks/useRealtimeStatus";
+import { RealtimeStatus } from "@/lib/realtime";
+import { cn } from "@/lib/utils";
+
+const dotClasses: Record<RealtimeStatus, string> = {
+  open: "bg-jewel-green",
+  connecting: "bg-jewel-yellow animate-pulse",
+  reconnecting: "bg-jewel-yellow animate-pulse",
+  polling: "bg-gray-400",
+};
+
+// Status koneksi pembaruan langsung, ditampilkan di header
+const RealtimeIndicator: FC<{ className?: string }> = ({ className }) => {
+  const { t } = useTranslation();
+  const status = useRealtimeStatus();
+
+  return (
+    <div
+      className={cn("flex items-center gap-2 text-xs text-gray-500", className)}
+      title={t(`realtime.hint.${status}`)}
+      role="status"
+    >
+      <span className={cn("h-2 w-2 rounded-full", dotClasses[status])} />
+      <span>{t(`realtime.status.${status}`)}</span>
+    </div>
+  );
+};
+
+export default RealtimeIndicator;
@@ -0,0 +1,296 @@
+import { FC, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  EyeIcon,
+  EyeOffIcon,
+  IdCard,
+  KeyRound,
+  Phone,
+  Upload,
+  User,
+} from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import AvatarEditor from "@/components/AvatarEditor";
+import UploadProgress from "@/components/UploadProgress";
+import { WizardErrors } from "@/hooks/useFormWizard";
+import { IdentityField } from "@/lib/domainPolicy";
+import { validateProfilePicture } from "@/lib/validations";
+import { RegisterUserRequest } from "@/types/auth";
+
+export type RegistrationDetails = Omit<RegisterUserRequest, "email">;
+
+interface RegistrationDetailsFieldsProps {
+  values: RegistrationDetails;
+  errors: WizardErrors;
+  identityField: IdentityField;
+  disabled: boolean;
+  onChange: (field: keyof RegistrationDetails, value: string) => void;
+  setFieldError: (field: string, message: string) => void;
+  clearErrors: (...fields: string[]) => void;
+  profilePicture?: File;
+  onProfilePictureChange: (file: File) => void;
+  // Progres unggah foto selama form dikirim
+  uploadPercent: number;
+}
+
+// Data diri, kata sandi, dan foto profil pada pendaftaran mandiri maupun
+// pendaftaran lewat undangan
+const RegistrationDetailsFields: FC<RegistrationDetailsFieldsProps> = ({
+  values,
+  errors,
+  identityField,
+  disabled,
+  onChange,
+  setFieldError,
+  clearErrors,
+  profilePicture,
+  onProfilePictureChange,
+  uploadPercent,
+}) => {
+  const { t } = useTranslation();
+  const [showPassword, setShowPassword] = useState(false);
+  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [profilePicturePreview, setProfilePicturePreview] = useState<
+    string | null
+  >(null);
+  // Foto asli yang sedang diatur di editor sebelum dipakai
+  const [pictureSource, setPictureSource] = useState<File | null>(null);
+
+  const handleProfilePictureChange = (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    // Reset agar file yang sama bisa dipilih ulang setelah batal
+    e.target.value = "";
+    if (file) {
+      const error = validateProfilePicture(file);
+      if (error) {
+        setFieldError("profilePicture", error);
+        return;
+      }
+
+      clearErrors("profilePicture");
+      setPictureSource(file);
+    }
+  };
+
+  const handlePictureCropped = (file: File) => {
+    setPictureSource(null);
+    onProfilePictureChange(file);
+  };
+
+  // Preview memakai object URL dari hasil crop, dilepas saat diganti
+  useEffect(() => {
+    if (!profilePicture) return;
+    const url = URL.createObjectURL(profilePicture);
+    setProfilePicturePreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [profilePicture]);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="name" className="text-sm font-medium text-gray-700">
+          {t("auth.register.name")}
+        </Label>
+        <div className="relative">
+          <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            id="name"
+            type="text"
+            placeholder={t("auth.register.namePlaceholder")}
+            className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+            value={values.name}
+            onChange={(e) => onChange("name", e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        {errors.name && (
+          <p className="text-sm text-destructive">{errors.name}</p>
+        )}
+      </div>
+      <div className="flex justify-between gap-2">
+        <div className="space-y-2 w-full">
+          <Label
+            htmlFor="nimOrNip"
+            className="text-sm font-medium text-gray-700"
+          >
+            {t(`fields.${identityField}`)}
+          </Label>
+          <div className="relative">
+            <IdCard className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              id="nimOrNip"
+              type="text"
+              placeholder={t("auth.register.identityPlaceholder", {
+                field: t(`fields.${identityField}`),
+              })}
+              className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base pr-10"
+              value={values[identityField]}
+              onChange={(e) => {
+                onChange(identityField, e.target.value);
+                clearErrors("nim", "nip");
+              }}
+              disabled={disabled}
+            />
+          </div>
+          {(errors.nim || errors.nip) && (
+            <p className="text-sm text-destructive">
+              {errors.nim || errors.nip}
+            </p>
+          )}
+        </div>
+        <div className="space-y-2 w-full">
+          <Label
+            htmlFor="phoneNumber"
+            className="text-sm font-medium text-gray-700"
+          >
+            {t("auth.register.phone")}
+          </Label>
+          <div className="relative">
+            <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              id="phoneNumber"
+              type="tel"
+              placeholder={t("auth.register.phonePlaceholder")}
+              className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base pr-10"
+              value={values.phoneNumber}
+              onChange={(e) => onChange("phoneNumber", e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          {errors.phoneNumber && (
+            <p className="text-sm text-destructive">{errors.phoneNumber}</p>
+          )}
+        </div>
+      </div>
+      <div className="flex justify-between gap-2">
+        <div className="space-y-2 w-full">
+          <Label
+            htmlFor="password"
+            className="text-sm font-medium text-gray-700"
+          >
+            {t("auth.password")}
+          </Label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              id="password"
+              type={showPassword ? "text" : "password"}
+              placeholder={t("auth.register.passwordPlaceholder")}
+              className="h-11 pl-10 pr-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+              value={values.password}
+              onChange={(e) => onChange("password", e.target.value)}
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              onClick={() => setShowPassword(!showPassword)}
+            >
+              {showPassword ? (
+                <EyeOffIcon className="h-4 w-4" />
+              ) : (
+                <EyeIcon className="h-4 w-4" />
+              )}
+            </button>
+          </div>
+          {errors.password && (
+            <p className="text-sm text-destructive">{errors.password}</p>
+          )}
+        </div>
+        <div className="space-y-2 w-full">
+          <Label
+            htmlFor="confirmPassword"
+            className="text-sm font-medium text-gray-700"
+          >
+            {t("auth.confirmPassword")}
+          </Label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              id="confirmPassword"
+              type={showConfirmPassword ? "text" : "password"}
+              placeholder={t("auth.confirmPasswordPlaceholder")}
+              className="h-11 pl-10 pr-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+              value={values.confirmPassword}
+              onChange={(e) => onChange("confirmPassword", e.target.value)}
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+            >
+              {showConfirmPassword ? (
+                <EyeOffIcon className="h-4 w-4" />
+              ) : (
+                <EyeIcon className="h-4 w-4" />
+              )}
+            </button>
+          </div>
+          {errors.confirmPassword && (
+            <p className="text-sm text-destructive">{errors.confirmPassword}</p>
+          )}
+        </div>
+      </div>
+      <div className="flex justify-center">
+        <div className="space-y-2 flex flex-col items-center">
+          <Label
+            htmlFor="profilePicture"
+            className="text-sm font-medium text-gray-700 text-center"
+          >
+            {t("auth.register.profilePicture")}
+          </Label>
+          <div className="flex flex-col justify-center items-center gap-4">
+            <div className="relative w-20 h-20 rounded-full overflow-hidden bg-gray-100 flex items-center justify-center border border-gray-300">
+              {profilePicturePreview ? (
+                <img
+                  src={profilePicturePreview}
+                  alt={t("auth.register.profilePreview")}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <User className="h-8 w-8 text-gray-400" />
+              )}
+            </div>
+            <div className="flex-1">
+              <Label
+                htmlFor="profilePicture"
+                className="cursor-pointer inline-flex items-center justify-center rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-env-base focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-gray-300 bg-white hover:bg-gray-50 hover:text-gray-700 h-11 px-4 py-2"
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {profilePicture
+                  ? t("auth.register.changePhoto")
+                  : t("auth.register.uploadPhoto")}
+                <input
+                  id="profilePicture"
+                  type="file"
+                  accept="image/*"
+                  className="sr-only"
+                  onChange={handleProfilePictureChange}
+                  disabled={disabled}
+                />
+              </Label>
+              <p className="text-xs text-gray-600 mt-1 text-center">
+                {t("auth.register.photoHint")}
+              </p>
+            </div>
+          </div>
+        </div>
+        {errors.profilePicture && (
+          <p className="text-sm text-destructive">{errors.profilePicture}</p>
+        )}
+      </div>
+      {disabled && profilePicture && <UploadProgress value={uploadPercent} />}
+      <AvatarEditor
+        file={pictureSource}
+        onCancel={() => setPictureSource(null)}
+        onConfirm={handlePictureCropped}
+      />
+    </>
+  );
+};
+
+export default RegistrationDetailsFields;
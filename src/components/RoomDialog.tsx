@@ -0,0 +1,153 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  FormErrors,
+  firstErrors,
+  ROOM_MAX_CAPACITY,
+  roomSchema,
+} from "@/lib/validations";
+import { createRoom, updateRoom } from "@/services/api/seminars";
+import { Room, RoomRequest } from "@/types/seminars";
+
+interface RoomDialogProps {
+  // Kosong untuk ruang baru
+  room?: Room | null;
+  onClose: () => void;
+}
+
+const RoomDialog: FC<RoomDialogProps> = ({ room, onClose }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(room?.name ?? "");
+  const [capacity, setCapacity] = useState(String(room?.capacity ?? ""));
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: (data: RoomRequest) =>
+      room ? updateRoom(room.id, data) : createRoom(data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["seminars"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const result = roomSchema.safeParse({ name, capacity: Number(capacity) });
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+    mutation.mutate(result.data);
+  };
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {room
+                ? t("seminars.rooms.editTitle")
+                : t("seminars.rooms.createTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("seminars.rooms.formDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="room-name">{t("fields.name")}</Label>
+            <Input
+              id="room-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setErrors((prev) => ({ ...prev, name: undefined }));
+              }}
+              maxLength={100}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.name}
+              autoFocus
+            />
+            {errors.name && (
+              <p className="text-sm text-destructive">{errors.name}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="room-capacity">{t("fields.capacity")}</Label>
+            <Input
+              id="room-capacity"
+              type="number"
+              min={1}
+              max={ROOM_MAX_CAPACITY}
+              value={capacity}
+              onChange={(e) => {
+                setCapacity(e.target.value);
+                setErrors((prev) => ({ ...prev, capacity: undefined }));
+              }}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.capacity}
+            />
+            {errors.capacity && (
+              <p className="text-sm text-destructive">{errors.capacity}</p>
+            )}
+          </div>
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("seminars.rooms.saving")}
+                </>
+              ) : (
+                t("seminars.rooms.submit")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RoomDialog;
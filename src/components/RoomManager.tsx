@@ -0,0 +1,125 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import RoomDialog from "@/components/RoomDialog";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { deleteRoom } from "@/services/api/seminars";
+import { Room } from "@/types/seminars";
+
+interface RoomManagerProps {
+  rooms: Room[];
+}
+
+// Daftar ruang seminar yang dikelola koordinator
+const RoomManager: FC<RoomManagerProps> = ({ rooms }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  // null: dialog tertutup, "new": ruang baru
+  const [editing, setEditing] = useState<Room | "new" | null>(null);
+  const [deleting, setDeleting] = useState<Room | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteRoom,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["seminars"] });
+      toaster.success(data.message);
+      setDeleting(null);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+      setDeleting(null);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{t("seminars.rooms.title")}</CardTitle>
+          <CardDescription>{t("seminars.rooms.description")}</CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setEditing("new")}>
+          <Plus className="h-4 w-4" />
+          {t("seminars.rooms.add")}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {rooms.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("seminars.rooms.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {rooms.map((room) => (
+              <li
+                key={room.id}
+                className="flex items-center justify-between gap-4 py-3 text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{room.name}</p>
+                  <p className="text-gray-600">
+                    {t("seminars.rooms.capacity", { count: room.capacity })}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t("seminars.rooms.edit")}
+                    onClick={() => setEditing(room)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">{t("seminars.rooms.edit")}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t("seminars.rooms.remove")}
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => setDeleting(room)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">
+                      {t("seminars.rooms.remove")}
+                    </span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {editing && (
+        <RoomDialog
+          room={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <ConfirmDialog
+        open={!!deleting}
+        title={t("seminars.rooms.deleteTitle")}
+        description={t("seminars.rooms.deleteConfirm", {
+          name: deleting?.name,
+        })}
+        confirmLabel={t("seminars.rooms.remove")}
+        destructive
+        isPending={deleteMutation.isPending}
+        onConfirm={() => deleting && deleteMutation.mutate(deleting.id)}
+        onCancel={() => setDeleting(null)}
+      />
+    </Card>
+  );
+};
+
+export default RoomManager;
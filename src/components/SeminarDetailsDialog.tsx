@@ -0,0 +1,92 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import useAuth from "@/hooks/useAuth";
+import { formatDate } from "@/i18n/format";
+import { formatTimeRange } from "@/lib/appointments";
+import { seminarRoleOf } from "@/lib/seminars";
+import { Seminar } from "@/types/seminars";
+
+interface SeminarDetailsDialogProps {
+  seminar: Seminar;
+  onClose: () => void;
+}
+
+// Rincian jadwal yang sudah diumumkan untuk mahasiswa, pembimbing, dan penguji
+const SeminarDetailsDialog: FC<SeminarDetailsDialogProps> = ({
+  seminar,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { auth } = useAuth();
+  const role = seminarRoleOf(seminar, auth.user?.id);
+
+  const rows = [
+    {
+      label: t("seminars.details.time"),
+      value: `${formatDate(seminar.start, { dateStyle: "full" })}, ${formatTimeRange(
+        seminar.start,
+        seminar.end
+      )}`,
+    },
+    { label: t("fields.roomId"), value: seminar.room.name },
+    {
+      label: t("fields.studentId"),
+      value: [seminar.student.name, seminar.student.nim]
+        .filter(Boolean)
+        .join(" · "),
+    },
+    { label: t("fields.title"), value: seminar.title },
+    {
+      label: t("seminars.details.supervisors"),
+      value: seminar.supervisors.map((item) => item.name).join("\n"),
+    },
+    {
+      label: t("fields.examinerIds"),
+      value: seminar.examiners.map((item) => item.name).join("\n"),
+    },
+  ];
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex flex-wrap items-center gap-2">
+            {t(`seminars.types.${seminar.type}`)}
+            {role && (
+              <Badge variant="info">{t(`seminars.roles.${role}`)}</Badge>
+            )}
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <dl className="space-y-2 text-sm">
+              {rows.map((row) => (
+                <div key={row.label}>
+                  <dt className="text-gray-500">{row.label}</dt>
+                  <dd className="whitespace-pre-line text-gray-900">
+                    {row.value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("seminars.details.close")}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SeminarDetailsDialog;
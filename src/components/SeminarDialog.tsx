@@ -0,0 +1,590 @@
+import { FC, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { CircleCheck, Loader2, Sparkles, TriangleAlert } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import useDebouncedValue from "@/hooks/useDebouncedValue";
+import { formatDate } from "@/i18n/format";
+import {
+  combineDateTime,
+  formatTimeRange,
+  toTimeValue,
+} from "@/lib/appointments";
+import { toDateValue } from "@/lib/logbook";
+import {
+  fromMinutes,
+  SCHEDULE_END_TIME,
+  SCHEDULE_START_TIME,
+  SCHEDULE_STEP_MINUTES,
+  SEMINAR_TYPES,
+  seminarDurations,
+  seminarStatusVariants,
+  toMinutes,
+} from "@/lib/seminars";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  FormErrors,
+  firstErrors,
+  SEMINAR_MAX_EXAMINERS,
+  seminarSchema,
+} from "@/lib/validations";
+import {
+  checkSeminarConflicts,
+  createSeminar,
+  suggestSeminarSlots,
+  updateSeminar,
+} from "@/services/api/seminars";
+import {
+  Room,
+  Seminar,
+  SeminarOptionsResponse,
+  SeminarRequest,
+  SeminarSuggestion,
+  SeminarType,
+} from "@/types/seminars";
+
+interface SeminarDialogProps {
+  // Kosong untuk jadwal baru
+  seminar?: Seminar | null;
+  options: SeminarOptionsResponse;
+  rooms: Room[];
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+interface SeminarFormState {
+  type: SeminarType;
+  studentId: number;
+  roomId: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+  examinerIds: number[];
+}
+
+const DEFAULT_START_TIME = "09:00";
+
+const toFormState = (
+  seminar: Seminar | null | undefined,
+  rooms: Room[]
+): SeminarFormState =>
+  seminar
+    ? {
+        type: seminar.type,
+        studentId: seminar.student.id,
+        roomId: seminar.room.id,
+        date: toDateValue(new Date(seminar.start)),
+        startTime: toTimeValue(new Date(seminar.start)),
+        endTime: toTimeValue(new Date(seminar.end)),
+        examinerIds: seminar.examiners.map((examiner) => examiner.id),
+      }
+    : {
+        type: "PROPOSAL",
+        studentId: 0,
+        roomId: rooms[0]?.id ?? 0,
+        date: "",
+        startTime: DEFAULT_START_TIME,
+        endTime: fromMinutes(
+          toMinutes(DEFAULT_START_TIME) + seminarDurations.PROPOSAL
+        ),
+        examinerIds: [],
+      };
+
+const toRequest = (form: SeminarFormState): SeminarRequest => ({
+  type: form.type,
+  studentId: form.studentId,
+  roomId: form.roomId,
+  start: combineDateTime(form.date, form.startTime).toISOString(),
+  end: combineDateTime(form.date, form.endTime).toISOString(),
+  examinerIds: form.examinerIds,
+});
+
+// Server memakai start/end, sedangkan form memisahkan tanggal dan jam
+const toFormErrors = (fieldErrors: Record<string, string>): FormErrors => ({
+  ...fieldErrors,
+  startTime: fieldErrors.start,
+  endTime: fieldErrors.end,
+});
+
+// Form jadwal seminar untuk koordinator. Bentrok diperiksa ulang setiap kali
+// isian lengkap berubah, dan waktu kosong terdekat bisa dicari sekali klik
+const SeminarDialog: FC<SeminarDialogProps> = ({
+  seminar,
+  options,
+  rooms,
+  onDelete,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(() => toFormState(seminar, rooms));
+  const [errors, setErrors] = useState<FormErrors>({});
+  // Bentrok dari respons simpan, menggantikan hasil pemeriksaan otomatis
+  const [savedConflicts, setSavedConflicts] = useState<string[] | null>(null);
+  const [suggestions, setSuggestions] = useState<SeminarSuggestion[] | null>(
+    null
+  );
+
+  // Mahasiswa pada jadwal lama bisa saja sudah tidak ada di daftar pilihan,
+  // misalnya karena pembimbingnya dilepas
+  const listed = options.students.find((item) => item.id === form.studentId);
+  const student =
+    listed ??
+    (seminar?.student.id === form.studentId
+      ? {
+          ...seminar.student,
+          title: seminar.title,
+          supervisors: seminar.supervisors,
+        }
+      : undefined);
+  const supervisorIds = student?.supervisors.map((item) => item.id) ?? [];
+  const examiners = options.examiners.filter(
+    (item) => !supervisorIds.includes(item.id)
+  );
+
+  const parsed = seminarSchema.safeParse(form);
+  // Pemeriksaan bentrok menunggu isian berhenti berubah sejenak
+  const checkedForm = useDebouncedValue(form);
+  const checkPayload = seminarSchema.safeParse(checkedForm).success
+    ? { ...toRequest(checkedForm), seminarId: seminar?.id }
+    : null;
+  const checkQuery = useQuery({
+    queryKey: ["seminars", "check", checkPayload],
+    queryFn: () => checkSeminarConflicts(checkPayload!),
+    enabled: !!checkPayload,
+    retry: false,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SeminarRequest) =>
+      seminar ? updateSeminar(seminar.id, data) : createSeminar(data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["seminars"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      if (apiError.code === "SCHEDULE_CONFLICT") {
+        setSavedConflicts(Object.values(apiError.fieldErrors));
+      } else {
+        setErrors(toFormErrors(apiError.fieldErrors));
+      }
+      toaster.error(apiError.message);
+    },
+  });
+
+  const suggestMutation = useMutation({
+    mutationFn: suggestSeminarSlots,
+    onSuccess: (data) => setSuggestions(data.suggestions),
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(toFormErrors(apiError.fieldErrors));
+      toaster.error(apiError.message);
+    },
+  });
+
+  const isBusy = saveMutation.isPending;
+  const duration =
+    form.startTime && form.endTime > form.startTime
+      ? toMinutes(form.endTime) - toMinutes(form.startTime)
+      : seminarDurations[form.type];
+
+  const updateForm = (patch: Partial<SeminarFormState>) => {
+    setForm((prev) => ({ ...prev, ...patch }));
+    setErrors((prev) => ({
+      ...prev,
+      ...Object.fromEntries(Object.keys(patch).map((key) => [key, undefined])),
+    }));
+    setSavedConflicts(null);
+  };
+
+  // Durasi dipertahankan saat jam mulai digeser
+  const changeStartTime = (startTime: string) =>
+    updateForm({
+      startTime,
+      endTime: startTime ? fromMinutes(toMinutes(startTime) + duration) : "",
+    });
+
+  const changeType = (type: SeminarType) =>
+    updateForm({
+      type,
+      endTime: form.startTime
+        ? fromMinutes(toMinutes(form.startTime) + seminarDurations[type])
+        : form.endTime,
+    });
+
+  // Pembimbing mahasiswa baru tidak boleh tetap tercentang sebagai penguji
+  const changeStudent = (studentId: number) => {
+    const next = options.students.find((item) => item.id === studentId);
+    const nextSupervisorIds = next?.supervisors.map((item) => item.id) ?? [];
+    updateForm({
+      studentId,
+      examinerIds: form.examinerIds.filter(
+        (id) => !nextSupervisorIds.includes(id)
+      ),
+    });
+    setSuggestions(null);
+  };
+
+  const toggleExaminer = (id: number, checked: boolean) => {
+    updateForm({
+      examinerIds: checked
+        ? [...form.examinerIds, id]
+        : form.examinerIds.filter((item) => item !== id),
+    });
+    setSuggestions(null);
+  };
+
+  const findSuggestions = () =>
+    suggestMutation.mutate({
+      seminarId: seminar?.id,
+      studentId: form.studentId,
+      examinerIds: form.examinerIds,
+      roomId: null,
+      durationMinutes: duration,
+    });
+
+  const applySuggestion = (suggestion: SeminarSuggestion) => {
+    const start = new Date(suggestion.start);
+    updateForm({
+      roomId: suggestion.room.id,
+      date: toDateValue(start),
+      startTime: toTimeValue(start),
+      endTime: toTimeValue(new Date(suggestion.end)),
+    });
+    setSuggestions(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBusy) return;
+
+    if (!parsed.success) {
+      setErrors(firstErrors(parsed.error.flatten().fieldErrors));
+      return;
+    }
+    saveMutation.mutate(toRequest(form));
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && (
+      <p className="text-sm text-destructive">{errors[field]}</p>
+    );
+
+  const conflicts =
+    savedConflicts ??
+    checkQuery.data?.conflicts.map(
+      (conflict) =>
+        `${t(`seminars.conflictTypes.${conflict.type}`)}: ${conflict.message}`
+    );
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex flex-wrap items-center gap-2">
+              {seminar
+                ? t("seminars.form.editTitle")
+                : t("seminars.form.createTitle")}
+              {seminar && (
+                <Badge variant={seminarStatusVariants[seminar.status]}>
+                  {t(`seminars.status.${seminar.status}`)}
+                </Badge>
+              )}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {seminar?.status === "PUBLISHED"
+                ? t("seminars.form.editPublished")
+                : t("seminars.form.description")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="seminar-type">{t("fields.type")}</Label>
+              <NativeSelect
+                id="seminar-type"
+                value={form.type}
+                onChange={(e) => changeType(e.target.value as SeminarType)}
+                disabled={isBusy}
+              >
+                {SEMINAR_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {t(`seminars.types.${type}`)}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="seminar-student">{t("fields.studentId")}</Label>
+              <NativeSelect
+                id="seminar-student"
+                value={form.studentId || ""}
+                onChange={(e) => changeStudent(Number(e.target.value))}
+                disabled={isBusy}
+                aria-invalid={!!errors.studentId}
+              >
+                <option value="">{t("seminars.form.selectStudent")}</option>
+                {student && !listed && (
+                  <option value={student.id}>{student.name}</option>
+                )}
+                {options.students.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {[item.name, item.nim].filter(Boolean).join(" · ")}
+                  </option>
+                ))}
+              </NativeSelect>
+              {fieldError("studentId")}
+            </div>
+          </div>
+
+          {student && (
+            <div className="rounded-md bg-gray-50 px-3 py-2 text-sm">
+              <p className="font-medium text-gray-900">{student.title}</p>
+              <p className="text-gray-600">
+                {t("seminars.form.supervisors")}:{" "}
+                {student.supervisors.map((item) => item.name).join(", ")}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{t("fields.examinerIds")}</Label>
+            <p className="text-xs text-gray-500">
+              {t("seminars.form.examinersHint", {
+                maximum: SEMINAR_MAX_EXAMINERS,
+              })}
+            </p>
+            <div className="grid max-h-40 gap-2 overflow-y-auto rounded-md border border-gray-200 p-3 sm:grid-cols-2">
+              {examiners.map((examiner) => {
+                const checked = form.examinerIds.includes(examiner.id);
+                return (
+                  <label
+                    key={examiner.id}
+                    className="flex items-center gap-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-env-base"
+                      checked={checked}
+                      onChange={(e) =>
+                        toggleExaminer(examiner.id, e.target.checked)
+                      }
+                      disabled={
+                        isBusy ||
+                        (!checked &&
+                          form.examinerIds.length >= SEMINAR_MAX_EXAMINERS)
+                      }
+                    />
+                    {examiner.name}
+                  </label>
+                );
+              })}
+            </div>
+            {fieldError("examinerIds")}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="seminar-room">{t("fields.roomId")}</Label>
+              <NativeSelect
+                id="seminar-room"
+                value={form.roomId || ""}
+                onChange={(e) => updateForm({ roomId: Number(e.target.value) })}
+                disabled={isBusy}
+                aria-invalid={!!errors.roomId}
+              >
+                <option value="">{t("seminars.form.selectRoom")}</option>
+                {rooms.map((room) => (
+                  <option key={room.id} value={room.id}>
+                    {t("seminars.rooms.option", {
+                      name: room.name,
+                      count: room.capacity,
+                    })}
+                  </option>
+                ))}
+              </NativeSelect>
+              {fieldError("roomId")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="seminar-date">{t("fields.date")}</Label>
+              <Input
+                id="seminar-date"
+                type="date"
+                min={toDateValue()}
+                value={form.date}
+                onChange={(e) => updateForm({ date: e.target.value })}
+                disabled={isBusy}
+                aria-invalid={!!errors.date}
+              />
+              {fieldError("date")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="seminar-start">{t("fields.startTime")}</Label>
+              <Input
+                id="seminar-start"
+                type="time"
+                min={SCHEDULE_START_TIME}
+                max={SCHEDULE_END_TIME}
+                step={SCHEDULE_STEP_MINUTES * 60}
+                value={form.startTime}
+                onChange={(e) => changeStartTime(e.target.value)}
+                disabled={isBusy}
+                aria-invalid={!!errors.startTime}
+              />
+              {fieldError("startTime")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="seminar-end">{t("fields.endTime")}</Label>
+              <Input
+                id="seminar-end"
+                type="time"
+                min={SCHEDULE_START_TIME}
+                max={SCHEDULE_END_TIME}
+                step={SCHEDULE_STEP_MINUTES * 60}
+                value={form.endTime}
+                onChange={(e) => updateForm({ endTime: e.target.value })}
+                disabled={isBusy}
+                aria-invalid={!!errors.endTime}
+              />
+              {fieldError("endTime")}
+            </div>
+          </div>
+
+          {checkQuery.isFetching && !savedConflicts ? (
+            <p className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t("seminars.form.checking")}
+            </p>
+          ) : conflicts && conflicts.length > 0 ? (
+            <Alert variant="destructive">
+              <TriangleAlert />
+              <AlertTitle>{t("seminars.form.conflicts")}</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc space-y-1 pl-4">
+                  {conflicts.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          ) : conflicts ? (
+            <Alert variant="success">
+              <CircleCheck />
+              <AlertDescription>
+                {t("seminars.form.noConflicts")}
+              </AlertDescription>
+            </Alert>
+          ) : checkQuery.isError ? (
+            <p className="text-sm text-destructive">
+              {toApiError(checkQuery.error).message}
+            </p>
+          ) : null}
+
+          <div className="space-y-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={findSuggestions}
+              disabled={
+                isBusy ||
+                suggestMutation.isPending ||
+                !form.studentId ||
+                form.examinerIds.length === 0
+              }
+            >
+              {suggestMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4" />
+              )}
+              {t("seminars.form.suggest")}
+            </Button>
+            {suggestions &&
+              (suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {t("seminars.form.noSuggestions")}
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {suggestions.map((suggestion) => (
+                    <Button
+                      key={`${suggestion.start}-${suggestion.room.id}`}
+                      type="button"
+                      variant="ghost"
+                      className="h-auto flex-col items-start border border-jewel-green/40 bg-pastel-green/30 px-3 py-1.5 text-left text-xs text-jewel-green"
+                      onClick={() => applySuggestion(suggestion)}
+                    >
+                      <span className="font-semibold">
+                        {formatDate(suggestion.start, {
+                          weekday: "short",
+                          day: "numeric",
+                          month: "short",
+                        })}
+                        , {formatTimeRange(suggestion.start, suggestion.end)}
+                      </span>
+                      <span>{suggestion.room.name}</span>
+                    </Button>
+                  ))}
+                </div>
+              ))}
+          </div>
+
+          <AlertDialogFooter className="flex-wrap gap-2">
+            {seminar && onDelete && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-destructive hover:text-destructive sm:mr-auto"
+                onClick={onDelete}
+                disabled={isBusy}
+              >
+                {t("seminars.form.delete")}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isBusy}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={isBusy}
+            >
+              {isBusy ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("seminars.form.saving")}
+                </>
+              ) : (
+                t("seminars.form.submit")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SeminarDialog;
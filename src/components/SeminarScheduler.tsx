@@ -0,0 +1,310 @@
+import { DragEvent, FC, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDate } from "@/i18n/format";
+import {
+  addDays,
+  combineDateTime,
+  formatTimeRange,
+  startOfWeek,
+} from "@/lib/appointments";
+import { toDateValue } from "@/lib/logbook";
+import {
+  durationMinutes,
+  fromMinutes,
+  isSeminarClosed,
+  layoutColumns,
+  minutesOfDay,
+  SCHEDULE_DAYS,
+  SCHEDULE_END_TIME,
+  SCHEDULE_START_TIME,
+  SCHEDULE_STEP_MINUTES,
+  toMinutes,
+} from "@/lib/seminars";
+import { cn } from "@/lib/utils";
+import { Seminar } from "@/types/seminars";
+
+interface SeminarSchedulerProps {
+  anchor: Date;
+  seminars: Seminar[];
+  isLoading?: boolean;
+  // Id jadwal yang sedang dipindahkan, ditampilkan samar sampai selesai
+  movingId?: number | null;
+  onAnchorChange: (anchor: Date) => void;
+  onSelect: (seminar: Seminar) => void;
+  onMove: (seminar: Seminar, start: Date) => void;
+}
+
+// Tinggi satu baris SCHEDULE_STEP_MINUTES dalam piksel
+const ROW_HEIGHT = 28;
+const DAY_START = toMinutes(SCHEDULE_START_TIME);
+const DAY_END = toMinutes(SCHEDULE_END_TIME);
+const ROWS = (DAY_END - DAY_START) / SCHEDULE_STEP_MINUTES;
+
+interface DragState {
+  seminar: Seminar;
+  // Jarak titik pegangan dari awal jadwal, dalam jumlah baris
+  grabRows: number;
+}
+
+interface DropTarget {
+  date: string;
+  minutes: number;
+}
+
+const statusClasses = {
+  DRAFT:
+    "border-dashed border-jewel-yellow bg-pastel-yellow/60 text-jewel-yellow",
+  PUBLISHED: "border-env-base bg-env-lighter text-env-darker",
+};
+
+// Grid pekan Senin-Jumat; jadwal bisa diseret ke hari atau jam lain dan
+// pemindahannya diperiksa ulang oleh server
+const SeminarScheduler: FC<SeminarSchedulerProps> = ({
+  anchor,
+  seminars,
+  isLoading,
+  movingId,
+  onAnchorChange,
+  onSelect,
+  onMove,
+}) => {
+  const { t } = useTranslation();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const monday = startOfWeek(anchor);
+  const days = Array.from({ length: SCHEDULE_DAYS }, (_, index) =>
+    addDays(monday, index)
+  );
+  const today = toDateValue();
+
+  const seminarsByDate = new Map<string, Seminar[]>();
+  seminars.forEach((seminar) => {
+    const date = toDateValue(new Date(seminar.start));
+    seminarsByDate.set(date, [...(seminarsByDate.get(date) ?? []), seminar]);
+  });
+
+  // Baris tujuan dihitung dari posisi kursor dikurangi titik pegangan,
+  // lalu dibatasi agar jadwal tidak keluar dari jam kerja
+  const targetMinutes = (e: DragEvent<HTMLDivElement>, state: DragState) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const row =
+      Math.floor((e.clientY - rect.top) / ROW_HEIGHT) - state.grabRows;
+    const minutes = DAY_START + row * SCHEDULE_STEP_MINUTES;
+    const duration = durationMinutes(state.seminar.start, state.seminar.end);
+    return Math.min(Math.max(minutes, DAY_START), DAY_END - duration);
+  };
+
+  const endDrag = () => {
+    setDrag(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, date: string) => {
+    e.preventDefault();
+    if (!drag) return;
+    const start = combineDateTime(date, fromMinutes(targetMinutes(e, drag)));
+    if (start.getTime() !== new Date(drag.seminar.start).getTime()) {
+      onMove(drag.seminar, start);
+    }
+    endDrag();
+  };
+
+  const title = `${formatDate(days[0], { day: "numeric", month: "short" })} – ${formatDate(
+    days[days.length - 1],
+    { dateStyle: "medium" }
+  )}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onAnchorChange(addDays(anchor, -7))}
+        >
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">{t("appointments.calendar.previous")}</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onAnchorChange(addDays(anchor, 7))}
+        >
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">{t("appointments.calendar.next")}</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onAnchorChange(new Date())}
+        >
+          {t("appointments.calendar.today")}
+        </Button>
+        <h2 className="ml-2 font-semibold text-gray-900">{title}</h2>
+        {isLoading && (
+          <Loader2 className="h-4 w-4 animate-spin text-env-base" />
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="grid min-w-[720px] grid-cols-[3.5rem_repeat(5,minmax(0,1fr))]">
+          <div />
+          {days.map((day) => (
+            <p
+              key={toDateValue(day)}
+              className={cn(
+                "pb-2 text-center text-xs font-medium text-gray-500",
+                toDateValue(day) === today && "text-env-base"
+              )}
+            >
+              {formatDate(day, {
+                weekday: "short",
+                day: "numeric",
+                month: "short",
+              })}
+            </p>
+          ))}
+
+          <div className="relative" style={{ height: ROWS * ROW_HEIGHT }}>
+            {Array.from({ length: ROWS / 2 }, (_, index) => (
+              <span
+                key={index}
+                className="absolute right-2 -translate-y-1/2 text-xs text-gray-400"
+                style={{ top: index * 2 * ROW_HEIGHT }}
+              >
+                {fromMinutes(DAY_START + index * 2 * SCHEDULE_STEP_MINUTES)}
+              </span>
+            ))}
+          </div>
+
+          {days.map((day) => {
+            const date = toDateValue(day);
+            const daySeminars = seminarsByDate.get(date) ?? [];
+            const layout = layoutColumns(daySeminars);
+            return (
+              <div
+                key={date}
+                className={cn(
+                  "relative border-l border-gray-200",
+                  date < today && "bg-gray-50"
+                )}
+                style={{ height: ROWS * ROW_HEIGHT }}
+                onDragOver={(e) => {
+                  if (!drag || date < today) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = "move";
+                  const minutes = targetMinutes(e, drag);
+                  if (
+                    dropTarget?.date !== date ||
+                    dropTarget.minutes !== minutes
+                  ) {
+                    setDropTarget({ date, minutes });
+                  }
+                }}
+                onDrop={(e) => handleDrop(e, date)}
+              >
+                {Array.from({ length: ROWS }, (_, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "border-t",
+                      index % 2 === 0 ? "border-gray-200" : "border-gray-100"
+                    )}
+                    style={{ height: ROW_HEIGHT }}
+                  />
+                ))}
+
+                {drag && dropTarget?.date === date && (
+                  <div
+                    className="pointer-events-none absolute inset-x-1 rounded-md border-2 border-dashed border-env-base bg-env-lighter/40"
+                    style={{
+                      top:
+                        ((dropTarget.minutes - DAY_START) /
+                          SCHEDULE_STEP_MINUTES) *
+                        ROW_HEIGHT,
+                      height:
+                        (durationMinutes(drag.seminar.start, drag.seminar.end) /
+                          SCHEDULE_STEP_MINUTES) *
+                        ROW_HEIGHT,
+                    }}
+                  />
+                )}
+
+                {daySeminars.map((seminar) => {
+                  const start = minutesOfDay(new Date(seminar.start));
+                  const { column, columns } = layout.get(seminar.id) ?? {
+                    column: 0,
+                    columns: 1,
+                  };
+                  const closed = isSeminarClosed(seminar);
+                  return (
+                    <button
+                      key={seminar.id}
+                      type="button"
+                      draggable={!closed && movingId !== seminar.id}
+                      onDragStart={(e) => {
+                        const rect = e.currentTarget.getBoundingClientRect();
+                        e.dataTransfer.effectAllowed = "move";
+                        e.dataTransfer.setData(
+                          "text/plain",
+                          String(seminar.id)
+                        );
+                        setDrag({
+                          seminar,
+                          grabRows: Math.floor(
+                            (e.clientY - rect.top) / ROW_HEIGHT
+                          ),
+                        });
+                      }}
+                      onDragEnd={endDrag}
+                      onClick={() => onSelect(seminar)}
+                      title={`${t(`seminars.types.${seminar.type}`)} · ${seminar.student.name}`}
+                      className={cn(
+                        "absolute overflow-hidden rounded-md border px-1.5 py-1 text-left text-xs transition-opacity hover:brightness-95",
+                        statusClasses[seminar.status],
+                        closed ? "cursor-pointer opacity-60" : "cursor-grab",
+                        (drag?.seminar.id === seminar.id ||
+                          movingId === seminar.id) &&
+                          "opacity-40"
+                      )}
+                      style={{
+                        top:
+                          ((start - DAY_START) / SCHEDULE_STEP_MINUTES) *
+                          ROW_HEIGHT,
+                        height:
+                          (durationMinutes(seminar.start, seminar.end) /
+                            SCHEDULE_STEP_MINUTES) *
+                            ROW_HEIGHT -
+                          2,
+                        left: `calc(${(column / columns) * 100}% + 2px)`,
+                        width: `calc(${100 / columns}% - 4px)`,
+                      }}
+                    >
+                      <span className="block font-semibold">
+                        {formatTimeRange(seminar.start, seminar.end)}
+                      </span>
+                      <span className="block truncate">
+                        {t(`seminars.types.${seminar.type}`)}
+                      </span>
+                      <span className="block truncate">
+                        {seminar.student.name}
+                      </span>
+                      <span className="block truncate opacity-80">
+                        {seminar.room.name}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeminarScheduler;
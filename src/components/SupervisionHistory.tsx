@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { formatDateTime } from "@/i18n/format";
+import { SUPERVISIONS_REFETCH_INTERVAL } from "@/lib/supervision";
+import { getSupervisionHistory } from "@/services/api/supervision";
+
+// Riwayat setiap pergantian pembimbing, terbaru di atas
+const SupervisionHistory = () => {
+  const { t } = useTranslation();
+
+  const refetchInterval = usePollingInterval(SUPERVISIONS_REFETCH_INTERVAL);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["supervisions", "history"],
+    queryFn: getSupervisionHistory,
+    refetchInterval,
+  });
+
+  const changes = data?.changes ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("supervision.history.title")}</CardTitle>
+        <CardDescription>{t("supervision.history.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="mx-auto my-6 h-5 w-5 animate-spin text-env-base" />
+        ) : isError ? (
+          <p className="py-4 text-center text-sm text-destructive">
+            {t("supervision.history.loadFailed")}
+          </p>
+        ) : changes.length === 0 ? (
+          <p className="py-4 text-center text-sm text-gray-500">
+            {t("supervision.history.empty")}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {changes.map((change) => (
+              <li
+                key={change.id}
+                className="flex flex-wrap items-center justify-between gap-2 py-3"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium text-gray-900">
+                    {change.student.name}{" "}
+                    <Badge variant="secondary" className="ml-1">
+                      {t(`supervision.positions.${change.position}`)}
+                    </Badge>
+                  </p>
+                  <p className="flex flex-wrap items-center gap-1 text-gray-700">
+                    {change.previous?.name ?? t("supervision.unassigned")}
+                    <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                    {change.next?.name ?? t("supervision.unassigned")}
+                  </p>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {t("supervision.history.changedBy", {
+                    name: change.changedBy,
+                    date: formatDateTime(change.createdAt),
+                  })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SupervisionHistory;
@@ -0,0 +1,156 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+import { updateSupervisionSettings } from "@/services/api/supervision";
+import { SupervisorLoad } from "@/types/supervision";
+
+interface SupervisorLoadCardProps {
+  supervisors: SupervisorLoad[];
+  // Beban termasuk perubahan yang belum disimpan
+  loads: Map<number, number>;
+  maxLoad: number;
+}
+
+// Beban bimbingan dan bidang keahlian setiap dosen, serta kuota maksimalnya
+const SupervisorLoadCard: FC<SupervisorLoadCardProps> = ({
+  supervisors,
+  loads,
+  maxLoad,
+}) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  // null berarti belum diubah, tampilkan nilai dari server
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string>();
+
+  const mutation = useMutation({
+    mutationFn: updateSupervisionSettings,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["supervisions"] });
+      setDraft(null);
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setError(apiError.fieldErrors.maxLoad);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft === null || mutation.isPending) return;
+    mutation.mutate({ maxLoad: Number(draft) });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{t("supervision.loads.title")}</CardTitle>
+          <CardDescription>{t("supervision.loads.subtitle")}</CardDescription>
+        </div>
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="supervision-max-load">
+              {t("supervision.loads.maxLoad")}
+            </Label>
+            <Input
+              id="supervision-max-load"
+              type="number"
+              min={1}
+              className="w-24"
+              value={draft ?? String(maxLoad)}
+              onChange={(e) => {
+                setDraft(e.target.value);
+                setError(undefined);
+              }}
+              disabled={mutation.isPending}
+              aria-invalid={!!error}
+            />
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={draft === null || mutation.isPending}
+          >
+            {mutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            {t("supervision.loads.saveQuota")}
+          </Button>
+        </form>
+        {error && <p className="w-full text-sm text-destructive">{error}</p>}
+      </CardHeader>
+      <CardContent>
+        <ul className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+          {supervisors.map((supervisor) => {
+            const load = loads.get(supervisor.id) ?? 0;
+            const over = load > maxLoad;
+            return (
+              <li
+                key={supervisor.id}
+                className={cn(
+                  "space-y-2 rounded-md border border-gray-200 p-3 text-sm",
+                  over && "border-jewel-red/40 bg-pastel-red/20"
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium text-gray-900">{supervisor.name}</p>
+                  <span
+                    className={cn(
+                      "flex items-center gap-1 whitespace-nowrap font-semibold",
+                      over ? "text-jewel-red" : "text-gray-700"
+                    )}
+                  >
+                    {over && <AlertTriangle className="h-4 w-4" />}
+                    {t("supervision.loads.count", { load, maxLoad })}
+                  </span>
+                </div>
+                <div className="h-1.5 overflow-hidden rounded-full bg-gray-100">
+                  <div
+                    className={cn(
+                      "h-full rounded-full",
+                      over ? "bg-jewel-red" : "bg-env-base"
+                    )}
+                    style={{
+                      width: `${Math.min(100, (load / maxLoad) * 100)}%`,
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  {t("supervision.loads.breakdown", {
+                    primary: supervisor.primaryCount,
+                    secondary: supervisor.secondaryCount,
+                  })}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {supervisor.expertise.map((field) => (
+                    <Badge key={field} variant="secondary">
+                      {t(`proposals.researchFields.${field}`)}
+                    </Badge>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SupervisorLoadCard;
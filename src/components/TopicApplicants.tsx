@@ -0,0 +1,180 @@
+import { FC, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Check, Loader2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { formatDateTime } from "@/i18n/format";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  isTopicFull,
+  topicApplicationStatusVariants,
+  TOPICS_REFETCH_INTERVAL,
+} from "@/lib/topics";
+import {
+  decideTopicApplication,
+  listTopicApplications,
+} from "@/services/api/topics";
+import {
+  Topic,
+  TopicApplication,
+  TopicApplicationDecision,
+} from "@/types/topics";
+
+interface TopicApplicantsProps {
+  topic: Topic;
+}
+
+// Daftar pelamar satu topik; dosen menerima atau menolak sampai kuota penuh
+const TopicApplicants: FC<TopicApplicantsProps> = ({ topic }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<{
+    application: TopicApplication;
+    status: TopicApplicationDecision;
+  } | null>(null);
+
+  const refetchInterval = usePollingInterval(TOPICS_REFETCH_INTERVAL);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["topic-applications", "topic", topic.id],
+    queryFn: () => listTopicApplications(topic.id),
+    refetchInterval,
+  });
+
+  const mutation = useMutation({
+    mutationFn: ({
+      application,
+      status,
+    }: {
+      application: TopicApplication;
+      status: TopicApplicationDecision;
+    }) => decideTopicApplication(application.id, status),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["topics"] });
+      queryClient.invalidateQueries({ queryKey: ["topic-applications"] });
+      toaster.success(data.message);
+      setPending(null);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const applications = data?.applications ?? [];
+  const full = isTopicFull(topic);
+
+  if (isLoading) {
+    return (
+      <Loader2 className="mx-auto my-6 h-5 w-5 animate-spin text-env-base" />
+    );
+  }
+  if (isError) {
+    return (
+      <p className="py-4 text-center text-sm text-destructive">
+        {t("topics.applicants.loadFailed")}
+      </p>
+    );
+  }
+  if (applications.length === 0) {
+    return (
+      <p className="py-4 text-center text-sm text-gray-500">
+        {t("topics.applicants.empty")}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+        {applications.map((application) => (
+          <li key={application.id} className="space-y-2 p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {application.student.name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {[
+                    application.student.nim,
+                    formatDateTime(application.createdAt),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+              {application.status === "PENDING" ? (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setPending({ application, status: "DECLINED" })
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                    {t("topics.applicants.decline")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-env-base hover:bg-env-dark text-white"
+                    onClick={() =>
+                      setPending({ application, status: "ACCEPTED" })
+                    }
+                    disabled={full}
+                    title={full ? t("topics.full") : undefined}
+                  >
+                    <Check className="h-4 w-4" />
+                    {t("topics.applicants.accept")}
+                  </Button>
+                </div>
+              ) : (
+                <Badge
+                  variant={topicApplicationStatusVariants[application.status]}
+                >
+                  {t(`topics.applicationStatus.${application.status}`)}
+                </Badge>
+              )}
+            </div>
+            <p className="whitespace-pre-line text-gray-700">
+              {application.motivation}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      {pending && (
+        <ConfirmDialog
+          open
+          title={
+            pending.status === "ACCEPTED"
+              ? t("topics.applicants.acceptTitle")
+              : t("topics.applicants.declineTitle")
+          }
+          description={
+            pending.status === "ACCEPTED"
+              ? t("topics.applicants.acceptConfirm", {
+                  name: pending.application.student.name,
+                })
+              : t("topics.applicants.declineConfirm", {
+                  name: pending.application.student.name,
+                })
+          }
+          confirmLabel={
+            pending.status === "ACCEPTED"
+              ? t("topics.applicants.accept")
+              : t("topics.applicants.decline")
+          }
+          destructive={pending.status === "DECLINED"}
+          isPending={mutation.isPending}
+          onConfirm={() => mutation.mutate(pending)}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default TopicApplicants;
@@ -0,0 +1,77 @@
+import { FC, ReactNode } from "react";
+import { useTranslation } from "react-i18next";
+import { FlaskConical, User, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { isTopicFull } from "@/lib/topics";
+import { Topic } from "@/types/topics";
+
+interface TopicCardProps {
+  topic: Topic;
+  // Tombol aksi sesuai role yang melihat
+  actions?: ReactNode;
+  children?: ReactNode;
+}
+
+// Ringkasan topik penelitian yang ditawarkan dosen
+const TopicCard: FC<TopicCardProps> = ({ topic, actions, children }) => {
+  const { t } = useTranslation();
+  const full = isTopicFull(topic);
+
+  return (
+    <Card className="gap-4">
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <CardTitle className="leading-snug">{topic.title}</CardTitle>
+          <Badge variant={full ? "outline" : "success"}>
+            {full ? t("topics.full") : t("topics.open")}
+          </Badge>
+        </div>
+        <CardDescription className="flex flex-wrap gap-x-4 gap-y-1">
+          <span className="flex items-center gap-1">
+            <User className="h-3.5 w-3.5" />
+            {topic.lecturer.name}
+          </span>
+          <span className="flex items-center gap-1">
+            <FlaskConical className="h-3.5 w-3.5" />
+            {t(`proposals.researchFields.${topic.researchField}`)}
+          </span>
+          <span className="flex items-center gap-1">
+            <Users className="h-3.5 w-3.5" />
+            {t("topics.quota", {
+              accepted: topic.acceptedCount,
+              quota: topic.quota,
+            })}
+          </span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <p className="whitespace-pre-line text-gray-700">{topic.description}</p>
+        {topic.requiredSkills.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {topic.requiredSkills.map((skill) => (
+              <Badge key={skill} variant="secondary">
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {children}
+      </CardContent>
+      {actions && (
+        <CardFooter className="flex flex-wrap justify-end gap-2">
+          {actions}
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+export default TopicCard;
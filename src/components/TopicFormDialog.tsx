@@ -0,0 +1,225 @@
+import { FC, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { parseSkills } from "@/lib/topics";
+import {
+  FormErrors,
+  firstErrors,
+  TOPIC_MAX_QUOTA,
+  topicSchema,
+} from "@/lib/validations";
+import { createTopic, updateTopic } from "@/services/api/topics";
+import { ResearchField, researchFieldSchema } from "@/types/proposals";
+import { Topic, TopicRequest } from "@/types/topics";
+
+interface TopicFormDialogProps {
+  // Kosong untuk topik baru
+  topic?: Topic;
+  onClose: () => void;
+}
+
+interface TopicFormState {
+  title: string;
+  description: string;
+  quota: string;
+  requiredSkills: string;
+  researchField: ResearchField | "";
+}
+
+// Dosen menerbitkan atau mengubah topik penelitian
+const TopicFormDialog: FC<TopicFormDialogProps> = ({ topic, onClose }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState<TopicFormState>({
+    title: topic?.title ?? "",
+    description: topic?.description ?? "",
+    quota: String(topic?.quota ?? 1),
+    requiredSkills: topic?.requiredSkills.join(", ") ?? "",
+    researchField: topic?.researchField ?? "",
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: (data: TopicRequest) =>
+      topic ? updateTopic(topic.id, data) : createTopic(data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["topics"] });
+      toaster.success(data.message);
+      onClose();
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const updateField = (field: keyof TopicFormState, value: string) => {
+    setForm({ ...form, [field]: value });
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const data = {
+      title: form.title,
+      description: form.description,
+      quota: Number(form.quota),
+      requiredSkills: parseSkills(form.requiredSkills),
+      researchField: form.researchField || undefined,
+    };
+    const result = topicSchema.safeParse(data);
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    mutation.mutate(result.data);
+  };
+
+  const fieldError = (field: keyof TopicFormState) =>
+    errors[field] && (
+      <p className="text-sm text-destructive">{errors[field]}</p>
+    );
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !mutation.isPending && onClose()}
+    >
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {topic ? t("topics.form.editTitle") : t("topics.form.newTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("topics.form.description")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="topic-title">{t("fields.title")}</Label>
+            <Input
+              id="topic-title"
+              value={form.title}
+              onChange={(e) => updateField("title", e.target.value)}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.title}
+            />
+            {fieldError("title")}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="topic-description">{t("fields.description")}</Label>
+            <Textarea
+              id="topic-description"
+              rows={5}
+              value={form.description}
+              onChange={(e) => updateField("description", e.target.value)}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.description}
+            />
+            {fieldError("description")}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="topic-field">{t("fields.researchField")}</Label>
+              <NativeSelect
+                id="topic-field"
+                value={form.researchField}
+                onChange={(e) => updateField("researchField", e.target.value)}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.researchField}
+              >
+                <option value="">{t("proposals.form.chooseField")}</option>
+                {researchFieldSchema.options.map((field) => (
+                  <option key={field} value={field}>
+                    {t(`proposals.researchFields.${field}`)}
+                  </option>
+                ))}
+              </NativeSelect>
+              {fieldError("researchField")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="topic-quota">{t("fields.quota")}</Label>
+              <Input
+                id="topic-quota"
+                type="number"
+                min={1}
+                max={TOPIC_MAX_QUOTA}
+                value={form.quota}
+                onChange={(e) => updateField("quota", e.target.value)}
+                disabled={mutation.isPending}
+                aria-invalid={!!errors.quota}
+              />
+              {fieldError("quota")}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="topic-skills">{t("fields.requiredSkills")}</Label>
+            <Input
+              id="topic-skills"
+              value={form.requiredSkills}
+              onChange={(e) => updateField("requiredSkills", e.target.value)}
+              placeholder={t("topics.form.skillsPlaceholder")}
+              disabled={mutation.isPending}
+              aria-invalid={!!errors.requiredSkills}
+            />
+            {fieldError("requiredSkills")}
+          </div>
+
+          <AlertDialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={mutation.isPending}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("topics.form.saving")}
+                </>
+              ) : topic ? (
+                t("topics.form.save")
+              ) : (
+                t("topics.form.publish")
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default TopicFormDialog;
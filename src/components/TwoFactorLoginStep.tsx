@@ -0,0 +1,176 @@
+import { FC, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { ArrowLeft, KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import OtpField from "@/components/OtpField";
+import Stepper from "@/components/Stepper";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { otpSchema, recoveryCodeSchema } from "@/lib/validations";
+import { verifyTwoFactorLogin } from "@/services/api/auth";
+import { LoginSuccessResponse } from "@/types/auth";
+
+interface TwoFactorLoginStepProps {
+  challengeToken: string;
+  onSuccess: (result: LoginSuccessResponse) => void;
+  // Kembali ke form kata sandi, juga dipanggil saat challenge kedaluwarsa
+  onCancel: () => void;
+  // Terlalu banyak kode salah, form kata sandi dikunci selama detik ini
+  onLockedOut: (retryAfter: number | null) => void;
+}
+
+type CodeMode = "authenticator" | "recovery";
+
+// Langkah kedua login untuk akun dengan verifikasi dua langkah aktif
+const TwoFactorLoginStep: FC<TwoFactorLoginStepProps> = ({
+  challengeToken,
+  onSuccess,
+  onCancel,
+  onLockedOut,
+}) => {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<CodeMode>("authenticator");
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const mutation = useMutation({
+    mutationFn: (value: string) =>
+      verifyTwoFactorLogin({ challengeToken, code: value }),
+    onSuccess,
+    onError: (err) => {
+      const apiError = toApiError(err);
+      toaster.error(apiError.message);
+      if (apiError.code === "TWO_FACTOR_CHALLENGE_EXPIRED") {
+        onCancel();
+        return;
+      }
+      if (apiError.code === "TOO_MANY_ATTEMPTS" || apiError.status === 429) {
+        onLockedOut(apiError.retryAfter);
+        return;
+      }
+      setError(apiError.fieldErrors.code);
+    },
+  });
+
+  const switchMode = () => {
+    setMode(mode === "authenticator" ? "recovery" : "authenticator");
+    setCode("");
+    setError(undefined);
+  };
+
+  const handleChange = (value: string) => {
+    setCode(value);
+    setError(undefined);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mutation.isPending) return;
+
+    const result =
+      mode === "authenticator"
+        ? otpSchema.safeParse({ otp: code })
+        : recoveryCodeSchema.safeParse({ recoveryCode: code });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message);
+      return;
+    }
+
+    mutation.mutate(code.trim());
+  };
+
+  return (
+    <>
+      <div className="flex justify-center">
+        <Stepper
+          steps={[
+            t("auth.twoFactor.steps.password"),
+            t("auth.twoFactor.steps.verify"),
+          ]}
+          currentStep={2}
+          className="mb-6"
+        />
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {mode === "authenticator" ? (
+          <OtpField
+            value={code}
+            onChange={handleChange}
+            label={t("auth.twoFactor.codeLabel")}
+            hint={t("auth.twoFactor.codeHint")}
+            error={error}
+            disabled={mutation.isPending}
+          />
+        ) : (
+          <div className="space-y-2">
+            <Label
+              htmlFor="recoveryCode"
+              className="text-sm font-medium text-gray-700"
+            >
+              {t("auth.twoFactor.recoveryLabel")}
+            </Label>
+            <div className="relative">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                id="recoveryCode"
+                type="text"
+                autoComplete="off"
+                placeholder="xxxx-xxxx"
+                className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+                value={code}
+                onChange={(e) => handleChange(e.target.value)}
+                disabled={mutation.isPending}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <p className="text-sm text-gray-600">
+              {t("auth.twoFactor.recoveryHint")}
+            </p>
+          </div>
+        )}
+        <Button
+          type="button"
+          variant="link"
+          className="justify-start px-0 h-auto text-env-base hover:text-env-light font-medium"
+          onClick={switchMode}
+          disabled={mutation.isPending}
+        >
+          {mode === "authenticator"
+            ? t("auth.twoFactor.useRecovery")
+            : t("auth.twoFactor.useAuthenticator")}
+        </Button>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="h-11 border-gray-300 text-gray-700 hover:bg-gray-50"
+            onClick={onCancel}
+            disabled={mutation.isPending}
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {t("common.back")}
+          </Button>
+          <Button
+            type="submit"
+            className="flex-1 h-11 bg-env-base hover:bg-env-dark text-white font-medium text-base"
+            disabled={mutation.isPending}
+          >
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("auth.twoFactor.verifying")}
+              </>
+            ) : (
+              t("auth.twoFactor.verify")
+            )}
+          </Button>
+        </div>
+      </form>
+    </>
+  );
+};
+
+export default TwoFactorLoginStep;
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import useAuth from "@/hooks/useAuth";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { getCurrentUser } from "@/services/api/auth";
+import {
+  getTwoFactorPolicy,
+  updateTwoFactorPolicy,
+} from "@/services/api/twoFactor";
+import { TwoFactorRole, twoFactorRoleSchema } from "@/types/twoFactor";
+
+// Koordinator menentukan role mana yang wajib memakai verifikasi dua langkah
+const TwoFactorPolicyCard = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { updateUser } = useAuth();
+  // null berarti belum diubah, tampilkan nilai dari server
+  const [draft, setDraft] = useState<TwoFactorRole[] | null>(null);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["two-factor-policy"],
+    queryFn: getTwoFactorPolicy,
+  });
+  const requiredRoles = draft ?? data?.policy.requiredRoles ?? [];
+
+  const mutation = useMutation({
+    mutationFn: updateTwoFactorPolicy,
+    onSuccess: (result) => {
+      queryClient.setQueryData(["two-factor-policy"], {
+        policy: result.policy,
+      });
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      setDraft(null);
+      toaster.success(result.message);
+      // Kebijakan bisa berlaku juga untuk koordinator yang sedang login
+      getCurrentUser()
+        .then(({ user }) => updateUser(user))
+        .catch(() => undefined);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const toggleRole = (role: TwoFactorRole, checked: boolean) => {
+    setDraft(
+      checked
+        ? [...requiredRoles, role]
+        : requiredRoles.filter((item) => item !== role)
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("security.twoFactorPolicy.title")}</CardTitle>
+        <CardDescription>
+          {t("security.twoFactorPolicy.subtitle")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="mx-auto h-6 w-6 animate-spin text-env-base" />
+        ) : isError ? (
+          <p className="text-sm text-destructive">
+            {t("security.twoFactorPolicy.loadFailed")}
+          </p>
+        ) : (
+          <>
+            {twoFactorRoleSchema.options.map((role) => (
+              <label
+                key={role}
+                className="flex items-start gap-3 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  className="mt-0.5 h-4 w-4 accent-env-base"
+                  checked={requiredRoles.includes(role)}
+                  onChange={(e) => toggleRole(role, e.target.checked)}
+                  disabled={mutation.isPending}
+                />
+                <span>
+                  <span className="font-medium text-gray-900">
+                    {t("security.twoFactorPolicy.require", {
+                      role: t(`roles.${role}`),
+                    })}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {t("security.twoFactorPolicy.requireHint")}
+                  </span>
+                </span>
+              </label>
+            ))}
+            <Button
+              className="bg-env-base hover:bg-env-dark text-white"
+              disabled={draft === null || mutation.isPending}
+              onClick={() => mutation.mutate({ requiredRoles })}
+            >
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {t("profile.saving")}
+                </>
+              ) : (
+                t("security.twoFactorPolicy.save")
+              )}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorPolicyCard;
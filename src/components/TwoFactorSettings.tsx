@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import DisableTwoFactorDialog from "@/components/DisableTwoFactorDialog";
+import TwoFactorSetupDialog from "@/components/TwoFactorSetupDialog";
+import useAuth from "@/hooks/useAuth";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { setupTwoFactor } from "@/services/api/twoFactor";
+import { TwoFactorSetupResponse } from "@/types/twoFactor";
+
+// Status dan pengaturan verifikasi dua langkah milik pengguna yang login
+const TwoFactorSettings = () => {
+  const { t } = useTranslation();
+  const { auth } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const enabled = !!auth.user?.twoFactorEnabled;
+  const required = !!auth.user?.twoFactorRequired;
+
+  const setupMutation = useMutation({
+    mutationFn: setupTwoFactor,
+    onSuccess: setSetup,
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            {t("security.twoFactor.title")}
+            <Badge variant={enabled ? "success" : "outline"}>
+              {enabled
+                ? t("security.twoFactor.enabled")
+                : t("security.twoFactor.disabled")}
+            </Badge>
+          </CardTitle>
+          <CardDescription>{t("security.twoFactor.subtitle")}</CardDescription>
+        </div>
+        {enabled ? (
+          <Button
+            variant="outline"
+            className="text-jewel-red hover:text-jewel-red"
+            disabled={required}
+            title={required ? t("security.twoFactor.requiredHint") : undefined}
+            onClick={() => setIsDisabling(true)}
+          >
+            <ShieldOff className="h-4 w-4" />
+            {t("security.twoFactor.disable.action")}
+          </Button>
+        ) : (
+          <Button
+            className="bg-env-base hover:bg-env-dark text-white"
+            disabled={setupMutation.isPending}
+            onClick={() => setupMutation.mutate()}
+          >
+            {setupMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4" />
+            )}
+            {t("security.twoFactor.enable")}
+          </Button>
+        )}
+      </CardHeader>
+      {required && (
+        <CardContent>
+          <Alert variant={enabled ? "info" : "warning"}>
+            <AlertDescription>
+              {enabled
+                ? t("security.twoFactor.requiredHint")
+                : t("security.twoFactor.requiredSetup")}
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      )}
+      {setup && (
+        <TwoFactorSetupDialog setup={setup} onClose={() => setSetup(null)} />
+      )}
+      {isDisabling && (
+        <DisableTwoFactorDialog onClose={() => setIsDisabling(false)} />
+      )}
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
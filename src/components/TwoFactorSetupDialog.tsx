@@ -0,0 +1,188 @@
+import { FC } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { QRCodeSVG } from "qrcode.react";
+import { Copy, Download } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import FormWizard from "@/components/FormWizard";
+import OtpField from "@/components/OtpField";
+import useAuth from "@/hooks/useAuth";
+import useFormWizard from "@/hooks/useFormWizard";
+import { toaster } from "@/lib/sonner";
+import { otpSchema } from "@/lib/validations";
+import { confirmTwoFactor } from "@/services/api/twoFactor";
+import { TwoFactorSetupResponse } from "@/types/twoFactor";
+
+interface TwoFactorSetupDialogProps {
+  setup: TwoFactorSetupResponse;
+  onClose: () => void;
+}
+
+const RECOVERY_CODES_FILE = "kode-pemulihan.txt";
+
+// Pindai QR, simpan kode pemulihan, lalu konfirmasi dengan kode pertama dari
+// aplikasi autentikator. Verifikasi baru aktif setelah langkah terakhir
+const TwoFactorSetupDialog: FC<TwoFactorSetupDialogProps> = ({
+  setup,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { updateUser } = useAuth();
+  const queryClient = useQueryClient();
+  const recoveryCodesText = setup.recoveryCodes.join("\n");
+
+  const wizard = useFormWizard<{ otp: string }>({
+    initialValues: { otp: "" },
+    steps: [
+      { title: t("security.twoFactor.setup.steps.scan") },
+      { title: t("security.twoFactor.setup.steps.recovery") },
+      {
+        title: t("security.twoFactor.setup.steps.confirm"),
+        schema: otpSchema,
+        fieldMap: { code: "otp" },
+        submit: async (values) => {
+          const result = await confirmTwoFactor({ code: values.otp });
+          updateUser(result.user);
+          queryClient.invalidateQueries({ queryKey: ["users"] });
+          toaster.success(result.message);
+        },
+        submitLabel: t("security.twoFactor.setup.submit"),
+        submittingLabel: t("security.twoFactor.setup.submitting"),
+      },
+    ],
+    onComplete: onClose,
+  });
+  const { currentStep, isSubmitting } = wizard;
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodesText);
+      toaster.success(t("security.twoFactor.setup.copied"));
+    } catch {
+      toaster.error(t("security.twoFactor.setup.copyFailed"));
+    }
+  };
+
+  const downloadRecoveryCodes = () => {
+    const url = URL.createObjectURL(
+      new Blob([recoveryCodesText], { type: "text/plain" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = RECOVERY_CODES_FILE;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderStep = () => {
+    switch (currentStep) {
+      case 1:
+        return (
+          <div className="flex flex-col items-center gap-4 text-center">
+            <p className="text-sm text-gray-600">
+              {t("security.twoFactor.setup.scanHint")}
+            </p>
+            <div className="rounded-md border border-gray-200 bg-white p-3">
+              <QRCodeSVG value={setup.otpauthUrl} size={176} />
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-gray-500">
+                {t("security.twoFactor.setup.manualEntry")}
+              </p>
+              <code className="block break-all rounded bg-gray-100 px-3 py-2 font-mono text-sm tracking-wider text-gray-900">
+                {setup.secret}
+              </code>
+            </div>
+          </div>
+        );
+
+      case 2:
+        return (
+          <div className="space-y-4">
+            <Alert variant="warning">
+              <AlertDescription>
+                {t("security.twoFactor.setup.recoveryHint")}
+              </AlertDescription>
+            </Alert>
+            <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm text-gray-900">
+              {setup.recoveryCodes.map((code) => (
+                <li key={code} className="text-center">
+                  {code}
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={copyRecoveryCodes}
+              >
+                <Copy className="h-4 w-4" />
+                {t("security.twoFactor.setup.copy")}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={downloadRecoveryCodes}
+              >
+                <Download className="h-4 w-4" />
+                {t("security.twoFactor.setup.download")}
+              </Button>
+            </div>
+          </div>
+        );
+
+      default:
+        return (
+          <OtpField
+            value={wizard.values.otp}
+            onChange={(value) => wizard.setValue("otp", value)}
+            label={t("auth.twoFactor.codeLabel")}
+            hint={t("security.twoFactor.setup.confirmHint")}
+            error={wizard.errors.otp}
+            disabled={isSubmitting}
+          />
+        );
+    }
+  };
+
+  return (
+    <AlertDialog
+      open
+      onOpenChange={(open) => !open && !isSubmitting && onClose()}
+    >
+      <AlertDialogContent className="sm:max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {t("security.twoFactor.setup.title")}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {t("security.twoFactor.setup.subtitle")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <FormWizard wizard={wizard}>{renderStep()}</FormWizard>
+        <Button
+          type="button"
+          variant="ghost"
+          className="text-gray-600"
+          onClick={onClose}
+          disabled={isSubmitting}
+        >
+          {t("common.cancel")}
+        </Button>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default TwoFactorSetupDialog;
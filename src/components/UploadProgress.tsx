@@ -0,0 +1,34 @@
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { cn } from "@/lib/utils";
+
+interface UploadProgressProps {
+  value: number;
+  className?: string;
+}
+
+const UploadProgress: FC<UploadProgressProps> = ({ value, className }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className={cn("w-full space-y-1", className)}>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={value}
+        className="h-2 w-full overflow-hidden rounded-full bg-env-lighter"
+      >
+        <div
+          className="h-full bg-env-base transition-all duration-200"
+          style={{ width: `${value}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-600 text-center">
+        {t("common.uploading", { progress: value })}
+      </p>
+    </div>
+  );
+};
+
+export default UploadProgress;
@@ -0,0 +1,37 @@
+import { FC } from "react";
+import { User } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface UserAvatarProps {
+  name?: string;
+  src?: string;
+  className?: string;
+}
+
+const UserAvatar: FC<UserAvatarProps> = ({ name, src, className }) => {
+  const initials = name
+    ?.split(" ")
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+  return (
+    <div
+      className={cn(
+        "w-9 h-9 rounded-full overflow-hidden bg-env-lighter text-env-darker flex items-center justify-center text-sm font-semibold border border-gray-300 shrink-0",
+        className
+      )}
+    >
+      {src ? (
+        <img src={src} alt={name} className="w-full h-full object-cover" />
+      ) : initials ? (
+        initials
+      ) : (
+        <User className="h-4 w-4" />
+      )}
+    </div>
+  );
+};
+
+export default UserAvatar;
@@ -0,0 +1,40 @@
+import { FC, useImperativeHandle, useRef } from "react";
+import { useTranslation } from "react-i18next";
+import ReCAPTCHA from "react-google-recaptcha";
+import { env } from "@/lib/env";
+import { BotProtectionProps } from "./types";
+
+// Google reCAPTCHA v2, sebagai kotak centang atau badge invisible
+const GoogleBotProtection: FC<BotProtectionProps> = ({ mode, ref }) => {
+  const { i18n } = useTranslation();
+  const recaptcha = useRef<ReCAPTCHA>(null);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      getToken: async () => {
+        if (!recaptcha.current) return null;
+        if (mode === "invisible") {
+          return (await recaptcha.current.executeAsync()) || null;
+        }
+        return recaptcha.current.getValue() || null;
+      },
+      reset: () => recaptcha.current?.reset(),
+    }),
+    [mode]
+  );
+
+  return (
+    <div className="flex justify-center w-full">
+      <ReCAPTCHA
+        ref={recaptcha}
+        key={i18n.language}
+        hl={i18n.language}
+        sitekey={env.recaptchaSiteKey}
+        size={mode === "invisible" ? "invisible" : "normal"}
+      />
+    </div>
+  );
+};
+
+export default GoogleBotProtection;
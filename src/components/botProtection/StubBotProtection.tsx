@@ -0,0 +1,21 @@
+import { FC, useImperativeHandle } from "react";
+import { BotProtectionProps } from "./types";
+
+const STUB_BOT_TOKEN = "stub-bot-protection-token";
+
+// Pengganti tanpa jaringan untuk pengembangan lokal dan test otomatis;
+// selalu lolos dan tidak menampilkan apa pun
+const StubBotProtection: FC<BotProtectionProps> = ({ ref }) => {
+  useImperativeHandle(
+    ref,
+    () => ({
+      getToken: async () => STUB_BOT_TOKEN,
+      reset: () => undefined,
+    }),
+    []
+  );
+
+  return null;
+};
+
+export default StubBotProtection;
@@ -0,0 +1,16 @@
+import { Ref } from "react";
+import { BotProtectionMode } from "@/lib/env";
+
+// Kontrak yang dipenuhi setiap penyedia perlindungan bot
+export interface BotProtectionHandle {
+  // Token untuk dikirim ke server; mode invisible menjalankan tantangan di
+  // sini. null berarti pengguna belum menyelesaikan tantangan
+  getToken: () => Promise<string | null>;
+  // Token hanya berlaku sekali, jadi widget direset setelah login gagal
+  reset: () => void;
+}
+
+export interface BotProtectionProps {
+  mode: BotProtectionMode;
+  ref?: Ref<BotProtectionHandle>;
+}
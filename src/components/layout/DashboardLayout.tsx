@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { Outlet, useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import Sidebar from "@/components/layout/Sidebar";
+import Header from "@/components/layout/Header";
+import { RealtimeProvider } from "@/contexts/RealtimeContext";
+import useAuth from "@/hooks/useAuth";
+import { toaster } from "@/lib/sonner";
+
+const DashboardLayout = () => {
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { auth, logout } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const handleLogout = async () => {
+    await logout();
+    toaster.info(t("common.loggedOut"));
+    navigate("/login", { replace: true });
+  };
+
+  if (!auth.user) return null;
+
+  return (
+    <RealtimeProvider>
+      <div className="min-h-screen flex bg-gray-50">
+        <Sidebar
+          role={auth.user.role}
+          open={sidebarOpen}
+          onClose={() => setSidebarOpen(false)}
+        />
+        <div className="flex-1 flex flex-col min-w-0">
+          <Header
+            onMenuClick={() => setSidebarOpen(true)}
+            onLogout={handleLogout}
+          />
+          <main className="flex-1 p-4 lg:p-8">
+            <Outlet />
+          </main>
+        </div>
+      </div>
+    </RealtimeProvider>
+  );
+};
+
+export default DashboardLayout;
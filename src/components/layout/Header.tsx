@@ -0,0 +1,68 @@
+import { FC } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { LogOut, Menu } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import UserAvatar from "@/components/UserAvatar";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import NotificationBell from "@/components/NotificationBell";
+import RealtimeIndicator from "@/components/RealtimeIndicator";
+import useAuth from "@/hooks/useAuth";
+import { PROFILE_PATH } from "@/lib/navigation";
+
+interface HeaderProps {
+  onMenuClick: () => void;
+  onLogout: () => void;
+}
+
+const Header: FC<HeaderProps> = ({ onMenuClick, onLogout }) => {
+  const { auth } = useAuth();
+  const { t } = useTranslation();
+  const user = auth.user;
+
+  return (
+    <header className="h-16 bg-white border-b border-gray-200 flex items-center justify-between px-4 lg:px-8">
+      <button
+        type="button"
+        className="lg:hidden text-gray-500 hover:text-gray-700"
+        onClick={onMenuClick}
+      >
+        <Menu className="h-5 w-5" />
+        <span className="sr-only">{t("common.openMenu")}</span>
+      </button>
+      <div className="flex items-center gap-3 ml-auto">
+        <RealtimeIndicator className="hidden md:flex" />
+        <LanguageSwitcher className="hidden sm:flex" />
+        <NotificationBell />
+        {user && (
+          <Link
+            to={PROFILE_PATH}
+            className="flex items-center gap-3 rounded-md hover:opacity-80"
+          >
+            <div className="hidden sm:block text-right">
+              <p className="text-sm font-medium text-gray-900 leading-tight">
+                {user.profile?.name || user.email}
+              </p>
+              <p className="text-xs text-gray-500">{t(`roles.${user.role}`)}</p>
+            </div>
+            <UserAvatar
+              name={user.profile?.name}
+              src={user.profile?.profilePicture}
+            />
+          </Link>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-600 hover:text-jewel-red"
+          onClick={onLogout}
+        >
+          <LogOut className="h-4 w-4" />
+          <span className="hidden sm:inline">{t("common.logout")}</span>
+        </Button>
+      </div>
+    </header>
+  );
+};
+
+export default Header;
@@ -0,0 +1,80 @@
+import { FC } from "react";
+import { NavLink } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Leaf, X } from "lucide-react";
+import { roleNavItems } from "@/lib/navigation";
+import { Role } from "@/types/auth";
+import { cn } from "@/lib/utils";
+
+interface SidebarProps {
+  role: Role;
+  open: boolean;
+  onClose: () => void;
+}
+
+const Sidebar: FC<SidebarProps> = ({ role, open, onClose }) => {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      {/* Overlay untuk layar kecil */}
+      {open && (
+        <div
+          className="fixed inset-0 z-30 bg-black/30 lg:hidden"
+          onClick={onClose}
+        />
+      )}
+      <aside
+        className={cn(
+          "fixed inset-y-0 left-0 z-40 w-64 bg-env-darker text-white flex flex-col transition-transform duration-300 lg:static lg:translate-x-0",
+          open ? "translate-x-0" : "-translate-x-full"
+        )}
+      >
+        <div className="h-16 flex items-center justify-between px-6 border-b border-white/10">
+          <div className="flex items-center gap-2">
+            <Leaf className="h-6 w-6 text-env-light" />
+            <div>
+              <p className="font-heading font-black text-lg leading-none">
+                {t("common.appName")}
+              </p>
+              <p className="text-xs text-white/60">{t(`roles.${role}`)}</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            className="lg:hidden text-white/70 hover:text-white"
+            onClick={onClose}
+          >
+            <X className="h-5 w-5" />
+            <span className="sr-only">{t("common.closeMenu")}</span>
+          </button>
+        </div>
+        <nav className="flex-1 overflow-y-auto px-3 py-4 space-y-1">
+          {roleNavItems[role].map((item) => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              onClick={onClose}
+              className={({ isActive }) =>
+                cn(
+                  "flex items-center gap-3 rounded-md px-3 py-2 text-sm font-medium transition-colors",
+                  isActive
+                    ? "bg-env-base text-white"
+                    : "text-white/70 hover:bg-white/10 hover:text-white"
+                )
+              }
+            >
+              <item.icon className="h-4 w-4" />
+              {t(item.labelKey)}
+            </NavLink>
+          ))}
+        </nav>
+        <div className="px-6 py-4 text-xs text-white/50 border-t border-white/10">
+          {t("common.footer")}
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default Sidebar;
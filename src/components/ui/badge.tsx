@@ -0,0 +1,40 @@
+import * as React from "react"
+import { cva, type VariantProps } from "class-variance-authority"
+
+import { cn } from "@/lib/utils"
+
+const badgeVariants = cva(
+  "inline-flex items-center justify-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium w-fit whitespace-nowrap shrink-0 [&>svg]:size-3 [&>svg]:pointer-events-none",
+  {
+    variants: {
+      variant: {
+        default: "border-transparent bg-env-base text-white",
+        secondary: "border-transparent bg-env-lighter text-env-darker",
+        outline: "text-gray-700 border-gray-300",
+        success: "border-jewel-green/40 bg-pastel-green/50 text-jewel-green",
+        warning: "border-jewel-yellow/40 bg-pastel-yellow/50 text-jewel-yellow",
+        info: "border-jewel-blue/40 bg-pastel-blue/50 text-jewel-blue",
+        destructive: "border-jewel-red/40 bg-pastel-red/50 text-jewel-red",
+      },
+    },
+    defaultVariants: {
+      variant: "default",
+    },
+  }
+)
+
+function Badge({
+  className,
+  variant,
+  ...props
+}: React.ComponentProps<"span"> & VariantProps<typeof badgeVariants>) {
+  return (
+    <span
+      data-slot="badge"
+      className={cn(badgeVariants({ variant }), className)}
+      {...props}
+    />
+  )
+}
+
+export { Badge }
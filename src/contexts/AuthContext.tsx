@@ -1,12 +1,22 @@
-import { createContext, useContext, useState, ReactNode } from "react";
-
-interface User {
-  id: number;
-  email: string;
-  role: "STUDENT" | "LECTURER" | "COORDINATOR";
-  name: string;
-  profilePicture?: string;
-}
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import i18n from "i18next";
+import { Button } from "@/components/ui/button";
+import { getCurrentUser, logout as logoutRequest } from "@/services/api/auth";
+import { setAuthHandlers } from "@/lib/axios";
+import { ApiError } from "@/lib/errors";
+import queryClient from "@/lib/queryClient";
+import { toaster } from "@/lib/sonner";
+import { applyUserLanguage } from "@/i18n";
+import { User } from "@/types/auth";
 
 interface AuthState {
   user: User | null;
@@ -16,24 +26,144 @@ interface AuthState {
 interface AuthContextType {
   auth: AuthState;
   setAuth: (auth: AuthState) => void;
-  logout: () => void;
+  updateUser: (user: User) => void;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Hanya 401 yang berarti token tidak berlaku; gangguan jaringan atau server
+// tidak boleh membuat pengguna keluar
+const isUnauthorized = (error: unknown) =>
+  error instanceof ApiError &&
+  (error.status === 401 || error.code === "UNAUTHORIZED");
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const { t } = useTranslation();
   const [auth, setAuth] = useState<AuthState>({
     user: null,
     token: localStorage.getItem("token") || null,
   });
+  const [isInitializing, setIsInitializing] = useState(!!auth.token);
+  const [restoreFailed, setRestoreFailed] = useState(false);
+
+  // Perbarui data pengguna tanpa mengubah token, misalnya setelah edit profil
+  const updateUser = (user: User) => {
+    setAuth((prev) => ({ ...prev, user }));
+  };
 
-  const logout = () => {
+  // Hanya membersihkan state di browser, tanpa memanggil server. Cache query
+  // ikut dibuang agar notifikasi akun sebelumnya tidak tampil ke akun berikutnya
+  const clearSession = useCallback(() => {
     setAuth({ user: null, token: null });
+    setRestoreFailed(false);
     localStorage.removeItem("token");
+    queryClient.clear();
+  }, []);
+
+  // Sesi di server tetap diakhiri lokal walau request logout gagal
+  const logout = async () => {
+    await logoutRequest().catch(() => undefined);
+    clearSession();
   };
 
+  // Interceptor axios memperbarui token atau mengakhiri sesi lewat context ini
+  useEffect(() => {
+    setAuthHandlers({
+      onTokenRefreshed: (token) => setAuth((prev) => ({ ...prev, token })),
+      onSessionExpired: (code) => {
+        clearSession();
+        toaster.error(
+          i18n.t(
+            code === "SESSION_REVOKED"
+              ? "errors.sessionRevoked"
+              : "errors.sessionExpired"
+          )
+        );
+      },
+    });
+    return () => setAuthHandlers(null);
+  }, [clearSession]);
+
+  // Logout di tab lain menghapus token dari localStorage, ikuti di tab ini
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === "token" && event.newValue === null) {
+        clearSession();
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [clearSession]);
+
+  // Terapkan bahasa yang tersimpan untuk pengguna yang sedang login
+  useEffect(() => {
+    if (auth.user) applyUserLanguage(auth.user.id);
+  }, [auth.user]);
+
+  // Memulihkan sesi dari token yang tersimpan saat halaman dimuat ulang.
+  // Mengembalikan fungsi pembatal agar hasil request lama diabaikan
+  const restoreSession = useCallback(() => {
+    const token = localStorage.getItem("token");
+    if (!token) {
+      setIsInitializing(false);
+      return () => undefined;
+    }
+
+    let cancelled = false;
+    setIsInitializing(true);
+    setRestoreFailed(false);
+    getCurrentUser()
+      .then(({ user }) => {
+        if (!cancelled) setAuth({ user, token });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        // Token tidak lagi valid, hapus agar tidak setengah login. Selain itu
+        // token disimpan dan pengguna bisa mencoba lagi
+        if (isUnauthorized(error)) clearSession();
+        else setRestoreFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsInitializing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clearSession]);
+
+  useEffect(() => restoreSession(), [restoreSession]);
+
+  if (isInitializing) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white">
+        <Loader2 className="h-8 w-8 animate-spin text-env-base" />
+      </div>
+    );
+  }
+
+  if (restoreFailed) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-white p-6 text-center">
+        <p className="text-sm text-gray-600">{t("errors.sessionRestore")}</p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={logout}>
+            {t("common.logout")}
+          </Button>
+          <Button
+            className="bg-env-base hover:bg-env-dark text-white"
+            onClick={restoreSession}
+          >
+            {t("common.retry")}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <AuthContext.Provider value={{ auth, setAuth, logout }}>
+    <AuthContext.Provider value={{ auth, setAuth, updateUser, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,67 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { RealtimeStatusContext } from "@/hooks/useRealtimeStatus";
+import { env } from "@/lib/env";
+import {
+  connectRealtime,
+  RealtimeStatus,
+  realtimeQueryKeys,
+} from "@/lib/realtime";
+import { toaster } from "@/lib/sonner";
+import { createStreamTicket } from "@/services/api/events";
+import { RealtimeEventType } from "@/types/events";
+
+const invalidateKeys = (queryClient: QueryClient, type: RealtimeEventType) =>
+  realtimeQueryKeys[type].forEach((queryKey) =>
+    queryClient.invalidateQueries({ queryKey })
+  );
+
+// Stream event dari server untuk pengguna yang sedang login. Event hanya
+// membuat cache React Query basi; datanya tetap diambil ulang lewat API
+export const RealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<RealtimeStatus>(
+    env.realtime === "sse" ? "connecting" : "polling"
+  );
+  const previousStatus = useRef(status);
+
+  useEffect(() => {
+    if (env.realtime !== "sse") return;
+
+    const connection = connectRealtime({
+      url: `${env.apiUrl}/events`,
+      getTicket: async () =>
+        localStorage.getItem("token")
+          ? (await createStreamTicket()).ticket
+          : null,
+      onStatusChange: setStatus,
+      onEvent: (event) => {
+        invalidateKeys(queryClient, event.type);
+        if (event.type === "notification.created") {
+          toaster.info(event.notification.title);
+        }
+      },
+    });
+    return connection.close;
+  }, [queryClient]);
+
+  // Event selama terputus tidak terkirim ulang, jadi semua data yang dipantau
+  // diambil ulang begitu stream tersambung kembali
+  useEffect(() => {
+    const wasDisconnected =
+      previousStatus.current === "reconnecting" ||
+      previousStatus.current === "polling";
+    previousStatus.current = status;
+    if (status !== "open" || !wasDisconnected) return;
+
+    (Object.keys(realtimeQueryKeys) as RealtimeEventType[]).forEach((type) =>
+      invalidateKeys(queryClient, type)
+    );
+  }, [status, queryClient]);
+
+  return (
+    <RealtimeStatusContext.Provider value={status}>
+      {children}
+    </RealtimeStatusContext.Provider>
+  );
+};
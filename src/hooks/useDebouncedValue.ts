@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+// Menunda perubahan nilai, misalnya input pencarian sebelum memicu query
+const useDebouncedValue = <T>(value: T, delay = 300) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
+
+export default useDebouncedValue;
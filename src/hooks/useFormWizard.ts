@@ -0,0 +1,180 @@
+import { FormEvent, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { toaster } from "@/lib/sonner";
+import { FieldErrors, toApiError } from "@/lib/errors";
+
+export type WizardErrors = Partial<FieldErrors>;
+
+export interface WizardStep<T> {
+  title: string;
+  // Divalidasi terhadap seluruh nilai form sebelum submit
+  schema?: z.ZodTypeAny;
+  // Nilai yang dikembalikan digabung ke nilai form sebelum pindah langkah
+  submit?: (values: T) => Promise<Partial<T> | void>;
+  // Langkah hanya bisa dibuka jika guard terpenuhi
+  guard?: (values: T) => boolean;
+  // Nama field dari server yang berbeda dengan nama field di form
+  fieldMap?: Record<string, string>;
+  submitLabel?: string;
+  submittingLabel?: string;
+}
+
+interface UseFormWizardOptions<T> {
+  steps: WizardStep<T>[];
+  initialValues: T;
+  onComplete?: (values: T) => void;
+}
+
+const firstErrors = (error: z.ZodError): WizardErrors => {
+  const fieldErrors = error.flatten().fieldErrors as Record<
+    string,
+    string[] | undefined
+  >;
+  return Object.entries(fieldErrors).reduce<WizardErrors>(
+    (acc, [field, messages]) => {
+      if (messages?.[0]) acc[field] = messages[0];
+      return acc;
+    },
+    {}
+  );
+};
+
+const mapFieldErrors = (
+  fieldErrors: FieldErrors,
+  fieldMap: Record<string, string> = {}
+): WizardErrors =>
+  Object.entries(fieldErrors).reduce<WizardErrors>((acc, [field, message]) => {
+    acc[fieldMap[field] ?? field] = message;
+    return acc;
+  }, {});
+
+// Mesin form bertahap: validasi zod, submit, dan pemetaan error per langkah
+const useFormWizard = <T extends object>({
+  steps,
+  initialValues,
+  onComplete,
+}: UseFormWizardOptions<T>) => {
+  const [currentStep, setCurrentStep] = useState(1);
+  const [values, setValues] = useState<T>(initialValues);
+  const [errors, setErrors] = useState<WizardErrors>({});
+
+  const mutation = useMutation({
+    mutationFn: async ({ step, values }: { step: WizardStep<T>; values: T }) =>
+      step.submit ? step.submit(values) : undefined,
+  });
+
+  const step = steps[currentStep - 1];
+  const isFirst = currentStep === 1;
+  const isLast = currentStep === steps.length;
+  const isSubmitting = mutation.isPending;
+
+  // Langkah terjauh (<= target) yang guard-nya terpenuhi
+  const reachableStep = (target: number, currentValues: T) => {
+    let reachable = 1;
+    for (let index = 2; index <= Math.min(target, steps.length); index++) {
+      const guard = steps[index - 1].guard;
+      if (guard && !guard(currentValues)) break;
+      reachable = index;
+    }
+    return reachable;
+  };
+
+  const clearErrors = (...fields: string[]) => {
+    setErrors((prev) => {
+      if (!fields.some((field) => prev[field])) return prev;
+      const next = { ...prev };
+      fields.forEach((field) => delete next[field]);
+      return next;
+    });
+  };
+
+  const setValue = <K extends keyof T>(field: K, value: T[K]) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    clearErrors(field as string);
+  };
+
+  const setFieldError = (field: string, message: string) => {
+    setErrors((prev) => ({ ...prev, [field]: message }));
+  };
+
+  const goTo = (target: number) => {
+    if (isSubmitting) return;
+    setErrors({});
+    setCurrentStep(
+      target < currentStep ? Math.max(1, target) : reachableStep(target, values)
+    );
+  };
+
+  const back = () => goTo(currentStep - 1);
+
+  // Mengisi ulang nilai dan langkah, misalnya saat melanjutkan draf
+  const restore = (restoredValues: Partial<T>, target: number) => {
+    const nextValues = { ...values, ...restoredValues };
+    setValues(nextValues);
+    setErrors({});
+    setCurrentStep(reachableStep(target, nextValues));
+  };
+
+  const next = async (): Promise<boolean> => {
+    if (isSubmitting || !step) return false;
+
+    if (step.schema) {
+      const result = step.schema.safeParse(values);
+      if (!result.success) {
+        setErrors(firstErrors(result.error));
+        return false;
+      }
+    }
+
+    setErrors({});
+    try {
+      const patch = await mutation.mutateAsync({ step, values });
+      const nextValues = patch ? { ...values, ...patch } : values;
+      if (patch) setValues(nextValues);
+
+      if (isLast) {
+        onComplete?.(nextValues);
+      } else {
+        setCurrentStep(currentStep + 1);
+      }
+      return true;
+    } catch (error) {
+      // Tampilkan error validasi server di samping input yang sesuai
+      const apiError = toApiError(error);
+      setErrors(mapFieldErrors(apiError.fieldErrors, step.fieldMap));
+      toaster.error(apiError.message);
+      return false;
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    void next();
+  };
+
+  return {
+    steps,
+    step,
+    stepTitles: steps.map((item) => item.title),
+    currentStep,
+    isFirst,
+    isLast,
+    isSubmitting,
+    values,
+    setValue,
+    setValues,
+    errors,
+    setFieldError,
+    clearErrors,
+    goTo,
+    back,
+    next,
+    restore,
+    handleSubmit,
+  };
+};
+
+export type FormWizard<T extends object> = ReturnType<typeof useFormWizard<T>>;
+
+export default useFormWizard;
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+// Sisa waktu penguncian dari server (misalnya 429 saat login), dihitung dari
+// batas waktu agar tidak bergeser walau tab sempat tidak aktif
+const useLockoutCountdown = () => {
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const remaining = lockedUntil
+    ? Math.max(0, Math.ceil((lockedUntil - now) / 1000))
+    : 0;
+
+  useEffect(() => {
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [remaining, now]);
+
+  const lock = (seconds: number) => {
+    setLockedUntil(Date.now() + seconds * 1000);
+    setNow(Date.now());
+  };
+
+  return { remaining, isLocked: remaining > 0, lock };
+};
+
+export default useLockoutCountdown;
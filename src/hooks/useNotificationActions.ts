@@ -0,0 +1,49 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { NOTIFICATIONS_QUERY_KEY } from "@/lib/notifications";
+import {
+  markAllNotificationsRead,
+  setNotificationRead,
+} from "@/services/api/notifications";
+import { Notification } from "@/types/notifications";
+
+// Aksi yang sama dipakai di dropdown lonceng dan halaman kotak masuk
+const useNotificationActions = () => {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+
+  const toggleRead = useMutation({
+    mutationFn: (notification: Notification) =>
+      setNotificationRead(notification.id, !notification.read),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: (data) => {
+      invalidate();
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  // Membuka notifikasi sekaligus menandainya sudah dibaca
+  const open = (notification: Notification) => {
+    if (!notification.read) toggleRead.mutate(notification);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return { toggleRead, markAllRead, open };
+};
+
+export default useNotificationActions;
@@ -0,0 +1,8 @@
+import useRealtimeStatus from "@/hooks/useRealtimeStatus";
+
+// Interval refetch untuk query yang juga diperbarui lewat stream event;
+// polling hanya berjalan selama stream tidak tersambung
+const usePollingInterval = (interval: number) =>
+  useRealtimeStatus() === "open" ? false : interval;
+
+export default usePollingInterval;
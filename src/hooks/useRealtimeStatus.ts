@@ -0,0 +1,9 @@
+import { createContext, useContext } from "react";
+import { RealtimeStatus } from "@/lib/realtime";
+
+// Di luar RealtimeProvider tidak ada stream, jadi data selalu di-polling
+export const RealtimeStatusContext = createContext<RealtimeStatus>("polling");
+
+const useRealtimeStatus = () => useContext(RealtimeStatusContext);
+
+export default useRealtimeStatus;
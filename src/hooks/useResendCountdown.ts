@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+// Countdown untuk tombol kirim ulang OTP, dihitung dari waktu pengiriman
+// sebenarnya agar tetap akurat setelah halaman dimuat ulang
+const useResendCountdown = (seconds = 60) => {
+  const [sentAt, setSentAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const countdown = sentAt
+    ? Math.max(0, seconds - Math.floor((now - sentAt) / 1000))
+    : 0;
+
+  useEffect(() => {
+    if (countdown <= 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, now]);
+
+  const start = (timestamp = Date.now()) => {
+    setSentAt(timestamp);
+    setNow(Date.now());
+  };
+
+  return { countdown, resendDisabled: countdown > 0, sentAt, start };
+};
+
+export default useResendCountdown;
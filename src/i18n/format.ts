@@ -0,0 +1,50 @@
+import { getCurrentLanguage, Language } from "./index";
+
+const locales: Record<Language, string> = {
+  id: "id-ID",
+  en: "en-US",
+};
+
+export const getLocale = () => locales[getCurrentLanguage()];
+
+export const formatDate = (
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "long" }
+) => new Intl.DateTimeFormat(getLocale(), options).format(new Date(value));
+
+export const formatDateTime = (value: Date | string | number) =>
+  formatDate(value, { dateStyle: "medium", timeStyle: "short" });
+
+export const formatNumber = (
+  value: number,
+  options?: Intl.NumberFormatOptions
+) => new Intl.NumberFormat(getLocale(), options).format(value);
+
+export const formatList = (
+  values: string[],
+  options: Intl.ListFormatOptions = { type: "conjunction" }
+) => new Intl.ListFormat(getLocale(), options).format(values);
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+// Waktu kira-kira relatif terhadap sekarang, misalnya "5 menit yang lalu"
+export const formatRelativeTime = (
+  value: Date | string | number,
+  now: number = Date.now()
+) => {
+  const seconds = Math.round((new Date(value).getTime() - now) / 1000);
+  const formatter = new Intl.RelativeTimeFormat(getLocale(), {
+    numeric: "auto",
+  });
+  const unit = RELATIVE_UNITS.find(([, size]) => Math.abs(seconds) >= size);
+  return unit
+    ? formatter.format(Math.round(seconds / unit[1]), unit[0])
+    : formatter.format(0, "second");
+};
@@ -0,0 +1,11 @@
+import "i18next";
+import { Messages } from "./locales/id";
+
+declare module "i18next" {
+  interface CustomTypeOptions {
+    defaultNS: "translation";
+    resources: {
+      translation: Messages;
+    };
+  }
+}
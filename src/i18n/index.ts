@@ -0,0 +1,68 @@
+import i18n from "i18next";
+import { initReactI18next } from "react-i18next";
+import { z } from "zod";
+import { id } from "./locales/id";
+import { en } from "./locales/en";
+import { zodErrorMap } from "./zod";
+
+export const languages = ["id", "en"] as const;
+
+export type Language = (typeof languages)[number];
+
+export const languageLabels: Record<Language, string> = {
+  id: "Bahasa Indonesia",
+  en: "English",
+};
+
+const LANGUAGE_KEY = "lang";
+
+const isLanguage = (value: string | null): value is Language =>
+  languages.includes(value as Language);
+
+const detectLanguage = (): Language => {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  if (isLanguage(stored)) return stored;
+  return navigator.language.startsWith("en") ? "en" : "id";
+};
+
+i18n.use(initReactI18next).init({
+  resources: {
+    id: { translation: id },
+    en: { translation: en },
+  },
+  lng: detectLanguage(),
+  fallbackLng: "id",
+  interpolation: {
+    escapeValue: false,
+  },
+});
+
+document.documentElement.lang = i18n.language;
+i18n.on("languageChanged", (lng) => {
+  document.documentElement.lang = lng;
+});
+
+// Pesan validasi zod mengikuti bahasa yang sedang aktif
+z.setErrorMap(zodErrorMap);
+
+export const getCurrentLanguage = (): Language =>
+  isLanguage(i18n.language) ? i18n.language : "id";
+
+// Bahasa disimpan per pengguna, dengan cadangan global untuk halaman publik
+export const setLanguage = (language: Language, userId?: number) => {
+  localStorage.setItem(LANGUAGE_KEY, language);
+  if (userId !== undefined) {
+    localStorage.setItem(`${LANGUAGE_KEY}:${userId}`, language);
+  }
+  i18n.changeLanguage(language);
+};
+
+export const applyUserLanguage = (userId: number) => {
+  const stored = localStorage.getItem(`${LANGUAGE_KEY}:${userId}`);
+  if (isLanguage(stored) && stored !== i18n.language) {
+    localStorage.setItem(LANGUAGE_KEY, stored);
+    i18n.changeLanguage(stored);
+  }
+};
+
+export default i18n;
@@ -0,0 +1,915 @@
+import { Messages } from "./id";
+
+export const en: Messages = {
+  common: {
+    appName: "Latest",
+    footer: "Environmental Engineering - Universitas Riau",
+    back: "Back",
+    next: "Next",
+    or: "Or",
+    logout: "Log out",
+    loggedOut: "You have been logged out",
+    openMenu: "Open menu",
+    closeMenu: "Close menu",
+    showPassword: "Show password",
+    hidePassword: "Hide password",
+    language: "Language",
+    processing: "Processing...",
+    cancel: "Cancel",
+    uploading: "Uploading... {{progress}}%",
+    previous: "Previous",
+    retry: "Try again",
+  },
+  roles: {
+    STUDENT: "Student",
+    LECTURER: "Lecturer",
+    COORDINATOR: "Coordinator",
+    EXAMINER: "External Examiner",
+  },
+  userStatus: {
+    ACTIVE: "Active",
+    INACTIVE: "Inactive",
+  },
+  nav: {
+    dashboard: "Dashboard",
+    profile: "Profile",
+    users: "Users",
+    invitations: "Invitations",
+    security: "Security",
+    proposal: "Thesis Proposal",
+    topics: "Research Topics",
+    supervision: "Supervisors",
+    logbook: "Supervision Logbook",
+    appointments: "Appointments",
+    seminars: "Seminars & Defenses",
+  },
+  fields: {
+    email: "Email",
+    password: "Password",
+    confirmPassword: "Password confirmation",
+    name: "Name",
+    nim: "Student ID (NIM)",
+    nip: "Staff ID (NIP)",
+    phoneNumber: "Phone number",
+    otp: "OTP",
+    currentPassword: "Current password",
+    title: "Title",
+    abstract: "Abstract",
+    researchField: "Research field",
+    location: "Research location",
+    preferredSupervisorIds: "Preferred supervisors",
+    description: "Description",
+    quota: "Quota",
+    requiredSkills: "Required skills",
+    motivation: "Motivation letter",
+    meetingDate: "Meeting date",
+    supervisorId: "Supervisor",
+    topic: "Meeting topic",
+    notes: "Discussion notes",
+    nextActions: "Next actions",
+    comment: "Comment",
+    agenda: "Meeting agenda",
+    reason: "Reason",
+    weekday: "Day",
+    date: "Date",
+    startTime: "Start time",
+    endTime: "End time",
+    venue: "Venue",
+    note: "Note",
+    type: "Type",
+    studentId: "Student",
+    roomId: "Room",
+    examinerIds: "Examiners",
+    capacity: "Capacity",
+  },
+  domains: {
+    student: "Detected as a student, your NIM is required in personal data",
+    lecturer: "Detected as a lecturer, your NIP is required in personal data",
+    coordinator:
+      "Detected as a coordinator, your NIP is required in personal data",
+  },
+  validation: {
+    required: "{{field}} is required",
+    invalid: "{{field}} is invalid",
+    invalidEmail: "Invalid email address",
+    tooShort: "{{field}} must be at least {{minimum}} characters",
+    tooLong: "{{field}} must be at most {{maximum}} characters",
+    campusEmail: "Use your Universitas Riau campus email ({{domains}})",
+    otpFormat: "The OTP must be 6 digits",
+    identityNumber: "{{field}} must be numeric and at least 8 digits",
+    phoneNumber: "Invalid phone number",
+    phonePrefix: "Phone number must start with 08",
+    passwordMismatch: "Password and confirmation do not match",
+    nimOrNip: "Fill in only one of NIM or NIP",
+    invitationEmail: "The email does not match the invited role",
+    recaptchaRequired: "Please complete the reCAPTCHA",
+    recoveryCodeFormat: "Recovery codes look like xxxx-xxxx",
+    twoFactorCode: "Enter a 6-digit code or a recovery code",
+    fileTooLarge: "Maximum file size is {{size}}",
+    fileType: "Only image files are allowed",
+    preferredSupervisors: "Choose 1 to {{maximum}} preferred supervisors",
+    quota: "Quota must be between 1 and {{maximum}} students",
+    requiredSkills: "At most {{maximum}} skills",
+    futureDate: "{{field}} cannot be in the future",
+    attachmentType:
+      "Only PDF, Word, Excel, PowerPoint or image files are allowed",
+    attachmentCount: "At most {{maximum}} attachments",
+    timeOrder: "End time must be after the start time",
+    pastDate: "{{field}} cannot be in the past",
+    capacity: "Capacity must be between 1 and {{maximum}} people",
+    examiners: "Choose 1 to {{maximum}} examiners",
+    workingDay: "Seminars can only be scheduled Monday to Friday",
+    scheduleHours: "The schedule must be between {{start}} and {{end}}",
+  },
+  errors: {
+    server: "Something went wrong on the server",
+    noResponse: "No response from the server",
+    config: "Configuration error: {{message}}",
+    unknown: "An unknown error occurred",
+    invalidResponse: "The server response has an unexpected format",
+    sessionExpired: "Your session has expired. Please log in again.",
+    sessionRevoked: "This device was signed out remotely. Please log in again.",
+    sessionRestore:
+      "Your session could not be restored because the server is unreachable. Check your connection and try again.",
+  },
+  auth: {
+    campusEmail: "Campus Email",
+    emailPlaceholder: "name@{{domain}}",
+    password: "Password",
+    confirmPassword: "Confirm Password",
+    confirmPasswordPlaceholder: "Re-enter your password",
+    sendingOtp: "Sending OTP...",
+    verifying: "Verifying...",
+    hasAccount: "Already have an account?",
+    loginHere: "Log in here",
+    otp: {
+      label: "OTP Code",
+      placeholder: "Enter the 6-digit code",
+      sentTo: "A verification code has been sent to {{email}}",
+      resendIn: "Resend in {{seconds}}s",
+      resend: "Didn't get the code? Resend",
+    },
+    twoFactor: {
+      steps: {
+        password: "Password",
+        verify: "Verification",
+      },
+      codeLabel: "Authenticator Code",
+      codeHint:
+        "Open your authenticator app and enter the 6-digit code for this account.",
+      recoveryLabel: "Recovery Code",
+      recoveryHint: "Each recovery code can only be used once to sign in.",
+      useRecovery: "Can't open the app? Use a recovery code",
+      useAuthenticator: "Use a code from the authenticator app",
+      verify: "Verify",
+      verifying: "Verifying...",
+    },
+    login: {
+      title: "Welcome Back",
+      subtitle: "Sign in to your account to continue",
+      forgotPassword: "Forgot password?",
+      submit: "Sign in",
+      submitting: "Signing in...",
+      lockedOut: "Too many login attempts. Try again in {{seconds}} seconds.",
+      noAccount: "Don't have an account?",
+      registerNow: "Register now",
+      heroTitle: "Welcome to Latest",
+      heroText:
+        "Join thousands of users who trust our platform for Environmental Engineering final project administration.",
+    },
+    register: {
+      title: "Create a New Account",
+      subtitle: "Create an account to access Latest",
+      steps: {
+        email: "Email",
+        verify: "Verify",
+        details: "Details",
+      },
+      emailHint: "Use your campus email ({{domains}})",
+      name: "Name",
+      namePlaceholder: "Enter your full name",
+      identityPlaceholder: "Enter your {{field}}",
+      phone: "Phone Number",
+      phonePlaceholder: "Enter your phone number (08xx)",
+      passwordPlaceholder: "Create a password",
+      profilePicture: "Profile Picture",
+      profilePreview: "Profile picture preview",
+      changePhoto: "Change Photo",
+      uploadPhoto: "Upload Photo",
+      photoHint: "JPG, PNG, WebP or HEIC, cropped and compressed automatically",
+      submit: "Register",
+      submitting: "Registering...",
+      resumePrompt: "You have an unfinished registration for",
+      resume: "Continue registration",
+      startOver: "Start over",
+      heroTitle: "Join LATEST",
+      heroText:
+        "Register now to manage your Environmental Engineering final project easily and efficiently.",
+    },
+    invitation: {
+      title: "Accept Invitation",
+      subtitle: "Complete your details to activate your account",
+      steps: {
+        invitation: "Invitation",
+      },
+      loading: "Checking invitation...",
+      invalidHint: "Contact the coordinator to request a new invitation link.",
+      emailLocked: "The email is set by the invitation and cannot be changed.",
+      summary: "{{name}} invited you to join as {{role}}.",
+      expiresAt: "This invitation is valid until {{date}}.",
+      submit: "Create Account",
+      heroTitle: "You're Invited to LATEST",
+      heroText:
+        "Create an account to help manage and assess Environmental Engineering final projects.",
+    },
+    forgotPassword: {
+      title: "Forgot Password",
+      subtitle: "Reset your account password",
+      steps: {
+        email: "Email",
+        verify: "Verify",
+        password: "Password",
+      },
+      emailHint:
+        "Enter your account email and we will send you a verification code to reset your password.",
+      newPassword: "New Password",
+      newPasswordPlaceholder: "Create a new password",
+      submit: "Save Password",
+      submitting: "Saving...",
+      remembered: "Remembered your password?",
+      heroTitle: "Recover Your Account",
+      heroText:
+        "Verify your campus email, then create a new password to get back into Latest.",
+    },
+  },
+  avatarEditor: {
+    title: "Adjust Profile Picture",
+    description:
+      "Drag the image to choose the area, then adjust zoom and rotation.",
+    loading: "Opening image...",
+    zoom: "Zoom",
+    rotateLeft: "Rotate left",
+    rotateRight: "Rotate right",
+    apply: "Use Photo",
+    applying: "Processing...",
+    errors: {
+      processing:
+        "This image cannot be opened in this browser. Try a JPG or PNG instead.",
+      compress:
+        "The image could not be compressed under the size limit. Try another image.",
+    },
+  },
+  profile: {
+    title: "My Profile",
+    subtitle: "Manage your personal data, profile picture and password.",
+    changePhoto: "Change Photo",
+    uploadingPhoto: "Uploading...",
+    personalData: "Personal Data",
+    personalDataHint: "Update your name, identity number and phone number.",
+    emailHint: "Your campus email cannot be changed.",
+    save: "Save Changes",
+    saving: "Saving...",
+    security: "Change Password",
+    securityHint:
+      "Enter your current password, then a new password of at least 8 characters.",
+    currentPassword: "Current Password",
+    newPassword: "New Password",
+    changePassword: "Update Password",
+    changingPassword: "Updating...",
+  },
+  security: {
+    title: "Account Security",
+    subtitle: "Review the devices signed in to your account and recent logins.",
+    twoFactor: {
+      title: "Two-Step Verification",
+      subtitle:
+        "Ask for a code from an authenticator app every time you log in with your password.",
+      enabled: "On",
+      disabled: "Off",
+      enable: "Turn On",
+      requiredSetup:
+        "The coordinator requires two-step verification for your role. Turn it on to continue.",
+      requiredHint:
+        "Two-step verification is required for your role and can't be turned off.",
+      setup: {
+        title: "Turn On Two-Step Verification",
+        subtitle:
+          "Use an app such as Google Authenticator, Microsoft Authenticator, or Authy.",
+        steps: {
+          scan: "Scan QR",
+          recovery: "Recovery Codes",
+          confirm: "Confirm",
+        },
+        scanHint: "Scan this QR code with your authenticator app.",
+        manualEntry: "Can't scan it? Enter this key manually:",
+        recoveryHint:
+          "Keep these recovery codes somewhere safe. They let you sign in if you lose your phone and won't be shown again.",
+        copy: "Copy",
+        download: "Download",
+        copied: "Recovery codes copied",
+        copyFailed: "Failed to copy recovery codes",
+        confirmHint:
+          "Enter the 6-digit code currently shown in your authenticator app.",
+        submit: "Turn On",
+        submitting: "Turning on...",
+      },
+      disable: {
+        action: "Turn Off",
+        title: "Turn off two-step verification?",
+        subtitle:
+          "Your account will only be protected by your password. Confirm with your password and a verification code.",
+        codeHint:
+          "A 6-digit code from your authenticator app or a recovery code.",
+        submit: "Turn Off",
+        submitting: "Turning off...",
+      },
+    },
+    twoFactorPolicy: {
+      title: "Two-Step Verification Policy",
+      subtitle:
+        "Require two-step verification for accounts that manage grades and supervisor assignments.",
+      require: "Required for {{role}}",
+      requireHint: "Users with this role must turn it on before using the app.",
+      save: "Save Policy",
+      loadFailed: "Failed to load the two-step verification policy.",
+    },
+    device: "{{browser}} on {{os}}",
+    unknownDevice: "Unknown device",
+    sessions: {
+      title: "Active Devices",
+      subtitle: "Sign out devices you don't recognize or no longer use.",
+      current: "This device",
+      details: "{{ip}} · Active {{lastActive}} · Signed in {{signedIn}}",
+      revoke: "Sign out",
+      revokeOthers: "Sign Out All Other Devices",
+      loadFailed: "Failed to load devices.",
+    },
+    history: {
+      title: "Login History",
+      subtitle: "Recent login attempts to your account, successful or not.",
+      time: "Time",
+      status: "Status",
+      device: "Device",
+      ipAddress: "IP address",
+      success: "Successful",
+      failed: "Failed",
+      reasons: {
+        INVALID_CREDENTIALS: "Wrong password",
+        ACCOUNT_INACTIVE: "Account inactive",
+        INVALID_TWO_FACTOR: "Wrong verification code",
+      },
+      empty: "No login history yet.",
+      loadFailed: "Failed to load login history.",
+    },
+    confirm: {
+      revokeTitle: "Sign out device?",
+      revoke:
+        "{{device}} will be signed out and must log in again to access the account.",
+      revokeOthersTitle: "Sign out all other devices?",
+      revokeOthers:
+        "{{count}} other devices will be signed out. This device stays signed in.",
+    },
+  },
+  users: {
+    title: "User Management",
+    subtitle:
+      "Manage student and lecturer accounts, correct identity data, and control access.",
+    search: "Search name, email, NIM, or NIP",
+    filters: {
+      role: "Filter by role",
+      allRoles: "All roles",
+      status: "Filter by status",
+      allStatuses: "All statuses",
+    },
+    table: {
+      user: "User",
+      identity: "NIM/NIP",
+      role: "Role",
+      status: "Status",
+      actions: "Actions",
+    },
+    joined: "Joined {{date}}",
+    empty: "No users match the filters.",
+    loadFailed: "Failed to load the user list.",
+    pagination: {
+      summary: "Showing {{from}}-{{to}} of {{total}} users",
+      page: "Page {{page}} of {{totalPages}}",
+    },
+    actions: {
+      edit: "Edit data",
+      resetPassword: "Reset password",
+      promote: "Make coordinator",
+      activate: "Activate",
+      deactivate: "Deactivate",
+    },
+    edit: {
+      title: "Edit User Data",
+    },
+    confirm: {
+      activateTitle: "Activate account?",
+      activate: "{{name}} will be able to log in to Latest again.",
+      deactivateTitle: "Deactivate account?",
+      deactivate:
+        "{{name}} will not be able to log in and their active sessions will end.",
+      resetTitle: "Reset password?",
+      reset:
+        "A password reset code will be sent to {{email}}. {{name}} will need to create a new password.",
+      promoteTitle: "Make coordinator?",
+      promote:
+        "{{name}} will get coordinator access, including user management.",
+    },
+  },
+  invitations: {
+    title: "Invitations",
+    subtitle:
+      "Invite new coordinators and external examiners who cannot register themselves.",
+    create: {
+      title: "Send Invitation",
+      description:
+        "A registration link is emailed and only works until it expires.",
+      role: "Role",
+      expiry: "Valid for",
+      days: "{{days}} days",
+      campusHint: "{{role}} accounts use an @{{domain}} email",
+      externalHint:
+        "Use the examiner's institutional email outside Universitas Riau",
+      externalPlaceholder: "name@university.edu",
+      submit: "Send",
+    },
+    list: {
+      title: "Invitation List",
+      expiresAt: "Valid until",
+      invitedBy: "By {{name}}, {{date}}",
+      empty: "No invitations yet.",
+      loadFailed: "Failed to load the invitation list.",
+    },
+    status: {
+      PENDING: "Pending",
+      ACCEPTED: "Accepted",
+      EXPIRED: "Expired",
+      REVOKED: "Revoked",
+    },
+    actions: {
+      resend: "Resend",
+      revoke: "Revoke invitation",
+    },
+    confirmRevoke: {
+      title: "Revoke invitation?",
+      description: "The invitation link for {{email}} will no longer work.",
+    },
+  },
+  realtime: {
+    status: {
+      connecting: "Connecting",
+      open: "Live",
+      reconnecting: "Reconnecting",
+      polling: "Periodic",
+    },
+    hint: {
+      connecting: "Connecting to live updates...",
+      open: "Status changes appear automatically without reloading the page.",
+      reconnecting: "Live updates disconnected, retrying...",
+      polling: "Live updates are unavailable, data refreshes every 30 seconds.",
+    },
+  },
+  notifications: {
+    title: "Notifications",
+    subtitle: "Updates about your supervision, seminars, and submissions.",
+    unreadLabel: "Notifications, {{count}} unread",
+    markRead: "Mark as read",
+    markUnread: "Mark as unread",
+    markAllRead: "Mark all as read",
+    viewAll: "View all notifications",
+    empty: "No notifications yet.",
+    emptyUnread: "You're all caught up.",
+    loadFailed: "Failed to load notifications.",
+    saveToInbox: "Save",
+    saved: "Saved to your notification inbox",
+    filters: {
+      all: "All",
+      unread: "Unread ({{count}})",
+    },
+    pagination: {
+      summary: "Showing {{from}}-{{to}} of {{total}} notifications",
+      page: "Page {{page}} of {{totalPages}}",
+    },
+  },
+  proposals: {
+    title: "Thesis Proposal",
+    subtitle: "Propose your final project title and track its review here.",
+    untitled: "Untitled draft",
+    submittedAt: "Submitted {{date}}",
+    updatedAt: "Last saved {{date}}",
+    loadFailed: "Failed to load the thesis proposal.",
+    startNew: "Propose a new title",
+    status: {
+      DRAFT: "Draft",
+      SUBMITTED: "Submitted",
+      REVISION_REQUESTED: "Revision requested",
+      ACCEPTED: "Accepted",
+      REJECTED: "Rejected",
+    },
+    statusHint: {
+      DRAFT:
+        "This draft has not been submitted. Complete every step and submit it.",
+      SUBMITTED: "Your proposal is being reviewed by the coordinator.",
+      REVISION_REQUESTED:
+        "The reviewer requested a revision. Update the proposal based on the comments and submit it again.",
+      ACCEPTED: "Your title has been accepted.",
+      REJECTED:
+        "The proposal was rejected. You can propose a new title taking the reviewer's comments into account.",
+    },
+    researchFields: {
+      WATER_QUALITY: "Water Quality",
+      WASTEWATER: "Wastewater Treatment",
+      SOLID_WASTE: "Solid Waste Management",
+      AIR_QUALITY: "Air Quality",
+      ENVIRONMENTAL_MANAGEMENT: "Environmental Management",
+    },
+    comments: {
+      title: "Reviewer comments",
+      empty: "No comments yet.",
+    },
+    form: {
+      title: "Proposal form",
+      reviseTitle: "Revise proposal",
+      subtitle: "Each step is saved as a draft, so you can continue later.",
+      steps: {
+        summary: "Title",
+        scope: "Scope",
+        supervisors: "Supervisors",
+        review: "Review",
+      },
+      titlePlaceholder: "Final project title",
+      locationPlaceholder: "e.g. Tembalang communal wastewater plant",
+      characters: "{{count}}/{{maximum}} characters",
+      chooseField: "Choose a research field",
+      supervisorsHint:
+        "Choose up to {{maximum}} preferred supervisors in order of preference.",
+      supervisorChoice: "Choice {{position}}",
+      chooseSupervisor: "Choose a preferred supervisor",
+      noSupervisor: "None",
+      reviewHint:
+        "Check the details above. Once submitted, the proposal cannot be changed unless a revision is requested.",
+      saveDraft: "Save draft",
+      submit: "Submit",
+      submitting: "Submitting...",
+    },
+  },
+  topics: {
+    title: "Research Topics",
+    subtitle:
+      "Find topics from lecturers' research projects and apply to the ones that match your interests.",
+    lecturerTitle: "My Topics",
+    lecturerSubtitle:
+      "Offer topics from your research projects and choose among student applicants.",
+    search: "Search title, lecturer or skill...",
+    allFields: "All fields",
+    availableOnly: "Available only",
+    empty: "No matching topics.",
+    emptyMine: "You have not offered any topics yet.",
+    loadFailed: "Failed to load topics.",
+    myApplications: "My applications",
+    page: "Page {{page}} of {{totalPages}}",
+    open: "Available",
+    full: "Quota full",
+    quota: "{{accepted}}/{{quota}} students",
+    new: "New topic",
+    edit: "Edit",
+    delete: "Delete",
+    deleteTitle: "Delete topic?",
+    deleteConfirm:
+      'The topic "{{title}}" will be deleted and pending applicants will be notified.',
+    applicationStatus: {
+      PENDING: "Awaiting decision",
+      ACCEPTED: "Accepted",
+      DECLINED: "Declined",
+    },
+    form: {
+      newTitle: "New topic",
+      editTitle: "Edit topic",
+      description: "Published topics are immediately visible to all students.",
+      skillsPlaceholder: "Separate with commas, e.g. GIS, Python",
+      publish: "Publish",
+      save: "Save",
+      saving: "Saving...",
+    },
+    apply: {
+      action: "Apply",
+      title: "Apply for topic",
+      description: "{{title}} by {{lecturer}}",
+      placeholder:
+        "Describe your interest and any experience relevant to this topic.",
+      submit: "Send application",
+    },
+    applicants: {
+      toggle: "Applicants ({{count}} pending)",
+      empty: "No applicants yet.",
+      loadFailed: "Failed to load applicants.",
+      accept: "Accept",
+      decline: "Decline",
+      acceptTitle: "Accept applicant?",
+      acceptConfirm:
+        "{{name}} will be accepted and a thesis proposal draft will be created for them. The student's other applications are cancelled.",
+      declineTitle: "Decline applicant?",
+      declineConfirm: "{{name}}'s application will be declined.",
+    },
+  },
+  supervision: {
+    title: "Supervisor Assignment",
+    subtitle:
+      "Assign a first and second supervisor to students whose thesis proposal was accepted.",
+    loadFailed: "Failed to load supervision data.",
+    unassigned: "Not assigned",
+    optionLabel: "{{name}} ({{load}}/{{maxLoad}})",
+    overQuota: "Over supervision quota",
+    save: "Save changes ({{count}})",
+    discard: "Discard changes",
+    positions: {
+      PRIMARY: "First supervisor",
+      SECONDARY: "Second supervisor",
+    },
+    suggest: {
+      action: "Suggest balanced assignment",
+      applied:
+        "Suggestions added for {{count}} student(s). Review them before saving.",
+      none: "All students already have two supervisors.",
+    },
+    loads: {
+      title: "Lecturer supervision load",
+      subtitle:
+        "Includes unsaved changes. Lecturers over the quota are marked in red.",
+      maxLoad: "Quota per lecturer",
+      saveQuota: "Save quota",
+      count: "{{load}}/{{maxLoad}} students",
+      breakdown: "First: {{primary}} · Second: {{secondary}}",
+    },
+    students: {
+      title: "Students",
+      student: "Student",
+      preferred: "Student preference",
+      incompleteOnly: "Incomplete only",
+      allAssigned: "All students already have two supervisors.",
+      empty: "No students with an accepted proposal yet.",
+    },
+    confirm: {
+      title: "Save supervisor assignments?",
+      description:
+        "Assignments for {{count}} student(s) will be saved and the affected students and lecturers will be notified.",
+      overQuota:
+        "Warning: {{names}} will exceed the quota of {{maxLoad}} students.",
+      submit: "Save assignments",
+    },
+    history: {
+      title: "Assignment history",
+      subtitle: "Every supervisor change is recorded here.",
+      empty: "No changes yet.",
+      loadFailed: "Failed to load history.",
+      changedBy: "by {{name}}, {{date}}",
+    },
+  },
+  logbook: {
+    title: "Supervision Logbook",
+    subtitle:
+      "Record every supervision meeting as a requirement for the thesis defense.",
+    queueTitle: "Supervision Logbook",
+    queueSubtitle:
+      "Review your students' meeting records, then approve, reject or comment on them.",
+    loadFailed: "Failed to load the supervision logbook.",
+    empty: "No logbook entries yet.",
+    queueEmpty: "No entries are awaiting approval.",
+    noSupervisor:
+      "Your supervisors have not been assigned by the coordinator yet, so the logbook cannot be filled in.",
+    new: "Log meeting",
+    edit: "Edit",
+    delete: "Delete",
+    deleteTitle: "Delete logbook entry?",
+    deleteConfirm: 'The entry "{{topic}}" will be removed from your logbook.',
+    entries: "Logbook entries",
+    open: "Open logbook",
+    status: {
+      PENDING: "Awaiting approval",
+      APPROVED: "Approved",
+      REJECTED: "Rejected",
+    },
+    progress: {
+      title: "Supervision progress",
+      subtitle:
+        "Meetings approved by your supervisors count toward the defense requirement.",
+      count: "{{approved}} of at least {{minimum}} meetings approved",
+      pending: "{{count}} awaiting approval",
+      complete: "The required number of meetings has been reached",
+    },
+    form: {
+      newTitle: "Log meeting",
+      editTitle: "Edit logbook entry",
+      description:
+        "The entry is sent to the selected supervisor for approval. Edited entries are reviewed again.",
+      attachments: "Attachments (optional)",
+      attachmentsHint:
+        "Up to {{maximum}} PDF, Word, Excel, PowerPoint or image files, 5MB each.",
+      removeAttachment: "Remove attachment",
+      fromAppointment:
+        "Prefilled from an appointment that has taken place. Complete the discussion notes before sending it to your supervisor.",
+      submit: "Send to supervisor",
+      saving: "Saving...",
+    },
+    review: {
+      placeholder: "Comment for the student (required when rejecting)",
+      comment: "Send comment",
+      reject: "Reject",
+      approve: "Approve",
+    },
+    print: {
+      action: "Print supervision card",
+      print: "Print",
+      title: "Thesis Supervision Card",
+      number: "No",
+      supervisor: "Supervisor",
+      signOff: "Sign-off",
+      empty: "No approved meetings yet.",
+      approvedAt: "Approved {{date}}",
+      printedAt: "Printed on {{date}}",
+    },
+  },
+  appointments: {
+    title: "Supervision Appointments",
+    subtitle:
+      "Pick a free slot from your supervisor to book, reschedule or cancel an appointment.",
+    supervisorTitle: "Supervision Appointments",
+    supervisorSubtitle:
+      "Manage your availability and follow appointments booked by your supervisees.",
+    loadFailed: "Failed to load appointments.",
+    noSupervisor:
+      "Your supervisors have not been assigned by the coordinator yet, so appointments cannot be booked.",
+    openSlot: "Free slot",
+    taken: "Already booked",
+    notRecorded: "Not logged yet",
+    status: {
+      CONFIRMED: "Scheduled",
+      CANCELLED: "Cancelled",
+    },
+    calendar: {
+      previous: "Previous",
+      next: "Next",
+      today: "Today",
+      week: "Week",
+      month: "Month",
+      more: "+{{count}} more",
+    },
+    book: {
+      title: "Book appointment",
+      description: "Meet {{name}} on {{time}} at {{venue}}.",
+      placeholder: "What you would like to discuss with your supervisor",
+      submit: "Book",
+      saving: "Saving...",
+    },
+    details: {
+      title: "Supervision appointment",
+      time: "Time",
+      student: "Student",
+      supervisor: "Supervisor",
+      cancelledBy: "Cancelled by {{name}}: {{reason}}",
+      recorded: "Logged in the logbook",
+      close: "Close",
+      cancel: "Cancel appointment",
+      cancelPlaceholder: "Reason for the other party",
+      confirmCancel: "Yes, cancel",
+      reschedule: "Reschedule",
+      record: "Log in logbook",
+    },
+    reschedule: {
+      banner: 'Pick a new free slot for "{{agenda}}".',
+      stop: "Cancel",
+      confirmTitle: "Move appointment?",
+      confirm: "The appointment will move to {{time}} at {{venue}}.",
+      submit: "Move",
+    },
+    availability: {
+      title: "Weekly availability",
+      description:
+        "Weekly slots your supervisees can book. Existing appointments are not affected.",
+      empty: "No weekly slots yet.",
+      add: "Add slot",
+      remove: "Remove slot",
+      reset: "Discard changes",
+      save: "Save availability",
+      saving: "Saving...",
+    },
+    exceptions: {
+      title: "Exceptions",
+      description:
+        "Block out a specific date or open an extra slot outside your weekly availability.",
+      empty: "No upcoming exceptions.",
+      add: "Add exception",
+      remove: "Remove exception",
+      allDay: "All day",
+      types: {
+        UNAVAILABLE: "Unavailable",
+        EXTRA: "Extra slot",
+      },
+      form: {
+        title: "Add availability exception",
+        description:
+          "Leave the times empty to block the whole day. Extra slots need times and a venue.",
+        type: "Type",
+        submit: "Save",
+        saving: "Saving...",
+      },
+    },
+  },
+  seminars: {
+    title: "Seminars & Defenses",
+    subtitle:
+      "Proposal seminars, result seminars and final defenses you are part of.",
+    coordinatorTitle: "Seminar & Defense Scheduling",
+    coordinatorSubtitle:
+      "Build a schedule without room, lecturer or student clashes, then publish it to everyone involved.",
+    loadFailed: "Failed to load the seminar schedule.",
+    add: "Add schedule",
+    publish: "Publish {{count}} drafts",
+    publishTitle: "Publish the schedule?",
+    publishConfirm:
+      "{{count}} draft schedules this week will be published to the students, supervisors and examiners.",
+    dragHint: "Drag a schedule to another slot to move it.",
+    deleteTitle: "Delete the schedule?",
+    deleteConfirm: "The {{type}} for {{name}} will be deleted.",
+    deletePublished:
+      "The {{type}} for {{name}} has been published. Everyone involved will be told it was cancelled.",
+    moveConflictsTitle: "The schedule cannot be moved",
+    moveConflictsDescription: "The target slot clashes with:",
+    types: {
+      PROPOSAL: "Proposal Seminar",
+      RESULT: "Result Seminar",
+      DEFENSE: "Final Defense",
+    },
+    status: {
+      DRAFT: "Draft",
+      PUBLISHED: "Published",
+    },
+    roles: {
+      STUDENT: "Student",
+      SUPERVISOR: "Supervisor",
+      EXAMINER: "Examiner",
+    },
+    conflictTypes: {
+      ROOM: "Room",
+      LECTURER: "Lecturer",
+      STUDENT: "Student",
+    },
+    details: {
+      time: "Time",
+      supervisors: "Supervisors",
+      close: "Close",
+    },
+    form: {
+      createTitle: "Add a seminar schedule",
+      editTitle: "Edit the seminar schedule",
+      description:
+        "Room, lecturer and student clashes are checked automatically before the schedule is saved.",
+      editPublished:
+        "This schedule has been published. Changes will be sent to everyone involved.",
+      selectStudent: "Choose a student",
+      supervisors: "Supervisors",
+      examinersHint:
+        "Choose 1 to {{maximum}} examiners other than the student's supervisors.",
+      selectRoom: "Choose a room",
+      checking: "Checking for clashes...",
+      conflicts: "Schedule clashes",
+      noConflicts: "No clashes at this time and room.",
+      suggest: "Suggest free slots",
+      noSuggestions:
+        "No slot in the next 30 days is free for everyone involved.",
+      delete: "Delete schedule",
+      submit: "Save schedule",
+      saving: "Saving...",
+    },
+    rooms: {
+      title: "Seminar rooms",
+      description: "Rooms available for seminars and defenses.",
+      add: "Add room",
+      empty: "No rooms yet.",
+      capacity: "{{count}} people",
+      option: "{{name}} ({{count}} people)",
+      edit: "Edit room",
+      remove: "Delete room",
+      deleteTitle: "Delete the room?",
+      deleteConfirm: "The room {{name}} will be deleted.",
+      createTitle: "Add room",
+      editTitle: "Edit room",
+      formDescription: "Room names must be unique.",
+      submit: "Save",
+      saving: "Saving...",
+    },
+  },
+  dashboard: {
+    greeting: "Hello, {{name}}",
+    title: "Dashboard",
+    empty: "No activity yet.",
+    studentIntro: "Track the progress of your final project here.",
+    lecturerIntro: "Manage your supervision and student assessments here.",
+    coordinatorIntro: "Manage the program's final project administration here.",
+    examinerIntro:
+      "See the exam schedules and documents you need to assess here.",
+  },
+};
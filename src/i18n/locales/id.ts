@@ -0,0 +1,924 @@
+export const id = {
+  common: {
+    appName: "Latest",
+    footer: "S1 Teknik Lingkungan - Universitas Riau",
+    back: "Kembali",
+    next: "Lanjut",
+    or: "Atau",
+    logout: "Keluar",
+    loggedOut: "Anda telah keluar",
+    openMenu: "Buka menu",
+    closeMenu: "Tutup menu",
+    showPassword: "Tampilkan kata sandi",
+    hidePassword: "Sembunyikan kata sandi",
+    language: "Bahasa",
+    processing: "Memproses...",
+    cancel: "Batal",
+    uploading: "Mengunggah... {{progress}}%",
+    previous: "Sebelumnya",
+    retry: "Coba lagi",
+  },
+  roles: {
+    STUDENT: "Mahasiswa",
+    LECTURER: "Dosen",
+    COORDINATOR: "Koordinator",
+    EXAMINER: "Penguji Luar",
+  },
+  userStatus: {
+    ACTIVE: "Aktif",
+    INACTIVE: "Nonaktif",
+  },
+  nav: {
+    dashboard: "Dashboard",
+    profile: "Profil",
+    users: "Pengguna",
+    invitations: "Undangan",
+    security: "Keamanan",
+    proposal: "Pengajuan Judul",
+    topics: "Topik Penelitian",
+    supervision: "Pembimbing",
+    logbook: "Logbook Bimbingan",
+    appointments: "Janji Temu",
+    seminars: "Seminar & Sidang",
+  },
+  fields: {
+    email: "Email",
+    password: "Kata sandi",
+    confirmPassword: "Konfirmasi kata sandi",
+    name: "Nama",
+    nim: "NIM",
+    nip: "NIP",
+    phoneNumber: "Nomor telepon",
+    otp: "OTP",
+    currentPassword: "Kata sandi saat ini",
+    title: "Judul",
+    abstract: "Abstrak",
+    researchField: "Bidang penelitian",
+    location: "Lokasi penelitian",
+    preferredSupervisorIds: "Calon pembimbing",
+    description: "Deskripsi",
+    quota: "Kuota",
+    requiredSkills: "Keahlian yang dibutuhkan",
+    motivation: "Surat motivasi",
+    meetingDate: "Tanggal pertemuan",
+    supervisorId: "Dosen pembimbing",
+    topic: "Topik bimbingan",
+    notes: "Catatan diskusi",
+    nextActions: "Rencana tindak lanjut",
+    comment: "Komentar",
+    agenda: "Agenda pertemuan",
+    reason: "Alasan",
+    weekday: "Hari",
+    date: "Tanggal",
+    startTime: "Jam mulai",
+    endTime: "Jam selesai",
+    venue: "Tempat",
+    note: "Keterangan",
+    type: "Jenis",
+    studentId: "Mahasiswa",
+    roomId: "Ruang",
+    examinerIds: "Penguji",
+    capacity: "Kapasitas",
+  },
+  domains: {
+    student: "Terdeteksi sebagai mahasiswa, NIM diperlukan pada data diri",
+    lecturer: "Terdeteksi sebagai dosen, NIP diperlukan pada data diri",
+    coordinator:
+      "Terdeteksi sebagai koordinator, NIP diperlukan pada data diri",
+  },
+  validation: {
+    required: "{{field}} wajib diisi",
+    invalid: "{{field}} tidak valid",
+    invalidEmail: "Email tidak valid",
+    tooShort: "{{field}} minimal {{minimum}} karakter",
+    tooLong: "{{field}} maksimal {{maximum}} karakter",
+    campusEmail: "Gunakan email kampus Universitas Riau ({{domains}})",
+    otpFormat: "OTP harus 6 digit angka",
+    identityNumber: "{{field}} harus berupa angka dan minimal 8 digit",
+    phoneNumber: "Nomor telepon tidak valid",
+    phonePrefix: "Nomor telepon harus diawali dengan 08",
+    passwordMismatch: "Kata sandi dan konfirmasi kata sandi tidak cocok",
+    nimOrNip: "Hanya salah satu dari NIM atau NIP yang boleh diisi",
+    invitationEmail: "Email tidak sesuai dengan role yang diundang",
+    recaptchaRequired: "Harap selesaikan reCAPTCHA",
+    recoveryCodeFormat: "Kode pemulihan berformat xxxx-xxxx",
+    twoFactorCode: "Masukkan kode 6 digit atau kode pemulihan",
+    fileTooLarge: "Ukuran file maksimum adalah {{size}}",
+    fileType: "Hanya file gambar yang diperbolehkan",
+    preferredSupervisors: "Pilih 1 sampai {{maximum}} calon pembimbing",
+    quota: "Kuota harus antara 1 dan {{maximum}} mahasiswa",
+    requiredSkills: "Maksimal {{maximum}} keahlian",
+    futureDate: "{{field}} tidak boleh di masa depan",
+    attachmentType:
+      "Hanya file PDF, Word, Excel, PowerPoint, atau gambar yang diperbolehkan",
+    attachmentCount: "Maksimal {{maximum}} lampiran",
+    timeOrder: "Jam selesai harus setelah jam mulai",
+    pastDate: "{{field}} tidak boleh di masa lalu",
+    capacity: "Kapasitas harus antara 1 dan {{maximum}} orang",
+    examiners: "Pilih 1 sampai {{maximum}} penguji",
+    workingDay: "Seminar hanya dapat dijadwalkan Senin sampai Jumat",
+    scheduleHours: "Jadwal harus di antara pukul {{start}} dan {{end}}",
+  },
+  errors: {
+    server: "Terjadi kesalahan pada server",
+    noResponse: "Tidak ada respons dari server",
+    config: "Kesalahan konfigurasi: {{message}}",
+    unknown: "Terjadi kesalahan yang tidak diketahui",
+    invalidResponse: "Respons server tidak sesuai format yang diharapkan",
+    sessionExpired: "Sesi Anda telah kedaluwarsa. Silakan login ulang.",
+    sessionRevoked:
+      "Perangkat ini telah dikeluarkan dari sesi. Silakan login ulang.",
+    sessionRestore:
+      "Sesi tidak dapat dipulihkan karena server tidak dapat dihubungi. Periksa koneksi Anda lalu coba lagi.",
+  },
+  auth: {
+    campusEmail: "Email Kampus",
+    emailPlaceholder: "nama@{{domain}}",
+    password: "Kata Sandi",
+    confirmPassword: "Konfirmasi Kata Sandi",
+    confirmPasswordPlaceholder: "Masukkan ulang kata sandi",
+    sendingOtp: "Mengirim OTP...",
+    verifying: "Verifikasi...",
+    hasAccount: "Sudah punya akun?",
+    loginHere: "Login di sini",
+    otp: {
+      label: "Kode OTP",
+      placeholder: "Masukkan kode 6-digit",
+      sentTo: "Kode verifikasi telah dikirim ke {{email}}",
+      resendIn: "Kirim ulang dalam {{seconds}}s",
+      resend: "Tidak menerima kode? Kirim ulang",
+    },
+    twoFactor: {
+      steps: {
+        password: "Kata Sandi",
+        verify: "Verifikasi",
+      },
+      codeLabel: "Kode Autentikator",
+      codeHint:
+        "Buka aplikasi autentikator dan masukkan kode 6 digit untuk akun ini.",
+      recoveryLabel: "Kode Pemulihan",
+      recoveryHint:
+        "Setiap kode pemulihan hanya bisa dipakai sekali untuk masuk.",
+      useRecovery: "Tidak bisa membuka aplikasi? Pakai kode pemulihan",
+      useAuthenticator: "Pakai kode dari aplikasi autentikator",
+      verify: "Verifikasi",
+      verifying: "Memverifikasi...",
+    },
+    login: {
+      title: "Selamat Datang",
+      subtitle: "Masuk ke akun Anda untuk melanjutkan",
+      forgotPassword: "Lupa kata sandi?",
+      submit: "Masuk",
+      submitting: "Sedang masuk...",
+      lockedOut:
+        "Terlalu banyak percobaan login. Coba lagi dalam {{seconds}} detik.",
+      noAccount: "Belum punya akun?",
+      registerNow: "Daftar sekarang",
+      heroTitle: "Selamat Datang di Latest",
+      heroText:
+        "Bergabunglah dengan ribuan pengguna yang mempercayai platform kami untuk administrasi tugas akhir Teknik Lingkungan.",
+    },
+    register: {
+      title: "Daftar Akun Baru",
+      subtitle: "Buat akun untuk mengakses aplikasi Latest",
+      steps: {
+        email: "Email",
+        verify: "Verify",
+        details: "Details",
+      },
+      emailHint: "Gunakan email kampus ({{domains}})",
+      name: "Nama",
+      namePlaceholder: "Masukkan nama lengkap",
+      identityPlaceholder: "Masukkan {{field}}",
+      phone: "Nomor HP",
+      phonePlaceholder: "Masukkan nomor HP (08xx)",
+      passwordPlaceholder: "Buat kata sandi",
+      profilePicture: "Foto Profil",
+      profilePreview: "Pratinjau foto profil",
+      changePhoto: "Ganti Foto",
+      uploadPhoto: "Unggah Foto",
+      photoHint: "JPG, PNG, WebP, atau HEIC, dipotong dan dikompres otomatis",
+      submit: "Daftar",
+      submitting: "Mendaftar...",
+      resumePrompt: "Anda memiliki pendaftaran yang belum selesai untuk",
+      resume: "Lanjutkan pendaftaran",
+      startOver: "Mulai baru",
+      heroTitle: "Bergabung dengan LATEST",
+      heroText:
+        "Daftar sekarang untuk mengelola tugas akhir Teknik Lingkungan dengan mudah dan efisien.",
+    },
+    invitation: {
+      title: "Terima Undangan",
+      subtitle: "Lengkapi data untuk mengaktifkan akun Anda",
+      steps: {
+        invitation: "Undangan",
+      },
+      loading: "Memeriksa undangan...",
+      invalidHint:
+        "Hubungi koordinator untuk meminta tautan undangan yang baru.",
+      emailLocked: "Email ditentukan oleh undangan dan tidak dapat diubah.",
+      summary: "{{name}} mengundang Anda bergabung sebagai {{role}}.",
+      expiresAt: "Undangan berlaku sampai {{date}}.",
+      submit: "Buat Akun",
+      heroTitle: "Anda Diundang ke LATEST",
+      heroText:
+        "Buat akun untuk ikut mengelola dan menilai tugas akhir Teknik Lingkungan.",
+    },
+    forgotPassword: {
+      title: "Lupa Kata Sandi",
+      subtitle: "Atur ulang kata sandi akun Anda",
+      steps: {
+        email: "Email",
+        verify: "Verify",
+        password: "Kata Sandi",
+      },
+      emailHint:
+        "Masukkan email akun Anda, kami akan mengirimkan kode verifikasi untuk mengatur ulang kata sandi.",
+      newPassword: "Kata Sandi Baru",
+      newPasswordPlaceholder: "Buat kata sandi baru",
+      submit: "Simpan Kata Sandi",
+      submitting: "Menyimpan...",
+      remembered: "Sudah ingat kata sandi?",
+      heroTitle: "Pulihkan Akun Anda",
+      heroText:
+        "Verifikasi email kampus Anda lalu buat kata sandi baru untuk kembali mengakses Latest.",
+    },
+  },
+  avatarEditor: {
+    title: "Atur Foto Profil",
+    description:
+      "Geser gambar untuk menentukan area, lalu atur zoom dan rotasi.",
+    loading: "Membuka gambar...",
+    zoom: "Zoom",
+    rotateLeft: "Putar ke kiri",
+    rotateRight: "Putar ke kanan",
+    apply: "Gunakan Foto",
+    applying: "Memproses...",
+    errors: {
+      processing:
+        "Gambar tidak dapat dibuka di browser ini. Coba gunakan JPG atau PNG.",
+      compress:
+        "Gambar tidak dapat dikompres hingga batas ukuran. Coba gunakan gambar lain.",
+    },
+  },
+  profile: {
+    title: "Profil Saya",
+    subtitle: "Kelola data diri, foto profil, dan kata sandi akun Anda.",
+    changePhoto: "Ganti Foto",
+    uploadingPhoto: "Mengunggah...",
+    personalData: "Data Diri",
+    personalDataHint: "Perbarui nama, nomor identitas, dan nomor HP Anda.",
+    emailHint: "Email kampus tidak dapat diubah.",
+    save: "Simpan Perubahan",
+    saving: "Menyimpan...",
+    security: "Ubah Kata Sandi",
+    securityHint:
+      "Masukkan kata sandi saat ini, lalu kata sandi baru minimal 8 karakter.",
+    currentPassword: "Kata Sandi Saat Ini",
+    newPassword: "Kata Sandi Baru",
+    changePassword: "Perbarui Kata Sandi",
+    changingPassword: "Memperbarui...",
+  },
+  security: {
+    title: "Keamanan Akun",
+    subtitle: "Pantau perangkat yang sedang login dan riwayat login akun Anda.",
+    twoFactor: {
+      title: "Verifikasi Dua Langkah",
+      subtitle:
+        "Minta kode dari aplikasi autentikator setiap kali login dengan kata sandi.",
+      enabled: "Aktif",
+      disabled: "Nonaktif",
+      enable: "Aktifkan",
+      requiredSetup:
+        "Koordinator mewajibkan verifikasi dua langkah untuk role Anda. Aktifkan terlebih dahulu untuk melanjutkan.",
+      requiredHint:
+        "Verifikasi dua langkah diwajibkan untuk role Anda dan tidak dapat dinonaktifkan.",
+      setup: {
+        title: "Aktifkan Verifikasi Dua Langkah",
+        subtitle:
+          "Gunakan aplikasi seperti Google Authenticator, Microsoft Authenticator, atau Authy.",
+        steps: {
+          scan: "Pindai QR",
+          recovery: "Kode Pemulihan",
+          confirm: "Konfirmasi",
+        },
+        scanHint: "Pindai kode QR berikut dengan aplikasi autentikator Anda.",
+        manualEntry: "Tidak bisa memindai? Masukkan kunci ini secara manual:",
+        recoveryHint:
+          "Simpan kode pemulihan di tempat aman. Kode ini dipakai untuk masuk jika ponsel Anda hilang dan tidak akan ditampilkan lagi.",
+        copy: "Salin",
+        download: "Unduh",
+        copied: "Kode pemulihan disalin",
+        copyFailed: "Gagal menyalin kode pemulihan",
+        confirmHint:
+          "Masukkan kode 6 digit yang sekarang tampil di aplikasi autentikator.",
+        submit: "Aktifkan",
+        submitting: "Mengaktifkan...",
+      },
+      disable: {
+        action: "Nonaktifkan",
+        title: "Nonaktifkan verifikasi dua langkah?",
+        subtitle:
+          "Akun Anda hanya akan dilindungi kata sandi. Konfirmasi dengan kata sandi dan kode verifikasi.",
+        codeHint:
+          "Kode 6 digit dari aplikasi autentikator atau kode pemulihan.",
+        submit: "Nonaktifkan",
+        submitting: "Menonaktifkan...",
+      },
+    },
+    twoFactorPolicy: {
+      title: "Kebijakan Verifikasi Dua Langkah",
+      subtitle:
+        "Wajibkan verifikasi dua langkah untuk akun yang mengelola nilai dan penugasan pembimbing.",
+      require: "Wajib untuk {{role}}",
+      requireHint:
+        "Pengguna dengan role ini harus mengaktifkannya sebelum bisa memakai aplikasi.",
+      save: "Simpan Kebijakan",
+      loadFailed: "Gagal memuat kebijakan verifikasi dua langkah.",
+    },
+    device: "{{browser}} di {{os}}",
+    unknownDevice: "Perangkat tidak dikenal",
+    sessions: {
+      title: "Perangkat Aktif",
+      subtitle:
+        "Keluarkan perangkat yang tidak Anda kenali atau sudah tidak dipakai.",
+      current: "Perangkat ini",
+      details: "{{ip}} · Aktif {{lastActive}} · Login {{signedIn}}",
+      revoke: "Keluarkan",
+      revokeOthers: "Keluarkan Semua Perangkat Lain",
+      loadFailed: "Gagal memuat daftar perangkat.",
+    },
+    history: {
+      title: "Riwayat Login",
+      subtitle: "Percobaan login terakhir ke akun Anda, berhasil maupun gagal.",
+      time: "Waktu",
+      status: "Status",
+      device: "Perangkat",
+      ipAddress: "Alamat IP",
+      success: "Berhasil",
+      failed: "Gagal",
+      reasons: {
+        INVALID_CREDENTIALS: "Kata sandi salah",
+        ACCOUNT_INACTIVE: "Akun nonaktif",
+        INVALID_TWO_FACTOR: "Kode verifikasi salah",
+      },
+      empty: "Belum ada riwayat login.",
+      loadFailed: "Gagal memuat riwayat login.",
+    },
+    confirm: {
+      revokeTitle: "Keluarkan perangkat?",
+      revoke:
+        "{{device}} akan dikeluarkan dan harus login ulang untuk mengakses akun.",
+      revokeOthersTitle: "Keluarkan semua perangkat lain?",
+      revokeOthers:
+        "{{count}} perangkat lain akan dikeluarkan. Perangkat ini tetap login.",
+    },
+  },
+  users: {
+    title: "Manajemen Pengguna",
+    subtitle:
+      "Kelola akun mahasiswa dan dosen, perbaiki data identitas, dan atur akses.",
+    search: "Cari nama, email, NIM, atau NIP",
+    filters: {
+      role: "Filter role",
+      allRoles: "Semua role",
+      status: "Filter status",
+      allStatuses: "Semua status",
+    },
+    table: {
+      user: "Pengguna",
+      identity: "NIM/NIP",
+      role: "Role",
+      status: "Status",
+      actions: "Aksi",
+    },
+    joined: "Terdaftar {{date}}",
+    empty: "Tidak ada pengguna yang cocok dengan filter.",
+    loadFailed: "Gagal memuat daftar pengguna.",
+    pagination: {
+      summary: "Menampilkan {{from}}-{{to}} dari {{total}} pengguna",
+      page: "Halaman {{page}} dari {{totalPages}}",
+    },
+    actions: {
+      edit: "Ubah data",
+      resetPassword: "Atur ulang kata sandi",
+      promote: "Jadikan koordinator",
+      activate: "Aktifkan",
+      deactivate: "Nonaktifkan",
+    },
+    edit: {
+      title: "Ubah Data Pengguna",
+    },
+    confirm: {
+      activateTitle: "Aktifkan akun?",
+      activate: "{{name}} akan dapat login kembali ke Latest.",
+      deactivateTitle: "Nonaktifkan akun?",
+      deactivate:
+        "{{name}} tidak akan bisa login dan sesi aktifnya akan berakhir.",
+      resetTitle: "Atur ulang kata sandi?",
+      reset:
+        "Kode atur ulang kata sandi akan dikirim ke {{email}}. {{name}} perlu membuat kata sandi baru.",
+      promoteTitle: "Jadikan koordinator?",
+      promote:
+        "{{name}} akan mendapat akses koordinator, termasuk manajemen pengguna.",
+    },
+  },
+  invitations: {
+    title: "Undangan",
+    subtitle:
+      "Undang koordinator baru dan penguji luar yang tidak dapat mendaftar sendiri.",
+    create: {
+      title: "Kirim Undangan",
+      description:
+        "Tautan pendaftaran dikirim ke email dan hanya berlaku sampai batas waktu.",
+      role: "Role",
+      expiry: "Berlaku selama",
+      days: "{{days}} hari",
+      campusHint: "{{role}} memakai email @{{domain}}",
+      externalHint: "Gunakan email institusi penguji di luar Universitas Riau",
+      externalPlaceholder: "nama@universitas.ac.id",
+      submit: "Kirim",
+    },
+    list: {
+      title: "Daftar Undangan",
+      expiresAt: "Berlaku sampai",
+      invitedBy: "Oleh {{name}}, {{date}}",
+      empty: "Belum ada undangan.",
+      loadFailed: "Gagal memuat daftar undangan.",
+    },
+    status: {
+      PENDING: "Menunggu",
+      ACCEPTED: "Diterima",
+      EXPIRED: "Kedaluwarsa",
+      REVOKED: "Dibatalkan",
+    },
+    actions: {
+      resend: "Kirim ulang",
+      revoke: "Batalkan undangan",
+    },
+    confirmRevoke: {
+      title: "Batalkan undangan?",
+      description:
+        "Tautan undangan untuk {{email}} tidak akan bisa dipakai lagi.",
+    },
+  },
+  realtime: {
+    status: {
+      connecting: "Menyambungkan",
+      open: "Langsung",
+      reconnecting: "Menyambung ulang",
+      polling: "Berkala",
+    },
+    hint: {
+      connecting: "Menyambungkan pembaruan langsung...",
+      open: "Perubahan status tampil otomatis tanpa memuat ulang halaman.",
+      reconnecting: "Koneksi pembaruan langsung terputus, mencoba lagi...",
+      polling:
+        "Pembaruan langsung tidak tersedia, data diperbarui setiap 30 detik.",
+    },
+  },
+  notifications: {
+    title: "Notifikasi",
+    subtitle: "Pemberitahuan tentang bimbingan, seminar, dan pengajuan Anda.",
+    unreadLabel: "Notifikasi, {{count}} belum dibaca",
+    markRead: "Tandai sudah dibaca",
+    markUnread: "Tandai belum dibaca",
+    markAllRead: "Tandai semua dibaca",
+    viewAll: "Lihat semua notifikasi",
+    empty: "Belum ada notifikasi.",
+    emptyUnread: "Semua notifikasi sudah dibaca.",
+    loadFailed: "Gagal memuat notifikasi.",
+    saveToInbox: "Simpan",
+    saved: "Disimpan ke kotak masuk notifikasi",
+    filters: {
+      all: "Semua",
+      unread: "Belum dibaca ({{count}})",
+    },
+    pagination: {
+      summary: "Menampilkan {{from}}-{{to}} dari {{total}} notifikasi",
+      page: "Halaman {{page}} dari {{totalPages}}",
+    },
+  },
+  proposals: {
+    title: "Pengajuan Judul",
+    subtitle:
+      "Ajukan judul tugas akhir dan pantau hasil peninjauannya di sini.",
+    untitled: "Draf tanpa judul",
+    submittedAt: "Diajukan {{date}}",
+    updatedAt: "Terakhir disimpan {{date}}",
+    loadFailed: "Gagal memuat pengajuan judul.",
+    startNew: "Ajukan judul baru",
+    status: {
+      DRAFT: "Draf",
+      SUBMITTED: "Diajukan",
+      REVISION_REQUESTED: "Perlu revisi",
+      ACCEPTED: "Diterima",
+      REJECTED: "Ditolak",
+    },
+    statusHint: {
+      DRAFT: "Draf belum diajukan. Lengkapi semua langkah lalu ajukan.",
+      SUBMITTED: "Pengajuan sedang ditinjau oleh koordinator.",
+      REVISION_REQUESTED:
+        "Peninjau meminta revisi. Perbaiki pengajuan sesuai komentar lalu ajukan kembali.",
+      ACCEPTED: "Judul Anda telah diterima.",
+      REJECTED:
+        "Pengajuan ditolak. Anda dapat mengajukan judul baru dengan memperhatikan komentar peninjau.",
+    },
+    researchFields: {
+      WATER_QUALITY: "Kualitas Air",
+      WASTEWATER: "Pengolahan Air Limbah",
+      SOLID_WASTE: "Pengelolaan Persampahan",
+      AIR_QUALITY: "Kualitas Udara",
+      ENVIRONMENTAL_MANAGEMENT: "Manajemen Lingkungan",
+    },
+    comments: {
+      title: "Komentar peninjau",
+      empty: "Belum ada komentar.",
+    },
+    form: {
+      title: "Formulir pengajuan",
+      reviseTitle: "Revisi pengajuan",
+      subtitle:
+        "Setiap langkah tersimpan sebagai draf, Anda dapat melanjutkannya nanti.",
+      steps: {
+        summary: "Judul",
+        scope: "Lingkup",
+        supervisors: "Pembimbing",
+        review: "Tinjau",
+      },
+      titlePlaceholder: "Judul tugas akhir",
+      locationPlaceholder: "Contoh: IPAL Komunal Kelurahan Tembalang",
+      characters: "{{count}}/{{maximum}} karakter",
+      chooseField: "Pilih bidang penelitian",
+      supervisorsHint:
+        "Pilih hingga {{maximum}} calon pembimbing sesuai urutan preferensi.",
+      supervisorChoice: "Pilihan {{position}}",
+      chooseSupervisor: "Pilih calon pembimbing",
+      noSupervisor: "Tidak ada",
+      reviewHint:
+        "Periksa kembali data di atas. Setelah diajukan, pengajuan tidak dapat diubah kecuali diminta revisi.",
+      saveDraft: "Simpan draf",
+      submit: "Ajukan",
+      submitting: "Mengajukan...",
+    },
+  },
+  topics: {
+    title: "Topik Penelitian",
+    subtitle:
+      "Temukan topik dari proyek penelitian dosen dan lamar yang sesuai minat Anda.",
+    lecturerTitle: "Topik Saya",
+    lecturerSubtitle:
+      "Tawarkan topik dari proyek penelitian Anda dan pilih mahasiswa pelamar.",
+    search: "Cari judul, dosen, atau keahlian...",
+    allFields: "Semua bidang",
+    availableOnly: "Hanya yang masih tersedia",
+    empty: "Tidak ada topik yang cocok.",
+    emptyMine: "Anda belum menawarkan topik.",
+    loadFailed: "Gagal memuat topik.",
+    myApplications: "Lamaran saya",
+    page: "Halaman {{page}} dari {{totalPages}}",
+    open: "Tersedia",
+    full: "Kuota penuh",
+    quota: "{{accepted}}/{{quota}} mahasiswa",
+    new: "Topik baru",
+    edit: "Ubah",
+    delete: "Hapus",
+    deleteTitle: "Hapus topik?",
+    deleteConfirm:
+      'Topik "{{title}}" akan dihapus dan pelamar yang menunggu akan diberi tahu.',
+    applicationStatus: {
+      PENDING: "Menunggu keputusan",
+      ACCEPTED: "Diterima",
+      DECLINED: "Ditolak",
+    },
+    form: {
+      newTitle: "Topik baru",
+      editTitle: "Ubah topik",
+      description:
+        "Topik yang dipublikasikan langsung terlihat oleh semua mahasiswa.",
+      skillsPlaceholder: "Pisahkan dengan koma, misalnya GIS, Python",
+      publish: "Publikasikan",
+      save: "Simpan",
+      saving: "Menyimpan...",
+    },
+    apply: {
+      action: "Lamar",
+      title: "Lamar topik",
+      description: "{{title}} oleh {{lecturer}}",
+      placeholder:
+        "Ceritakan minat dan pengalaman yang relevan dengan topik ini.",
+      submit: "Kirim lamaran",
+    },
+    applicants: {
+      toggle: "Pelamar ({{count}} menunggu)",
+      empty: "Belum ada pelamar.",
+      loadFailed: "Gagal memuat pelamar.",
+      accept: "Terima",
+      decline: "Tolak",
+      acceptTitle: "Terima pelamar?",
+      acceptConfirm:
+        "{{name}} akan diterima dan draf pengajuan judul dibuat untuknya. Lamaran lain dari mahasiswa ini dibatalkan.",
+      declineTitle: "Tolak pelamar?",
+      declineConfirm: "Lamaran {{name}} akan ditolak.",
+    },
+  },
+  supervision: {
+    title: "Penetapan Pembimbing",
+    subtitle:
+      "Tetapkan pembimbing 1 dan pembimbing 2 untuk mahasiswa yang judulnya telah diterima.",
+    loadFailed: "Gagal memuat data pembimbingan.",
+    unassigned: "Belum ditetapkan",
+    optionLabel: "{{name}} ({{load}}/{{maxLoad}})",
+    overQuota: "Melebihi kuota bimbingan",
+    save: "Simpan perubahan ({{count}})",
+    discard: "Batalkan perubahan",
+    positions: {
+      PRIMARY: "Pembimbing 1",
+      SECONDARY: "Pembimbing 2",
+    },
+    suggest: {
+      action: "Sarankan penetapan seimbang",
+      applied:
+        "Saran untuk {{count}} mahasiswa ditambahkan. Tinjau sebelum menyimpan.",
+      none: "Semua mahasiswa sudah memiliki dua pembimbing.",
+    },
+    loads: {
+      title: "Beban bimbingan dosen",
+      subtitle:
+        "Termasuk perubahan yang belum disimpan. Dosen yang melebihi kuota ditandai merah.",
+      maxLoad: "Kuota per dosen",
+      saveQuota: "Simpan kuota",
+      count: "{{load}}/{{maxLoad}} mahasiswa",
+      breakdown: "Pembimbing 1: {{primary}} · Pembimbing 2: {{secondary}}",
+    },
+    students: {
+      title: "Mahasiswa",
+      student: "Mahasiswa",
+      preferred: "Pilihan mahasiswa",
+      incompleteOnly: "Hanya yang belum lengkap",
+      allAssigned: "Semua mahasiswa sudah memiliki dua pembimbing.",
+      empty: "Belum ada mahasiswa dengan judul yang diterima.",
+    },
+    confirm: {
+      title: "Simpan penetapan pembimbing?",
+      description:
+        "Penetapan untuk {{count}} mahasiswa akan disimpan dan mahasiswa serta dosen terkait akan diberi notifikasi.",
+      overQuota:
+        "Peringatan: {{names}} akan melebihi kuota {{maxLoad}} mahasiswa.",
+      submit: "Simpan penetapan",
+    },
+    history: {
+      title: "Riwayat penetapan",
+      subtitle: "Setiap pergantian pembimbing tercatat di sini.",
+      empty: "Belum ada perubahan.",
+      loadFailed: "Gagal memuat riwayat.",
+      changedBy: "oleh {{name}}, {{date}}",
+    },
+  },
+  logbook: {
+    title: "Logbook Bimbingan",
+    subtitle:
+      "Catat setiap pertemuan bimbingan sebagai syarat pendaftaran sidang.",
+    queueTitle: "Logbook Bimbingan",
+    queueSubtitle:
+      "Periksa catatan bimbingan mahasiswa lalu setujui, tolak, atau beri komentar.",
+    loadFailed: "Gagal memuat logbook bimbingan.",
+    empty: "Belum ada catatan bimbingan.",
+    queueEmpty: "Tidak ada catatan yang menunggu persetujuan.",
+    noSupervisor:
+      "Dosen pembimbing Anda belum ditetapkan koordinator, sehingga logbook belum dapat diisi.",
+    new: "Catat bimbingan",
+    edit: "Ubah",
+    delete: "Hapus",
+    deleteTitle: "Hapus catatan bimbingan?",
+    deleteConfirm: 'Catatan "{{topic}}" akan dihapus dari logbook.',
+    entries: "Catatan bimbingan",
+    open: "Buka logbook",
+    status: {
+      PENDING: "Menunggu persetujuan",
+      APPROVED: "Disetujui",
+      REJECTED: "Ditolak",
+    },
+    progress: {
+      title: "Progres bimbingan",
+      subtitle:
+        "Pertemuan yang disetujui pembimbing dihitung sebagai syarat sidang.",
+      count: "{{approved}} dari minimal {{minimum}} pertemuan disetujui",
+      pending: "{{count}} menunggu persetujuan",
+      complete: "Syarat jumlah bimbingan sudah terpenuhi",
+    },
+    form: {
+      newTitle: "Catat bimbingan",
+      editTitle: "Ubah catatan bimbingan",
+      description:
+        "Catatan dikirim ke pembimbing yang dipilih untuk disetujui. Catatan yang diubah akan diperiksa ulang.",
+      attachments: "Lampiran (opsional)",
+      attachmentsHint:
+        "Maksimal {{maximum}} file PDF, Word, Excel, PowerPoint, atau gambar, masing-masing 5MB.",
+      removeAttachment: "Hapus lampiran",
+      fromAppointment:
+        "Isian awal diambil dari janji temu yang sudah berlangsung. Lengkapi catatan diskusi sebelum dikirim ke pembimbing.",
+      submit: "Kirim ke pembimbing",
+      saving: "Menyimpan...",
+    },
+    review: {
+      placeholder: "Komentar untuk mahasiswa (wajib jika menolak)",
+      comment: "Kirim komentar",
+      reject: "Tolak",
+      approve: "Setujui",
+    },
+    print: {
+      action: "Cetak kartu bimbingan",
+      print: "Cetak",
+      title: "Kartu Bimbingan Tugas Akhir",
+      number: "No",
+      supervisor: "Pembimbing",
+      signOff: "Paraf",
+      empty: "Belum ada pertemuan yang disetujui.",
+      approvedAt: "Disetujui {{date}}",
+      printedAt: "Dicetak pada {{date}}",
+    },
+  },
+  appointments: {
+    title: "Janji Temu Bimbingan",
+    subtitle:
+      "Pilih slot kosong pembimbing untuk membuat, memindahkan, atau membatalkan janji temu.",
+    supervisorTitle: "Janji Temu Bimbingan",
+    supervisorSubtitle:
+      "Atur jadwal ketersediaan dan pantau janji temu dari mahasiswa bimbingan.",
+    loadFailed: "Gagal memuat janji temu.",
+    noSupervisor:
+      "Dosen pembimbing Anda belum ditetapkan koordinator, sehingga janji temu belum dapat dibuat.",
+    openSlot: "Slot kosong",
+    taken: "Sudah dipesan",
+    notRecorded: "Belum dicatat di logbook",
+    status: {
+      CONFIRMED: "Terjadwal",
+      CANCELLED: "Dibatalkan",
+    },
+    calendar: {
+      previous: "Sebelumnya",
+      next: "Berikutnya",
+      today: "Hari ini",
+      week: "Pekan",
+      month: "Bulan",
+      more: "+{{count}} lainnya",
+    },
+    book: {
+      title: "Buat janji temu",
+      description: "Bertemu {{name}} pada {{time}} di {{venue}}.",
+      placeholder: "Hal yang ingin dibahas bersama pembimbing",
+      submit: "Buat janji",
+      saving: "Menyimpan...",
+    },
+    details: {
+      title: "Janji temu bimbingan",
+      time: "Waktu",
+      student: "Mahasiswa",
+      supervisor: "Pembimbing",
+      cancelledBy: "Dibatalkan oleh {{name}}: {{reason}}",
+      recorded: "Sudah dicatat di logbook",
+      close: "Tutup",
+      cancel: "Batalkan janji",
+      cancelPlaceholder: "Alasan pembatalan untuk pihak lain",
+      confirmCancel: "Ya, batalkan",
+      reschedule: "Jadwalkan ulang",
+      record: "Catat ke logbook",
+    },
+    reschedule: {
+      banner: 'Pilih slot kosong baru untuk janji "{{agenda}}".',
+      stop: "Batal",
+      confirmTitle: "Pindahkan janji temu?",
+      confirm: "Janji temu akan dipindahkan ke {{time}} di {{venue}}.",
+      submit: "Pindahkan",
+    },
+    availability: {
+      title: "Jadwal rutin",
+      description:
+        "Slot mingguan yang bisa dipesan mahasiswa bimbingan. Janji temu yang sudah dibuat tidak terpengaruh.",
+      empty: "Belum ada slot mingguan.",
+      add: "Tambah slot",
+      remove: "Hapus slot",
+      reset: "Batalkan perubahan",
+      save: "Simpan jadwal",
+      saving: "Menyimpan...",
+    },
+    exceptions: {
+      title: "Pengecualian jadwal",
+      description:
+        "Tutup jadwal pada tanggal tertentu atau buka slot tambahan di luar jadwal rutin.",
+      empty: "Tidak ada pengecualian mendatang.",
+      add: "Tambah pengecualian",
+      remove: "Hapus pengecualian",
+      allDay: "Seharian",
+      types: {
+        UNAVAILABLE: "Tidak tersedia",
+        EXTRA: "Slot tambahan",
+      },
+      form: {
+        title: "Tambah pengecualian jadwal",
+        description:
+          "Kosongkan jam untuk menutup jadwal seharian. Slot tambahan wajib memiliki jam dan tempat.",
+        type: "Jenis",
+        submit: "Simpan",
+        saving: "Menyimpan...",
+      },
+    },
+  },
+  seminars: {
+    title: "Seminar & Sidang",
+    subtitle:
+      "Jadwal seminar proposal, seminar hasil, dan sidang akhir yang melibatkan Anda.",
+    coordinatorTitle: "Penjadwalan Seminar & Sidang",
+    coordinatorSubtitle:
+      "Susun jadwal tanpa bentrok ruang, dosen, dan mahasiswa, lalu umumkan kepada semua pihak.",
+    loadFailed: "Gagal memuat jadwal seminar.",
+    add: "Tambah jadwal",
+    publish: "Umumkan {{count}} draf",
+    publishTitle: "Umumkan jadwal?",
+    publishConfirm:
+      "{{count}} jadwal draf pada pekan ini akan diumumkan kepada mahasiswa, pembimbing, dan penguji.",
+    dragHint: "Seret jadwal ke slot lain untuk memindahkannya.",
+    deleteTitle: "Hapus jadwal?",
+    deleteConfirm: "Jadwal {{type}} {{name}} akan dihapus.",
+    deletePublished:
+      "Jadwal {{type}} {{name}} sudah diumumkan. Semua pihak akan diberi tahu bahwa jadwal dibatalkan.",
+    moveConflictsTitle: "Jadwal tidak dapat dipindahkan",
+    moveConflictsDescription: "Slot tujuan bentrok dengan jadwal berikut:",
+    types: {
+      PROPOSAL: "Seminar Proposal",
+      RESULT: "Seminar Hasil",
+      DEFENSE: "Sidang Akhir",
+    },
+    status: {
+      DRAFT: "Draf",
+      PUBLISHED: "Diumumkan",
+    },
+    roles: {
+      STUDENT: "Mahasiswa",
+      SUPERVISOR: "Pembimbing",
+      EXAMINER: "Penguji",
+    },
+    conflictTypes: {
+      ROOM: "Ruang",
+      LECTURER: "Dosen",
+      STUDENT: "Mahasiswa",
+    },
+    details: {
+      time: "Waktu",
+      supervisors: "Pembimbing",
+      close: "Tutup",
+    },
+    form: {
+      createTitle: "Tambah jadwal seminar",
+      editTitle: "Ubah jadwal seminar",
+      description:
+        "Bentrok ruang, dosen, dan mahasiswa diperiksa otomatis sebelum jadwal disimpan.",
+      editPublished:
+        "Jadwal ini sudah diumumkan. Perubahan akan dikirim ke semua pihak.",
+      selectStudent: "Pilih mahasiswa",
+      supervisors: "Pembimbing",
+      examinersHint:
+        "Pilih 1 sampai {{maximum}} penguji selain pembimbing mahasiswa.",
+      selectRoom: "Pilih ruang",
+      checking: "Memeriksa bentrok jadwal...",
+      conflicts: "Jadwal bentrok",
+      noConflicts: "Tidak ada bentrok pada waktu dan ruang ini.",
+      suggest: "Sarankan slot kosong",
+      noSuggestions:
+        "Tidak ada slot kosong dalam 30 hari ke depan untuk semua pihak.",
+      delete: "Hapus jadwal",
+      submit: "Simpan jadwal",
+      saving: "Menyimpan...",
+    },
+    rooms: {
+      title: "Ruang seminar",
+      description: "Ruang yang dapat dipakai untuk seminar dan sidang.",
+      add: "Tambah ruang",
+      empty: "Belum ada ruang.",
+      capacity: "{{count}} orang",
+      option: "{{name}} ({{count}} orang)",
+      edit: "Ubah ruang",
+      remove: "Hapus ruang",
+      deleteTitle: "Hapus ruang?",
+      deleteConfirm: "Ruang {{name}} akan dihapus.",
+      createTitle: "Tambah ruang",
+      editTitle: "Ubah ruang",
+      formDescription: "Nama ruang harus unik.",
+      submit: "Simpan",
+      saving: "Menyimpan...",
+    },
+  },
+  dashboard: {
+    greeting: "Halo, {{name}}",
+    title: "Dashboard",
+    empty: "Belum ada aktivitas.",
+    studentIntro: "Pantau perkembangan tugas akhir Anda di sini.",
+    lecturerIntro: "Kelola bimbingan dan penilaian mahasiswa Anda di sini.",
+    coordinatorIntro: "Kelola administrasi tugas akhir program studi di sini.",
+    examinerIntro:
+      "Lihat jadwal dan berkas ujian yang perlu Anda nilai di sini.",
+  },
+};
+
+export type Messages = typeof id;
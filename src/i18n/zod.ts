@@ -0,0 +1,61 @@
+import { z } from "zod";
+import i18n, { ParseKeys } from "i18next";
+
+const fieldLabel = (path: (string | number)[]) => {
+  const key = `fields.${path[0]}`;
+  return i18n.exists(key) ? i18n.t(key as ParseKeys) : String(path[0]);
+};
+
+// Error map global: pesan bawaan zod dan pesan custom (lewat params.i18n)
+// diterjemahkan saat validasi dijalankan
+export const zodErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  const field = fieldLabel(issue.path);
+
+  switch (issue.code) {
+    case z.ZodIssueCode.custom:
+      if (issue.params?.i18n) {
+        return {
+          message: i18n.t(issue.params.i18n as ParseKeys, {
+            field,
+            ...issue.params,
+          }),
+        };
+      }
+      break;
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === "undefined" || issue.received === "null") {
+        return { message: i18n.t("validation.required", { field }) };
+      }
+      break;
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === "email") {
+        return { message: i18n.t("validation.invalidEmail") };
+      }
+      return { message: i18n.t("validation.invalid", { field }) };
+    case z.ZodIssueCode.too_small:
+      if (issue.type === "string") {
+        if (issue.minimum === 1) {
+          return { message: i18n.t("validation.required", { field }) };
+        }
+        return {
+          message: i18n.t("validation.tooShort", {
+            field,
+            minimum: Number(issue.minimum),
+          }),
+        };
+      }
+      break;
+    case z.ZodIssueCode.too_big:
+      if (issue.type === "string") {
+        return {
+          message: i18n.t("validation.tooLong", {
+            field,
+            maximum: Number(issue.maximum),
+          }),
+        };
+      }
+      break;
+  }
+
+  return { message: ctx.defaultError };
+};
@@ -0,0 +1,93 @@
+import { formatDate } from "@/i18n/format";
+import { parseDateValue, toDateValue } from "@/lib/logbook";
+import { Appointment, AppointmentStatus } from "@/types/appointments";
+
+export const APPOINTMENTS_REFETCH_INTERVAL = 30_000;
+
+export type CalendarView = "week" | "month";
+
+export const appointmentStatusVariants: Record<
+  AppointmentStatus,
+  "success" | "secondary"
+> = {
+  CONFIRMED: "success",
+  CANCELLED: "secondary",
+};
+
+// Urutan hari di kalender dan jadwal dimulai dari Senin
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// 7 Januari 2024 jatuh pada hari Minggu
+export const weekdayLabel = (
+  weekday: number,
+  style: "long" | "short" = "long"
+) => formatDate(new Date(2024, 0, 7 + weekday), { weekday: style });
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const startOfWeek = (date: Date) =>
+  addDays(date, -((date.getDay() + 6) % 7));
+
+// Gabungan tanggal YYYY-MM-DD dan jam HH:mm sebagai waktu lokal
+export const combineDateTime = (date: string, time: string) => {
+  const result = parseDateValue(date);
+  const [hours, minutes] = time.split(":").map(Number);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+export const toTimeValue = (date: Date) =>
+  [date.getHours(), date.getMinutes()]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+
+// Tampilan bulan selalu berisi minggu utuh, termasuk tanggal bulan sebelah
+export const calendarDays = (view: CalendarView, anchor: Date) => {
+  if (view === "week") {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+  }
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const start = startOfWeek(first);
+  const length = Math.ceil(
+    (addDays(startOfWeek(last), 7).getTime() - start.getTime()) / 86_400_000
+  );
+  return Array.from({ length }, (_, index) => addDays(start, index));
+};
+
+export const calendarRange = (view: CalendarView, anchor: Date) => {
+  const days = calendarDays(view, anchor);
+  return {
+    from: toDateValue(days[0]),
+    to: toDateValue(days[days.length - 1]),
+  };
+};
+
+export const shiftAnchor = (view: CalendarView, anchor: Date, step: number) =>
+  view === "week"
+    ? addDays(anchor, step * 7)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+
+export const formatTimeRange = (start: string | Date, end: string | Date) =>
+  `${formatDate(start, { timeStyle: "short" })}–${formatDate(end, {
+    timeStyle: "short",
+  })}`;
+
+export const overlaps = (
+  a: { start: string | Date; end: string | Date },
+  b: { start: string | Date; end: string | Date }
+) =>
+  new Date(a.start).getTime() < new Date(b.end).getTime() &&
+  new Date(b.start).getTime() < new Date(a.end).getTime();
+
+export const isUpcoming = (appointment: Appointment) =>
+  appointment.status === "CONFIRMED" &&
+  new Date(appointment.start).getTime() > Date.now();
+
+// Janji temu yang sudah berlangsung bisa dijadikan catatan logbook sekali
+export const canRecordAppointment = (appointment: Appointment) =>
+  appointment.status === "CONFIRMED" &&
+  appointment.logbookEntryId === null &&
+  new Date(appointment.end).getTime() <= Date.now();
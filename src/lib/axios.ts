@@ -1,16 +1,68 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { refreshTokenResponseSchema } from "@/types/auth";
+import { env } from "@/lib/env";
+import { toApiError } from "@/lib/errors";
+import i18n from "i18next";
 
 const api = axios.create({
-  baseURL: "http://localhost:5500/api",
+  baseURL: env.apiUrl,
   withCredentials: true,
 });
 
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+};
+
+interface AuthHandlers {
+  onTokenRefreshed: (token: string) => void;
+  // `code` dari respons refresh, misalnya SESSION_REVOKED
+  onSessionExpired: (code: string) => void;
+}
+
+// Endpoint yang 401-nya berarti kredensial salah, bukan token kedaluwarsa
+const SKIP_REFRESH_URLS = ["/auth/login", "/auth/refresh", "/auth/logout"];
+
+let authHandlers: AuthHandlers | null = null;
+let isRefreshing = false;
+let pendingRequests: {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}[] = [];
+
+// Dipanggil oleh AuthProvider agar interceptor bisa memperbarui state auth
+export const setAuthHandlers = (handlers: AuthHandlers | null) => {
+  authHandlers = handlers;
+};
+
+const flushPendingRequests = (error: unknown, token: string | null) => {
+  pendingRequests.forEach(({ resolve, reject }) => {
+    if (token) {
+      resolve(token);
+    } else {
+      reject(error);
+    }
+  });
+  pendingRequests = [];
+};
+
+// Memakai instance axios polos agar tidak melewati interceptor ini lagi
+const refreshAccessToken = async (): Promise<string> => {
+  const response = await axios.post(
+    `${env.apiUrl}/auth/refresh`,
+    {},
+    { withCredentials: true }
+  );
+  return refreshTokenResponseSchema.parse(response.data).token;
+};
+
 api.interceptors.request.use(
   (config) => {
     const token = localStorage.getItem("token");
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Agar pesan dari server mengikuti bahasa yang dipilih pengguna
+    config.headers["Accept-Language"] = i18n.language;
     return config;
   },
   (error) => Promise.reject(error)
@@ -18,16 +70,47 @@ api.interceptors.request.use(
 
 api.interceptors.response.use(
   (response) => response,
-  async (error) => {
-    const originalRequest = error.config;
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      originalRequest._retry = true;
-      localStorage.removeItem("token"); // Hapus token dari localStorage
-      alert("Sesi Anda telah kedaluwarsa. Silakan login ulang.");
-      window.location.href = "/login";
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+    if (
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      !localStorage.getItem("token") ||
+      SKIP_REFRESH_URLS.some((url) => originalRequest.url?.startsWith(url))
+    ) {
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+
+    // Refresh sedang berjalan, tunggu token baru lalu kirim ulang request
+    if (isRefreshing) {
+      return new Promise<string>((resolve, reject) => {
+        pendingRequests.push({ resolve, reject });
+      }).then((token) => {
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      });
+    }
+
+    isRefreshing = true;
+    try {
+      const token = await refreshAccessToken();
+      localStorage.setItem("token", token);
+      authHandlers?.onTokenRefreshed(token);
+      flushPendingRequests(null, token);
+
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch (refreshError) {
+      flushPendingRequests(refreshError, null);
+      localStorage.removeItem("token");
+      authHandlers?.onSessionExpired(toApiError(refreshError).code);
       return Promise.reject(error);
+    } finally {
+      isRefreshing = false;
     }
-    return Promise.reject(error);
   }
 );
 
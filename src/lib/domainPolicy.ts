@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { ParseKeys } from "i18next";
+import { Role } from "@/types/auth";
+import { formatList } from "@/i18n/format";
+
+export type IdentityField = "nim" | "nip";
+
+// Konteks pemakaian email: login mengenali semua domain kampus, pendaftaran
+// mandiri hanya domain yang mengizinkannya, undangan mengikuti role
+export type EmailPurpose = "login" | "register" | "invite";
+
+export interface DomainPolicy {
+  domain: string;
+  role: Role;
+  identityField: IdentityField;
+  selfRegistration: boolean;
+  hintKey: ParseKeys;
+}
+
+// Satu-satunya sumber aturan domain email kampus
+export const domainPolicies: DomainPolicy[] = [
+  {
+    domain: "student.unri.ac.id",
+    role: "STUDENT",
+    identityField: "nim",
+    selfRegistration: true,
+    hintKey: "domains.student",
+  },
+  {
+    domain: "lecturer.unri.ac.id",
+    role: "LECTURER",
+    identityField: "nip",
+    selfRegistration: true,
+    hintKey: "domains.lecturer",
+  },
+  {
+    domain: "eng.unri.ac.id",
+    role: "COORDINATOR",
+    identityField: "nip",
+    selfRegistration: false,
+    hintKey: "domains.coordinator",
+  },
+];
+
+const policiesFor = (purpose: EmailPurpose) =>
+  purpose === "register"
+    ? domainPolicies.filter((policy) => policy.selfRegistration)
+    : domainPolicies;
+
+// Domain dicocokkan persis, bukan dengan includes()/endsWith()
+export const getEmailDomain = (email: string): string | null => {
+  const parts = email.trim().toLowerCase().split("@");
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return null;
+  return parts[1];
+};
+
+export const findDomainPolicy = (
+  email: string,
+  purpose: EmailPurpose = "login"
+): DomainPolicy | null => {
+  const domain = getEmailDomain(email);
+  return (
+    policiesFor(purpose).find((policy) => policy.domain === domain) ?? null
+  );
+};
+
+export const roleFromEmail = (
+  email: string,
+  purpose: EmailPurpose = "login"
+): Role | null => findDomainPolicy(email, purpose)?.role ?? null;
+
+// Role yang hanya bisa dibuat lewat undangan koordinator
+export const INVITABLE_ROLES: Role[] = ["COORDINATOR", "EXAMINER"];
+
+// Penguji luar memakai email institusinya sendiri, bukan domain kampus UR
+const EXTERNAL_ROLES: Role[] = ["EXAMINER"];
+
+export const emailMatchesRole = (email: string, role: Role) =>
+  EXTERNAL_ROLES.includes(role)
+    ? getEmailDomain(email) !== null && !findDomainPolicy(email, "invite")
+    : roleFromEmail(email, "invite") === role;
+
+export const identityFieldForRole = (role: Role): IdentityField =>
+  domainPolicies.find((policy) => policy.role === role)?.identityField ?? "nip";
+
+export const allowedDomains = (purpose: EmailPurpose = "login") =>
+  policiesFor(purpose).map((policy) => policy.domain);
+
+// Contoh: "@student.unri.ac.id atau @lecturer.unri.ac.id"
+export const formatAllowedDomains = (purpose: EmailPurpose = "login") =>
+  formatList(
+    allowedDomains(purpose).map((domain) => `@${domain}`),
+    { type: "disjunction" }
+  );
+
+// Login dan lupa kata sandi juga dipakai penguji luar, jadi hanya format
+// email yang diperiksa; domain kampus divalidasi saat pendaftaran
+export const accountEmailSchema = () => z.string().email();
+
+// Daftar domain di pesan error disusun saat validasi agar ikut bahasa aktif
+export const campusEmailSchema = (purpose: EmailPurpose = "login") =>
+  z
+    .string()
+    .email()
+    .refine(
+      (email) => findDomainPolicy(email, purpose) !== null,
+      () => ({
+        params: {
+          i18n: "validation.campusEmail",
+          domains: formatAllowedDomains(purpose),
+        },
+      })
+    );
@@ -0,0 +1,36 @@
+// Penyedia perlindungan bot untuk form login, lihat src/components/botProtection
+export type BotProtectionProvider = "google" | "stub";
+
+// "invisible" hanya menampilkan tantangan jika Google mencurigai pengguna
+export type BotProtectionMode = "checkbox" | "invisible";
+
+// "polling" mematikan stream event, data diperbarui dengan refetch berkala
+export type RealtimeTransport = "sse" | "polling";
+
+const apiMocking = import.meta.env.VITE_API_MOCKING === "true";
+
+// Backend tiruan dan test otomatis tidak butuh reCAPTCHA sungguhan
+const botProtectionProvider = (): BotProtectionProvider => {
+  const value = import.meta.env.VITE_BOT_PROTECTION;
+  if (value === "google" || value === "stub") return value;
+  return apiMocking ? "stub" : "google";
+};
+
+const botProtectionMode = (): BotProtectionMode =>
+  import.meta.env.VITE_BOT_PROTECTION_MODE === "invisible"
+    ? "invisible"
+    : "checkbox";
+
+const realtimeTransport = (): RealtimeTransport =>
+  import.meta.env.VITE_REALTIME === "polling" ? "polling" : "sse";
+
+// Konfigurasi aplikasi dari variabel lingkungan Vite (.env)
+export const env = {
+  apiUrl: import.meta.env.VITE_API_URL || "http://localhost:5500/api",
+  recaptchaSiteKey: import.meta.env.VITE_RECAPTCHA_SITE_KEY || "",
+  botProtection: botProtectionProvider(),
+  botProtectionMode: botProtectionMode(),
+  realtime: realtimeTransport(),
+  // Aktifkan backend tiruan (src/mocks) agar aplikasi bisa jalan tanpa API
+  apiMocking,
+};
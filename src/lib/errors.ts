@@ -0,0 +1,140 @@
+import { AxiosError } from "axios";
+import i18n from "i18next";
+import { formatAllowedDomains } from "@/lib/domainPolicy";
+
+export type FieldErrors = Record<string, string>;
+
+// Bentuk body error yang dikirim server
+interface ErrorResponseBody {
+  error?: string;
+  message?: string;
+  code?: string;
+  retryAfter?: number;
+  errors?:
+    | Record<string, string | string[]>
+    | { path?: string | (string | number)[]; field?: string; message: string }[];
+}
+
+export class ApiError extends Error {
+  status: number | null;
+  code: string;
+  fieldErrors: FieldErrors;
+  // Detik yang harus ditunggu sebelum mencoba lagi, misalnya saat login dikunci
+  retryAfter: number | null;
+
+  constructor({
+    message,
+    status = null,
+    code = "UNKNOWN_ERROR",
+    fieldErrors = {},
+    retryAfter = null,
+  }: {
+    message: string;
+    status?: number | null;
+    code?: string;
+    fieldErrors?: FieldErrors;
+    retryAfter?: number | null;
+  }) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.retryAfter = retryAfter;
+  }
+}
+
+const parseFieldErrors = (errors: ErrorResponseBody["errors"]): FieldErrors => {
+  if (!errors) return {};
+
+  if (Array.isArray(errors)) {
+    return errors.reduce<FieldErrors>((acc, item) => {
+      const path = Array.isArray(item.path) ? item.path[0] : item.path;
+      const field = item.field ?? path;
+      if (field !== undefined && !acc[field]) {
+        acc[field] = item.message;
+      }
+      return acc;
+    }, {});
+  }
+
+  return Object.entries(errors).reduce<FieldErrors>((acc, [field, value]) => {
+    const message = Array.isArray(value) ? value[0] : value;
+    if (message) acc[field] = message;
+    return acc;
+  }, {});
+};
+
+const codeFromStatus = (status: number): string => {
+  if (status === 400 || status === 422) return "VALIDATION_ERROR";
+  if (status === 401) return "UNAUTHORIZED";
+  if (status === 403) return "FORBIDDEN";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 409) return "CONFLICT";
+  if (status === 429) return "TOO_MANY_REQUESTS";
+  if (status >= 500) return "SERVER_ERROR";
+  return "UNKNOWN_ERROR";
+};
+
+// Header Retry-After (detik) diutamakan, body dipakai jika header tidak
+// diekspos oleh CORS
+const parseRetryAfter = (error: AxiosError, body: ErrorResponseBody) => {
+  const header = Number(error.response?.headers["retry-after"]);
+  if (Number.isFinite(header) && header > 0) return header;
+  return typeof body.retryAfter === "number" ? body.retryAfter : null;
+};
+
+// Kode server untuk email di luar domain kampus
+const DOMAIN_ERROR_CODES = ["INVALID_DOMAIN", "EMAIL_DOMAIN_NOT_ALLOWED"];
+
+// Pesan domain dari server diganti dengan pesan dari domain policy agar
+// daftar domainnya sama dengan yang divalidasi di form
+const domainError = (status: number, code: string, url = "") => {
+  const purpose = url.startsWith("/auth/register") ? "register" : "login";
+  const message = i18n.t("validation.campusEmail", {
+    domains: formatAllowedDomains(purpose),
+  });
+  return new ApiError({
+    message,
+    status,
+    code,
+    fieldErrors: { email: message },
+  });
+};
+
+// Menyeragamkan semua jenis error menjadi ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof AxiosError) {
+    if (error.response) {
+      const status = error.response.status;
+      const body = (error.response.data ?? {}) as ErrorResponseBody;
+      if (body.code && DOMAIN_ERROR_CODES.includes(body.code)) {
+        return domainError(status, body.code, error.config?.url);
+      }
+      return new ApiError({
+        message: body.error || body.message || i18n.t("errors.server"),
+        status,
+        code: body.code || codeFromStatus(status),
+        fieldErrors: parseFieldErrors(body.errors),
+        retryAfter: parseRetryAfter(error, body),
+      });
+    } else if (error.request) {
+      return new ApiError({
+        message: i18n.t("errors.noResponse"),
+        code: "NETWORK_ERROR",
+      });
+    }
+    return new ApiError({
+      message: i18n.t("errors.config", { message: error.message }),
+      code: "REQUEST_ERROR",
+    });
+  }
+
+  if (error instanceof Error) {
+    return new ApiError({ message: error.message });
+  }
+
+  return new ApiError({ message: i18n.t("errors.unknown") });
+};
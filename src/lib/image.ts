@@ -0,0 +1,159 @@
+import { ParseKeys } from "i18next";
+import { PROFILE_PICTURE_MAX_SIZE } from "@/lib/validations";
+
+// Posisi gambar di dalam area crop persegi. Offset dalam satuan lebar area
+// crop agar hasil preview dan hasil akhir (ukuran berbeda) tetap sama
+export interface CropTransform {
+  zoom: number;
+  rotation: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export type DecodedImage = ImageBitmap | HTMLImageElement;
+
+export const AVATAR_SIZE = 512;
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 3;
+
+export const initialCropTransform: CropTransform = {
+  zoom: 1,
+  rotation: 0,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+// Membawa kunci terjemahan, pesannya diterjemahkan oleh komponen pemanggil
+export class ImageProcessingError extends Error {
+  i18nKey: ParseKeys;
+
+  constructor(i18nKey: ParseKeys = "avatarEditor.errors.processing") {
+    super(i18nKey);
+    this.name = "ImageProcessingError";
+    this.i18nKey = i18nKey;
+  }
+}
+
+const loadImageElement = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new ImageProcessingError());
+    };
+    image.src = url;
+  });
+
+// HEIC/WebP hanya bisa dibuka jika browser mampu men-decode-nya
+export const decodeImage = async (file: File): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file);
+    } catch {
+      // Sebagian browser hanya bisa men-decode lewat elemen <img>
+    }
+  }
+  return loadImageElement(file);
+};
+
+const sizeOf = (image: DecodedImage) => ({
+  width: image instanceof HTMLImageElement ? image.naturalWidth : image.width,
+  height:
+    image instanceof HTMLImageElement ? image.naturalHeight : image.height,
+});
+
+// Skala agar sisi terpendek gambar menutupi area crop pada zoom 1
+const scaleFor = (image: DecodedImage, size: number, zoom: number) => {
+  const { width, height } = sizeOf(image);
+  return (size / Math.min(width, height)) * zoom;
+};
+
+// Batasi geser agar area crop selalu tertutup gambar
+export const clampCropTransform = (
+  image: DecodedImage,
+  transform: CropTransform
+): CropTransform => {
+  const { width, height } = sizeOf(image);
+  const quarterTurn = Math.abs(transform.rotation / 90) % 2 === 1;
+  const scale = scaleFor(image, 1, transform.zoom);
+  const visibleWidth = (quarterTurn ? height : width) * scale;
+  const visibleHeight = (quarterTurn ? width : height) * scale;
+  const maxX = Math.max(0, (visibleWidth - 1) / 2);
+  const maxY = Math.max(0, (visibleHeight - 1) / 2);
+
+  return {
+    ...transform,
+    offsetX: Math.min(maxX, Math.max(-maxX, transform.offsetX)),
+    offsetY: Math.min(maxY, Math.max(-maxY, transform.offsetY)),
+  };
+};
+
+export const drawCroppedImage = (
+  canvas: HTMLCanvasElement,
+  image: DecodedImage,
+  transform: CropTransform,
+  size: number
+) => {
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const { width, height } = sizeOf(image);
+  const scale = scaleFor(image, size, transform.zoom);
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, size, size);
+  context.save();
+  context.translate(
+    size / 2 + transform.offsetX * size,
+    size / 2 + transform.offsetY * size
+  );
+  context.rotate((transform.rotation * Math.PI) / 180);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(
+    image,
+    (-width * scale) / 2,
+    (-height * scale) / 2,
+    width * scale,
+    height * scale
+  );
+  context.restore();
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", quality)
+  );
+
+const QUALITY_STEPS = [0.92, 0.85, 0.75, 0.65, 0.5];
+
+// Render hasil crop lalu turunkan kualitas/ukuran sampai muat batas server
+export const exportCroppedImage = async (
+  image: DecodedImage,
+  transform: CropTransform,
+  maxBytes = PROFILE_PICTURE_MAX_SIZE
+): Promise<File> => {
+  const canvas = document.createElement("canvas");
+  let size = AVATAR_SIZE;
+
+  while (size >= 64) {
+    drawCroppedImage(canvas, image, transform, size);
+    for (const quality of QUALITY_STEPS) {
+      const blob = await canvasToBlob(canvas, quality);
+      if (blob && blob.size <= maxBytes) {
+        return new File([blob], "profile-picture.jpg", {
+          type: "image/jpeg",
+        });
+      }
+    }
+    size = Math.floor(size * 0.75);
+  }
+
+  throw new ImageProcessingError("avatarEditor.errors.compress");
+};
@@ -0,0 +1,36 @@
+import { formatNumber } from "@/i18n/format";
+import { LogbookEntry, LogbookStatus } from "@/types/logbook";
+
+export const LOGBOOK_REFETCH_INTERVAL = 30_000;
+
+export const logbookStatusVariants: Record<
+  LogbookStatus,
+  "info" | "success" | "destructive"
+> = {
+  PENDING: "info",
+  APPROVED: "success",
+  REJECTED: "destructive",
+};
+
+// Catatan yang sudah disetujui menjadi bagian tetap kartu bimbingan
+export const isLogbookEditable = (entry: LogbookEntry) =>
+  entry.status !== "APPROVED";
+
+// Tanggal lokal berformat YYYY-MM-DD, sama dengan nilai <input type="date">
+export const toDateValue = (date: Date = new Date()) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// Tanggal pertemuan dibaca sebagai tanggal lokal, bukan tengah malam UTC
+export const parseDateValue = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${formatNumber(Math.max(1, Math.round(bytes / 1024)))} KB`
+    : `${formatNumber(bytes / 1024 / 1024, { maximumFractionDigits: 1 })} MB`;
@@ -0,0 +1,167 @@
+import {
+  CalendarClock,
+  FileText,
+  LayoutDashboard,
+  Lightbulb,
+  MailPlus,
+  NotebookPen,
+  Presentation,
+  ShieldCheck,
+  UserCheck,
+  UserCircle,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import { ParseKeys } from "i18next";
+import { Role } from "@/types/auth";
+
+export interface NavItem {
+  labelKey: ParseKeys;
+  to: string;
+  icon: LucideIcon;
+}
+
+export const PROFILE_PATH = "/profile";
+export const SECURITY_PATH = "/security";
+export const NOTIFICATIONS_PATH = "/notifications";
+// Kartu bimbingan dicetak tanpa sidebar dan header dashboard
+export const LOGBOOK_PRINT_PATH = "/student/logbook/print";
+
+const profileNavItem: NavItem = {
+  labelKey: "nav.profile",
+  to: PROFILE_PATH,
+  icon: UserCircle,
+};
+
+const securityNavItem: NavItem = {
+  labelKey: "nav.security",
+  to: SECURITY_PATH,
+  icon: ShieldCheck,
+};
+
+export const roleHomePaths: Record<Role, string> = {
+  STUDENT: "/student/dashboard",
+  LECTURER: "/lecturer/dashboard",
+  COORDINATOR: "/coordinator/dashboard",
+  EXAMINER: "/examiner/dashboard",
+};
+
+// Menu sidebar per role
+export const roleNavItems: Record<Role, NavItem[]> = {
+  STUDENT: [
+    {
+      labelKey: "nav.dashboard",
+      to: roleHomePaths.STUDENT,
+      icon: LayoutDashboard,
+    },
+    {
+      labelKey: "nav.proposal",
+      to: "/student/proposal",
+      icon: FileText,
+    },
+    {
+      labelKey: "nav.topics",
+      to: "/student/topics",
+      icon: Lightbulb,
+    },
+    {
+      labelKey: "nav.logbook",
+      to: "/student/logbook",
+      icon: NotebookPen,
+    },
+    {
+      labelKey: "nav.appointments",
+      to: "/student/appointments",
+      icon: CalendarClock,
+    },
+    {
+      labelKey: "nav.seminars",
+      to: "/student/seminars",
+      icon: Presentation,
+    },
+    profileNavItem,
+    securityNavItem,
+  ],
+  LECTURER: [
+    {
+      labelKey: "nav.dashboard",
+      to: roleHomePaths.LECTURER,
+      icon: LayoutDashboard,
+    },
+    {
+      labelKey: "nav.topics",
+      to: "/lecturer/topics",
+      icon: Lightbulb,
+    },
+    {
+      labelKey: "nav.logbook",
+      to: "/lecturer/logbook",
+      icon: NotebookPen,
+    },
+    {
+      labelKey: "nav.appointments",
+      to: "/lecturer/appointments",
+      icon: CalendarClock,
+    },
+    {
+      labelKey: "nav.seminars",
+      to: "/lecturer/seminars",
+      icon: Presentation,
+    },
+    profileNavItem,
+    securityNavItem,
+  ],
+  COORDINATOR: [
+    {
+      labelKey: "nav.dashboard",
+      to: roleHomePaths.COORDINATOR,
+      icon: LayoutDashboard,
+    },
+    {
+      labelKey: "nav.users",
+      to: "/coordinator/users",
+      icon: Users,
+    },
+    {
+      labelKey: "nav.invitations",
+      to: "/coordinator/invitations",
+      icon: MailPlus,
+    },
+    {
+      labelKey: "nav.supervision",
+      to: "/coordinator/supervision",
+      icon: UserCheck,
+    },
+    {
+      labelKey: "nav.logbook",
+      to: "/coordinator/logbook",
+      icon: NotebookPen,
+    },
+    {
+      labelKey: "nav.appointments",
+      to: "/coordinator/appointments",
+      icon: CalendarClock,
+    },
+    {
+      labelKey: "nav.seminars",
+      to: "/coordinator/seminars",
+      icon: Presentation,
+    },
+    profileNavItem,
+    securityNavItem,
+  ],
+  EXAMINER: [
+    {
+      labelKey: "nav.dashboard",
+      to: roleHomePaths.EXAMINER,
+      icon: LayoutDashboard,
+    },
+    {
+      labelKey: "nav.seminars",
+      to: "/examiner/seminars",
+      icon: Presentation,
+    },
+    profileNavItem,
+    securityNavItem,
+  ],
+};
@@ -0,0 +1,36 @@
+import {
+  Bell,
+  BookCheck,
+  CalendarClock,
+  CircleCheck,
+  CircleX,
+  MailCheck,
+  UserCheck,
+  type LucideIcon,
+} from "lucide-react";
+import { NotificationType } from "@/types/notifications";
+
+// Semua query notifikasi berada di bawah key ini agar bisa di-invalidate sekaligus
+export const NOTIFICATIONS_QUERY_KEY = ["notifications"] as const;
+
+export const NOTIFICATIONS_REFETCH_INTERVAL = 30_000;
+
+export const notificationIcons: Record<NotificationType, LucideIcon> = {
+  SUPERVISOR_ASSIGNED: UserCheck,
+  SEMINAR_SCHEDULED: CalendarClock,
+  LOGBOOK_APPROVED: BookCheck,
+  SUBMISSION_APPROVED: CircleCheck,
+  SUBMISSION_REJECTED: CircleX,
+  INVITATION_ACCEPTED: MailCheck,
+  GENERAL: Bell,
+};
+
+export const notificationIconClasses: Record<NotificationType, string> = {
+  SUPERVISOR_ASSIGNED: "bg-pastel-blue/50 text-jewel-blue",
+  SEMINAR_SCHEDULED: "bg-pastel-yellow/50 text-jewel-yellow",
+  LOGBOOK_APPROVED: "bg-pastel-green/50 text-jewel-green",
+  SUBMISSION_APPROVED: "bg-pastel-green/50 text-jewel-green",
+  SUBMISSION_REJECTED: "bg-pastel-red/50 text-jewel-red",
+  INVITATION_ACCEPTED: "bg-env-lighter text-env-darker",
+  GENERAL: "bg-gray-100 text-gray-600",
+};
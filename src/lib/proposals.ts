@@ -0,0 +1,18 @@
+import { ProposalStatus } from "@/types/proposals";
+
+export const PROPOSALS_REFETCH_INTERVAL = 30_000;
+
+export const proposalStatusVariants: Record<
+  ProposalStatus,
+  "outline" | "info" | "warning" | "success" | "destructive"
+> = {
+  DRAFT: "outline",
+  SUBMITTED: "info",
+  REVISION_REQUESTED: "warning",
+  ACCEPTED: "success",
+  REJECTED: "destructive",
+};
+
+// Mahasiswa hanya bisa mengubah draf dan pengajuan yang diminta revisi
+export const isProposalEditable = (status: ProposalStatus) =>
+  status === "DRAFT" || status === "REVISION_REQUESTED";
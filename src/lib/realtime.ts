@@ -0,0 +1,137 @@
+import { QueryKey } from "@tanstack/react-query";
+import { NOTIFICATIONS_QUERY_KEY } from "@/lib/notifications";
+import {
+  RealtimeEvent,
+  RealtimeEventType,
+  realtimeEventSchema,
+} from "@/types/events";
+
+// "polling" berarti stream tidak tersedia dan data diperbarui dengan refetch berkala
+export type RealtimeStatus = "connecting" | "open" | "reconnecting" | "polling";
+
+// Cache React Query yang menjadi basi saat event diterima
+export const realtimeQueryKeys: Record<RealtimeEventType, QueryKey[]> = {
+  "notification.created": [NOTIFICATIONS_QUERY_KEY],
+  "notifications.changed": [NOTIFICATIONS_QUERY_KEY],
+  "users.changed": [["users"]],
+  "invitations.changed": [["invitations"]],
+  "sessions.changed": [["sessions"], ["login-history"]],
+  "proposals.changed": [["proposals"]],
+  "topics.changed": [["topics"], ["topic-applications"]],
+  "supervisions.changed": [["supervisions"]],
+  "logbook.changed": [["logbook"]],
+  "appointments.changed": [["appointments"]],
+  "seminars.changed": [["seminars"]],
+};
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30_000;
+// Setelah sekian kali gagal berturut-turut aplikasi beralih ke polling,
+// sambil tetap mencoba menyambung ulang di belakang
+const FALLBACK_AFTER_FAILURES = 3;
+// Saat polling, data sudah diperbarui lewat refetch sehingga percobaan
+// menyambung ulang (dan permintaan tiket) boleh makin jarang
+const MAX_POLLING_RETRY_DELAY = 5 * 60_000;
+
+// Backoff eksponensial dengan jitter agar tab-tab tidak menyambung bersamaan
+const retryDelay = (failures: number) => {
+  const delay = Math.min(
+    failures >= FALLBACK_AFTER_FAILURES
+      ? MAX_POLLING_RETRY_DELAY
+      : MAX_RETRY_DELAY,
+    INITIAL_RETRY_DELAY * 2 ** (failures - 1)
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+interface RealtimeOptions {
+  url: string;
+  // EventSource tidak bisa mengirim header, jadi setiap koneksi memakai tiket
+  // sekali pakai di query string, bukan token akses
+  getTicket: () => Promise<string | null>;
+  onEvent: (event: RealtimeEvent) => void;
+  onStatusChange: (status: RealtimeStatus) => void;
+}
+
+export const connectRealtime = ({
+  url,
+  getTicket,
+  onEvent,
+  onStatusChange,
+}: RealtimeOptions) => {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let failures = 0;
+  let closed = false;
+  // Tiket sedang diminta, koneksi belum dibuat
+  let requesting = false;
+
+  const scheduleReconnect = () => {
+    failures += 1;
+    onStatusChange(
+      failures >= FALLBACK_AFTER_FAILURES ? "polling" : "reconnecting"
+    );
+    retryTimer = setTimeout(open, retryDelay(failures));
+  };
+
+  const open = async () => {
+    // Tiket diminta ulang setiap menyambung agar selalu memakai sesi terbaru
+    requesting = true;
+    const ticket = await getTicket().catch(() => null);
+    requesting = false;
+    if (closed) return;
+    if (!ticket) {
+      scheduleReconnect();
+      return;
+    }
+
+    const streamUrl = new URL(url);
+    streamUrl.searchParams.set("ticket", ticket);
+    source = new EventSource(streamUrl);
+    source.onopen = () => {
+      failures = 0;
+      onStatusChange("open");
+    };
+    source.onmessage = (message: MessageEvent<string>) => {
+      try {
+        const event = realtimeEventSchema.safeParse(JSON.parse(message.data));
+        if (event.success) onEvent(event.data);
+      } catch {
+        // Pesan yang bukan JSON diabaikan
+      }
+    };
+    // EventSource bawaan menyambung ulang dengan jeda tetap dan tiket yang
+    // sudah terpakai, jadi koneksi ditutup dan dibuka ulang dengan backoff sendiri
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      scheduleReconnect();
+    };
+  };
+
+  // Kembali online berarti layak dicoba langsung tanpa menunggu backoff
+  const handleOnline = () => {
+    if (source || requesting) return;
+    clearTimeout(retryTimer);
+    open();
+  };
+
+  if (typeof EventSource === "undefined") {
+    onStatusChange("polling");
+    return { close: () => undefined };
+  }
+
+  onStatusChange("connecting");
+  open();
+  window.addEventListener("online", handleOnline);
+
+  return {
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      window.removeEventListener("online", handleOnline);
+      source?.close();
+      source = null;
+    },
+  };
+};
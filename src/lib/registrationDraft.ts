@@ -0,0 +1,76 @@
+import { RegisterUserRequest } from "@/types/auth";
+
+// Progres pendaftaran disimpan per email (tanpa kata sandi) agar bisa
+// dilanjutkan setelah reload atau pindah tab
+const STORAGE_PREFIX = "registration:";
+const LATEST_KEY = `${STORAGE_PREFIX}latest`;
+const DRAFT_TTL = 30 * 60 * 1000;
+
+export type RegistrationDraftData = Omit<
+  RegisterUserRequest,
+  "password" | "confirmPassword"
+>;
+
+export interface RegistrationDraft {
+  step: number;
+  formData: RegistrationDraftData;
+  otpSentAt: number | null;
+  expiresAt: number;
+}
+
+const normalize = (email: string) => email.trim().toLowerCase();
+
+const keyFor = (email: string) => `${STORAGE_PREFIX}${normalize(email)}`;
+
+export const saveRegistrationDraft = (
+  draft: Omit<RegistrationDraft, "expiresAt">
+) => {
+  const { email } = draft.formData;
+  if (!email) return;
+
+  const value: RegistrationDraft = {
+    step: draft.step,
+    formData: {
+      email: draft.formData.email,
+      name: draft.formData.name,
+      nim: draft.formData.nim,
+      nip: draft.formData.nip,
+      phoneNumber: draft.formData.phoneNumber,
+    },
+    otpSentAt: draft.otpSentAt,
+    expiresAt: Date.now() + DRAFT_TTL,
+  };
+  localStorage.setItem(keyFor(email), JSON.stringify(value));
+  localStorage.setItem(LATEST_KEY, normalize(email));
+};
+
+export const loadRegistrationDraft = (
+  email: string
+): RegistrationDraft | null => {
+  const raw = localStorage.getItem(keyFor(email));
+  if (!raw) return null;
+
+  try {
+    const draft = JSON.parse(raw) as RegistrationDraft;
+    if (draft.expiresAt < Date.now()) {
+      clearRegistrationDraft(email);
+      return null;
+    }
+    return draft;
+  } catch {
+    clearRegistrationDraft(email);
+    return null;
+  }
+};
+
+export const getLatestRegistrationDraft = (): RegistrationDraft | null => {
+  const email = localStorage.getItem(LATEST_KEY);
+  return email ? loadRegistrationDraft(email) : null;
+};
+
+export const clearRegistrationDraft = (email: string) => {
+  localStorage.removeItem(keyFor(email));
+  if (localStorage.getItem(LATEST_KEY) === normalize(email)) {
+    localStorage.removeItem(LATEST_KEY);
+  }
+};
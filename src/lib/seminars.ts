@@ -0,0 +1,97 @@
+import { Seminar, SeminarStatus, SeminarType } from "@/types/seminars";
+
+export const SEMINARS_REFETCH_INTERVAL = 30_000;
+
+export const SEMINAR_TYPES: SeminarType[] = ["PROPOSAL", "RESULT", "DEFENSE"];
+
+// Jam kerja ruang seminar; jadwal digeser per kelipatan SCHEDULE_STEP_MINUTES
+export const SCHEDULE_START_TIME = "08:00";
+export const SCHEDULE_END_TIME = "17:00";
+export const SCHEDULE_STEP_MINUTES = 30;
+// Seminar hanya pada hari kerja, Senin sampai Jumat
+export const SCHEDULE_DAYS = 5;
+
+// Durasi bawaan saat jenis seminar dipilih, masih bisa diubah koordinator
+export const seminarDurations: Record<SeminarType, number> = {
+  PROPOSAL: 90,
+  RESULT: 90,
+  DEFENSE: 120,
+};
+
+export const seminarStatusVariants: Record<
+  SeminarStatus,
+  "warning" | "success"
+> = {
+  DRAFT: "warning",
+  PUBLISHED: "success",
+};
+
+export const isWorkingDay = (date: Date) =>
+  date.getDay() >= 1 && date.getDay() <= SCHEDULE_DAYS;
+
+// "HH:mm" menjadi jumlah menit sejak tengah malam
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (minutes: number) =>
+  [Math.floor(minutes / 60), minutes % 60]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+
+export const minutesOfDay = (date: Date) =>
+  date.getHours() * 60 + date.getMinutes();
+
+export const durationMinutes = (start: string | Date, end: string | Date) =>
+  Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60_000);
+
+// Jadwal yang sudah dimulai tidak bisa diubah lagi
+export const isSeminarClosed = (seminar: Seminar) =>
+  new Date(seminar.start).getTime() <= Date.now();
+
+// Peran pengguna pada jadwal, null jika tidak terlibat
+export const seminarRoleOf = (seminar: Seminar, userId?: number) => {
+  if (seminar.student.id === userId) return "STUDENT";
+  if (seminar.supervisors.some((item) => item.id === userId)) {
+    return "SUPERVISOR";
+  }
+  if (seminar.examiners.some((item) => item.id === userId)) return "EXAMINER";
+  return null;
+};
+
+// Jadwal yang bertumpuk pada hari yang sama ditaruh berdampingan; hasilnya
+// posisi kolom tiap jadwal dan jumlah kolom di kelompoknya
+export const layoutColumns = (seminars: Seminar[]) => {
+  const sorted = [...seminars].sort(
+    (a, b) => a.start.localeCompare(b.start) || b.end.localeCompare(a.end)
+  );
+  const layout = new Map<number, { column: number; columns: number }>();
+  let group: Seminar[] = [];
+  let columnEnds: string[] = [];
+  let groupEnd = "";
+
+  const closeGroup = () => {
+    group.forEach((seminar) => {
+      layout.set(seminar.id, {
+        column: layout.get(seminar.id)?.column ?? 0,
+        columns: columnEnds.length,
+      });
+    });
+    group = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach((seminar) => {
+    if (group.length > 0 && seminar.start >= groupEnd) closeGroup();
+    let column = columnEnds.findIndex((end) => end <= seminar.start);
+    if (column === -1) column = columnEnds.length;
+    columnEnds[column] = seminar.end;
+    layout.set(seminar.id, { column, columns: 1 });
+    group.push(seminar);
+    groupEnd =
+      seminar.end > groupEnd || group.length === 1 ? seminar.end : groupEnd;
+  });
+  closeGroup();
+  return layout;
+};
@@ -1,22 +1,70 @@
 import { toast } from "sonner";
+import i18n from "i18next";
+import queryClient from "@/lib/queryClient";
+import { toApiError } from "@/lib/errors";
+import { NOTIFICATIONS_QUERY_KEY } from "@/lib/notifications";
+import { createNotification } from "@/services/api/notifications";
+import { NotificationType } from "@/types/notifications";
+
+// Toast penting bisa disimpan ke kotak masuk agar tidak hilang bersama toast.
+// Tanpa `title`, isi toast dipakai sebagai judul notifikasi
+export interface SaveToInboxOptions {
+  type?: NotificationType;
+  title?: string;
+  link?: string;
+}
+
+interface ToasterOptions {
+  saveToInbox?: SaveToInboxOptions;
+}
+
+// Toast yang bisa disimpan tampil lebih lama agar tombolnya sempat ditekan
+const SAVEABLE_DURATION = 8000;
+
+const saveToInbox = async (message: string, options: SaveToInboxOptions) => {
+  try {
+    await createNotification({
+      type: options.type ?? "GENERAL",
+      title: options.title ?? message,
+      message: options.title ? message : "",
+      link: options.link,
+    });
+    queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+    toaster.info(i18n.t("notifications.saved"));
+  } catch (error) {
+    toaster.error(toApiError(error).message);
+  }
+};
+
+const saveAction = (message: string, options?: SaveToInboxOptions) =>
+  options && {
+    action: {
+      label: i18n.t("notifications.saveToInbox"),
+      onClick: () => saveToInbox(message, options),
+    },
+    duration: SAVEABLE_DURATION,
+  };
 
 export const toaster = {
-  success: (message: string) => {
+  success: (message: string, options?: ToasterOptions) => {
     toast.success(message, {
       className: "bg-green-500 text-white border-green-600",
       duration: 3000,
+      ...saveAction(message, options?.saveToInbox),
     });
   },
-  error: (message: string) => {
+  error: (message: string, options?: ToasterOptions) => {
     toast.error(message, {
       className: "bg-red-500 text-white border-red-600",
       duration: 5000,
+      ...saveAction(message, options?.saveToInbox),
     });
   },
-  info: (message: string) => {
+  info: (message: string, options?: ToasterOptions) => {
     toast.info(message, {
       className: "bg-blue-500 text-white border-blue-600",
       duration: 3000,
+      ...saveAction(message, options?.saveToInbox),
     });
   },
 };
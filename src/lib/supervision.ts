@@ -0,0 +1,50 @@
+import {
+  SupervisedStudent,
+  SupervisionAssignment,
+  SupervisorLoad,
+} from "@/types/supervision";
+
+export const SUPERVISIONS_REFETCH_INTERVAL = 30_000;
+
+export const totalLoad = (supervisor: SupervisorLoad) =>
+  supervisor.primaryCount + supervisor.secondaryCount;
+
+export const currentAssignment = (
+  student: SupervisedStudent
+): SupervisionAssignment => ({
+  studentId: student.studentId,
+  primaryId: student.primary?.id ?? null,
+  secondaryId: student.secondary?.id ?? null,
+});
+
+export const isSameAssignment = (
+  a: SupervisionAssignment,
+  b: SupervisionAssignment
+) => a.primaryId === b.primaryId && a.secondaryId === b.secondaryId;
+
+export const isFullyAssigned = (student: SupervisedStudent) =>
+  !!student.primary && !!student.secondary;
+
+// Beban tiap dosen jika perubahan yang belum disimpan ikut dihitung
+export const projectedLoads = (
+  supervisors: SupervisorLoad[],
+  students: SupervisedStudent[],
+  drafts: Record<number, SupervisionAssignment>
+) => {
+  const loads = new Map(
+    supervisors.map((supervisor) => [supervisor.id, totalLoad(supervisor)])
+  );
+  const shift = (id: number | null, delta: number) => {
+    if (id !== null) loads.set(id, (loads.get(id) ?? 0) + delta);
+  };
+  students.forEach((student) => {
+    const draft = drafts[student.studentId];
+    if (!draft) return;
+    const current = currentAssignment(student);
+    shift(current.primaryId, -1);
+    shift(current.secondaryId, -1);
+    shift(draft.primaryId, 1);
+    shift(draft.secondaryId, 1);
+  });
+  return loads;
+};
@@ -0,0 +1,21 @@
+import { Topic, TopicApplicationStatus } from "@/types/topics";
+
+export const TOPICS_REFETCH_INTERVAL = 30_000;
+
+export const topicApplicationStatusVariants: Record<
+  TopicApplicationStatus,
+  "info" | "success" | "destructive"
+> = {
+  PENDING: "info",
+  ACCEPTED: "success",
+  DECLINED: "destructive",
+};
+
+export const isTopicFull = (topic: Topic) => topic.acceptedCount >= topic.quota;
+
+// Keahlian diketik dipisah koma, misalnya "GIS, Python"
+export const parseSkills = (value: string) =>
+  value
+    .split(",")
+    .map((skill) => skill.trim())
+    .filter(Boolean);
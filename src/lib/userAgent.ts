@@ -0,0 +1,45 @@
+export type DeviceType = "desktop" | "mobile" | "tablet";
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  device: DeviceType;
+}
+
+// Urutan penting: Edge dan Opera juga menyebut Chrome, Chrome menyebut Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser/, "Samsung Internet"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+const match = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "";
+
+// Perkiraan kasar dari User-Agent, cukup untuk membedakan perangkat di
+// daftar sesi tanpa library tambahan
+export const describeUserAgent = (userAgent: string): DeviceInfo => {
+  const device: DeviceType = /iPad|Tablet/.test(userAgent)
+    ? "tablet"
+    : /Mobi|iPhone|Android/.test(userAgent)
+      ? "mobile"
+      : "desktop";
+
+  return {
+    browser: match(userAgent, BROWSERS),
+    os: match(userAgent, OPERATING_SYSTEMS),
+    device,
+  };
+};
@@ -0,0 +1,364 @@
+import { z } from "zod";
+import i18n from "i18next";
+import { parseDateValue, toDateValue } from "@/lib/logbook";
+import {
+  isWorkingDay,
+  SCHEDULE_END_TIME,
+  SCHEDULE_START_TIME,
+} from "@/lib/seminars";
+import { researchFieldSchema } from "@/types/proposals";
+import { seminarTypeSchema } from "@/types/seminars";
+
+// Skema validasi Zod yang dipakai bersama oleh beberapa halaman auth.
+// Pesan error diisi oleh error map i18n (lihat src/i18n/zod.ts)
+
+export type FormErrors = Partial<Record<string, string>>;
+
+// Ambil pesan pertama per field dari hasil flatten() Zod
+export const firstErrors = (
+  fieldErrors: Record<string, string[] | undefined>
+) =>
+  Object.fromEntries(
+    Object.entries(fieldErrors).map(([field, messages]) => [
+      field,
+      messages?.[0],
+    ])
+  ) as FormErrors;
+
+export const otpSchema = z.object({
+  otp: z.string().refine((otp) => /^\d{6}$/.test(otp), {
+    params: { i18n: "validation.otpFormat" },
+  }),
+});
+
+// Kode pemulihan verifikasi dua langkah berformat xxxx-xxxx (heksadesimal)
+const RECOVERY_CODE_PATTERN = /^[0-9a-f]{4}-[0-9a-f]{4}$/i;
+
+export const recoveryCodeSchema = z.object({
+  recoveryCode: z
+    .string()
+    .refine((code) => RECOVERY_CODE_PATTERN.test(code.trim()), {
+      params: { i18n: "validation.recoveryCodeFormat" },
+    }),
+});
+
+// Menonaktifkan verifikasi dua langkah menerima kode autentikator maupun
+// kode pemulihan
+export const disableTwoFactorSchema = z.object({
+  currentPassword: z.string().min(1),
+  code: z
+    .string()
+    .refine(
+      (code) =>
+        /^\d{6}$/.test(code.trim()) || RECOVERY_CODE_PATTERN.test(code.trim()),
+      { params: { i18n: "validation.twoFactorCode" } }
+    ),
+});
+
+export const passwordFieldsSchema = z.object({
+  password: z.string().min(8),
+  confirmPassword: z.string().min(8),
+});
+
+export const requireMatchingPasswords = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.refine(
+    (data) => {
+      const { password, confirmPassword } = data as z.infer<
+        typeof passwordFieldsSchema
+      >;
+      return password === confirmPassword;
+    },
+    {
+      params: { i18n: "validation.passwordMismatch" },
+      path: ["confirmPassword"],
+    }
+  );
+
+export const newPasswordSchema = requireMatchingPasswords(passwordFieldsSchema);
+
+export const changePasswordSchema = requireMatchingPasswords(
+  passwordFieldsSchema.extend({
+    currentPassword: z.string().min(1),
+  })
+);
+
+// Data identitas pengguna, dipakai saat pendaftaran dan ubah profil
+export const identityFieldsSchema = z.object({
+  name: z.string().min(1),
+  nim: z
+    .string()
+    .optional()
+    .refine((nim) => !nim || /^\d{8,}$/.test(nim), {
+      params: { i18n: "validation.identityNumber" },
+    }),
+  nip: z
+    .string()
+    .optional()
+    .refine((nip) => !nip || /^\d{8,}$/.test(nip), {
+      params: { i18n: "validation.identityNumber" },
+    }),
+  phoneNumber: z
+    .string()
+    .refine((phone) => phone.length >= 10 && phone.length <= 13, {
+      params: { i18n: "validation.phoneNumber" },
+    })
+    .refine((phone) => /^08\d+$/.test(phone), {
+      params: { i18n: "validation.phonePrefix" },
+    }),
+});
+
+// Mahasiswa mengisi NIM, dosen mengisi NIP, tidak boleh keduanya
+export const requireSingleIdentity = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.refine(
+    (data) => {
+      const { nim, nip } = data as { nim?: string; nip?: string };
+      return (nim && !nip) || (!nim && nip);
+    },
+    {
+      params: { i18n: "validation.nimOrNip" },
+      path: ["nim", "nip"],
+    }
+  );
+
+export const profileSchema = requireSingleIdentity(identityFieldsSchema);
+
+// Batas panjang sama dengan yang diperiksa server saat pengajuan dikirim
+export const PROPOSAL_ABSTRACT_MAX_LENGTH = 3000;
+export const MAX_PREFERRED_SUPERVISORS = 2;
+
+export const proposalSummarySchema = z.object({
+  title: z.string().trim().min(10).max(200),
+  abstract: z.string().trim().min(100).max(PROPOSAL_ABSTRACT_MAX_LENGTH),
+});
+
+export const proposalScopeSchema = z.object({
+  researchField: researchFieldSchema,
+  location: z.string().trim().min(1).max(200),
+});
+
+export const proposalSupervisorsSchema = z.object({
+  preferredSupervisorIds: z
+    .array(z.number())
+    .refine(
+      (ids) => ids.length >= 1 && ids.length <= MAX_PREFERRED_SUPERVISORS,
+      {
+        params: {
+          i18n: "validation.preferredSupervisors",
+          maximum: MAX_PREFERRED_SUPERVISORS,
+        },
+      }
+    ),
+});
+
+export const TOPIC_MAX_QUOTA = 10;
+export const TOPIC_MAX_SKILLS = 10;
+export const MOTIVATION_MAX_LENGTH = 1000;
+
+export const topicSchema = z.object({
+  title: z.string().trim().min(10).max(200),
+  description: z.string().trim().min(50).max(3000),
+  quota: z
+    .number()
+    .refine(
+      (quota) =>
+        Number.isInteger(quota) && quota >= 1 && quota <= TOPIC_MAX_QUOTA,
+      { params: { i18n: "validation.quota", maximum: TOPIC_MAX_QUOTA } }
+    ),
+  requiredSkills: z
+    .array(z.string().trim().min(1).max(50))
+    .refine((skills) => skills.length <= TOPIC_MAX_SKILLS, {
+      params: { i18n: "validation.requiredSkills", maximum: TOPIC_MAX_SKILLS },
+    }),
+  researchField: researchFieldSchema,
+});
+
+export const topicApplicationSchema = z.object({
+  motivation: z.string().trim().min(50).max(MOTIVATION_MAX_LENGTH),
+});
+
+export const LOGBOOK_NOTES_MAX_LENGTH = 2000;
+export const LOGBOOK_MAX_ATTACHMENTS = 3;
+export const LOGBOOK_ATTACHMENT_MAX_SIZE = 5 * 1024 * 1024;
+export const LOGBOOK_COMMENT_MAX_LENGTH = 1000;
+// Dokumen dan gambar yang lazim dibawa saat bimbingan
+const ATTACHMENT_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|jpe?g|png)$/i;
+
+export const logbookEntrySchema = z.object({
+  meetingDate: z
+    .string()
+    .min(1)
+    .refine((date) => date <= toDateValue(), {
+      params: { i18n: "validation.futureDate" },
+    }),
+  supervisorId: z.number().refine((id) => id > 0, {
+    params: { i18n: "validation.required" },
+  }),
+  topic: z.string().trim().min(5).max(200),
+  notes: z.string().trim().min(20).max(LOGBOOK_NOTES_MAX_LENGTH),
+  nextActions: z.string().trim().min(1).max(1000),
+});
+
+// Mengembalikan pesan error, atau null jika file boleh dilampirkan
+export const validateLogbookAttachment = (file: File): string | null => {
+  if (!ATTACHMENT_EXTENSIONS.test(file.name)) {
+    return i18n.t("validation.attachmentType");
+  }
+  if (file.size > LOGBOOK_ATTACHMENT_MAX_SIZE) {
+    return i18n.t("validation.fileTooLarge", { size: "5MB" });
+  }
+  return null;
+};
+
+export const APPOINTMENT_AGENDA_MAX_LENGTH = 500;
+export const APPOINTMENT_REASON_MAX_LENGTH = 300;
+
+export const bookAppointmentSchema = z.object({
+  agenda: z.string().trim().min(5).max(APPOINTMENT_AGENDA_MAX_LENGTH),
+});
+
+export const cancelAppointmentSchema = z.object({
+  reason: z.string().trim().min(1).max(APPOINTMENT_REASON_MAX_LENGTH),
+});
+
+// Jam HH:mm bisa dibandingkan langsung sebagai string
+export const availabilitySlotSchema = z
+  .object({
+    weekday: z.number(),
+    startTime: z.string().min(1),
+    endTime: z.string().min(1),
+    venue: z.string().trim().min(1).max(100),
+  })
+  .refine((slot) => slot.endTime > slot.startTime, {
+    params: { i18n: "validation.timeOrder" },
+    path: ["endTime"],
+  });
+
+// Jam boleh kosong saat menutup jadwal seharian, wajib untuk slot tambahan
+export const availabilityExceptionSchema = z
+  .object({
+    date: z
+      .string()
+      .min(1)
+      .refine((date) => date >= toDateValue(), {
+        params: { i18n: "validation.pastDate" },
+      }),
+    available: z.boolean(),
+    startTime: z.string(),
+    endTime: z.string(),
+    venue: z.string().trim().max(100),
+    note: z.string().trim().max(200),
+  })
+  .superRefine((data, ctx) => {
+    if (data.available || data.startTime || data.endTime) {
+      (["startTime", "endTime"] as const).forEach((field) => {
+        if (!data[field]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            params: { i18n: "validation.required" },
+            path: [field],
+          });
+        }
+      });
+      if (data.startTime && data.endTime && data.endTime <= data.startTime) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          params: { i18n: "validation.timeOrder" },
+          path: ["endTime"],
+        });
+      }
+    }
+    if (data.available && !data.venue) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        params: { i18n: "validation.required" },
+        path: ["venue"],
+      });
+    }
+  });
+
+export const SEMINAR_MAX_EXAMINERS = 3;
+export const ROOM_MAX_CAPACITY = 500;
+
+export const roomSchema = z.object({
+  name: z.string().trim().min(3).max(100),
+  capacity: z
+    .number()
+    .refine(
+      (capacity) =>
+        Number.isInteger(capacity) &&
+        capacity >= 1 &&
+        capacity <= ROOM_MAX_CAPACITY,
+      { params: { i18n: "validation.capacity", maximum: ROOM_MAX_CAPACITY } }
+    ),
+});
+
+// Tanggal dan jam dipisah di form lalu digabung saat dikirim
+export const seminarSchema = z
+  .object({
+    type: seminarTypeSchema,
+    studentId: z.number().refine((id) => id > 0, {
+      params: { i18n: "validation.required" },
+    }),
+    roomId: z.number().refine((id) => id > 0, {
+      params: { i18n: "validation.required" },
+    }),
+    date: z
+      .string()
+      .min(1)
+      .refine((date) => date >= toDateValue(), {
+        params: { i18n: "validation.pastDate" },
+      })
+      .refine((date) => isWorkingDay(parseDateValue(date)), {
+        params: { i18n: "validation.workingDay" },
+      }),
+    startTime: z.string().min(1),
+    endTime: z.string().min(1),
+    examinerIds: z
+      .array(z.number())
+      .refine((ids) => ids.length >= 1 && ids.length <= SEMINAR_MAX_EXAMINERS, {
+        params: {
+          i18n: "validation.examiners",
+          maximum: SEMINAR_MAX_EXAMINERS,
+        },
+      }),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.startTime || !data.endTime) return;
+    if (data.endTime <= data.startTime) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        params: { i18n: "validation.timeOrder" },
+        path: ["endTime"],
+      });
+    } else if (
+      data.startTime < SCHEDULE_START_TIME ||
+      data.endTime > SCHEDULE_END_TIME
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        params: {
+          i18n: "validation.scheduleHours",
+          start: SCHEDULE_START_TIME,
+          end: SCHEDULE_END_TIME,
+        },
+        path: ["startTime"],
+      });
+    }
+  });
+
+export const PROFILE_PICTURE_MAX_SIZE = 2 * 1024 * 1024;
+// Foto asli boleh lebih besar karena akan di-crop dan dikompres di browser
+const PROFILE_PICTURE_SOURCE_MAX_SIZE = 20 * 1024 * 1024;
+// Beberapa browser tidak mengisi MIME type untuk HEIC
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|heic|heif|avif|gif|bmp)$/i;
+
+// Mengembalikan pesan error, atau null jika file bisa dibuka di editor foto
+export const validateProfilePicture = (file: File): string | null => {
+  if (!file.type.startsWith("image/") && !IMAGE_EXTENSIONS.test(file.name)) {
+    return i18n.t("validation.fileType");
+  }
+  if (file.size > PROFILE_PICTURE_SOURCE_MAX_SIZE) {
+    return i18n.t("validation.fileTooLarge", { size: "20MB" });
+  }
+  return null;
+};
@@ -0,0 +1,1319 @@
+import { addDays, combineDateTime, startOfWeek } from "@/lib/appointments";
+import { toDateValue } from "@/lib/logbook";
+import {
+  Appointment,
+  AppointmentStatus,
+  AvailabilityException,
+  AvailabilitySlot,
+} from "@/types/appointments";
+import { Role, User } from "@/types/auth";
+import { Invitation } from "@/types/invitations";
+import {
+  LogbookAttachment,
+  LogbookComment,
+  LogbookEntry,
+  LogbookStatus,
+} from "@/types/logbook";
+import { Notification } from "@/types/notifications";
+import {
+  Proposal,
+  ProposalStatus,
+  ResearchField,
+  ReviewComment,
+} from "@/types/proposals";
+import { Room, Seminar, SeminarStatus, SeminarType } from "@/types/seminars";
+import { SupervisorPosition } from "@/types/supervision";
+import {
+  Topic,
+  TopicApplication,
+  TopicApplicationStatus,
+} from "@/types/topics";
+import { TwoFactorRole } from "@/types/twoFactor";
+import { ManagedUser, UserStatus } from "@/types/users";
+import { publish } from "./realtime";
+
+// Penyimpanan data in-memory untuk mode mock, hilang saat halaman dimuat ulang
+export interface MockUser extends Omit<
+  User,
+  "twoFactorEnabled" | "twoFactorRequired"
+> {
+  password: string;
+  status: UserStatus;
+  createdAt: string;
+  twoFactor?: MockTwoFactor;
+}
+
+// Secret yang belum dikonfirmasi disimpan dengan enabled false
+interface MockTwoFactor {
+  secret: string;
+  enabled: boolean;
+  recoveryCodes: string[];
+}
+
+interface LoginChallenge {
+  userId: number;
+  expiresAt: number;
+}
+
+interface StreamTicket {
+  sessionId: string;
+  expiresAt: number;
+}
+
+interface PendingRegistration {
+  code: string;
+  verified: boolean;
+  expiresAt: number;
+}
+
+interface PasswordReset {
+  code: string;
+  resetToken: string | null;
+  expiresAt: number;
+}
+
+export interface MockInvitation {
+  id: number;
+  token: string;
+  email: string;
+  role: Role;
+  accepted: boolean;
+  revoked: boolean;
+  expiresInDays: number;
+  expiresAt: number;
+  createdAt: string;
+  invitedBy: string;
+  invitedById: number;
+}
+
+export interface MockSession {
+  id: string;
+  userId: number;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string;
+  lastActiveAt: string;
+  revokedAt: string | null;
+}
+
+export interface MockLoginAttempt {
+  id: string;
+  email: string;
+  success: boolean;
+  reason: string | null;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string;
+}
+
+export interface MockNotification extends Notification {
+  userId: number;
+}
+
+export interface MockProposal {
+  id: number;
+  studentId: number;
+  title: string;
+  abstract: string;
+  researchField: ResearchField | null;
+  location: string;
+  preferredSupervisorIds: number[];
+  status: ProposalStatus;
+  comments: ReviewComment[];
+  submittedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockTopic {
+  id: number;
+  lecturerId: number;
+  title: string;
+  description: string;
+  quota: number;
+  requiredSkills: string[];
+  researchField: ResearchField;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockTopicApplication {
+  id: number;
+  topicId: number;
+  studentId: number;
+  motivation: string;
+  status: TopicApplicationStatus;
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+export interface MockSupervision {
+  studentId: number;
+  primaryId: number | null;
+  secondaryId: number | null;
+  assignedAt: string;
+}
+
+export interface MockSupervisionChange {
+  id: string;
+  studentId: number;
+  position: SupervisorPosition;
+  previousId: number | null;
+  nextId: number | null;
+  changedById: number;
+  createdAt: string;
+}
+
+export interface MockLogbookEntry {
+  id: number;
+  studentId: number;
+  supervisorId: number;
+  meetingDate: string;
+  topic: string;
+  notes: string;
+  nextActions: string;
+  attachments: LogbookAttachment[];
+  status: LogbookStatus;
+  comments: LogbookComment[];
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockAvailabilitySlot extends AvailabilitySlot {
+  lecturerId: number;
+}
+
+export interface MockAvailabilityException extends AvailabilityException {
+  lecturerId: number;
+}
+
+export interface MockAppointment {
+  id: number;
+  studentId: number;
+  supervisorId: number;
+  start: string;
+  end: string;
+  venue: string;
+  agenda: string;
+  status: AppointmentStatus;
+  cancelReason: string | null;
+  cancelledById: number | null;
+  logbookEntryId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MockRoom = Room;
+
+// Pembimbing disalin saat jadwal dibuat agar susunan penguji tidak berubah
+// diam-diam ketika pembimbing diganti
+export interface MockSeminar {
+  id: number;
+  type: SeminarType;
+  status: SeminarStatus;
+  studentId: number;
+  roomId: number;
+  start: string;
+  end: string;
+  supervisorIds: number[];
+  examinerIds: number[];
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MockScenario =
+  "duplicate-email" | "wrong-otp" | "expired-session" | "server-error";
+
+export const MOCK_OTP = "123456";
+export const MOCK_PASSWORD = "password123";
+const SESSION_TTL = 15 * 60 * 1000;
+const SCENARIO_KEY = "mock:scenario";
+const SESSIONS_KEY = "mock:sessions";
+const LOGIN_ATTEMPTS_KEY = "mock:login-attempts";
+const NOTIFICATIONS_KEY = "mock:notifications";
+const HOUR = 60 * 60 * 1000;
+
+const STUDENT_NAMES = [
+  "Rina Marlina",
+  "Dimas Pratama",
+  "Ayu Lestari",
+  "Fajar Nugroho",
+  "Nadia Putri",
+  "Rizky Saputra",
+  "Intan Permata",
+  "Yoga Aditya",
+  "Sari Wulandari",
+  "Bagus Hidayat",
+  "Melati Anggraini",
+  "Andi Kurniawan",
+];
+
+const LECTURER_NAMES = [
+  "Dr. Hendra Gunawan",
+  "Ir. Maya Sari, M.T.",
+  "Dr. Rudi Hartono",
+  "Dewi Kartika, M.Sc.",
+  "Prof. Bambang Wijaya",
+];
+
+// Data tambahan agar daftar pengguna bisa dicoba dengan pencarian dan paginasi
+const extraUsers = (): MockUser[] => {
+  const toEmail = (name: string) =>
+    name
+      .toLowerCase()
+      .replace(/^(dr|ir|prof)\.\s*/, "")
+      .replace(/,.*$/, "")
+      .replace(/[^a-z]+/g, ".");
+
+  const students = STUDENT_NAMES.map((name, index): MockUser => ({
+    id: 10 + index,
+    email: `${toEmail(name)}@student.unri.ac.id`,
+    role: "STUDENT",
+    password: MOCK_PASSWORD,
+    status: index % 5 === 4 ? "INACTIVE" : "ACTIVE",
+    createdAt: new Date(Date.UTC(2024, 8, 1 + index)).toISOString(),
+    profile: {
+      name,
+      nim: String(2107110010 + index),
+      phoneNumber: `08123400${String(index).padStart(4, "0")}`,
+    },
+  }));
+  const lecturers = LECTURER_NAMES.map((name, index): MockUser => ({
+    id: 30 + index,
+    email: `${toEmail(name)}@lecturer.unri.ac.id`,
+    role: "LECTURER",
+    password: MOCK_PASSWORD,
+    status: "ACTIVE",
+    createdAt: new Date(Date.UTC(2024, 7, 10 + index)).toISOString(),
+    profile: {
+      name,
+      nip: `19850101201001100${index + 1}`,
+      phoneNumber: `08129900${String(index).padStart(4, "0")}`,
+    },
+  }));
+  return [...students, ...lecturers];
+};
+
+const seedUsers = (): MockUser[] => [
+  {
+    id: 1,
+    email: "mahasiswa@student.unri.ac.id",
+    role: "STUDENT",
+    password: MOCK_PASSWORD,
+    status: "ACTIVE",
+    createdAt: "2024-08-01T08:00:00.000Z",
+    profile: {
+      name: "Budi Santoso",
+      nim: "2107110001",
+      phoneNumber: "081234567890",
+    },
+  },
+  {
+    id: 2,
+    email: "dosen@lecturer.unri.ac.id",
+    role: "LECTURER",
+    password: MOCK_PASSWORD,
+    status: "ACTIVE",
+    createdAt: "2024-08-01T08:00:00.000Z",
+    profile: {
+      name: "Dr. Siti Rahmawati",
+      nip: "198001012005012001",
+      phoneNumber: "081298765432",
+    },
+  },
+  {
+    id: 3,
+    email: "koordinator@eng.unri.ac.id",
+    role: "COORDINATOR",
+    password: MOCK_PASSWORD,
+    status: "ACTIVE",
+    createdAt: "2024-08-01T08:00:00.000Z",
+    profile: {
+      name: "Dr. Ahmad Fauzi",
+      nip: "197505052000031002",
+      phoneNumber: "081211223344",
+    },
+  },
+  {
+    id: 4,
+    email: "lestari.handayani@unand.ac.id",
+    role: "EXAMINER",
+    password: MOCK_PASSWORD,
+    status: "ACTIVE",
+    createdAt: "2024-08-15T08:00:00.000Z",
+    profile: {
+      name: "Dr. Lestari Handayani",
+      nip: "197803152003122001",
+      phoneNumber: "081277665544",
+    },
+  },
+  ...extraUsers(),
+];
+
+const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+const LAB_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36";
+const PHONE_USER_AGENT =
+  "Mozilla/5.0 (Linux; Android 14; SM-A546E) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Mobile Safari/537.36";
+
+// Dosen contoh masih login di komputer lab dan di ponselnya
+const seedSessions = (): MockSession[] => [
+  {
+    id: "seed-lab",
+    userId: 2,
+    userAgent: LAB_USER_AGENT,
+    ipAddress: "10.12.4.21",
+    createdAt: ago(26 * HOUR),
+    lastActiveAt: ago(3 * HOUR),
+    revokedAt: null,
+  },
+  {
+    id: "seed-phone",
+    userId: 2,
+    userAgent: PHONE_USER_AGENT,
+    ipAddress: "114.125.80.3",
+    createdAt: ago(72 * HOUR),
+    lastActiveAt: ago(20 * 60 * 1000),
+    revokedAt: null,
+  },
+];
+
+const seedLoginAttempts = (): MockLoginAttempt[] => [
+  {
+    id: "seed-attempt-1",
+    email: "dosen@lecturer.unri.ac.id",
+    success: false,
+    reason: "INVALID_CREDENTIALS",
+    userAgent: LAB_USER_AGENT,
+    ipAddress: "10.12.4.21",
+    createdAt: ago(26 * HOUR + 60 * 1000),
+  },
+  {
+    id: "seed-attempt-2",
+    email: "dosen@lecturer.unri.ac.id",
+    success: true,
+    reason: null,
+    userAgent: LAB_USER_AGENT,
+    ipAddress: "10.12.4.21",
+    createdAt: ago(26 * HOUR),
+  },
+];
+
+// Notifikasi contoh untuk akun mahasiswa, dosen, dan koordinator
+const seedNotifications = (): MockNotification[] => [
+  {
+    id: "seed-notif-1",
+    userId: 1,
+    type: "SUPERVISOR_ASSIGNED",
+    title: "Dosen pembimbing ditetapkan",
+    message: "Dr. Siti Rahmawati ditetapkan sebagai dosen pembimbing Anda.",
+    link: "/student/dashboard",
+    read: false,
+    createdAt: ago(2 * HOUR),
+  },
+  {
+    id: "seed-notif-2",
+    userId: 1,
+    type: "LOGBOOK_APPROVED",
+    title: "Logbook disetujui",
+    message: "Catatan bimbingan minggu lalu telah disetujui pembimbing.",
+    link: "/student/dashboard",
+    read: false,
+    createdAt: ago(20 * HOUR),
+  },
+  {
+    id: "seed-notif-3",
+    userId: 1,
+    type: "SEMINAR_SCHEDULED",
+    title: "Seminar proposal dijadwalkan",
+    message: "Seminar proposal Anda dijadwalkan pada pekan depan.",
+    link: "/student/dashboard",
+    read: true,
+    createdAt: ago(3 * 24 * HOUR),
+  },
+  {
+    id: "seed-notif-4",
+    userId: 2,
+    type: "SUPERVISOR_ASSIGNED",
+    title: "Mahasiswa bimbingan baru",
+    message: "Budi Santoso ditetapkan sebagai mahasiswa bimbingan Anda.",
+    link: "/lecturer/dashboard",
+    read: false,
+    createdAt: ago(2 * HOUR),
+  },
+  {
+    id: "seed-notif-5",
+    userId: 3,
+    type: "INVITATION_ACCEPTED",
+    title: "Undangan diterima",
+    message: "Penguji eksternal telah menerima undangan dan membuat akun.",
+    link: "/coordinator/invitations",
+    read: false,
+    createdAt: ago(5 * HOUR),
+  },
+];
+
+const SAMPLE_ABSTRACT =
+  "Penelitian ini mengkaji kinerja sistem pengolahan dengan membandingkan " +
+  "beberapa variasi waktu tinggal dan beban pencemar. Sampel diambil secara " +
+  "berkala lalu dianalisis di laboratorium untuk parameter utama sesuai baku " +
+  "mutu yang berlaku.";
+
+// Judul yang sudah diterima untuk mengisi layar penetapan pembimbing
+const ACCEPTED_TITLES: [number, string, ResearchField, number[]][] = [
+  [16, "Kinerja Biofilter Anaerob untuk Limbah Cair Tahu", "WASTEWATER", [2]],
+  [
+    17,
+    "Kualitas Air Sumur Gali di Sekitar TPA Muara Fajar",
+    "WATER_QUALITY",
+    [33, 30],
+  ],
+  [
+    18,
+    "Emisi Gas Rumah Kaca dari Pembakaran Sampah Terbuka",
+    "AIR_QUALITY",
+    [31],
+  ],
+  [
+    21,
+    "Evaluasi Sistem Manajemen Lingkungan Rumah Sakit",
+    "ENVIRONMENTAL_MANAGEMENT",
+    [32],
+  ],
+  [20, "Efisiensi IPAL Komunal Kelurahan Tangkerang", "WASTEWATER", [2, 30]],
+];
+
+const acceptedProposals = (): MockProposal[] =>
+  ACCEPTED_TITLES.map(
+    ([studentId, title, researchField, supervisorIds], index) => ({
+      id: 4 + index,
+      studentId,
+      title,
+      abstract: SAMPLE_ABSTRACT,
+      researchField,
+      location: "Pekanbaru",
+      preferredSupervisorIds: supervisorIds,
+      status: "ACCEPTED",
+      comments: [],
+      submittedAt: ago((12 + index) * 24 * HOUR),
+      createdAt: ago((14 + index) * 24 * HOUR),
+      updatedAt: ago((10 + index) * 24 * HOUR),
+    })
+  );
+
+// Pengajuan contoh dari mahasiswa lain dengan status berbeda-beda
+const seedProposals = (): MockProposal[] => [
+  {
+    id: 1,
+    studentId: 11,
+    title: "Efektivitas Constructed Wetland untuk Limbah Cair Domestik",
+    abstract: SAMPLE_ABSTRACT,
+    researchField: "WASTEWATER",
+    location: "Kampus Bina Widya, Pekanbaru",
+    preferredSupervisorIds: [2, 30],
+    status: "SUBMITTED",
+    comments: [],
+    submittedAt: ago(30 * HOUR),
+    createdAt: ago(72 * HOUR),
+    updatedAt: ago(30 * HOUR),
+  },
+  {
+    id: 2,
+    studentId: 12,
+    title: "Pemetaan Sebaran PM2.5 di Kawasan Industri Dumai",
+    abstract: SAMPLE_ABSTRACT,
+    researchField: "AIR_QUALITY",
+    location: "Kota Dumai",
+    preferredSupervisorIds: [31],
+    status: "REVISION_REQUESTED",
+    comments: [
+      {
+        id: "seed-comment-1",
+        author: "Dr. Ahmad Fauzi",
+        message:
+          "Perjelas metode pengambilan sampel dan jumlah titik pemantauan.",
+        status: "REVISION_REQUESTED",
+        createdAt: ago(10 * HOUR),
+      },
+    ],
+    submittedAt: ago(48 * HOUR),
+    createdAt: ago(96 * HOUR),
+    updatedAt: ago(10 * HOUR),
+  },
+  {
+    id: 3,
+    studentId: 13,
+    title: "Potensi Komposting Sampah Organik Pasar Tradisional",
+    abstract: SAMPLE_ABSTRACT,
+    researchField: "SOLID_WASTE",
+    location: "Pasar Pagi Arengka, Pekanbaru",
+    preferredSupervisorIds: [2],
+    status: "ACCEPTED",
+    comments: [
+      {
+        id: "seed-comment-2",
+        author: "Dr. Ahmad Fauzi",
+        message: "Topik relevan, silakan lanjutkan ke penyusunan proposal.",
+        status: "ACCEPTED",
+        createdAt: ago(5 * 24 * HOUR),
+      },
+    ],
+    submittedAt: ago(7 * 24 * HOUR),
+    createdAt: ago(8 * 24 * HOUR),
+    updatedAt: ago(5 * 24 * HOUR),
+  },
+  ...acceptedProposals(),
+];
+
+// Topik contoh dari dosen; topik kompos sudah diambil pemilik pengajuan id 3
+const seedTopics = (): MockTopic[] => [
+  {
+    id: 1,
+    lecturerId: 2,
+    title: "Penyisihan Amonia pada Lindi TPA dengan Biofilter Aerobik",
+    description:
+      "Bagian dari proyek penelitian pengolahan lindi TPA Muara Fajar. " +
+      "Mahasiswa akan merancang reaktor skala laboratorium, mengoperasikannya " +
+      "dengan variasi beban, dan menganalisis efisiensi penyisihan amonia.",
+    quota: 2,
+    requiredSkills: ["Analisis laboratorium", "Microsoft Excel"],
+    researchField: "WASTEWATER",
+    createdAt: ago(6 * 24 * HOUR),
+    updatedAt: ago(6 * 24 * HOUR),
+  },
+  {
+    id: 2,
+    lecturerId: 2,
+    title: "Potensi Komposting Sampah Organik Pasar Tradisional",
+    description:
+      "Kajian timbulan dan komposisi sampah pasar serta uji coba komposting " +
+      "skala pilot bersama pengelola pasar di Pekanbaru.",
+    quota: 1,
+    requiredSkills: ["Survei lapangan"],
+    researchField: "SOLID_WASTE",
+    createdAt: ago(10 * 24 * HOUR),
+    updatedAt: ago(10 * 24 * HOUR),
+  },
+  {
+    id: 3,
+    lecturerId: 31,
+    title: "Model Dispersi Emisi Cerobong Industri Kelapa Sawit",
+    description:
+      "Pemodelan sebaran polutan dari pabrik kelapa sawit menggunakan AERMOD " +
+      "dan validasi dengan data pemantauan kualitas udara ambien.",
+    quota: 3,
+    requiredSkills: ["AERMOD", "Python", "GIS"],
+    researchField: "AIR_QUALITY",
+    createdAt: ago(3 * 24 * HOUR),
+    updatedAt: ago(3 * 24 * HOUR),
+  },
+  {
+    id: 4,
+    lecturerId: 33,
+    title: "Indeks Kualitas Air Sungai Siak Segmen Perkotaan",
+    description:
+      "Pemantauan kualitas air Sungai Siak di beberapa titik segmen perkotaan " +
+      "dan penyusunan indeks pencemaran untuk rekomendasi pengelolaan.",
+    quota: 2,
+    requiredSkills: ["Sampling air", "GIS"],
+    researchField: "WATER_QUALITY",
+    createdAt: ago(24 * HOUR),
+    updatedAt: ago(24 * HOUR),
+  },
+];
+
+const seedTopicApplications = (): MockTopicApplication[] => [
+  {
+    id: 1,
+    topicId: 2,
+    studentId: 13,
+    motivation:
+      "Saya pernah menjadi asisten praktikum pengelolaan sampah dan ingin " +
+      "melanjutkan kajian komposting untuk tugas akhir.",
+    status: "ACCEPTED",
+    createdAt: ago(9 * 24 * HOUR),
+    decidedAt: ago(8 * 24 * HOUR),
+  },
+  {
+    id: 2,
+    topicId: 1,
+    studentId: 15,
+    motivation:
+      "Topik ini sesuai dengan minat saya di bidang pengolahan air limbah dan " +
+      "saya sudah terbiasa bekerja di laboratorium.",
+    status: "PENDING",
+    createdAt: ago(2 * 24 * HOUR),
+    decidedAt: null,
+  },
+];
+
+// Bidang keahlian dosen, dipakai untuk menyarankan pembimbing
+const SUPERVISOR_EXPERTISE: Record<number, ResearchField[]> = {
+  2: ["WASTEWATER", "SOLID_WASTE"],
+  3: ["ENVIRONMENTAL_MANAGEMENT"],
+  30: ["WATER_QUALITY", "WASTEWATER"],
+  31: ["AIR_QUALITY"],
+  32: ["SOLID_WASTE", "ENVIRONMENTAL_MANAGEMENT"],
+  33: ["WATER_QUALITY"],
+  34: ["AIR_QUALITY", "ENVIRONMENTAL_MANAGEMENT"],
+};
+
+// Sebagian mahasiswa sudah punya pembimbing agar beban dosen tidak kosong
+const seedSupervisions = (): MockSupervision[] => [
+  {
+    studentId: 13,
+    primaryId: 2,
+    secondaryId: 32,
+    assignedAt: ago(4 * 24 * HOUR),
+  },
+  {
+    studentId: 21,
+    primaryId: 32,
+    secondaryId: 3,
+    assignedAt: ago(9 * 24 * HOUR),
+  },
+  {
+    studentId: 20,
+    primaryId: 2,
+    secondaryId: 30,
+    assignedAt: ago(9 * 24 * HOUR),
+  },
+];
+
+// Kartu bimbingan contoh untuk mahasiswa id 13 (pembimbing id 2 dan 32)
+// dan id 21 (pembimbing id 32 dan 3)
+const seedLogbookEntries = (): MockLogbookEntry[] => {
+  const entry = (
+    id: number,
+    studentId: number,
+    supervisorId: number,
+    daysAgo: number,
+    topic: string,
+    status: LogbookStatus,
+    comment?: Pick<LogbookComment, "author" | "message">
+  ): MockLogbookEntry => {
+    const createdAt = ago(daysAgo * 24 * HOUR);
+    const reviewedAt =
+      status === "PENDING" ? null : ago((daysAgo - 1) * 24 * HOUR);
+    return {
+      id,
+      studentId,
+      supervisorId,
+      meetingDate: createdAt.slice(0, 10),
+      topic,
+      notes:
+        "Membahas progres penulisan dan data lapangan yang sudah terkumpul " +
+        "bersama pembimbing.",
+      nextActions:
+        "Memperbaiki bagian yang dibahas sebelum pertemuan berikutnya.",
+      attachments: [],
+      status,
+      comments: comment
+        ? [
+            {
+              id: `seed-logbook-${id}`,
+              ...comment,
+              status,
+              createdAt: reviewedAt ?? createdAt,
+            },
+          ]
+        : [],
+      reviewedAt,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  };
+  return [
+    entry(1, 13, 2, 24, "Rumusan masalah dan tujuan penelitian", "APPROVED"),
+    entry(2, 13, 32, 18, "Tinjauan pustaka pengomposan", "APPROVED"),
+    entry(3, 13, 2, 11, "Metode sampling kompos", "REJECTED", {
+      author: "Dr. Siti Rahmawati",
+      message:
+        "Catatan diskusi belum menjelaskan jumlah titik sampel yang disepakati.",
+    }),
+    entry(4, 13, 2, 4, "Rencana jadwal pengambilan sampel", "PENDING"),
+    entry(5, 13, 32, 2, "Format tabel hasil analisis", "PENDING"),
+    entry(6, 21, 3, 3, "Ruang lingkup audit lingkungan", "PENDING"),
+  ];
+};
+
+// Jadwal rutin contoh untuk dosen id 2 dan 32 serta koordinator id 3
+const seedAvailabilitySlots = (): MockAvailabilitySlot[] => {
+  const slot = (
+    id: number,
+    lecturerId: number,
+    weekday: number,
+    startTime: string,
+    endTime: string,
+    venue: string
+  ): MockAvailabilitySlot => ({
+    id: `seed-slot-${id}`,
+    lecturerId,
+    weekday,
+    startTime,
+    endTime,
+    venue,
+  });
+  return [
+    slot(1, 2, 1, "09:00", "10:00", "Ruang Dosen TL 2"),
+    slot(2, 2, 1, "10:00", "11:00", "Ruang Dosen TL 2"),
+    slot(3, 2, 3, "13:00", "14:00", "Laboratorium Kualitas Air"),
+    slot(4, 2, 4, "09:00", "10:00", "Ruang Dosen TL 2"),
+    slot(5, 32, 2, "10:00", "11:00", "Ruang Dosen TL 1"),
+    slot(6, 32, 5, "14:00", "15:00", "Daring (Google Meet)"),
+    slot(7, 3, 3, "09:00", "10:00", "Ruang Koordinator"),
+  ];
+};
+
+// Tanggal pada pekan ke-n dari pekan ini, weekday mengikuti Date.getDay()
+const weekDate = (weekOffset: number, weekday: number) =>
+  toDateValue(
+    addDays(startOfWeek(new Date()), weekOffset * 7 + ((weekday + 6) % 7))
+  );
+
+const seedAvailabilityExceptions = (): MockAvailabilityException[] => [
+  {
+    id: "seed-exception-1",
+    lecturerId: 2,
+    date: weekDate(1, 4),
+    startTime: null,
+    endTime: null,
+    available: false,
+    venue: "",
+    note: "Dinas luar kota",
+  },
+];
+
+// Janji temu contoh mengikuti slot di atas; janji pekan lalu belum dicatat
+// di logbook sehingga bisa dipakai mencoba isian otomatis
+const seedAppointments = (): MockAppointment[] => {
+  const appointment = (
+    id: number,
+    studentId: number,
+    supervisorId: number,
+    date: string,
+    startTime: string,
+    venue: string,
+    agenda: string
+  ): MockAppointment => {
+    const start = combineDateTime(date, startTime);
+    const createdAt = new Date(start.getTime() - 3 * 24 * HOUR).toISOString();
+    return {
+      id,
+      studentId,
+      supervisorId,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + HOUR).toISOString(),
+      venue,
+      agenda,
+      status: "CONFIRMED",
+      cancelReason: null,
+      cancelledById: null,
+      logbookEntryId: null,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  };
+  return [
+    appointment(
+      1,
+      13,
+      32,
+      weekDate(-1, 2),
+      "10:00",
+      "Ruang Dosen TL 1",
+      "Diskusi pembahasan hasil uji kompos"
+    ),
+    appointment(
+      2,
+      13,
+      2,
+      weekDate(1, 1),
+      "09:00",
+      "Ruang Dosen TL 2",
+      "Membahas hasil uji coba sampling"
+    ),
+    appointment(
+      3,
+      21,
+      3,
+      weekDate(1, 3),
+      "09:00",
+      "Ruang Koordinator",
+      "Menyepakati daftar periksa audit"
+    ),
+  ];
+};
+
+const seedRooms = (): MockRoom[] => [
+  { id: 1, name: "Ruang Seminar Teknik Lingkungan", capacity: 40 },
+  { id: 2, name: "Ruang Sidang Dekanat", capacity: 20 },
+  { id: 3, name: "Ruang Rapat Jurusan", capacity: 15 },
+];
+
+// Seminar proposal mahasiswa id 13 sudah diumumkan; dua jadwal lain masih
+// draf sehingga alur pengumuman bisa dicoba
+const seedSeminars = (): MockSeminar[] => {
+  const seminar = (
+    id: number,
+    type: SeminarType,
+    status: SeminarStatus,
+    studentId: number,
+    roomId: number,
+    date: string,
+    startTime: string,
+    minutes: number,
+    supervisorIds: number[],
+    examinerIds: number[]
+  ): MockSeminar => {
+    const start = combineDateTime(date, startTime);
+    const createdAt = ago(2 * 24 * HOUR);
+    return {
+      id,
+      type,
+      status,
+      studentId,
+      roomId,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + minutes * 60_000).toISOString(),
+      supervisorIds,
+      examinerIds,
+      publishedAt: status === "PUBLISHED" ? createdAt : null,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  };
+  return [
+    seminar(
+      1,
+      "PROPOSAL",
+      "PUBLISHED",
+      13,
+      1,
+      weekDate(1, 2),
+      "13:00",
+      90,
+      [2, 32],
+      [30, 4]
+    ),
+    seminar(
+      2,
+      "RESULT",
+      "DRAFT",
+      21,
+      2,
+      weekDate(1, 3),
+      "13:00",
+      90,
+      [32, 3],
+      [34]
+    ),
+    seminar(
+      3,
+      "DEFENSE",
+      "DRAFT",
+      20,
+      1,
+      weekDate(1, 5),
+      "09:00",
+      120,
+      [2, 30],
+      [31, 33]
+    ),
+  ];
+};
+
+// Sesi, riwayat login, dan notifikasi disimpan di localStorage (jika ada)
+// agar bertahan setelah reload dan terbaca oleh tab lain, sehingga pencabutan
+// sesi dari satu tab benar-benar memutus tab lainnya
+const persistedList = <T>(key: string, seed: () => T[]) => {
+  let memory = seed();
+  return {
+    all: (): T[] => {
+      if (typeof localStorage === "undefined") return memory;
+      const raw = localStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as T[]) : memory;
+    },
+    save: (items: T[]) => {
+      memory = items;
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(key, JSON.stringify(items));
+      }
+    },
+    reset: () => {
+      memory = seed();
+      if (typeof localStorage !== "undefined") localStorage.removeItem(key);
+    },
+  };
+};
+
+export const db = {
+  users: seedUsers(),
+  registrations: new Map<string, PendingRegistration>(),
+  passwordResets: new Map<string, PasswordReset>(),
+  invitations: [] as MockInvitation[],
+  sessions: persistedList(SESSIONS_KEY, seedSessions),
+  loginAttempts: persistedList(LOGIN_ATTEMPTS_KEY, seedLoginAttempts),
+  notifications: persistedList(NOTIFICATIONS_KEY, seedNotifications),
+  loginChallenges: new Map<string, LoginChallenge>(),
+  streamTickets: new Map<string, StreamTicket>(),
+  twoFactorPolicy: { requiredRoles: [] as TwoFactorRole[] },
+  proposals: seedProposals(),
+  topics: seedTopics(),
+  topicApplications: seedTopicApplications(),
+  supervisions: seedSupervisions(),
+  supervisionChanges: [] as MockSupervisionChange[],
+  supervisionSettings: { maxLoad: 3 },
+  logbookEntries: seedLogbookEntries(),
+  availabilitySlots: seedAvailabilitySlots(),
+  availabilityExceptions: seedAvailabilityExceptions(),
+  appointments: seedAppointments(),
+  rooms: seedRooms(),
+  seminars: seedSeminars(),
+};
+
+let scenario: MockScenario | null = null;
+
+export const resetDb = () => {
+  db.users = seedUsers();
+  db.registrations.clear();
+  db.passwordResets.clear();
+  db.invitations = [];
+  db.sessions.reset();
+  db.loginAttempts.reset();
+  db.notifications.reset();
+  db.loginChallenges.clear();
+  db.streamTickets.clear();
+  db.twoFactorPolicy = { requiredRoles: [] };
+  db.proposals = seedProposals();
+  db.topics = seedTopics();
+  db.topicApplications = seedTopicApplications();
+  db.supervisions = seedSupervisions();
+  db.supervisionChanges = [];
+  db.supervisionSettings = { maxLoad: 3 };
+  db.logbookEntries = seedLogbookEntries();
+  db.availabilitySlots = seedAvailabilitySlots();
+  db.availabilityExceptions = seedAvailabilityExceptions();
+  db.appointments = seedAppointments();
+  db.rooms = seedRooms();
+  db.seminars = seedSeminars();
+  setMockScenario(null);
+};
+
+// Skenario error bisa diaktifkan dari test atau dari console browser
+export const setMockScenario = (value: MockScenario | null) => {
+  scenario = value;
+  if (typeof localStorage === "undefined") return;
+  if (value) {
+    localStorage.setItem(SCENARIO_KEY, value);
+  } else {
+    localStorage.removeItem(SCENARIO_KEY);
+  }
+};
+
+export const getMockScenario = (): MockScenario | null => {
+  if (typeof localStorage !== "undefined") {
+    return (localStorage.getItem(SCENARIO_KEY) as MockScenario) || scenario;
+  }
+  return scenario;
+};
+
+export const nextUserId = () =>
+  db.users.reduce((max, user) => Math.max(max, user.id), 0) + 1;
+
+export const findUserByEmail = (email: string) =>
+  db.users.find((user) => user.email === email.toLowerCase());
+
+export const createSessionExpiry = () => Date.now() + SESSION_TTL;
+
+export const twoFactorRequiredFor = (user: MockUser) =>
+  (db.twoFactorPolicy.requiredRoles as string[]).includes(user.role);
+
+export const toPublicUser = (user: MockUser): User => ({
+  id: user.id,
+  email: user.email,
+  role: user.role,
+  profile: user.profile,
+  twoFactorEnabled: !!user.twoFactor?.enabled,
+  twoFactorRequired: twoFactorRequiredFor(user),
+});
+
+export const toManagedUser = (user: MockUser): ManagedUser => ({
+  ...toPublicUser(user),
+  status: user.status,
+  createdAt: user.createdAt,
+});
+
+export const tokenFor = (session: MockSession) => `mock-token-${session.id}`;
+
+export const findSessionByToken = (authorization: string | null) => {
+  const match = authorization?.match(/^Bearer mock-token-(.+)$/);
+  if (!match) return undefined;
+  return db.sessions
+    .all()
+    .find((session) => session.id === match[1] && !session.revokedAt);
+};
+
+// Akun yang dinonaktifkan koordinator langsung kehilangan aksesnya
+export const findActiveUser = (id: number) =>
+  db.users.find((user) => user.id === id && user.status === "ACTIVE");
+
+export const updateSession = (id: string, patch: Partial<MockSession>) => {
+  db.sessions.save(
+    db.sessions
+      .all()
+      .map((session) =>
+        session.id === id ? { ...session, ...patch } : session
+      )
+  );
+};
+
+export const toNotification = (
+  notification: MockNotification
+): Notification => ({
+  id: notification.id,
+  type: notification.type,
+  title: notification.title,
+  message: notification.message,
+  link: notification.link,
+  read: notification.read,
+  createdAt: notification.createdAt,
+});
+
+// Notifikasi baru untuk pengguna; dipakai handler lain saat ada kejadian
+export const pushNotification = (
+  userId: number,
+  data: Pick<Notification, "type" | "title" | "message" | "link">
+): MockNotification => {
+  const notification: MockNotification = {
+    ...data,
+    id: crypto.randomUUID(),
+    userId,
+    read: false,
+    createdAt: new Date().toISOString(),
+  };
+  db.notifications.save([notification, ...db.notifications.all()]);
+  publish(userId, {
+    type: "notification.created",
+    notification: toNotification(notification),
+  });
+  return notification;
+};
+
+export const activeCoordinatorIds = () =>
+  db.users
+    .filter((user) => user.role === "COORDINATOR" && user.status === "ACTIVE")
+    .map((user) => user.id);
+
+export const nextProposalId = () =>
+  db.proposals.reduce((max, proposal) => Math.max(max, proposal.id), 0) + 1;
+
+// Dosen dan koordinator sama-sama bisa menjadi pembimbing
+export const isSupervisor = (user: MockUser) =>
+  user.status === "ACTIVE" &&
+  (user.role === "LECTURER" || user.role === "COORDINATOR");
+
+export const toProposal = (proposal: MockProposal): Proposal => ({
+  id: proposal.id,
+  title: proposal.title,
+  abstract: proposal.abstract,
+  researchField: proposal.researchField,
+  location: proposal.location,
+  preferredSupervisors: proposal.preferredSupervisorIds.flatMap((id) => {
+    const supervisor = db.users.find((user) => user.id === id);
+    return supervisor
+      ? [{ id, name: supervisor.profile?.name ?? supervisor.email }]
+      : [];
+  }),
+  status: proposal.status,
+  comments: proposal.comments,
+  submittedAt: proposal.submittedAt,
+  createdAt: proposal.createdAt,
+  updatedAt: proposal.updatedAt,
+});
+
+export const nextTopicId = () =>
+  db.topics.reduce((max, topic) => Math.max(max, topic.id), 0) + 1;
+
+export const nextTopicApplicationId = () =>
+  db.topicApplications.reduce(
+    (max, application) => Math.max(max, application.id),
+    0
+  ) + 1;
+
+const displayName = (id: number) => {
+  const user = db.users.find((item) => item.id === id);
+  return user?.profile?.name ?? user?.email ?? "-";
+};
+
+// Status lamaran mengikuti pengguna yang melihat, kosong untuk dosen
+export const toTopic = (topic: MockTopic, viewerId?: number): Topic => {
+  const applications = db.topicApplications.filter(
+    (application) => application.topicId === topic.id
+  );
+  const mine = applications
+    .filter((application) => application.studentId === viewerId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  return {
+    id: topic.id,
+    title: topic.title,
+    description: topic.description,
+    quota: topic.quota,
+    acceptedCount: applications.filter((item) => item.status === "ACCEPTED")
+      .length,
+    pendingCount: applications.filter((item) => item.status === "PENDING")
+      .length,
+    requiredSkills: topic.requiredSkills,
+    researchField: topic.researchField,
+    lecturer: { id: topic.lecturerId, name: displayName(topic.lecturerId) },
+    myApplicationStatus: mine?.status ?? null,
+    createdAt: topic.createdAt,
+    updatedAt: topic.updatedAt,
+  };
+};
+
+export const toTopicApplication = (
+  application: MockTopicApplication
+): TopicApplication => {
+  const topic = db.topics.find((item) => item.id === application.topicId);
+  const student = db.users.find((user) => user.id === application.studentId);
+  return {
+    id: application.id,
+    topicId: application.topicId,
+    topicTitle: topic?.title ?? "-",
+    lecturerName: topic ? displayName(topic.lecturerId) : "-",
+    student: {
+      id: application.studentId,
+      name: displayName(application.studentId),
+      nim: student?.profile?.nim ?? null,
+    },
+    motivation: application.motivation,
+    status: application.status,
+    createdAt: application.createdAt,
+    decidedAt: application.decidedAt,
+  };
+};
+
+export const supervisorExpertise = (id: number) =>
+  SUPERVISOR_EXPERTISE[id] ?? [];
+
+export const toUserOption = (id: number | null) =>
+  id === null ? null : { id, name: displayName(id) };
+
+export const nextLogbookEntryId = () =>
+  db.logbookEntries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+
+export const toLogbookEntry = (entry: MockLogbookEntry): LogbookEntry => ({
+  id: entry.id,
+  meetingDate: entry.meetingDate,
+  supervisor: { id: entry.supervisorId, name: displayName(entry.supervisorId) },
+  topic: entry.topic,
+  notes: entry.notes,
+  nextActions: entry.nextActions,
+  attachments: entry.attachments,
+  status: entry.status,
+  comments: entry.comments,
+  reviewedAt: entry.reviewedAt,
+  createdAt: entry.createdAt,
+  updatedAt: entry.updatedAt,
+});
+
+export const nextAppointmentId = () =>
+  db.appointments.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+export const toAppointment = (appointment: MockAppointment): Appointment => {
+  const student = db.users.find((user) => user.id === appointment.studentId);
+  return {
+    id: appointment.id,
+    student: {
+      id: appointment.studentId,
+      name: displayName(appointment.studentId),
+      nim: student?.profile?.nim ?? null,
+    },
+    supervisor: {
+      id: appointment.supervisorId,
+      name: displayName(appointment.supervisorId),
+    },
+    start: appointment.start,
+    end: appointment.end,
+    venue: appointment.venue,
+    agenda: appointment.agenda,
+    status: appointment.status,
+    cancelReason: appointment.cancelReason,
+    cancelledBy:
+      appointment.cancelledById === null
+        ? null
+        : displayName(appointment.cancelledById),
+    logbookEntryId: appointment.logbookEntryId,
+    createdAt: appointment.createdAt,
+    updatedAt: appointment.updatedAt,
+  };
+};
+
+export const nextRoomId = () =>
+  db.rooms.reduce((max, room) => Math.max(max, room.id), 0) + 1;
+
+export const nextSeminarId = () =>
+  db.seminars.reduce((max, seminar) => Math.max(max, seminar.id), 0) + 1;
+
+// Judul dari pengajuan yang diterima, terbaru lebih dulu
+export const acceptedTitleOf = (studentId: number) =>
+  db.proposals
+    .filter(
+      (proposal) =>
+        proposal.studentId === studentId && proposal.status === "ACCEPTED"
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]?.title ?? null;
+
+export const toSeminar = (seminar: MockSeminar): Seminar => {
+  const student = db.users.find((user) => user.id === seminar.studentId);
+  return {
+    id: seminar.id,
+    type: seminar.type,
+    status: seminar.status,
+    student: {
+      id: seminar.studentId,
+      name: displayName(seminar.studentId),
+      nim: student?.profile?.nim ?? null,
+    },
+    title: acceptedTitleOf(seminar.studentId) ?? "-",
+    room: {
+      id: seminar.roomId,
+      name: db.rooms.find((room) => room.id === seminar.roomId)?.name ?? "-",
+    },
+    start: seminar.start,
+    end: seminar.end,
+    supervisors: seminar.supervisorIds.map((id) => ({
+      id,
+      name: displayName(id),
+    })),
+    examiners: seminar.examinerIds.map((id) => ({
+      id,
+      name: displayName(id),
+    })),
+    publishedAt: seminar.publishedAt,
+    createdAt: seminar.createdAt,
+    updatedAt: seminar.updatedAt,
+  };
+};
+
+export const invitationStatus = (
+  invitation: MockInvitation
+): Invitation["status"] => {
+  if (invitation.accepted) return "ACCEPTED";
+  if (invitation.revoked) return "REVOKED";
+  return invitation.expiresAt < Date.now() ? "EXPIRED" : "PENDING";
+};
+
+export const toInvitation = (invitation: MockInvitation): Invitation => ({
+  id: invitation.id,
+  email: invitation.email,
+  role: invitation.role,
+  status: invitationStatus(invitation),
+  expiresAt: new Date(invitation.expiresAt).toISOString(),
+  createdAt: invitation.createdAt,
+  invitedBy: invitation.invitedBy,
+});
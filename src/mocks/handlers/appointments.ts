@@ -0,0 +1,671 @@
+import { delay, http, HttpResponse } from "msw";
+import { addDays, combineDateTime, overlaps } from "@/lib/appointments";
+import { parseDateValue, toDateValue } from "@/lib/logbook";
+import {
+  AvailabilityException,
+  AvailabilityExceptionRequest,
+  AvailabilitySlot,
+  BookAppointmentRequest,
+  CancelAppointmentRequest,
+  RescheduleAppointmentRequest,
+  UpdateAvailabilityRequest,
+} from "@/types/appointments";
+import {
+  db,
+  MockAppointment,
+  MockAvailabilityException,
+  MockAvailabilitySlot,
+  nextAppointmentId,
+  pushNotification,
+  toAppointment,
+  toUserOption,
+} from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  isValidDate,
+  readRange,
+  requireRole,
+  serverErrorScenario,
+} from "../utils";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_WEEKLY_SLOTS = 30;
+const AGENDA_MAX_LENGTH = 500;
+const REASON_MAX_LENGTH = 300;
+
+const appointmentNotFound = () =>
+  errorResponse(404, "Janji temu tidak ditemukan", "APPOINTMENT_NOT_FOUND");
+
+const invalidData = (errors: Record<string, string>) =>
+  errorResponse(400, "Data tidak valid", "VALIDATION_ERROR", errors);
+
+const supervisorIdsOf = (studentId: number) => {
+  const supervision = db.supervisions.find(
+    (item) => item.studentId === studentId
+  );
+  return [supervision?.primaryId, supervision?.secondaryId].filter(
+    (id): id is number => typeof id === "number"
+  );
+};
+
+const superviseeIdsOf = (supervisorId: number) =>
+  db.supervisions
+    .filter(
+      (item) =>
+        item.primaryId === supervisorId || item.secondaryId === supervisorId
+    )
+    .map((item) => item.studentId);
+
+const appointmentsPath = (supervisorId: number) =>
+  db.users.find((user) => user.id === supervisorId)?.role === "COORDINATOR"
+    ? "/coordinator/appointments"
+    : "/lecturer/appointments";
+
+// Perubahan jadwal dosen memengaruhi slot yang dilihat semua mahasiswanya
+const publishAvailabilityChanged = (supervisorId: number) =>
+  publish([supervisorId, ...superviseeIdsOf(supervisorId)], {
+    type: "appointments.changed",
+  });
+
+const publishAppointmentChanged = (appointment: MockAppointment) =>
+  publish([appointment.studentId, appointment.supervisorId], {
+    type: "appointments.changed",
+  });
+
+// Kemunculan slot dosen pada rentang tanggal setelah pengecualian diterapkan
+const occurrencesFor = (lecturerId: number, from: string, to: string) => {
+  const slots = db.availabilitySlots.filter(
+    (slot) => slot.lecturerId === lecturerId
+  );
+  const exceptions = db.availabilityExceptions.filter(
+    (exception) =>
+      exception.lecturerId === lecturerId &&
+      exception.date >= from &&
+      exception.date <= to
+  );
+  const occurrences: { start: Date; end: Date; venue: string }[] = [];
+  for (
+    let day = parseDateValue(from);
+    toDateValue(day) <= to;
+    day = addDays(day, 1)
+  ) {
+    const date = toDateValue(day);
+    const ofDay = exceptions.filter((exception) => exception.date === date);
+    const blocked = ofDay
+      .filter((exception) => !exception.available)
+      .map((exception) => ({
+        start: combineDateTime(date, exception.startTime ?? "00:00"),
+        end: exception.endTime
+          ? combineDateTime(date, exception.endTime)
+          : addDays(day, 1),
+      }));
+    [
+      ...slots.filter((slot) => slot.weekday === day.getDay()),
+      ...ofDay.filter((exception) => exception.available),
+    ].forEach((item) => {
+      const occurrence = {
+        start: combineDateTime(date, item.startTime ?? "00:00"),
+        end: combineDateTime(date, item.endTime ?? "00:00"),
+        venue: item.venue,
+      };
+      if (!blocked.some((range) => overlaps(range, occurrence))) {
+        occurrences.push(occurrence);
+      }
+    });
+  }
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+const activeAppointments = () =>
+  db.appointments.filter((item) => item.status === "CONFIRMED");
+
+// Mencocokkan waktu yang dipilih dengan slot dosen yang masih kosong
+const resolveSlot = (
+  studentId: number,
+  supervisorId: number,
+  start: unknown,
+  ignoreId?: number
+) => {
+  const startDate = new Date(typeof start === "string" ? start : NaN);
+  const slot = Number.isNaN(startDate.getTime())
+    ? undefined
+    : occurrencesFor(
+        supervisorId,
+        toDateValue(startDate),
+        toDateValue(startDate)
+      ).find((item) => item.start.getTime() === startDate.getTime());
+  if (!slot) {
+    return {
+      error: invalidData({ start: "Slot tidak ada pada jadwal dosen" }),
+    };
+  }
+  if (slot.start.getTime() <= Date.now()) {
+    return { error: invalidData({ start: "Slot ini sudah lewat" }) };
+  }
+  const others = activeAppointments().filter((item) => item.id !== ignoreId);
+  if (
+    others.some(
+      (item) => item.supervisorId === supervisorId && overlaps(item, slot)
+    )
+  ) {
+    return {
+      error: errorResponse(
+        409,
+        "Slot ini sudah dipesan mahasiswa lain",
+        "SLOT_TAKEN"
+      ),
+    };
+  }
+  if (
+    others.some((item) => item.studentId === studentId && overlaps(item, slot))
+  ) {
+    return {
+      error: errorResponse(
+        409,
+        "Anda sudah memiliki janji temu lain pada waktu tersebut",
+        "SCHEDULE_CONFLICT"
+      ),
+    };
+  }
+  return { slot };
+};
+
+const slotErrors = (slots: UpdateAvailabilityRequest["slots"]) => {
+  const errors: Record<string, string> = {};
+  if (slots.length > MAX_WEEKLY_SLOTS) {
+    errors.slots = `Maksimal ${MAX_WEEKLY_SLOTS} slot per pekan`;
+  }
+  slots.forEach((slot, index) => {
+    const key = `slots.${index}`;
+    if (
+      !Number.isInteger(slot.weekday) ||
+      slot.weekday < 0 ||
+      slot.weekday > 6
+    ) {
+      errors[key] = "Hari tidak valid";
+    } else if (
+      !TIME_PATTERN.test(slot.startTime) ||
+      !TIME_PATTERN.test(slot.endTime) ||
+      slot.endTime <= slot.startTime
+    ) {
+      errors[key] = "Jam selesai harus setelah jam mulai";
+    } else if (!slot.venue.trim() || slot.venue.trim().length > 100) {
+      errors[key] = "Tempat wajib diisi, maksimal 100 karakter";
+    } else if (
+      slots.some(
+        (other, position) =>
+          position < index &&
+          other.weekday === slot.weekday &&
+          other.startTime < slot.endTime &&
+          slot.startTime < other.endTime
+      )
+    ) {
+      errors[key] = "Bertumpuk dengan slot lain pada hari yang sama";
+    }
+  });
+  return errors;
+};
+
+const exceptionErrors = (data: AvailabilityExceptionRequest) => {
+  const errors: Record<string, string> = {};
+  if (!isValidDate(data.date)) {
+    errors.date = "Tanggal wajib diisi";
+  } else if (data.date < toDateValue()) {
+    errors.date = "Tanggal tidak boleh di masa lalu";
+  }
+  const hasTimes = !!data.startTime || !!data.endTime;
+  if (data.available || hasTimes) {
+    if (
+      !TIME_PATTERN.test(data.startTime ?? "") ||
+      !TIME_PATTERN.test(data.endTime ?? "")
+    ) {
+      errors.startTime = "Jam mulai dan selesai wajib diisi";
+    } else if (data.endTime! <= data.startTime!) {
+      errors.endTime = "Jam selesai harus setelah jam mulai";
+    }
+  }
+  if (data.available && !data.venue.trim()) {
+    errors.venue = "Tempat wajib diisi";
+  } else if (data.venue.trim().length > 100) {
+    errors.venue = "Tempat maksimal 100 karakter";
+  }
+  if (data.note.trim().length > 200) {
+    errors.note = "Keterangan maksimal 200 karakter";
+  }
+  return errors;
+};
+
+const sortSlots = (slots: MockAvailabilitySlot[]) =>
+  [...slots].sort(
+    (a, b) =>
+      ((a.weekday + 6) % 7) - ((b.weekday + 6) % 7) ||
+      a.startTime.localeCompare(b.startTime)
+  );
+
+const toSlot = (slot: MockAvailabilitySlot): AvailabilitySlot => ({
+  id: slot.id,
+  weekday: slot.weekday,
+  startTime: slot.startTime,
+  endTime: slot.endTime,
+  venue: slot.venue,
+});
+
+const toException = (
+  exception: MockAvailabilityException
+): AvailabilityException => ({
+  id: exception.id,
+  date: exception.date,
+  startTime: exception.startTime,
+  endTime: exception.endTime,
+  available: exception.available,
+  venue: exception.venue,
+  note: exception.note,
+});
+
+const describeSlot = (appointment: MockAppointment) =>
+  new Intl.DateTimeFormat("id-ID", {
+    dateStyle: "full",
+    timeStyle: "short",
+  }).format(new Date(appointment.start));
+
+export const appointmentHandlers = [
+  http.get(apiUrl("/availability/mine"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER", "COORDINATOR");
+    if (error) return error;
+
+    const today = toDateValue();
+    return HttpResponse.json({
+      slots: sortSlots(
+        db.availabilitySlots.filter((slot) => slot.lecturerId === user.id)
+      ).map(toSlot),
+      exceptions: db.availabilityExceptions
+        .filter(
+          (exception) =>
+            exception.lecturerId === user.id && exception.date >= today
+        )
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(toException),
+    });
+  }),
+
+  http.put(apiUrl("/availability/mine"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER", "COORDINATOR");
+    if (error) return error;
+
+    const { slots = [] } = (await request.json()) as UpdateAvailabilityRequest;
+    const errors = slotErrors(slots);
+    if (Object.keys(errors).length > 0) return invalidData(errors);
+
+    // Janji temu yang sudah dibuat tetap berlaku meski slotnya dihapus
+    const next = slots.map((slot) => ({
+      id: slot.id ?? crypto.randomUUID(),
+      lecturerId: user.id,
+      weekday: slot.weekday,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      venue: slot.venue.trim(),
+    }));
+    db.availabilitySlots = [
+      ...db.availabilitySlots.filter((slot) => slot.lecturerId !== user.id),
+      ...next,
+    ];
+    publishAvailabilityChanged(user.id);
+
+    return HttpResponse.json({
+      message: "Jadwal rutin disimpan",
+      slots: sortSlots(next).map(toSlot),
+    });
+  }),
+
+  http.post(apiUrl("/availability/exceptions"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER", "COORDINATOR");
+    if (error) return error;
+
+    const data = (await request.json()) as AvailabilityExceptionRequest;
+    const errors = exceptionErrors(data);
+    if (Object.keys(errors).length > 0) return invalidData(errors);
+
+    const exception: MockAvailabilityException = {
+      id: crypto.randomUUID(),
+      lecturerId: user.id,
+      date: data.date,
+      startTime: data.startTime || null,
+      endTime: data.endTime || null,
+      available: data.available,
+      venue: data.venue.trim(),
+      note: data.note.trim(),
+    };
+    if (!exception.available) {
+      const range = {
+        start: combineDateTime(data.date, exception.startTime ?? "00:00"),
+        end: exception.endTime
+          ? combineDateTime(data.date, exception.endTime)
+          : addDays(parseDateValue(data.date), 1),
+      };
+      const affected = activeAppointments().filter(
+        (item) => item.supervisorId === user.id && overlaps(item, range)
+      );
+      if (affected.length > 0) {
+        return errorResponse(
+          409,
+          `Ada ${affected.length} janji temu pada waktu tersebut. Batalkan terlebih dahulu sebelum menutup jadwal.`,
+          "APPOINTMENTS_EXIST"
+        );
+      }
+    }
+
+    db.availabilityExceptions.push(exception);
+    publishAvailabilityChanged(user.id);
+
+    return HttpResponse.json(
+      {
+        message: exception.available
+          ? "Slot tambahan dibuka"
+          : "Jadwal ditutup pada tanggal tersebut",
+        exception: toException(exception),
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.delete(
+    apiUrl("/availability/exceptions/:id"),
+    async ({ request, params }) => {
+      await delay();
+      const failure = serverErrorScenario();
+      if (failure) return failure;
+
+      const { user, error } = requireRole(request, "LECTURER", "COORDINATOR");
+      if (error) return error;
+      const exception = db.availabilityExceptions.find(
+        (item) => item.id === params.id && item.lecturerId === user.id
+      );
+      if (!exception) {
+        return errorResponse(
+          404,
+          "Pengecualian jadwal tidak ditemukan",
+          "EXCEPTION_NOT_FOUND"
+        );
+      }
+
+      db.availabilityExceptions = db.availabilityExceptions.filter(
+        (item) => item.id !== exception.id
+      );
+      publishAvailabilityChanged(user.id);
+
+      return HttpResponse.json({ message: "Pengecualian jadwal dihapus" });
+    }
+  ),
+
+  http.get(apiUrl("/appointments/slots"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+
+    const url = new URL(request.url);
+    const supervisorId = Number(url.searchParams.get("supervisorId"));
+    if (!supervisorIdsOf(user.id).includes(supervisorId)) {
+      return errorResponse(
+        403,
+        "Anda hanya dapat membuat janji dengan pembimbing sendiri",
+        "NOT_SUPERVISEE"
+      );
+    }
+    const range = readRange(url);
+    if (range.error !== undefined) {
+      return errorResponse(400, range.error, "VALIDATION_ERROR");
+    }
+
+    const booked = activeAppointments().filter(
+      (item) => item.supervisorId === supervisorId
+    );
+    return HttpResponse.json({
+      slots: occurrencesFor(supervisorId, range.from, range.to)
+        .filter((slot) => slot.start.getTime() > Date.now())
+        .map((slot) => ({
+          start: slot.start.toISOString(),
+          end: slot.end.toISOString(),
+          venue: slot.venue,
+          booked: booked.some((item) => overlaps(item, slot)),
+        })),
+    });
+  }),
+
+  http.get(apiUrl("/appointments"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(
+      request,
+      "STUDENT",
+      "LECTURER",
+      "COORDINATOR"
+    );
+    if (error) return error;
+
+    const range = readRange(new URL(request.url));
+    if (range.error !== undefined) {
+      return errorResponse(400, range.error, "VALIDATION_ERROR");
+    }
+    const from = parseDateValue(range.from).getTime();
+    const to = addDays(parseDateValue(range.to), 1).getTime();
+
+    return HttpResponse.json({
+      appointments: db.appointments
+        .filter(
+          (item) =>
+            (user.role === "STUDENT"
+              ? item.studentId === user.id
+              : item.supervisorId === user.id) &&
+            new Date(item.start).getTime() >= from &&
+            new Date(item.start).getTime() < to
+        )
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .map(toAppointment),
+    });
+  }),
+
+  http.post(apiUrl("/appointments"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+
+    const data = (await request.json()) as BookAppointmentRequest;
+    if (!supervisorIdsOf(user.id).includes(data.supervisorId)) {
+      return errorResponse(
+        403,
+        "Anda hanya dapat membuat janji dengan pembimbing sendiri",
+        "NOT_SUPERVISEE"
+      );
+    }
+    const agenda = (data.agenda ?? "").trim();
+    if (agenda.length < 5 || agenda.length > AGENDA_MAX_LENGTH) {
+      return invalidData({
+        agenda: `Agenda harus 5-${AGENDA_MAX_LENGTH} karakter`,
+      });
+    }
+    const { slot, error: slotError } = resolveSlot(
+      user.id,
+      data.supervisorId,
+      data.start
+    );
+    if (slotError) return slotError;
+
+    const now = new Date().toISOString();
+    const appointment: MockAppointment = {
+      id: nextAppointmentId(),
+      studentId: user.id,
+      supervisorId: data.supervisorId,
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+      venue: slot.venue,
+      agenda,
+      status: "CONFIRMED",
+      cancelReason: null,
+      cancelledById: null,
+      logbookEntryId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.appointments.push(appointment);
+    pushNotification(appointment.supervisorId, {
+      type: "GENERAL",
+      title: "Janji temu bimbingan baru",
+      message: `${toUserOption(user.id)?.name} membuat janji pada ${describeSlot(appointment)}: ${agenda}`,
+      link: appointmentsPath(appointment.supervisorId),
+    });
+    publishAppointmentChanged(appointment);
+
+    return HttpResponse.json(
+      {
+        message: "Janji temu dibuat",
+        appointment: toAppointment(appointment),
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.patch(
+    apiUrl("/appointments/:id/reschedule"),
+    async ({ request, params }) => {
+      await delay();
+      const failure = serverErrorScenario();
+      if (failure) return failure;
+
+      const { user, error } = requireRole(request, "STUDENT");
+      if (error) return error;
+      const appointment = db.appointments.find(
+        (item) => item.id === Number(params.id) && item.studentId === user.id
+      );
+      if (!appointment) return appointmentNotFound();
+      if (
+        appointment.status !== "CONFIRMED" ||
+        new Date(appointment.start).getTime() <= Date.now()
+      ) {
+        return errorResponse(
+          409,
+          "Janji temu ini tidak dapat dijadwalkan ulang",
+          "APPOINTMENT_CLOSED"
+        );
+      }
+
+      const { start } = (await request.json()) as RescheduleAppointmentRequest;
+      if (new Date(start).getTime() === new Date(appointment.start).getTime()) {
+        return invalidData({ start: "Pilih slot yang berbeda" });
+      }
+      const { slot, error: slotError } = resolveSlot(
+        user.id,
+        appointment.supervisorId,
+        start,
+        appointment.id
+      );
+      if (slotError) return slotError;
+
+      const previous = describeSlot(appointment);
+      Object.assign(appointment, {
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString(),
+        venue: slot.venue,
+        updatedAt: new Date().toISOString(),
+      });
+      pushNotification(appointment.supervisorId, {
+        type: "GENERAL",
+        title: "Janji temu dijadwalkan ulang",
+        message: `${toUserOption(user.id)?.name} memindahkan janji ${previous} ke ${describeSlot(appointment)}`,
+        link: appointmentsPath(appointment.supervisorId),
+      });
+      publishAppointmentChanged(appointment);
+
+      return HttpResponse.json({
+        message: "Janji temu dijadwalkan ulang",
+        appointment: toAppointment(appointment),
+      });
+    }
+  ),
+
+  http.post(apiUrl("/appointments/:id/cancel"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(
+      request,
+      "STUDENT",
+      "LECTURER",
+      "COORDINATOR"
+    );
+    if (error) return error;
+    const appointment = db.appointments.find(
+      (item) =>
+        item.id === Number(params.id) &&
+        (item.studentId === user.id || item.supervisorId === user.id)
+    );
+    if (!appointment) return appointmentNotFound();
+    if (
+      appointment.status !== "CONFIRMED" ||
+      new Date(appointment.start).getTime() <= Date.now()
+    ) {
+      return errorResponse(
+        409,
+        "Janji temu ini tidak dapat dibatalkan",
+        "APPOINTMENT_CLOSED"
+      );
+    }
+
+    const { reason = "" } = (await request.json()) as CancelAppointmentRequest;
+    const message = reason.trim();
+    if (!message || message.length > REASON_MAX_LENGTH) {
+      return invalidData({
+        reason: message
+          ? `Alasan maksimal ${REASON_MAX_LENGTH} karakter`
+          : "Alasan pembatalan wajib diisi",
+      });
+    }
+
+    Object.assign(appointment, {
+      status: "CANCELLED",
+      cancelReason: message,
+      cancelledById: user.id,
+      updatedAt: new Date().toISOString(),
+    });
+    const byStudent = user.id === appointment.studentId;
+    pushNotification(
+      byStudent ? appointment.supervisorId : appointment.studentId,
+      {
+        type: "GENERAL",
+        title: "Janji temu dibatalkan",
+        message: `${toUserOption(user.id)?.name} membatalkan janji ${describeSlot(appointment)}: ${message}`,
+        link: byStudent
+          ? appointmentsPath(appointment.supervisorId)
+          : "/student/appointments",
+      }
+    );
+    publishAppointmentChanged(appointment);
+
+    return HttpResponse.json({
+      message: "Janji temu dibatalkan",
+      appointment: toAppointment(appointment),
+    });
+  }),
+];
@@ -0,0 +1,448 @@
+import { delay, http, HttpResponse } from "msw";
+import { roleFromEmail } from "@/lib/domainPolicy";
+import {
+  db,
+  MOCK_OTP,
+  MockSession,
+  MockUser,
+  createSessionExpiry,
+  findActiveUser,
+  findUserByEmail,
+  getMockScenario,
+  toPublicUser,
+  tokenFor,
+  updateSession,
+} from "../db";
+import { publish } from "../realtime";
+import { totpCode } from "../totp";
+import {
+  apiUrl,
+  checkTwoFactorCode,
+  clientInfo,
+  createUserFromForm,
+  errorResponse,
+  requireSession,
+  requireUser,
+  serverErrorScenario,
+  toRegisteredUser,
+  unauthorized,
+} from "../utils";
+
+const REFRESH_COOKIE = "mock_refresh";
+
+const refreshCookie = (session: MockSession) =>
+  `${REFRESH_COOKIE}=${session.id}; Path=/; SameSite=Lax`;
+
+const clearedRefreshCookie = `${REFRESH_COOKIE}=; Path=/; Max-Age=0`;
+
+// Semua percobaan login dicatat untuk riwayat login di halaman keamanan
+const recordLoginAttempt = (
+  request: Request,
+  email: string,
+  reason: string | null
+) => {
+  db.loginAttempts.save([
+    {
+      id: crypto.randomUUID(),
+      email: email.toLowerCase(),
+      success: reason === null,
+      reason,
+      createdAt: new Date().toISOString(),
+      ...clientInfo(request),
+    },
+    ...db.loginAttempts.all(),
+  ]);
+};
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 60;
+const FAILED_ATTEMPT_REASONS = ["INVALID_CREDENTIALS", "INVALID_TWO_FACTOR"];
+
+// Setelah beberapa kali gagal berturut-turut, email dikunci sementara
+// terhitung dari kegagalan terakhir. Kegagalan setelah kunci berakhir memulai
+// hitungan baru agar pengguna kembali mendapat jatah percobaan penuh
+const lockoutRemaining = (email: string) => {
+  const attempts = db.loginAttempts
+    .all()
+    .filter((attempt) => attempt.email === email.toLowerCase())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  let failures = 0;
+  let unlockAt = 0;
+  attempts.forEach((attempt) => {
+    if (attempt.success) {
+      failures = 0;
+      unlockAt = 0;
+      return;
+    }
+    if (!FAILED_ATTEMPT_REASONS.includes(attempt.reason ?? "")) return;
+
+    const time = new Date(attempt.createdAt).getTime();
+    if (unlockAt && time >= unlockAt) {
+      failures = 0;
+      unlockAt = 0;
+    }
+    failures += 1;
+    if (failures >= MAX_FAILED_ATTEMPTS) {
+      unlockAt = time + LOCKOUT_SECONDS * 1000;
+    }
+  });
+  return Math.max(0, Math.ceil((unlockAt - Date.now()) / 1000));
+};
+
+const tooManyAttempts = (retryAfter: number) =>
+  HttpResponse.json(
+    {
+      error: "Terlalu banyak percobaan login, coba lagi nanti",
+      code: "TOO_MANY_ATTEMPTS",
+      retryAfter,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+
+const createSession = (request: Request, user: MockUser) => {
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id: crypto.randomUUID(),
+    userId: user.id,
+    createdAt: now,
+    lastActiveAt: now,
+    revokedAt: null,
+    ...clientInfo(request),
+  };
+  db.sessions.save([...db.sessions.all(), session]);
+  publish(user.id, { type: "sessions.changed" });
+  return session;
+};
+
+const completeLogin = (request: Request, user: MockUser) => {
+  recordLoginAttempt(request, user.email, null);
+  const session = createSession(request, user);
+  return HttpResponse.json(
+    {
+      message: "Login berhasil",
+      token: tokenFor(session),
+      user: toPublicUser(user),
+    },
+    { headers: { "Set-Cookie": refreshCookie(session) } }
+  );
+};
+
+const issueOtp = (email: string) => {
+  console.info(`[mock] OTP untuk ${email}: ${MOCK_OTP}`);
+  return MOCK_OTP;
+};
+
+const otpExpired = () =>
+  errorResponse(
+    400,
+    "Kode OTP telah kedaluwarsa, silakan minta kode baru",
+    "OTP_EXPIRED",
+    { code: "Kode OTP telah kedaluwarsa" }
+  );
+
+// OTP salah atau kedaluwarsa sesuai skenario yang aktif
+const checkOtp = (
+  code: number,
+  pending: { code: string; expiresAt: number }
+) => {
+  const scenario = getMockScenario();
+  if (scenario === "expired-session" || pending.expiresAt < Date.now()) {
+    return otpExpired();
+  }
+  if (scenario === "wrong-otp" || String(code) !== pending.code) {
+    return errorResponse(400, "Kode OTP tidak valid", "INVALID_OTP", {
+      code: "Kode OTP tidak valid",
+    });
+  }
+  return null;
+};
+
+export const authHandlers = [
+  http.post(apiUrl("/auth/register/email"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { email } = (await request.json()) as { email: string };
+    if (!roleFromEmail(email, "register")) {
+      return errorResponse(400, "Gunakan email kampus UR", "INVALID_DOMAIN", {
+        email: "Gunakan email kampus UR",
+      });
+    }
+    if (getMockScenario() === "duplicate-email" || findUserByEmail(email)) {
+      return errorResponse(
+        409,
+        "Email sudah terdaftar",
+        "EMAIL_ALREADY_REGISTERED",
+        { email: "Email sudah terdaftar" }
+      );
+    }
+
+    db.registrations.set(email.toLowerCase(), {
+      code: issueOtp(email),
+      verified: false,
+      expiresAt: createSessionExpiry(),
+    });
+    return HttpResponse.json({ message: "Kode OTP telah dikirim ke email" });
+  }),
+
+  http.post(apiUrl("/auth/register/verify-otp"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { email, code } = (await request.json()) as {
+      email: string;
+      code: number;
+    };
+    const registration = db.registrations.get(email.toLowerCase());
+    if (!registration) return otpExpired();
+    const otpError = checkOtp(code, registration);
+    if (otpError) return otpError;
+
+    registration.verified = true;
+    registration.expiresAt = createSessionExpiry();
+    return HttpResponse.json({ message: "Email berhasil diverifikasi" });
+  }),
+
+  http.post(apiUrl("/auth/register/user"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const formData = await request.formData();
+    const email = String(formData.get("email") ?? "").toLowerCase();
+    const registration = db.registrations.get(email);
+    if (
+      getMockScenario() === "expired-session" ||
+      !registration?.verified ||
+      registration.expiresAt < Date.now()
+    ) {
+      return errorResponse(
+        400,
+        "Sesi pendaftaran telah kedaluwarsa, silakan mulai ulang",
+        "REGISTRATION_SESSION_EXPIRED"
+      );
+    }
+    if (getMockScenario() === "duplicate-email" || findUserByEmail(email)) {
+      return errorResponse(
+        409,
+        "Email sudah terdaftar",
+        "EMAIL_ALREADY_REGISTERED",
+        { email: "Email sudah terdaftar" }
+      );
+    }
+
+    const user = createUserFromForm(
+      formData,
+      email,
+      roleFromEmail(email, "register") ?? "STUDENT"
+    );
+    db.users.push(user);
+    db.registrations.delete(email);
+
+    return HttpResponse.json(
+      {
+        message: "Pendaftaran berhasil, silakan login",
+        user: toRegisteredUser(user),
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.post(apiUrl("/auth/login"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { email, password, recaptchaToken } = (await request.json()) as {
+      email: string;
+      password: string;
+      recaptchaToken?: string;
+    };
+    if (!recaptchaToken) {
+      return errorResponse(400, "Verifikasi reCAPTCHA gagal", "CAPTCHA_FAILED");
+    }
+
+    const retryAfter = lockoutRemaining(email);
+    if (retryAfter > 0) return tooManyAttempts(retryAfter);
+
+    const user = findUserByEmail(email);
+    if (!user || user.password !== password) {
+      recordLoginAttempt(request, email, "INVALID_CREDENTIALS");
+      return errorResponse(
+        401,
+        "Email atau kata sandi salah",
+        "INVALID_CREDENTIALS"
+      );
+    }
+    if (user.status === "INACTIVE") {
+      recordLoginAttempt(request, email, "ACCOUNT_INACTIVE");
+      return errorResponse(
+        403,
+        "Akun Anda telah dinonaktifkan, hubungi koordinator",
+        "ACCOUNT_INACTIVE"
+      );
+    }
+
+    // Token baru diberikan setelah kode verifikasi dua langkah benar
+    if (user.twoFactor?.enabled) {
+      const challengeToken = crypto.randomUUID();
+      db.loginChallenges.set(challengeToken, {
+        userId: user.id,
+        expiresAt: createSessionExpiry(),
+      });
+      console.info(
+        `[mock] Kode autentikator untuk ${user.email}: ${await totpCode(user.twoFactor.secret)}`
+      );
+      return HttpResponse.json({
+        message: "Masukkan kode verifikasi dua langkah",
+        twoFactorRequired: true,
+        challengeToken,
+      });
+    }
+
+    return completeLogin(request, user);
+  }),
+
+  http.post(apiUrl("/auth/login/2fa"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { challengeToken, code } = (await request.json()) as {
+      challengeToken: string;
+      code: string;
+    };
+    const challenge = db.loginChallenges.get(challengeToken);
+    const user = challenge && findActiveUser(challenge.userId);
+    if (!challenge || !user || challenge.expiresAt < Date.now()) {
+      db.loginChallenges.delete(challengeToken);
+      return errorResponse(
+        401,
+        "Sesi verifikasi telah berakhir, silakan login ulang",
+        "TWO_FACTOR_CHALLENGE_EXPIRED"
+      );
+    }
+
+    // Kode dua langkah ikut dikunci agar tidak bisa ditebak setelah kata
+    // sandi benar; login harus diulang dari awal setelah kunci berakhir
+    const retryAfter = lockoutRemaining(user.email);
+    if (retryAfter > 0) {
+      db.loginChallenges.delete(challengeToken);
+      return tooManyAttempts(retryAfter);
+    }
+
+    if (!(await checkTwoFactorCode(user, code))) {
+      recordLoginAttempt(request, user.email, "INVALID_TWO_FACTOR");
+      return errorResponse(
+        400,
+        "Kode verifikasi tidak valid",
+        "INVALID_TWO_FACTOR_CODE",
+        { code: "Kode verifikasi tidak valid" }
+      );
+    }
+
+    db.loginChallenges.delete(challengeToken);
+    return completeLogin(request, user);
+  }),
+
+  http.get(apiUrl("/auth/me"), async ({ request }) => {
+    await delay();
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+    return HttpResponse.json({ user: toPublicUser(user) });
+  }),
+
+  http.post(apiUrl("/auth/refresh"), async ({ cookies }) => {
+    await delay();
+    if (getMockScenario() === "expired-session") return unauthorized();
+
+    const session = db.sessions
+      .all()
+      .find((item) => item.id === cookies[REFRESH_COOKIE]);
+    if (session?.revokedAt) {
+      return errorResponse(
+        401,
+        "Sesi ini telah dikeluarkan dari perangkat lain",
+        "SESSION_REVOKED"
+      );
+    }
+    if (!session || !findActiveUser(session.userId)) return unauthorized();
+    return HttpResponse.json({ token: tokenFor(session) });
+  }),
+
+  http.post(apiUrl("/auth/logout"), async ({ request }) => {
+    await delay();
+    const current = requireSession(request);
+    if (current) {
+      updateSession(current.session.id, {
+        revokedAt: new Date().toISOString(),
+      });
+      publish(current.user.id, { type: "sessions.changed" });
+    }
+    return HttpResponse.json(
+      { message: "Berhasil keluar" },
+      { headers: { "Set-Cookie": clearedRefreshCookie } }
+    );
+  }),
+
+  http.post(apiUrl("/auth/password/forgot"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { email } = (await request.json()) as { email: string };
+    if (findUserByEmail(email)) {
+      db.passwordResets.set(email.toLowerCase(), {
+        code: issueOtp(email),
+        resetToken: null,
+        expiresAt: createSessionExpiry(),
+      });
+    }
+    return HttpResponse.json({
+      message: "Jika email terdaftar, kode OTP telah dikirim",
+    });
+  }),
+
+  http.post(apiUrl("/auth/password/verify-otp"), async ({ request }) => {
+    await delay();
+    const { email, code } = (await request.json()) as {
+      email: string;
+      code: number;
+    };
+    const reset = db.passwordResets.get(email.toLowerCase());
+    if (!reset) return otpExpired();
+    const otpError = checkOtp(code, reset);
+    if (otpError) return otpError;
+
+    reset.resetToken = crypto.randomUUID();
+    return HttpResponse.json({
+      message: "Kode OTP valid",
+      resetToken: reset.resetToken,
+    });
+  }),
+
+  http.post(apiUrl("/auth/password/reset"), async ({ request }) => {
+    await delay();
+    const { email, resetToken, password } = (await request.json()) as {
+      email: string;
+      resetToken: string;
+      password: string;
+    };
+    const reset = db.passwordResets.get(email.toLowerCase());
+    const user = findUserByEmail(email);
+    if (!reset || !user || reset.resetToken !== resetToken) {
+      return errorResponse(
+        400,
+        "Sesi atur ulang kata sandi tidak valid",
+        "INVALID_RESET_TOKEN"
+      );
+    }
+
+    user.password = password;
+    db.passwordResets.delete(email.toLowerCase());
+    return HttpResponse.json({ message: "Kata sandi berhasil diperbarui" });
+  }),
+];
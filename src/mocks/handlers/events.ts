@@ -0,0 +1,79 @@
+import { delay, http, HttpResponse, sse } from "msw";
+import { RealtimeEvent } from "@/types/events";
+import { db, findActiveUser, getMockScenario } from "../db";
+import { subscribe } from "../realtime";
+import {
+  apiUrl,
+  requireSession,
+  serverErrorScenario,
+  unauthorized,
+} from "../utils";
+
+const TICKET_TTL_SECONDS = 30;
+
+// Tiket hanya berlaku sekali dan sebentar, jadi tidak berguna jika terbaca
+// dari log akses atau riwayat jaringan
+const consumeTicket = (ticket: string | null) => {
+  const stored = ticket ? db.streamTickets.get(ticket) : undefined;
+  if (ticket) db.streamTickets.delete(ticket);
+  return stored && stored.expiresAt >= Date.now()
+    ? stored.sessionId
+    : undefined;
+};
+
+// Sesi dicek ulang di setiap event agar stream milik sesi yang sudah
+// dicabut atau akun yang dinonaktifkan ikut terputus
+const findStreamUser = (sessionId: string | undefined) => {
+  const session = db.sessions
+    .all()
+    .find((item) => item.id === sessionId && !item.revokedAt);
+  return session && findActiveUser(session.userId);
+};
+
+const ticketHandler = http.post(
+  apiUrl("/events/ticket"),
+  async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const current = requireSession(request);
+    if (!current) return unauthorized();
+
+    const ticket = crypto.randomUUID();
+    db.streamTickets.set(ticket, {
+      sessionId: current.session.id,
+      expiresAt: Date.now() + TICKET_TTL_SECONDS * 1000,
+    });
+    return HttpResponse.json({ ticket, expiresIn: TICKET_TTL_SECONDS });
+  }
+);
+
+const eventStreamHandler = () =>
+  sse<{ message: RealtimeEvent }>(apiUrl("/events"), ({ request, client }) => {
+    const sessionId = consumeTicket(
+      new URL(request.url).searchParams.get("ticket")
+    );
+    const user = findStreamUser(sessionId);
+    // Skenario "server-error" juga memutus stream untuk mencoba mode polling
+    if (!user || getMockScenario() === "server-error") {
+      client.error();
+      return;
+    }
+
+    const unsubscribe = subscribe(user.id, (event) => {
+      if (!findStreamUser(sessionId)) {
+        unsubscribe();
+        client.error();
+        return;
+      }
+      client.send({ data: event });
+    });
+    request.signal.addEventListener("abort", unsubscribe);
+  });
+
+// sse() membutuhkan EventSource; tanpanya klien memang langsung memakai polling
+export const eventHandlers =
+  typeof EventSource === "undefined"
+    ? [ticketHandler]
+    : [ticketHandler, eventStreamHandler()];
@@ -0,0 +1,31 @@
+import { appointmentHandlers } from "./appointments";
+import { authHandlers } from "./auth";
+import { eventHandlers } from "./events";
+import { invitationHandlers } from "./invitations";
+import { logbookHandlers } from "./logbook";
+import { notificationHandlers } from "./notifications";
+import { profileHandlers } from "./profile";
+import { proposalHandlers } from "./proposals";
+import { seminarHandlers } from "./seminars";
+import { sessionHandlers } from "./sessions";
+import { supervisionHandlers } from "./supervision";
+import { topicHandlers } from "./topics";
+import { twoFactorHandlers } from "./twoFactor";
+import { usersHandlers } from "./users";
+
+export const handlers = [
+  ...authHandlers,
+  ...profileHandlers,
+  ...sessionHandlers,
+  ...twoFactorHandlers,
+  ...usersHandlers,
+  ...invitationHandlers,
+  ...notificationHandlers,
+  ...proposalHandlers,
+  ...topicHandlers,
+  ...supervisionHandlers,
+  ...logbookHandlers,
+  ...appointmentHandlers,
+  ...seminarHandlers,
+  ...eventHandlers,
+];
@@ -0,0 +1,274 @@
+import { delay, http, HttpResponse } from "msw";
+import { emailMatchesRole, INVITABLE_ROLES } from "@/lib/domainPolicy";
+import { Role } from "@/types/auth";
+import {
+  db,
+  MockInvitation,
+  findUserByEmail,
+  invitationStatus,
+  pushNotification,
+  toInvitation,
+} from "../db";
+import {
+  apiUrl,
+  createUserFromForm,
+  errorResponse,
+  publishToCoordinators,
+  requireCoordinator,
+  serverErrorScenario,
+  toRegisteredUser,
+} from "../utils";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Tautan undangan dicetak ke console sebagai pengganti email
+const sendInvitation = (invitation: MockInvitation) => {
+  console.info(
+    `[mock] Undangan untuk ${invitation.email}: /invite/${invitation.token}`
+  );
+};
+
+const findInvitation = (id: unknown) =>
+  db.invitations.find((invitation) => invitation.id === Number(id));
+
+const findByToken = (token: unknown) =>
+  db.invitations.find((invitation) => invitation.token === token);
+
+const invitationNotFound = () =>
+  errorResponse(404, "Undangan tidak ditemukan", "INVITATION_NOT_FOUND");
+
+// Undangan hanya bisa dipakai selama masih menunggu
+const unusableInvitation = (invitation: MockInvitation) => {
+  switch (invitationStatus(invitation)) {
+    case "ACCEPTED":
+      return errorResponse(
+        410,
+        "Undangan ini sudah digunakan",
+        "INVITATION_ACCEPTED"
+      );
+    case "REVOKED":
+      return errorResponse(
+        410,
+        "Undangan ini telah dibatalkan oleh koordinator",
+        "INVITATION_REVOKED"
+      );
+    case "EXPIRED":
+      return errorResponse(
+        410,
+        "Undangan ini telah kedaluwarsa, minta koordinator mengirim ulang",
+        "INVITATION_EXPIRED"
+      );
+    default:
+      return null;
+  }
+};
+
+export const invitationHandlers = [
+  http.get(apiUrl("/invitations"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    return HttpResponse.json({
+      invitations: [...db.invitations]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(toInvitation),
+    });
+  }),
+
+  http.post(apiUrl("/invitations"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireCoordinator(request);
+    if (error) return error;
+
+    const data = (await request.json()) as {
+      email: string;
+      role: Role;
+      expiresInDays: number;
+    };
+    const email = data.email.trim().toLowerCase();
+    if (!INVITABLE_ROLES.includes(data.role)) {
+      return errorResponse(
+        400,
+        "Role ini tidak dapat diundang",
+        "INVALID_ROLE",
+        { role: "Role ini tidak dapat diundang" }
+      );
+    }
+    if (!emailMatchesRole(email, data.role)) {
+      return errorResponse(
+        400,
+        "Email tidak sesuai dengan role undangan",
+        "INVALID_INVITATION_EMAIL",
+        { email: "Email tidak sesuai dengan role undangan" }
+      );
+    }
+    if (findUserByEmail(email)) {
+      return errorResponse(
+        409,
+        "Email sudah terdaftar",
+        "EMAIL_ALREADY_REGISTERED",
+        { email: "Email sudah terdaftar" }
+      );
+    }
+    const existing = db.invitations.find(
+      (item) => item.email === email && invitationStatus(item) === "PENDING"
+    );
+    if (existing) {
+      return errorResponse(
+        409,
+        "Email ini masih memiliki undangan aktif",
+        "INVITATION_EXISTS",
+        { email: "Email ini masih memiliki undangan aktif" }
+      );
+    }
+
+    const invitation: MockInvitation = {
+      id: db.invitations.length + 1,
+      token: crypto.randomUUID(),
+      email,
+      role: data.role,
+      accepted: false,
+      revoked: false,
+      expiresInDays: data.expiresInDays,
+      expiresAt: Date.now() + data.expiresInDays * DAY,
+      createdAt: new Date().toISOString(),
+      invitedBy: user.profile?.name ?? user.email,
+      invitedById: user.id,
+    };
+    db.invitations.push(invitation);
+    sendInvitation(invitation);
+    publishToCoordinators({ type: "invitations.changed" });
+
+    return HttpResponse.json(
+      {
+        message: `Undangan telah dikirim ke ${email}`,
+        invitation: toInvitation(invitation),
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.post(apiUrl("/invitations/:id/resend"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const invitation = findInvitation(params.id);
+    if (!invitation) return invitationNotFound();
+    if (invitation.accepted || invitation.revoked) {
+      return errorResponse(
+        409,
+        "Undangan ini sudah tidak aktif",
+        "INVITATION_INACTIVE"
+      );
+    }
+
+    // Kirim ulang membuat tautan baru dan memperpanjang masa berlaku
+    invitation.token = crypto.randomUUID();
+    invitation.expiresAt = Date.now() + invitation.expiresInDays * DAY;
+    sendInvitation(invitation);
+    publishToCoordinators({ type: "invitations.changed" });
+
+    return HttpResponse.json({
+      message: `Undangan telah dikirim ulang ke ${invitation.email}`,
+      invitation: toInvitation(invitation),
+    });
+  }),
+
+  http.post(apiUrl("/invitations/:id/revoke"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const invitation = findInvitation(params.id);
+    if (!invitation) return invitationNotFound();
+    if (invitation.accepted) {
+      return errorResponse(
+        409,
+        "Undangan ini sudah digunakan",
+        "INVITATION_ACCEPTED"
+      );
+    }
+
+    invitation.revoked = true;
+    publishToCoordinators({ type: "invitations.changed" });
+    return HttpResponse.json({ message: "Undangan berhasil dibatalkan" });
+  }),
+
+  http.get(apiUrl("/auth/invitations/:token"), async ({ params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const invitation = findByToken(params.token);
+    if (!invitation) return invitationNotFound();
+    const unusable = unusableInvitation(invitation);
+    if (unusable) return unusable;
+
+    return HttpResponse.json({
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: new Date(invitation.expiresAt).toISOString(),
+        invitedBy: invitation.invitedBy,
+      },
+    });
+  }),
+
+  http.post(
+    apiUrl("/auth/invitations/:token/accept"),
+    async ({ request, params }) => {
+      await delay();
+      const failure = serverErrorScenario();
+      if (failure) return failure;
+
+      const invitation = findByToken(params.token);
+      if (!invitation) return invitationNotFound();
+      const unusable = unusableInvitation(invitation);
+      if (unusable) return unusable;
+      if (findUserByEmail(invitation.email)) {
+        return errorResponse(
+          409,
+          "Email sudah terdaftar",
+          "EMAIL_ALREADY_REGISTERED"
+        );
+      }
+
+      // Email dan role diambil dari undangan, bukan dari form
+      const user = createUserFromForm(
+        await request.formData(),
+        invitation.email,
+        invitation.role
+      );
+      db.users.push(user);
+      invitation.accepted = true;
+      pushNotification(invitation.invitedById, {
+        type: "INVITATION_ACCEPTED",
+        title: "Undangan diterima",
+        message: `${user.profile?.name || user.email} telah menerima undangan dan membuat akun`,
+        link: "/coordinator/invitations",
+      });
+      publishToCoordinators({ type: "invitations.changed" });
+      publishToCoordinators({ type: "users.changed" });
+
+      return HttpResponse.json(
+        {
+          message: "Akun berhasil dibuat, silakan login",
+          user: toRegisteredUser(user),
+        },
+        { status: 201 }
+      );
+    }
+  ),
+];
@@ -0,0 +1,462 @@
+import { delay, http, HttpResponse } from "msw";
+import { toDateValue } from "@/lib/logbook";
+import {
+  LogbookAttachment,
+  LogbookEntryRequest,
+  LogbookReviewRequest,
+  logbookStatusSchema,
+} from "@/types/logbook";
+import {
+  db,
+  MockLogbookEntry,
+  nextLogbookEntryId,
+  pushNotification,
+  toLogbookEntry,
+  toUserOption,
+} from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  requireRole,
+  serverErrorScenario,
+} from "../utils";
+
+// Syarat minimal pertemuan disetujui sebelum mendaftar sidang
+const MIN_APPROVED_MEETINGS = 8;
+const MAX_ATTACHMENTS = 3;
+const ATTACHMENT_MAX_SIZE = 5 * 1024 * 1024;
+const COMMENT_MAX_LENGTH = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const entryNotFound = () =>
+  errorResponse(404, "Catatan bimbingan tidak ditemukan", "ENTRY_NOT_FOUND");
+
+const assignedSupervisors = (studentId: number) => {
+  const supervision = db.supervisions.find(
+    (item) => item.studentId === studentId
+  );
+  return (
+    [
+      ["PRIMARY", supervision?.primaryId],
+      ["SECONDARY", supervision?.secondaryId],
+    ] as const
+  ).flatMap(([position, id]) =>
+    typeof id === "number" ? [{ ...toUserOption(id)!, position }] : []
+  );
+};
+
+const assignedSupervisorIds = (studentId: number) =>
+  assignedSupervisors(studentId).map((supervisor) => supervisor.id);
+
+const findOwnEntry = (studentId: number, id: unknown) =>
+  db.logbookEntries.find(
+    (entry) => entry.id === Number(id) && entry.studentId === studentId
+  );
+
+const approvedCount = (studentId: number) =>
+  db.logbookEntries.filter(
+    (entry) => entry.studentId === studentId && entry.status === "APPROVED"
+  ).length;
+
+// Koordinator yang menjadi pembimbing memeriksa antrean dari menunya sendiri
+const queuePath = (supervisorId: number) =>
+  db.users.find((user) => user.id === supervisorId)?.role === "COORDINATOR"
+    ? "/coordinator/logbook"
+    : "/lecturer/logbook";
+
+const publishLogbookChanged = (entry: MockLogbookEntry) =>
+  publish([entry.studentId, entry.supervisorId], { type: "logbook.changed" });
+
+const readEntryForm = async (request: Request) => {
+  const formData = await request.formData();
+  const data: LogbookEntryRequest = {
+    meetingDate: String(formData.get("meetingDate") ?? ""),
+    supervisorId: Number(formData.get("supervisorId")),
+    topic: String(formData.get("topic") ?? "").trim(),
+    notes: String(formData.get("notes") ?? "").trim(),
+    nextActions: String(formData.get("nextActions") ?? "").trim(),
+  };
+  const appointmentId = formData.has("appointmentId")
+    ? Number(formData.get("appointmentId"))
+    : undefined;
+  const files = formData
+    .getAll("attachments")
+    .filter((item): item is File => item instanceof File);
+  const removedAttachmentIds = formData
+    .getAll("removedAttachmentIds")
+    .map(String);
+  return { data, appointmentId, files, removedAttachmentIds };
+};
+
+const entryErrors = (
+  data: LogbookEntryRequest,
+  studentId: number,
+  attachments: { size: number }[]
+) => {
+  const errors: Record<string, string> = {};
+  const today = toDateValue();
+  if (
+    !DATE_PATTERN.test(data.meetingDate) ||
+    Number.isNaN(Date.parse(data.meetingDate))
+  ) {
+    errors.meetingDate = "Tanggal pertemuan wajib diisi";
+  } else if (data.meetingDate > today) {
+    errors.meetingDate = "Tanggal pertemuan tidak boleh di masa depan";
+  }
+  if (!assignedSupervisorIds(studentId).includes(data.supervisorId)) {
+    errors.supervisorId = "Pilih salah satu dosen pembimbing Anda";
+  }
+  if (data.topic.length < 5 || data.topic.length > 200) {
+    errors.topic = "Topik bimbingan harus 5-200 karakter";
+  }
+  if (data.notes.length < 20 || data.notes.length > 2000) {
+    errors.notes = "Catatan diskusi harus 20-2000 karakter";
+  }
+  if (data.nextActions.length < 1 || data.nextActions.length > 1000) {
+    errors.nextActions = "Rencana tindak lanjut wajib diisi";
+  }
+  if (attachments.length > MAX_ATTACHMENTS) {
+    errors.attachments = `Maksimal ${MAX_ATTACHMENTS} lampiran`;
+  } else if (attachments.some((file) => file.size > ATTACHMENT_MAX_SIZE)) {
+    errors.attachments = "Ukuran lampiran maksimum adalah 5MB";
+  }
+  return errors;
+};
+
+const toAttachment = (file: File): LogbookAttachment => ({
+  id: crypto.randomUUID(),
+  name: file.name,
+  size: file.size,
+  url: URL.createObjectURL(file),
+});
+
+const toSupervisedEntry = (entry: MockLogbookEntry) => {
+  const student = db.users.find((item) => item.id === entry.studentId);
+  return {
+    ...toLogbookEntry(entry),
+    student: {
+      id: entry.studentId,
+      name: student?.profile?.name ?? student?.email ?? "-",
+      nim: student?.profile?.nim ?? null,
+    },
+  };
+};
+
+const notifySupervisor = (entry: MockLogbookEntry, title: string) => {
+  const student = toUserOption(entry.studentId);
+  pushNotification(entry.supervisorId, {
+    type: "GENERAL",
+    title,
+    message: `${student?.name ?? "Mahasiswa"} mencatat bimbingan "${entry.topic}"`,
+    link: queuePath(entry.supervisorId),
+  });
+};
+
+export const logbookHandlers = [
+  http.get(apiUrl("/logbook/mine"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+
+    const proposal = db.proposals.find(
+      (item) => item.studentId === user.id && item.status === "ACCEPTED"
+    );
+    return HttpResponse.json({
+      entries: db.logbookEntries
+        .filter((entry) => entry.studentId === user.id)
+        .sort(
+          (a, b) =>
+            b.meetingDate.localeCompare(a.meetingDate) ||
+            b.createdAt.localeCompare(a.createdAt)
+        )
+        .map(toLogbookEntry),
+      supervisors: assignedSupervisors(user.id),
+      thesisTitle: proposal?.title ?? null,
+      minApproved: MIN_APPROVED_MEETINGS,
+    });
+  }),
+
+  http.post(apiUrl("/logbook"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+    if (assignedSupervisorIds(user.id).length === 0) {
+      return errorResponse(
+        409,
+        "Dosen pembimbing Anda belum ditetapkan",
+        "NO_SUPERVISOR"
+      );
+    }
+
+    const { data, appointmentId, files } = await readEntryForm(request);
+    const errors = entryErrors(data, user.id, files);
+    if (Object.keys(errors).length > 0) {
+      return errorResponse(
+        400,
+        "Data bimbingan tidak valid",
+        "VALIDATION_ERROR",
+        errors
+      );
+    }
+    const appointment =
+      appointmentId === undefined
+        ? undefined
+        : db.appointments.find(
+            (item) => item.id === appointmentId && item.studentId === user.id
+          );
+    if (
+      appointmentId !== undefined &&
+      (!appointment ||
+        appointment.status !== "CONFIRMED" ||
+        appointment.supervisorId !== data.supervisorId ||
+        appointment.logbookEntryId !== null ||
+        new Date(appointment.end).getTime() > Date.now())
+    ) {
+      return errorResponse(
+        409,
+        "Janji temu ini tidak dapat dicatat ke logbook",
+        "APPOINTMENT_NOT_RECORDABLE"
+      );
+    }
+
+    const now = new Date().toISOString();
+    const entry: MockLogbookEntry = {
+      ...data,
+      id: nextLogbookEntryId(),
+      studentId: user.id,
+      attachments: files.map(toAttachment),
+      status: "PENDING",
+      comments: [],
+      reviewedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.logbookEntries.push(entry);
+    if (appointment) {
+      appointment.logbookEntryId = entry.id;
+      publish([appointment.studentId, appointment.supervisorId], {
+        type: "appointments.changed",
+      });
+    }
+    notifySupervisor(entry, "Catatan bimbingan baru");
+    publishLogbookChanged(entry);
+
+    return HttpResponse.json(
+      {
+        message: "Catatan bimbingan dikirim ke pembimbing",
+        entry: toLogbookEntry(entry),
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.put(apiUrl("/logbook/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+    const entry = findOwnEntry(user.id, params.id);
+    if (!entry) return entryNotFound();
+    if (entry.status === "APPROVED") {
+      return errorResponse(
+        409,
+        "Catatan yang sudah disetujui tidak dapat diubah",
+        "ENTRY_APPROVED"
+      );
+    }
+
+    const { data, files, removedAttachmentIds } = await readEntryForm(request);
+    const kept = entry.attachments.filter(
+      (attachment) => !removedAttachmentIds.includes(attachment.id)
+    );
+    const errors = entryErrors(data, user.id, [...kept, ...files]);
+    if (Object.keys(errors).length > 0) {
+      return errorResponse(
+        400,
+        "Data bimbingan tidak valid",
+        "VALIDATION_ERROR",
+        errors
+      );
+    }
+
+    const previousSupervisorId = entry.supervisorId;
+    // Catatan yang diperbaiki kembali menunggu persetujuan pembimbing
+    Object.assign(entry, data, {
+      attachments: [...kept, ...files.map(toAttachment)],
+      status: "PENDING",
+      reviewedAt: null,
+      updatedAt: new Date().toISOString(),
+    });
+    notifySupervisor(entry, "Catatan bimbingan diperbarui");
+    if (previousSupervisorId !== entry.supervisorId) {
+      publish(previousSupervisorId, { type: "logbook.changed" });
+    }
+    publishLogbookChanged(entry);
+
+    return HttpResponse.json({
+      message: "Catatan bimbingan diperbarui",
+      entry: toLogbookEntry(entry),
+    });
+  }),
+
+  http.delete(apiUrl("/logbook/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+    const entry = findOwnEntry(user.id, params.id);
+    if (!entry) return entryNotFound();
+    if (entry.status === "APPROVED") {
+      return errorResponse(
+        409,
+        "Catatan yang sudah disetujui tidak dapat dihapus",
+        "ENTRY_APPROVED"
+      );
+    }
+
+    db.logbookEntries = db.logbookEntries.filter(
+      (item) => item.id !== entry.id
+    );
+    // Janji temunya bisa dicatat ulang
+    const appointment = db.appointments.find(
+      (item) => item.logbookEntryId === entry.id
+    );
+    if (appointment) {
+      appointment.logbookEntryId = null;
+      publish([appointment.studentId, appointment.supervisorId], {
+        type: "appointments.changed",
+      });
+    }
+    publishLogbookChanged(entry);
+
+    return HttpResponse.json({ message: "Catatan bimbingan dihapus" });
+  }),
+
+  http.get(apiUrl("/logbook/queue"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER", "COORDINATOR");
+    if (error) return error;
+
+    const url = new URL(request.url);
+    const status = logbookStatusSchema.safeParse(
+      url.searchParams.get("status")
+    ).data;
+    const entries = db.logbookEntries.filter(
+      (entry) =>
+        entry.supervisorId === user.id && (!status || entry.status === status)
+    );
+    // Antrean persetujuan dimulai dari catatan terlama
+    const direction = status === "PENDING" ? 1 : -1;
+    entries.sort(
+      (a, b) => direction * a.meetingDate.localeCompare(b.meetingDate)
+    );
+
+    return HttpResponse.json({
+      entries: entries.map(toSupervisedEntry),
+    });
+  }),
+
+  http.patch(apiUrl("/logbook/:id/review"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER", "COORDINATOR");
+    if (error) return error;
+    const entry = db.logbookEntries.find(
+      (item) => item.id === Number(params.id) && item.supervisorId === user.id
+    );
+    if (!entry) return entryNotFound();
+
+    const { decision, comment = "" } =
+      (await request.json()) as LogbookReviewRequest;
+    const message = comment.trim();
+    if (!["APPROVED", "REJECTED", "COMMENT"].includes(decision)) {
+      return errorResponse(400, "Keputusan tidak dikenal", "VALIDATION_ERROR");
+    }
+    if (decision !== "COMMENT" && entry.status !== "PENDING") {
+      return errorResponse(
+        409,
+        "Catatan ini sudah diperiksa",
+        "ENTRY_REVIEWED"
+      );
+    }
+    if (
+      (decision !== "APPROVED" && !message) ||
+      message.length > COMMENT_MAX_LENGTH
+    ) {
+      return errorResponse(400, "Data tidak valid", "VALIDATION_ERROR", {
+        comment: message
+          ? `Komentar maksimal ${COMMENT_MAX_LENGTH} karakter`
+          : "Komentar wajib diisi",
+      });
+    }
+
+    const now = new Date().toISOString();
+    if (decision !== "COMMENT") {
+      entry.status = decision;
+      entry.reviewedAt = now;
+    }
+    if (message) {
+      entry.comments.push({
+        id: crypto.randomUUID(),
+        author: user.profile?.name ?? user.email,
+        message,
+        status: entry.status,
+        createdAt: now,
+      });
+    }
+    entry.updatedAt = now;
+
+    const notifications = {
+      APPROVED: {
+        type: "LOGBOOK_APPROVED",
+        title: "Catatan bimbingan disetujui",
+      },
+      REJECTED: { type: "GENERAL", title: "Catatan bimbingan ditolak" },
+      COMMENT: { type: "GENERAL", title: "Komentar baru dari pembimbing" },
+    } as const;
+    pushNotification(entry.studentId, {
+      ...notifications[decision],
+      message: message
+        ? `"${entry.topic}": ${message}`
+        : `"${entry.topic}" disetujui oleh ${user.profile?.name ?? user.email}`,
+      link: "/student/logbook",
+    });
+    if (
+      decision === "APPROVED" &&
+      approvedCount(entry.studentId) === MIN_APPROVED_MEETINGS
+    ) {
+      pushNotification(entry.studentId, {
+        type: "GENERAL",
+        title: "Syarat bimbingan terpenuhi",
+        message: `Anda sudah memiliki ${MIN_APPROVED_MEETINGS} pertemuan bimbingan yang disetujui`,
+        link: "/student/logbook",
+      });
+    }
+    publishLogbookChanged(entry);
+
+    return HttpResponse.json({
+      message: {
+        APPROVED: "Catatan bimbingan disetujui",
+        REJECTED: "Catatan bimbingan ditolak",
+        COMMENT: "Komentar terkirim",
+      }[decision],
+      entry: toSupervisedEntry(entry),
+    });
+  }),
+];
@@ -0,0 +1,164 @@
+import { delay, http, HttpResponse } from "msw";
+import {
+  CreateNotificationRequest,
+  notificationTypeSchema,
+} from "@/types/notifications";
+import { db, MockNotification, pushNotification, toNotification } from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  requireUser,
+  serverErrorScenario,
+  unauthorized,
+} from "../utils";
+
+const DEFAULT_PAGE_SIZE = 10;
+
+const notificationsOf = (userId: number) =>
+  db.notifications
+    .all()
+    .filter((notification) => notification.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const unreadCountOf = (userId: number) =>
+  notificationsOf(userId).filter((notification) => !notification.read).length;
+
+const updateNotifications = (
+  matches: (notification: MockNotification) => boolean,
+  patch: Partial<MockNotification>
+) => {
+  db.notifications.save(
+    db.notifications
+      .all()
+      .map((notification) =>
+        matches(notification) ? { ...notification, ...patch } : notification
+      )
+  );
+};
+
+export const notificationHandlers = [
+  http.get(apiUrl("/notifications"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    const params = new URL(request.url).searchParams;
+    const unreadOnly = params.get("unreadOnly") === "true";
+    const pageSize = Number(params.get("pageSize")) || DEFAULT_PAGE_SIZE;
+
+    const filtered = notificationsOf(user.id).filter(
+      (notification) => !unreadOnly || !notification.read
+    );
+    const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
+    const page = Math.min(
+      totalPages,
+      Math.max(1, Number(params.get("page")) || 1)
+    );
+
+    return HttpResponse.json({
+      notifications: filtered
+        .slice((page - 1) * pageSize, page * pageSize)
+        .map(toNotification),
+      pagination: { page, pageSize, total: filtered.length, totalPages },
+      unreadCount: unreadCountOf(user.id),
+    });
+  }),
+
+  http.get(apiUrl("/notifications/unread-count"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    return HttpResponse.json({ unreadCount: unreadCountOf(user.id) });
+  }),
+
+  http.post(apiUrl("/notifications"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    const data = (await request.json()) as CreateNotificationRequest;
+    if (!notificationTypeSchema.safeParse(data.type).success || !data.title) {
+      return errorResponse(
+        400,
+        "Data notifikasi tidak valid",
+        "INVALID_NOTIFICATION"
+      );
+    }
+
+    const notification = pushNotification(user.id, {
+      type: data.type,
+      title: data.title,
+      message: data.message ?? "",
+      link: data.link?.startsWith("/") ? data.link : null,
+    });
+    return HttpResponse.json(
+      {
+        message: "Notifikasi disimpan ke kotak masuk",
+        notification: toNotification(notification),
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.post(apiUrl("/notifications/read-all"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    const updatedCount = unreadCountOf(user.id);
+    updateNotifications((notification) => notification.userId === user.id, {
+      read: true,
+    });
+    publish(user.id, { type: "notifications.changed" });
+    return HttpResponse.json({
+      message: "Semua notifikasi ditandai sudah dibaca",
+      updatedCount,
+    });
+  }),
+
+  http.patch(apiUrl("/notifications/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    const target = notificationsOf(user.id).find(
+      (notification) => notification.id === params.id
+    );
+    if (!target) {
+      return errorResponse(
+        404,
+        "Notifikasi tidak ditemukan",
+        "NOTIFICATION_NOT_FOUND"
+      );
+    }
+
+    const { read } = (await request.json()) as { read: boolean };
+    updateNotifications((notification) => notification.id === target.id, {
+      read: !!read,
+    });
+    publish(user.id, { type: "notifications.changed" });
+    return HttpResponse.json({
+      message: read
+        ? "Notifikasi ditandai sudah dibaca"
+        : "Notifikasi ditandai belum dibaca",
+      notification: toNotification({ ...target, read: !!read }),
+    });
+  }),
+];
@@ -0,0 +1,91 @@
+import { delay, http, HttpResponse } from "msw";
+import { toPublicUser } from "../db";
+import {
+  apiUrl,
+  errorResponse,
+  requireUser,
+  serverErrorScenario,
+  unauthorized,
+} from "../utils";
+
+export const profileHandlers = [
+  http.patch(apiUrl("/users/me"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    const data = (await request.json()) as {
+      name: string;
+      nim?: string;
+      nip?: string;
+      phoneNumber: string;
+    };
+    // Mahasiswa hanya punya NIM, dosen dan koordinator hanya punya NIP
+    const isStudent = user.role === "STUDENT";
+    user.profile = {
+      ...user.profile,
+      name: data.name,
+      phoneNumber: data.phoneNumber,
+      nim: isStudent ? data.nim || undefined : undefined,
+      nip: isStudent ? undefined : data.nip || undefined,
+    };
+    return HttpResponse.json({
+      message: "Profil berhasil diperbarui",
+      user: toPublicUser(user),
+    });
+  }),
+
+  http.put(apiUrl("/users/me/profile-picture"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    const picture = (await request.formData()).get("profilePicture");
+    if (!(picture instanceof File)) {
+      return errorResponse(400, "Foto profil wajib diunggah", "INVALID_FILE", {
+        profilePicture: "Foto profil wajib diunggah",
+      });
+    }
+
+    user.profile = {
+      name: user.profile?.name ?? user.email,
+      ...user.profile,
+      profilePicture: URL.createObjectURL(picture),
+    };
+    return HttpResponse.json({
+      message: "Foto profil berhasil diperbarui",
+      user: toPublicUser(user),
+    });
+  }),
+
+  http.put(apiUrl("/users/me/password"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+
+    const { currentPassword, password } = (await request.json()) as {
+      currentPassword: string;
+      password: string;
+    };
+    if (user.password !== currentPassword) {
+      return errorResponse(
+        400,
+        "Kata sandi saat ini salah",
+        "INVALID_CURRENT_PASSWORD",
+        { currentPassword: "Kata sandi saat ini salah" }
+      );
+    }
+
+    user.password = password;
+    return HttpResponse.json({ message: "Kata sandi berhasil diperbarui" });
+  }),
+];
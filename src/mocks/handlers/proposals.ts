@@ -0,0 +1,262 @@
+import { delay, http, HttpResponse } from "msw";
+import { ProposalRequest, researchFieldSchema } from "@/types/proposals";
+import {
+  db,
+  MockProposal,
+  activeCoordinatorIds,
+  isSupervisor,
+  nextProposalId,
+  pushNotification,
+  toProposal,
+} from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  publishToCoordinators,
+  requireRole,
+  serverErrorScenario,
+} from "../utils";
+
+const MAX_PREFERRED_SUPERVISORS = 2;
+const TITLE_MIN_LENGTH = 10;
+const ABSTRACT_MIN_LENGTH = 100;
+const ABSTRACT_MAX_LENGTH = 3000;
+
+// Hanya draf dan pengajuan yang diminta revisi yang masih bisa diubah
+const EDITABLE_STATUSES = ["DRAFT", "REVISION_REQUESTED"];
+
+const proposalNotFound = () =>
+  errorResponse(404, "Pengajuan tidak ditemukan", "PROPOSAL_NOT_FOUND");
+
+const proposalsOf = (studentId: number) =>
+  db.proposals
+    .filter((proposal) => proposal.studentId === studentId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const findOwnProposal = (studentId: number, id: unknown) =>
+  db.proposals.find(
+    (proposal) => proposal.id === Number(id) && proposal.studentId === studentId
+  );
+
+// Data yang bisa disimpan sebagai draf; kelengkapan diperiksa saat diajukan
+const draftErrors = (data: ProposalRequest) => {
+  const errors: Record<string, string> = {};
+  if (data.title.length > 200) {
+    errors.title = "Judul maksimal 200 karakter";
+  }
+  if (data.abstract.length > ABSTRACT_MAX_LENGTH) {
+    errors.abstract = `Abstrak maksimal ${ABSTRACT_MAX_LENGTH} karakter`;
+  }
+  if (
+    data.researchField &&
+    !researchFieldSchema.safeParse(data.researchField).success
+  ) {
+    errors.researchField = "Bidang penelitian tidak dikenal";
+  }
+  const supervisorIds = data.preferredSupervisorIds ?? [];
+  if (supervisorIds.length > MAX_PREFERRED_SUPERVISORS) {
+    errors.preferredSupervisorIds = `Pilih maksimal ${MAX_PREFERRED_SUPERVISORS} calon pembimbing`;
+  } else if (
+    supervisorIds.some((id) => {
+      const user = db.users.find((item) => item.id === id);
+      return !user || !isSupervisor(user);
+    })
+  ) {
+    errors.preferredSupervisorIds = "Calon pembimbing tidak valid";
+  }
+  return errors;
+};
+
+const submissionErrors = (proposal: MockProposal) => {
+  const errors: Record<string, string> = {};
+  if (proposal.title.trim().length < TITLE_MIN_LENGTH) {
+    errors.title = `Judul minimal ${TITLE_MIN_LENGTH} karakter`;
+  }
+  if (proposal.abstract.trim().length < ABSTRACT_MIN_LENGTH) {
+    errors.abstract = `Abstrak minimal ${ABSTRACT_MIN_LENGTH} karakter`;
+  }
+  if (!proposal.researchField) {
+    errors.researchField = "Bidang penelitian wajib dipilih";
+  }
+  if (!proposal.location.trim()) {
+    errors.location = "Lokasi penelitian wajib diisi";
+  }
+  if (proposal.preferredSupervisorIds.length === 0) {
+    errors.preferredSupervisorIds = "Pilih minimal satu calon pembimbing";
+  }
+  return errors;
+};
+
+const validationFailed = (errors: Record<string, string>) =>
+  errorResponse(
+    400,
+    "Data pengajuan belum lengkap",
+    "PROPOSAL_INCOMPLETE",
+    errors
+  );
+
+const applyRequest = (proposal: MockProposal, data: ProposalRequest) => {
+  proposal.title = data.title.trim();
+  proposal.abstract = data.abstract.trim();
+  proposal.researchField = data.researchField;
+  proposal.location = data.location.trim();
+  proposal.preferredSupervisorIds = data.preferredSupervisorIds ?? [];
+  proposal.updatedAt = new Date().toISOString();
+};
+
+export const proposalHandlers = [
+  http.get(apiUrl("/proposals/mine"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+
+    return HttpResponse.json({
+      proposals: proposalsOf(user.id).map(toProposal),
+    });
+  }),
+
+  http.get(apiUrl("/proposals/supervisors"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireRole(request, "STUDENT");
+    if (error) return error;
+
+    return HttpResponse.json({
+      supervisors: db.users
+        .filter(isSupervisor)
+        .map((user) => ({
+          id: user.id,
+          name: user.profile?.name ?? user.email,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  }),
+
+  http.post(apiUrl("/proposals"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+
+    // Pengajuan baru hanya bisa dibuat jika pengajuan sebelumnya ditolak
+    const active = proposalsOf(user.id).find(
+      (proposal) => proposal.status !== "REJECTED"
+    );
+    if (active) {
+      return errorResponse(
+        409,
+        "Anda masih memiliki pengajuan yang aktif",
+        "PROPOSAL_EXISTS"
+      );
+    }
+
+    const data = (await request.json()) as ProposalRequest;
+    const errors = draftErrors(data);
+    if (Object.keys(errors).length > 0) return validationFailed(errors);
+
+    const now = new Date().toISOString();
+    const proposal: MockProposal = {
+      id: nextProposalId(),
+      studentId: user.id,
+      title: "",
+      abstract: "",
+      researchField: null,
+      location: "",
+      preferredSupervisorIds: [],
+      status: "DRAFT",
+      comments: [],
+      submittedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    applyRequest(proposal, data);
+    db.proposals.push(proposal);
+    publish(user.id, { type: "proposals.changed" });
+
+    return HttpResponse.json(
+      { message: "Draf pengajuan disimpan", proposal: toProposal(proposal) },
+      { status: 201 }
+    );
+  }),
+
+  http.put(apiUrl("/proposals/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+    const proposal = findOwnProposal(user.id, params.id);
+    if (!proposal) return proposalNotFound();
+    if (!EDITABLE_STATUSES.includes(proposal.status)) {
+      return errorResponse(
+        409,
+        "Pengajuan yang sedang ditinjau tidak dapat diubah",
+        "PROPOSAL_LOCKED"
+      );
+    }
+
+    const data = (await request.json()) as ProposalRequest;
+    const errors = draftErrors(data);
+    if (Object.keys(errors).length > 0) return validationFailed(errors);
+
+    applyRequest(proposal, data);
+    publish(user.id, { type: "proposals.changed" });
+
+    return HttpResponse.json({
+      message: "Draf pengajuan disimpan",
+      proposal: toProposal(proposal),
+    });
+  }),
+
+  http.post(apiUrl("/proposals/:id/submit"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+    const proposal = findOwnProposal(user.id, params.id);
+    if (!proposal) return proposalNotFound();
+    if (!EDITABLE_STATUSES.includes(proposal.status)) {
+      return errorResponse(
+        409,
+        "Pengajuan ini sudah diajukan",
+        "PROPOSAL_LOCKED"
+      );
+    }
+
+    const errors = submissionErrors(proposal);
+    if (Object.keys(errors).length > 0) return validationFailed(errors);
+
+    const now = new Date().toISOString();
+    proposal.status = "SUBMITTED";
+    proposal.submittedAt = now;
+    proposal.updatedAt = now;
+
+    const studentName = user.profile?.name ?? user.email;
+    activeCoordinatorIds().forEach((coordinatorId) =>
+      pushNotification(coordinatorId, {
+        type: "GENERAL",
+        title: "Pengajuan judul baru",
+        message: `${studentName} mengajukan "${proposal.title}"`,
+        link: null,
+      })
+    );
+    publish(user.id, { type: "proposals.changed" });
+    publishToCoordinators({ type: "proposals.changed" });
+
+    return HttpResponse.json({
+      message: "Pengajuan berhasil dikirim dan menunggu tinjauan",
+      proposal: toProposal(proposal),
+    });
+  }),
+];
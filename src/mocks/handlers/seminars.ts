@@ -0,0 +1,882 @@
+import { delay, http, HttpResponse } from "msw";
+import { addDays, combineDateTime, overlaps } from "@/lib/appointments";
+import { parseDateValue, toDateValue } from "@/lib/logbook";
+import {
+  isWorkingDay,
+  minutesOfDay,
+  SCHEDULE_END_TIME,
+  SCHEDULE_START_TIME,
+  SCHEDULE_STEP_MINUTES,
+  SEMINAR_TYPES,
+  toMinutes,
+} from "@/lib/seminars";
+import {
+  CheckSeminarRequest,
+  MoveSeminarRequest,
+  PublishSeminarsRequest,
+  RoomRequest,
+  SeminarConflict,
+  SeminarRequest,
+  SeminarSuggestion,
+  SeminarType,
+  SuggestSeminarSlotsRequest,
+} from "@/types/seminars";
+import {
+  acceptedTitleOf,
+  activeCoordinatorIds,
+  db,
+  MockSeminar,
+  nextRoomId,
+  nextSeminarId,
+  pushNotification,
+  toSeminar,
+  toUserOption,
+} from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  readRange,
+  requireCoordinator,
+  requireRole,
+  serverErrorScenario,
+} from "../utils";
+
+const MAX_EXAMINERS = 3;
+const MAX_ROOM_CAPACITY = 500;
+const MIN_DURATION = 30;
+const MAX_DURATION = 240;
+// Saran dicari mulai besok hingga sekian hari ke depan
+const SUGGESTION_DAYS = 30;
+const MAX_SUGGESTIONS = 5;
+
+const SEMINAR_TYPE_LABELS: Record<SeminarType, string> = {
+  PROPOSAL: "Seminar proposal",
+  RESULT: "Seminar hasil",
+  DEFENSE: "Sidang akhir",
+};
+
+// Penguji boleh dosen, koordinator, maupun penguji luar
+const EXAMINER_ROLES = ["LECTURER", "COORDINATOR", "EXAMINER"];
+
+const seminarNotFound = () =>
+  errorResponse(404, "Jadwal tidak ditemukan", "SEMINAR_NOT_FOUND");
+
+const roomNotFound = () =>
+  errorResponse(404, "Ruang tidak ditemukan", "ROOM_NOT_FOUND");
+
+const invalidData = (errors: Record<string, string>) =>
+  errorResponse(400, "Data tidak valid", "VALIDATION_ERROR", errors);
+
+// Bentrokan dikirim sebagai errors["conflicts.<index>"] agar tetap terbaca
+// sebagai fieldErrors di klien
+const conflictResponse = (conflicts: SeminarConflict[]) =>
+  errorResponse(
+    409,
+    "Jadwal bentrok dengan kegiatan lain",
+    "SCHEDULE_CONFLICT",
+    Object.fromEntries(
+      conflicts.map((conflict, index) => [
+        `conflicts.${index}`,
+        conflict.message,
+      ])
+    )
+  );
+
+const nameOf = (id: number) => toUserOption(id)?.name ?? "-";
+
+const roomNameOf = (id: number) =>
+  db.rooms.find((room) => room.id === id)?.name ?? "-";
+
+const supervisorIdsOf = (studentId: number) => {
+  const supervision = db.supervisions.find(
+    (item) => item.studentId === studentId
+  );
+  return [supervision?.primaryId, supervision?.secondaryId].filter(
+    (id): id is number => typeof id === "number"
+  );
+};
+
+const participantIdsOf = (seminar: MockSeminar) => [
+  seminar.studentId,
+  ...seminar.supervisorIds,
+  ...seminar.examinerIds,
+];
+
+const seminarsPath = (userId: number) => {
+  switch (db.users.find((user) => user.id === userId)?.role) {
+    case "STUDENT":
+      return "/student/seminars";
+    case "COORDINATOR":
+      return "/coordinator/seminars";
+    case "EXAMINER":
+      return "/examiner/seminars";
+    default:
+      return "/lecturer/seminars";
+  }
+};
+
+// Draf hanya diketahui koordinator; jadwal yang sudah diumumkan juga
+// memperbarui tampilan semua pihak yang terlibat
+const publishSeminarChanged = (...seminars: MockSeminar[]) =>
+  publish(
+    [
+      ...activeCoordinatorIds(),
+      ...seminars.flatMap((seminar) =>
+        seminar.status === "PUBLISHED" ? participantIdsOf(seminar) : []
+      ),
+    ],
+    { type: "seminars.changed" }
+  );
+
+const describeRange = (range: { start: string | Date; end: string | Date }) => {
+  const start = new Date(range.start);
+  const date = new Intl.DateTimeFormat("id-ID", {
+    dateStyle: "full",
+    timeStyle: "short",
+  }).format(start);
+  const end = new Intl.DateTimeFormat("id-ID", { timeStyle: "short" }).format(
+    new Date(range.end)
+  );
+  return `${date}–${end}`;
+};
+
+const describeSeminar = (seminar: MockSeminar) =>
+  `${SEMINAR_TYPE_LABELS[seminar.type]} ${nameOf(seminar.studentId)}`;
+
+interface Candidate {
+  seminarId?: number;
+  studentId: number;
+  roomId: number;
+  start: Date;
+  end: Date;
+  lecturerIds: number[];
+}
+
+// Memeriksa ruang, dosen (pembimbing dan penguji), dan mahasiswa terhadap
+// jadwal lain, janji temu bimbingan, serta jadwal dosen yang ditutup
+const conflictsFor = (candidate: Candidate): SeminarConflict[] => {
+  const conflicts: SeminarConflict[] = [];
+
+  db.seminars
+    .filter(
+      (other) => other.id !== candidate.seminarId && overlaps(other, candidate)
+    )
+    .forEach((other) => {
+      const label = `${describeSeminar(other)} (${describeRange(other)})`;
+      if (other.roomId === candidate.roomId) {
+        conflicts.push({
+          type: "ROOM",
+          message: `${roomNameOf(other.roomId)} sudah dipakai untuk ${label}`,
+        });
+      }
+      if (other.studentId === candidate.studentId) {
+        conflicts.push({
+          type: "STUDENT",
+          message: `${nameOf(candidate.studentId)} sudah memiliki jadwal ${label}`,
+        });
+      }
+      candidate.lecturerIds
+        .filter((id) =>
+          [...other.supervisorIds, ...other.examinerIds].includes(id)
+        )
+        .forEach((id) => {
+          conflicts.push({
+            type: "LECTURER",
+            message: `${nameOf(id)} sudah terlibat pada ${label}`,
+          });
+        });
+    });
+
+  db.appointments
+    .filter((item) => item.status === "CONFIRMED" && overlaps(item, candidate))
+    .forEach((appointment) => {
+      const range = describeRange(appointment);
+      if (candidate.lecturerIds.includes(appointment.supervisorId)) {
+        conflicts.push({
+          type: "LECTURER",
+          message: `${nameOf(appointment.supervisorId)} memiliki janji bimbingan dengan ${nameOf(appointment.studentId)} (${range})`,
+        });
+      }
+      if (appointment.studentId === candidate.studentId) {
+        conflicts.push({
+          type: "STUDENT",
+          message: `${nameOf(candidate.studentId)} memiliki janji bimbingan dengan ${nameOf(appointment.supervisorId)} (${range})`,
+        });
+      }
+    });
+
+  const date = toDateValue(candidate.start);
+  db.availabilityExceptions
+    .filter(
+      (exception) =>
+        !exception.available &&
+        exception.date === date &&
+        candidate.lecturerIds.includes(exception.lecturerId)
+    )
+    .filter((exception) =>
+      overlaps(
+        {
+          start: combineDateTime(date, exception.startTime ?? "00:00"),
+          end: exception.endTime
+            ? combineDateTime(date, exception.endTime)
+            : addDays(parseDateValue(date), 1),
+        },
+        candidate
+      )
+    )
+    .forEach((exception) => {
+      conflicts.push({
+        type: "LECTURER",
+        message: `${nameOf(exception.lecturerId)} tidak tersedia${
+          exception.note ? `: ${exception.note}` : ""
+        }`,
+      });
+    });
+
+  return conflicts;
+};
+
+// Waktu seminar harus di masa depan, pada hari kerja, dan di dalam jam kerja
+const timeErrors = (start: Date, end: Date) => {
+  const errors: Record<string, string> = {};
+  if (Number.isNaN(start.getTime())) {
+    errors.start = "Waktu mulai tidak valid";
+  } else if (Number.isNaN(end.getTime()) || end <= start) {
+    errors.end = "Jam selesai harus setelah jam mulai";
+  } else if (start.getTime() <= Date.now()) {
+    errors.start = "Waktu seminar sudah lewat";
+  } else if (
+    !isWorkingDay(start) ||
+    toDateValue(start) !== toDateValue(end) ||
+    minutesOfDay(start) < toMinutes(SCHEDULE_START_TIME) ||
+    minutesOfDay(end) > toMinutes(SCHEDULE_END_TIME)
+  ) {
+    errors.start = `Seminar hanya dapat dijadwalkan Senin-Jumat pukul ${SCHEDULE_START_TIME}-${SCHEDULE_END_TIME}`;
+  }
+  return errors;
+};
+
+// Mahasiswa yang bisa dijadwalkan: sudah punya pembimbing dan judul diterima
+const studentErrors = (studentId: number): Record<string, string> => {
+  const student = db.users.find(
+    (user) =>
+      user.id === studentId &&
+      user.role === "STUDENT" &&
+      user.status === "ACTIVE"
+  );
+  if (!student) return { studentId: "Mahasiswa tidak ditemukan" };
+  if (supervisorIdsOf(studentId).length === 0 || !acceptedTitleOf(studentId)) {
+    return {
+      studentId: "Mahasiswa belum memiliki pembimbing atau judul yang diterima",
+    };
+  }
+  return {};
+};
+
+const examinerErrors = (
+  studentId: number,
+  examinerIds: unknown
+): Record<string, string> => {
+  if (
+    !Array.isArray(examinerIds) ||
+    examinerIds.length < 1 ||
+    examinerIds.length > MAX_EXAMINERS ||
+    new Set(examinerIds).size !== examinerIds.length
+  ) {
+    return { examinerIds: `Pilih 1 sampai ${MAX_EXAMINERS} penguji` };
+  }
+  const supervisorIds = supervisorIdsOf(studentId);
+  if (examinerIds.some((id) => supervisorIds.includes(id))) {
+    return { examinerIds: "Pembimbing tidak boleh menjadi penguji" };
+  }
+  const valid = examinerIds.every((id) =>
+    db.users.some(
+      (user) =>
+        user.id === id &&
+        user.status === "ACTIVE" &&
+        EXAMINER_ROLES.includes(user.role)
+    )
+  );
+  return valid ? {} : { examinerIds: "Penguji tidak valid" };
+};
+
+// Mengembalikan data jadwal yang siap disimpan atau response error validasi
+const readSeminar = (data: SeminarRequest, seminarId?: number) => {
+  const start = new Date(data.start);
+  const end = new Date(data.end);
+  const errors: Record<string, string> = {
+    ...(SEMINAR_TYPES.includes(data.type)
+      ? {}
+      : { type: "Jenis seminar tidak valid" }),
+    ...studentErrors(data.studentId),
+    ...(db.rooms.some((room) => room.id === data.roomId)
+      ? {}
+      : { roomId: "Ruang tidak ditemukan" }),
+    ...timeErrors(start, end),
+    ...examinerErrors(data.studentId, data.examinerIds),
+  };
+  if (Object.keys(errors).length > 0) return { error: invalidData(errors) };
+
+  const supervisorIds = supervisorIdsOf(data.studentId);
+  return {
+    candidate: {
+      seminarId,
+      studentId: data.studentId,
+      roomId: data.roomId,
+      start,
+      end,
+      lecturerIds: [...supervisorIds, ...data.examinerIds],
+    },
+    supervisorIds,
+  };
+};
+
+// Satu mahasiswa hanya punya satu jadwal untuk tiap jenis seminar
+const duplicateOf = (data: SeminarRequest, seminarId?: number) =>
+  db.seminars.find(
+    (item) =>
+      item.id !== seminarId &&
+      item.studentId === data.studentId &&
+      item.type === data.type
+  );
+
+const roomErrors = (data: RoomRequest, roomId?: number) => {
+  const errors: Record<string, string> = {};
+  const name = (data.name ?? "").trim();
+  if (name.length < 3 || name.length > 100) {
+    errors.name = "Nama ruang harus 3-100 karakter";
+  } else if (
+    db.rooms.some(
+      (room) =>
+        room.id !== roomId && room.name.toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    errors.name = "Nama ruang sudah dipakai";
+  }
+  if (
+    !Number.isInteger(data.capacity) ||
+    data.capacity < 1 ||
+    data.capacity > MAX_ROOM_CAPACITY
+  ) {
+    errors.capacity = `Kapasitas harus antara 1 dan ${MAX_ROOM_CAPACITY} orang`;
+  }
+  return errors;
+};
+
+// Pemberitahuan untuk semua pihak pada jadwal yang sudah diumumkan; pihak
+// yang dikeluarkan dari jadwal diberi tahu terpisah
+const notifyParticipants = (
+  seminar: MockSeminar,
+  title: string,
+  removedIds: number[] = []
+) => {
+  const message = `${describeSeminar(seminar)} pada ${describeRange(seminar)} di ${roomNameOf(seminar.roomId)}`;
+  participantIdsOf(seminar).forEach((id) =>
+    pushNotification(id, {
+      type: "SEMINAR_SCHEDULED",
+      title,
+      message,
+      link: seminarsPath(id),
+    })
+  );
+  removedIds.forEach((id) =>
+    pushNotification(id, {
+      type: "GENERAL",
+      title: `Anda tidak lagi terlibat pada ${SEMINAR_TYPE_LABELS[seminar.type].toLowerCase()}`,
+      message: `${describeSeminar(seminar)} dijadwalkan tanpa Anda`,
+      link: seminarsPath(id),
+    })
+  );
+};
+
+const isClosed = (seminar: MockSeminar) =>
+  new Date(seminar.start).getTime() <= Date.now();
+
+const closedResponse = () =>
+  errorResponse(
+    409,
+    "Jadwal yang sudah berlangsung tidak dapat diubah",
+    "SEMINAR_CLOSED"
+  );
+
+export const seminarHandlers = [
+  http.get(apiUrl("/rooms"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    return HttpResponse.json({
+      rooms: [...db.rooms].sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  }),
+
+  http.post(apiUrl("/rooms"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const data = (await request.json()) as RoomRequest;
+    const errors = roomErrors(data);
+    if (Object.keys(errors).length > 0) return invalidData(errors);
+
+    const room = {
+      id: nextRoomId(),
+      name: data.name.trim(),
+      capacity: data.capacity,
+    };
+    db.rooms.push(room);
+    publish(activeCoordinatorIds(), { type: "seminars.changed" });
+
+    return HttpResponse.json(
+      { message: "Ruang ditambahkan", room },
+      { status: 201 }
+    );
+  }),
+
+  http.put(apiUrl("/rooms/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const room = db.rooms.find((item) => item.id === Number(params.id));
+    if (!room) return roomNotFound();
+
+    const data = (await request.json()) as RoomRequest;
+    const errors = roomErrors(data, room.id);
+    if (Object.keys(errors).length > 0) return invalidData(errors);
+
+    Object.assign(room, { name: data.name.trim(), capacity: data.capacity });
+    publishSeminarChanged(
+      ...db.seminars.filter((seminar) => seminar.roomId === room.id)
+    );
+
+    return HttpResponse.json({ message: "Ruang diperbarui", room });
+  }),
+
+  http.delete(apiUrl("/rooms/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const room = db.rooms.find((item) => item.id === Number(params.id));
+    if (!room) return roomNotFound();
+
+    const used = db.seminars.filter((seminar) => seminar.roomId === room.id);
+    if (used.length > 0) {
+      return errorResponse(
+        409,
+        `Ruang masih dipakai ${used.length} jadwal. Pindahkan jadwalnya terlebih dahulu.`,
+        "ROOM_IN_USE"
+      );
+    }
+
+    db.rooms = db.rooms.filter((item) => item.id !== room.id);
+    publish(activeCoordinatorIds(), { type: "seminars.changed" });
+
+    return HttpResponse.json({ message: "Ruang dihapus" });
+  }),
+
+  http.get(apiUrl("/seminars/options"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const students = db.supervisions.flatMap((supervision) => {
+      const title = acceptedTitleOf(supervision.studentId);
+      const supervisorIds = supervisorIdsOf(supervision.studentId);
+      const student = db.users.find(
+        (user) => user.id === supervision.studentId && user.status === "ACTIVE"
+      );
+      if (!student || !title || supervisorIds.length === 0) return [];
+      return [
+        {
+          id: student.id,
+          name: nameOf(student.id),
+          nim: student.profile?.nim ?? null,
+          title,
+          supervisors: supervisorIds.map((id) => ({ id, name: nameOf(id) })),
+        },
+      ];
+    });
+
+    return HttpResponse.json({
+      students: students.sort((a, b) => a.name.localeCompare(b.name)),
+      examiners: db.users
+        .filter(
+          (user) =>
+            user.status === "ACTIVE" && EXAMINER_ROLES.includes(user.role)
+        )
+        .map((user) => ({ id: user.id, name: nameOf(user.id) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  }),
+
+  http.get(apiUrl("/seminars"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(
+      request,
+      "STUDENT",
+      "LECTURER",
+      "COORDINATOR",
+      "EXAMINER"
+    );
+    if (error) return error;
+
+    const range = readRange(new URL(request.url));
+    if (range.error !== undefined) {
+      return errorResponse(400, range.error, "VALIDATION_ERROR");
+    }
+    const from = parseDateValue(range.from).getTime();
+    const to = addDays(parseDateValue(range.to), 1).getTime();
+
+    return HttpResponse.json({
+      seminars: db.seminars
+        .filter(
+          (seminar) =>
+            (user.role === "COORDINATOR" ||
+              (seminar.status === "PUBLISHED" &&
+                participantIdsOf(seminar).includes(user.id))) &&
+            new Date(seminar.start).getTime() >= from &&
+            new Date(seminar.start).getTime() < to
+        )
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .map(toSeminar),
+    });
+  }),
+
+  http.post(apiUrl("/seminars/check"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const data = (await request.json()) as CheckSeminarRequest;
+    const { candidate, error: invalid } = readSeminar(data, data.seminarId);
+    if (invalid) return invalid;
+
+    return HttpResponse.json({ conflicts: conflictsFor(candidate) });
+  }),
+
+  http.post(apiUrl("/seminars/suggestions"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const data = (await request.json()) as SuggestSeminarSlotsRequest;
+    const errors: Record<string, string> = {
+      ...studentErrors(data.studentId),
+      ...examinerErrors(data.studentId, data.examinerIds),
+    };
+    if (
+      data.roomId !== null &&
+      !db.rooms.some((room) => room.id === data.roomId)
+    ) {
+      errors.roomId = "Ruang tidak ditemukan";
+    }
+    if (
+      !Number.isInteger(data.durationMinutes) ||
+      data.durationMinutes < MIN_DURATION ||
+      data.durationMinutes > MAX_DURATION
+    ) {
+      errors.end = `Durasi harus ${MIN_DURATION}-${MAX_DURATION} menit`;
+    }
+    if (Object.keys(errors).length > 0) return invalidData(errors);
+
+    const rooms = db.rooms
+      .filter((room) => data.roomId === null || room.id === data.roomId)
+      .sort((a, b) => a.id - b.id);
+    const lecturerIds = [
+      ...supervisorIdsOf(data.studentId),
+      ...data.examinerIds,
+    ];
+    const first = toMinutes(SCHEDULE_START_TIME);
+    const last = toMinutes(SCHEDULE_END_TIME) - data.durationMinutes;
+    const suggestions: SeminarSuggestion[] = [];
+
+    // Dimulai besok agar semua pihak sempat bersiap; saran yang berurutan
+    // tidak saling bertumpuk supaya pilihannya lebih beragam
+    for (
+      let offset = 1;
+      offset <= SUGGESTION_DAYS && suggestions.length < MAX_SUGGESTIONS;
+      offset += 1
+    ) {
+      const day = addDays(new Date(), offset);
+      if (!isWorkingDay(day)) continue;
+      let minutes = first;
+      while (minutes <= last && suggestions.length < MAX_SUGGESTIONS) {
+        const start = new Date(day);
+        start.setHours(0, minutes, 0, 0);
+        const end = new Date(start.getTime() + data.durationMinutes * 60_000);
+        const room = rooms.find(
+          (item) =>
+            conflictsFor({
+              seminarId: data.seminarId,
+              studentId: data.studentId,
+              roomId: item.id,
+              start,
+              end,
+              lecturerIds,
+            }).length === 0
+        );
+        if (room) {
+          suggestions.push({
+            start: start.toISOString(),
+            end: end.toISOString(),
+            room: { id: room.id, name: room.name },
+          });
+          minutes += data.durationMinutes;
+        } else {
+          minutes += SCHEDULE_STEP_MINUTES;
+        }
+      }
+    }
+
+    return HttpResponse.json({ suggestions });
+  }),
+
+  http.post(apiUrl("/seminars/publish"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const { ids = [] } = (await request.json()) as PublishSeminarsRequest;
+    const drafts = db.seminars.filter(
+      (seminar) =>
+        ids.includes(seminar.id) &&
+        seminar.status === "DRAFT" &&
+        !isClosed(seminar)
+    );
+    if (drafts.length === 0) {
+      return errorResponse(
+        409,
+        "Tidak ada draf jadwal yang dapat diumumkan",
+        "NOTHING_TO_PUBLISH"
+      );
+    }
+
+    const now = new Date().toISOString();
+    drafts.forEach((seminar) => {
+      Object.assign(seminar, {
+        status: "PUBLISHED",
+        publishedAt: now,
+        updatedAt: now,
+      });
+      notifyParticipants(
+        seminar,
+        `${SEMINAR_TYPE_LABELS[seminar.type]} dijadwalkan`
+      );
+    });
+    publishSeminarChanged(...drafts);
+
+    return HttpResponse.json({
+      message: `${drafts.length} jadwal diumumkan`,
+      published: drafts.length,
+    });
+  }),
+
+  http.post(apiUrl("/seminars"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const data = (await request.json()) as SeminarRequest;
+    const { candidate, supervisorIds, error: invalid } = readSeminar(data);
+    if (invalid) return invalid;
+    if (duplicateOf(data)) {
+      return errorResponse(
+        409,
+        `${SEMINAR_TYPE_LABELS[data.type]} mahasiswa ini sudah dijadwalkan`,
+        "SEMINAR_EXISTS"
+      );
+    }
+    const conflicts = conflictsFor(candidate);
+    if (conflicts.length > 0) return conflictResponse(conflicts);
+
+    const now = new Date().toISOString();
+    const seminar: MockSeminar = {
+      id: nextSeminarId(),
+      type: data.type,
+      status: "DRAFT",
+      studentId: data.studentId,
+      roomId: data.roomId,
+      start: candidate.start.toISOString(),
+      end: candidate.end.toISOString(),
+      supervisorIds,
+      examinerIds: data.examinerIds,
+      publishedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.seminars.push(seminar);
+    publishSeminarChanged(seminar);
+
+    return HttpResponse.json(
+      { message: "Draf jadwal disimpan", seminar: toSeminar(seminar) },
+      { status: 201 }
+    );
+  }),
+
+  http.put(apiUrl("/seminars/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const seminar = db.seminars.find((item) => item.id === Number(params.id));
+    if (!seminar) return seminarNotFound();
+    if (isClosed(seminar)) return closedResponse();
+
+    const data = (await request.json()) as SeminarRequest;
+    const {
+      candidate,
+      supervisorIds,
+      error: invalid,
+    } = readSeminar(data, seminar.id);
+    if (invalid) return invalid;
+    if (duplicateOf(data, seminar.id)) {
+      return errorResponse(
+        409,
+        `${SEMINAR_TYPE_LABELS[data.type]} mahasiswa ini sudah dijadwalkan`,
+        "SEMINAR_EXISTS"
+      );
+    }
+    const conflicts = conflictsFor(candidate);
+    if (conflicts.length > 0) return conflictResponse(conflicts);
+
+    const previousIds = participantIdsOf(seminar);
+    Object.assign(seminar, {
+      type: data.type,
+      studentId: data.studentId,
+      roomId: data.roomId,
+      start: candidate.start.toISOString(),
+      end: candidate.end.toISOString(),
+      supervisorIds,
+      examinerIds: data.examinerIds,
+      updatedAt: new Date().toISOString(),
+    });
+    if (seminar.status === "PUBLISHED") {
+      const currentIds = participantIdsOf(seminar);
+      notifyParticipants(
+        seminar,
+        `Jadwal ${SEMINAR_TYPE_LABELS[seminar.type].toLowerCase()} diperbarui`,
+        previousIds.filter((id) => !currentIds.includes(id))
+      );
+      publish(previousIds, { type: "seminars.changed" });
+    }
+    publishSeminarChanged(seminar);
+
+    return HttpResponse.json({
+      message: "Jadwal diperbarui",
+      seminar: toSeminar(seminar),
+    });
+  }),
+
+  http.patch(apiUrl("/seminars/:id/move"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const seminar = db.seminars.find((item) => item.id === Number(params.id));
+    if (!seminar) return seminarNotFound();
+    if (isClosed(seminar)) return closedResponse();
+
+    const { start: value } = (await request.json()) as MoveSeminarRequest;
+    const start = new Date(value);
+    const end = new Date(
+      start.getTime() +
+        (new Date(seminar.end).getTime() - new Date(seminar.start).getTime())
+    );
+    const errors = timeErrors(start, end);
+    if (Object.keys(errors).length > 0) return invalidData(errors);
+    if (start.getTime() === new Date(seminar.start).getTime()) {
+      return invalidData({ start: "Pilih waktu yang berbeda" });
+    }
+
+    // Pembimbing diambil dari salinan jadwal, bukan susunan terbaru
+    const conflicts = conflictsFor({
+      seminarId: seminar.id,
+      studentId: seminar.studentId,
+      roomId: seminar.roomId,
+      start,
+      end,
+      lecturerIds: [...seminar.supervisorIds, ...seminar.examinerIds],
+    });
+    if (conflicts.length > 0) return conflictResponse(conflicts);
+
+    Object.assign(seminar, {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    if (seminar.status === "PUBLISHED") {
+      notifyParticipants(
+        seminar,
+        `Jadwal ${SEMINAR_TYPE_LABELS[seminar.type].toLowerCase()} dipindahkan`
+      );
+    }
+    publishSeminarChanged(seminar);
+
+    return HttpResponse.json({
+      message: "Jadwal dipindahkan",
+      seminar: toSeminar(seminar),
+    });
+  }),
+
+  http.delete(apiUrl("/seminars/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const seminar = db.seminars.find((item) => item.id === Number(params.id));
+    if (!seminar) return seminarNotFound();
+    if (isClosed(seminar)) return closedResponse();
+
+    db.seminars = db.seminars.filter((item) => item.id !== seminar.id);
+    if (seminar.status === "PUBLISHED") {
+      participantIdsOf(seminar).forEach((id) =>
+        pushNotification(id, {
+          type: "GENERAL",
+          title: `${SEMINAR_TYPE_LABELS[seminar.type]} dibatalkan`,
+          message: `${describeSeminar(seminar)} pada ${describeRange(seminar)} dibatalkan koordinator`,
+          link: seminarsPath(id),
+        })
+      );
+    }
+    publishSeminarChanged(seminar);
+
+    return HttpResponse.json({ message: "Jadwal dihapus" });
+  }),
+];
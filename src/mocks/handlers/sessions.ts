@@ -0,0 +1,112 @@
+import { delay, http, HttpResponse } from "msw";
+import { db, MockSession, updateSession } from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  requireSession,
+  serverErrorScenario,
+  unauthorized,
+} from "../utils";
+
+const LOGIN_HISTORY_LIMIT = 20;
+
+const activeSessionsOf = (userId: number) =>
+  db.sessions
+    .all()
+    .filter((session) => session.userId === userId && !session.revokedAt);
+
+const toSession = (session: MockSession, currentId: string) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  createdAt: session.createdAt,
+  lastActiveAt: session.lastActiveAt,
+  current: session.id === currentId,
+});
+
+export const sessionHandlers = [
+  http.get(apiUrl("/auth/sessions"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const current = requireSession(request);
+    if (!current) return unauthorized();
+
+    return HttpResponse.json({
+      sessions: activeSessionsOf(current.user.id)
+        .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt))
+        .map((session) => toSession(session, current.session.id)),
+    });
+  }),
+
+  http.delete(apiUrl("/auth/sessions/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const current = requireSession(request);
+    if (!current) return unauthorized();
+
+    const target = activeSessionsOf(current.user.id).find(
+      (session) => session.id === params.id
+    );
+    if (!target) {
+      return errorResponse(404, "Sesi tidak ditemukan", "SESSION_NOT_FOUND");
+    }
+
+    updateSession(target.id, { revokedAt: new Date().toISOString() });
+    publish(current.user.id, { type: "sessions.changed" });
+    return HttpResponse.json({
+      message: "Perangkat berhasil dikeluarkan",
+    });
+  }),
+
+  // Keluar dari semua perangkat kecuali perangkat yang sedang dipakai
+  http.delete(apiUrl("/auth/sessions"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const current = requireSession(request);
+    if (!current) return unauthorized();
+
+    const others = activeSessionsOf(current.user.id).filter(
+      (session) => session.id !== current.session.id
+    );
+    const revokedAt = new Date().toISOString();
+    others.forEach((session) => updateSession(session.id, { revokedAt }));
+    publish(current.user.id, { type: "sessions.changed" });
+
+    return HttpResponse.json({
+      message: `${others.length} perangkat lain berhasil dikeluarkan`,
+      revokedCount: others.length,
+    });
+  }),
+
+  http.get(apiUrl("/auth/login-history"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const current = requireSession(request);
+    if (!current) return unauthorized();
+
+    return HttpResponse.json({
+      attempts: db.loginAttempts
+        .all()
+        .filter((attempt) => attempt.email === current.user.email)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, LOGIN_HISTORY_LIMIT)
+        .map((attempt) => ({
+          id: attempt.id,
+          success: attempt.success,
+          reason: attempt.reason,
+          userAgent: attempt.userAgent,
+          ipAddress: attempt.ipAddress,
+          createdAt: attempt.createdAt,
+        })),
+    });
+  }),
+];
@@ -0,0 +1,343 @@
+import { delay, http, HttpResponse } from "msw";
+import {
+  SaveSupervisionsRequest,
+  SupervisionAssignment,
+  SupervisionSettingsRequest,
+  SupervisorPosition,
+} from "@/types/supervision";
+import {
+  db,
+  MockProposal,
+  MockSupervision,
+  MockUser,
+  isSupervisor,
+  pushNotification,
+  supervisorExpertise,
+  toUserOption,
+} from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  publishToCoordinators,
+  requireCoordinator,
+  serverErrorScenario,
+} from "../utils";
+
+const MAX_LOAD_LIMIT = 20;
+
+const POSITION_LABELS: Record<SupervisorPosition, string> = {
+  PRIMARY: "Pembimbing 1",
+  SECONDARY: "Pembimbing 2",
+};
+
+const supervisors = () =>
+  db.users
+    .filter(isSupervisor)
+    .sort((a, b) =>
+      (a.profile?.name ?? a.email).localeCompare(b.profile?.name ?? b.email)
+    );
+
+// Mahasiswa yang judulnya diterima dan masih aktif
+const acceptedProposals = () =>
+  db.proposals.filter(
+    (proposal) =>
+      proposal.status === "ACCEPTED" &&
+      db.users.some(
+        (user) => user.id === proposal.studentId && user.status === "ACTIVE"
+      )
+  );
+
+const supervisionOf = (studentId: number) =>
+  db.supervisions.find((item) => item.studentId === studentId);
+
+const ensureSupervision = (studentId: number, now: string) => {
+  const existing = supervisionOf(studentId);
+  if (existing) return existing;
+  const supervision: MockSupervision = {
+    studentId,
+    primaryId: null,
+    secondaryId: null,
+    assignedAt: now,
+  };
+  db.supervisions.push(supervision);
+  return supervision;
+};
+
+const loadCounts = () => {
+  const counts = new Map<number, number>();
+  db.supervisions.forEach((item) =>
+    [item.primaryId, item.secondaryId].forEach((id) => {
+      if (id !== null) counts.set(id, (counts.get(id) ?? 0) + 1);
+    })
+  );
+  return counts;
+};
+
+const toSupervisorLoad = (user: MockUser) => ({
+  id: user.id,
+  name: user.profile?.name ?? user.email,
+  expertise: supervisorExpertise(user.id),
+  primaryCount: db.supervisions.filter((item) => item.primaryId === user.id)
+    .length,
+  secondaryCount: db.supervisions.filter((item) => item.secondaryId === user.id)
+    .length,
+});
+
+const toSupervisedStudent = (proposal: MockProposal) => {
+  const student = db.users.find((user) => user.id === proposal.studentId);
+  const supervision = supervisionOf(proposal.studentId);
+  return {
+    studentId: proposal.studentId,
+    name: student?.profile?.name ?? student?.email ?? "-",
+    nim: student?.profile?.nim ?? null,
+    proposalTitle: proposal.title,
+    researchField: proposal.researchField,
+    preferredSupervisors: proposal.preferredSupervisorIds.flatMap((id) => {
+      const option = toUserOption(id);
+      return option ? [option] : [];
+    }),
+    primary: toUserOption(supervision?.primaryId ?? null),
+    secondary: toUserOption(supervision?.secondaryId ?? null),
+    assignedAt: supervision?.assignedAt ?? null,
+  };
+};
+
+// Saran seimbang: utamakan pilihan mahasiswa selama kuotanya masih ada,
+// lalu dosen sebidang dengan beban paling ringan
+const suggest = (): SupervisionAssignment[] => {
+  const { maxLoad } = db.supervisionSettings;
+  const counts = loadCounts();
+  const candidates = supervisors();
+  const loadOf = (id: number) => counts.get(id) ?? 0;
+  const lightest = (pool: MockUser[]) =>
+    [...pool].sort((a, b) => loadOf(a.id) - loadOf(b.id))[0]?.id ?? null;
+
+  const pick = (proposal: MockProposal, exclude: number | null) => {
+    const available = candidates.filter((user) => user.id !== exclude);
+    const preferred = proposal.preferredSupervisorIds.find(
+      (id) =>
+        id !== exclude &&
+        available.some((user) => user.id === id) &&
+        loadOf(id) < maxLoad
+    );
+    if (preferred !== undefined) return preferred;
+    const experts = available.filter(
+      (user) =>
+        proposal.researchField &&
+        supervisorExpertise(user.id).includes(proposal.researchField)
+    );
+    const underQuota = (pool: MockUser[]) =>
+      pool.filter((user) => loadOf(user.id) < maxLoad);
+    return (
+      lightest(underQuota(experts)) ??
+      lightest(underQuota(available)) ??
+      lightest(available)
+    );
+  };
+
+  return acceptedProposals()
+    .sort((a, b) => (a.submittedAt ?? "").localeCompare(b.submittedAt ?? ""))
+    .flatMap((proposal) => {
+      const current = supervisionOf(proposal.studentId);
+      if (current?.primaryId && current.secondaryId) return [];
+
+      const primaryId = current?.primaryId ?? pick(proposal, null);
+      if (primaryId !== null && !current?.primaryId) {
+        counts.set(primaryId, loadOf(primaryId) + 1);
+      }
+      const secondaryId = current?.secondaryId ?? pick(proposal, primaryId);
+      if (secondaryId !== null && !current?.secondaryId) {
+        counts.set(secondaryId, loadOf(secondaryId) + 1);
+      }
+      return [{ studentId: proposal.studentId, primaryId, secondaryId }];
+    });
+};
+
+const assignmentErrors = (assignments: SupervisionAssignment[]) => {
+  const accepted = acceptedProposals().map((proposal) => proposal.studentId);
+  const validSupervisor = (id: number | null) =>
+    id === null || supervisors().some((user) => user.id === id);
+  return assignments.flatMap((item) => {
+    if (!accepted.includes(item.studentId)) {
+      return ["Mahasiswa belum memiliki judul yang diterima"];
+    }
+    if (
+      !validSupervisor(item.primaryId) ||
+      !validSupervisor(item.secondaryId)
+    ) {
+      return ["Dosen pembimbing tidak valid"];
+    }
+    if (item.primaryId !== null && item.primaryId === item.secondaryId) {
+      return ["Pembimbing 1 dan pembimbing 2 harus berbeda"];
+    }
+    return [];
+  });
+};
+
+export const supervisionHandlers = [
+  http.get(apiUrl("/supervisions"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    return HttpResponse.json({
+      students: acceptedProposals()
+        .map(toSupervisedStudent)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      supervisors: supervisors().map(toSupervisorLoad),
+      maxLoad: db.supervisionSettings.maxLoad,
+    });
+  }),
+
+  http.post(apiUrl("/supervisions/suggestions"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    return HttpResponse.json({ assignments: suggest() });
+  }),
+
+  http.put(apiUrl("/supervisions"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireCoordinator(request);
+    if (error) return error;
+
+    const { assignments = [] } =
+      (await request.json()) as SaveSupervisionsRequest;
+    const [message] = assignmentErrors(assignments);
+    if (message) return errorResponse(400, message, "VALIDATION_ERROR");
+
+    const now = new Date().toISOString();
+    const affectedLecturers = new Set<number>();
+    let updatedCount = 0;
+
+    assignments.forEach((item) => {
+      const target = ensureSupervision(item.studentId, now);
+      const student = db.users.find((entry) => entry.id === item.studentId);
+      const studentName = student?.profile?.name ?? student?.email ?? "-";
+
+      const changes = (
+        [
+          ["PRIMARY", "primaryId", item.primaryId],
+          ["SECONDARY", "secondaryId", item.secondaryId],
+        ] as const
+      ).filter(([, field, next]) => target[field] !== next);
+      if (changes.length === 0) return;
+
+      changes.forEach(([position, field, next]) => {
+        const previous = target[field];
+        // Setiap pergantian dicatat untuk riwayat penetapan
+        db.supervisionChanges.unshift({
+          id: crypto.randomUUID(),
+          studentId: item.studentId,
+          position,
+          previousId: previous,
+          nextId: next,
+          changedById: user.id,
+          createdAt: now,
+        });
+        target[field] = next;
+
+        if (next !== null) {
+          affectedLecturers.add(next);
+          pushNotification(next, {
+            type: "SUPERVISOR_ASSIGNED",
+            title: "Mahasiswa bimbingan baru",
+            message: `${studentName} ditetapkan sebagai mahasiswa bimbingan Anda (${POSITION_LABELS[position]})`,
+            link: null,
+          });
+        }
+        if (previous !== null) {
+          affectedLecturers.add(previous);
+          pushNotification(previous, {
+            type: "GENERAL",
+            title: "Penugasan bimbingan diubah",
+            message: `Anda tidak lagi menjadi ${POSITION_LABELS[position]} untuk ${studentName}`,
+            link: null,
+          });
+        }
+      });
+
+      target.assignedAt = now;
+      updatedCount += 1;
+      const names = [target.primaryId, target.secondaryId]
+        .map((id) => toUserOption(id)?.name)
+        .filter(Boolean)
+        .join(" dan ");
+      pushNotification(item.studentId, {
+        type: "SUPERVISOR_ASSIGNED",
+        title: "Dosen pembimbing ditetapkan",
+        message: names
+          ? `${names} ditetapkan sebagai dosen pembimbing Anda`
+          : "Penetapan dosen pembimbing Anda dibatalkan",
+        link: "/student/proposal",
+      });
+    });
+
+    publish([...affectedLecturers], { type: "supervisions.changed" });
+    publishToCoordinators({ type: "supervisions.changed" });
+
+    return HttpResponse.json({
+      message:
+        updatedCount > 0
+          ? `Pembimbing untuk ${updatedCount} mahasiswa berhasil disimpan`
+          : "Tidak ada perubahan penetapan",
+      updatedCount,
+    });
+  }),
+
+  http.put(apiUrl("/supervisions/settings"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const { maxLoad } = (await request.json()) as SupervisionSettingsRequest;
+    if (!Number.isInteger(maxLoad) || maxLoad < 1 || maxLoad > MAX_LOAD_LIMIT) {
+      return errorResponse(400, "Data tidak valid", "VALIDATION_ERROR", {
+        maxLoad: `Kuota bimbingan harus antara 1 dan ${MAX_LOAD_LIMIT}`,
+      });
+    }
+
+    db.supervisionSettings = { maxLoad };
+    publishToCoordinators({ type: "supervisions.changed" });
+
+    return HttpResponse.json({
+      message: "Kuota bimbingan diperbarui",
+      maxLoad,
+    });
+  }),
+
+  http.get(apiUrl("/supervisions/history"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    return HttpResponse.json({
+      changes: db.supervisionChanges.slice(0, 50).map((change) => ({
+        id: change.id,
+        student: toUserOption(change.studentId),
+        position: change.position,
+        previous: toUserOption(change.previousId),
+        next: toUserOption(change.nextId),
+        changedBy: toUserOption(change.changedById)?.name ?? "-",
+        createdAt: change.createdAt,
+      })),
+    });
+  }),
+];
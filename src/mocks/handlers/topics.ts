@@ -0,0 +1,557 @@
+import { delay, http, HttpResponse } from "msw";
+import { researchFieldSchema, ResearchField } from "@/types/proposals";
+import {
+  ApplyTopicRequest,
+  TopicApplicationDecision,
+  TopicRequest,
+} from "@/types/topics";
+import {
+  db,
+  MockTopic,
+  MockTopicApplication,
+  nextProposalId,
+  nextTopicApplicationId,
+  nextTopicId,
+  pushNotification,
+  toTopic,
+  toTopicApplication,
+} from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  requireRole,
+  serverErrorScenario,
+} from "../utils";
+
+const DEFAULT_PAGE_SIZE = 6;
+const MAX_QUOTA = 10;
+const MAX_SKILLS = 10;
+const MOTIVATION_MIN_LENGTH = 50;
+const MOTIVATION_MAX_LENGTH = 1000;
+// Mahasiswa tidak boleh melamar ke terlalu banyak topik sekaligus
+const MAX_PENDING_APPLICATIONS = 3;
+// Pengajuan judul yang sudah berjalan tidak bisa ditimpa oleh topik dosen
+const LOCKED_PROPOSAL_STATUSES = [
+  "SUBMITTED",
+  "REVISION_REQUESTED",
+  "ACCEPTED",
+];
+
+const topicNotFound = () =>
+  errorResponse(404, "Topik tidak ditemukan", "TOPIC_NOT_FOUND");
+
+const topicFull = () =>
+  errorResponse(409, "Kuota topik ini sudah penuh", "TOPIC_FULL");
+
+const applicationsOf = (topicId: number) =>
+  db.topicApplications.filter((application) => application.topicId === topicId);
+
+const acceptedCount = (topicId: number) =>
+  applicationsOf(topicId).filter((item) => item.status === "ACCEPTED").length;
+
+const findOwnTopic = (lecturerId: number, id: unknown) =>
+  db.topics.find(
+    (topic) => topic.id === Number(id) && topic.lecturerId === lecturerId
+  );
+
+// Topik dari dosen yang dinonaktifkan tidak ditampilkan ke mahasiswa
+const isVisible = (topic: MockTopic) =>
+  db.users.some(
+    (user) => user.id === topic.lecturerId && user.status === "ACTIVE"
+  );
+
+const lecturerName = (topic: MockTopic) => {
+  const lecturer = db.users.find((user) => user.id === topic.lecturerId);
+  return lecturer?.profile?.name ?? "";
+};
+
+const matchesSearch = (topic: MockTopic, search: string) =>
+  [
+    topic.title,
+    topic.description,
+    lecturerName(topic),
+    ...topic.requiredSkills,
+  ].some((value) => value.toLowerCase().includes(search));
+
+const activeStudentIds = () =>
+  db.users
+    .filter((user) => user.role === "STUDENT" && user.status === "ACTIVE")
+    .map((user) => user.id);
+
+// Perubahan topik terlihat di papan topik semua mahasiswa
+const publishTopicsChanged = (lecturerId: number) =>
+  publish([lecturerId, ...activeStudentIds()], { type: "topics.changed" });
+
+const topicErrors = (data: TopicRequest, minimumQuota: number) => {
+  const errors: Record<string, string> = {};
+  const title = data.title?.trim() ?? "";
+  const description = data.description?.trim() ?? "";
+  if (title.length < 10 || title.length > 200) {
+    errors.title = "Judul topik harus 10-200 karakter";
+  }
+  if (description.length < 50 || description.length > 3000) {
+    errors.description = "Deskripsi topik harus 50-3000 karakter";
+  }
+  if (
+    !Number.isInteger(data.quota) ||
+    data.quota < 1 ||
+    data.quota > MAX_QUOTA
+  ) {
+    errors.quota = `Kuota harus antara 1 dan ${MAX_QUOTA}`;
+  } else if (data.quota < minimumQuota) {
+    errors.quota = `Kuota tidak boleh kurang dari ${minimumQuota} mahasiswa yang sudah diterima`;
+  }
+  if ((data.requiredSkills ?? []).length > MAX_SKILLS) {
+    errors.requiredSkills = `Maksimal ${MAX_SKILLS} keahlian`;
+  }
+  if (!researchFieldSchema.safeParse(data.researchField).success) {
+    errors.researchField = "Bidang penelitian wajib dipilih";
+  }
+  return errors;
+};
+
+const applyTopicRequest = (topic: MockTopic, data: TopicRequest) => {
+  topic.title = data.title.trim();
+  topic.description = data.description.trim();
+  topic.quota = data.quota;
+  topic.requiredSkills = (data.requiredSkills ?? [])
+    .map((skill) => skill.trim())
+    .filter(Boolean);
+  topic.researchField = data.researchField;
+  topic.updatedAt = new Date().toISOString();
+};
+
+// Lamaran yang diterima menjadi draf pengajuan judul untuk mahasiswa; draf
+// lama yang belum diajukan diganti dengan data topik
+const createProposalDraft = (studentId: number, topic: MockTopic) => {
+  const now = new Date().toISOString();
+  const draft = db.proposals.find(
+    (proposal) =>
+      proposal.studentId === studentId && proposal.status === "DRAFT"
+  );
+  const data = {
+    title: topic.title,
+    abstract: "",
+    researchField: topic.researchField,
+    location: "",
+    preferredSupervisorIds: [topic.lecturerId],
+    updatedAt: now,
+  };
+  if (draft) {
+    Object.assign(draft, data);
+    return;
+  }
+  db.proposals.push({
+    ...data,
+    id: nextProposalId(),
+    studentId,
+    status: "DRAFT",
+    comments: [],
+    submittedAt: null,
+    createdAt: now,
+  });
+};
+
+const decline = (application: MockTopicApplication, reason: string) => {
+  const topic = db.topics.find((item) => item.id === application.topicId);
+  application.status = "DECLINED";
+  application.decidedAt = new Date().toISOString();
+  pushNotification(application.studentId, {
+    type: "SUBMISSION_REJECTED",
+    title: "Lamaran topik ditolak",
+    message: `${reason}: "${topic?.title ?? "-"}"`,
+    link: "/student/topics",
+  });
+  publish(application.studentId, { type: "topics.changed" });
+};
+
+export const topicHandlers = [
+  http.get(apiUrl("/topics"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(
+      request,
+      "STUDENT",
+      "LECTURER",
+      "COORDINATOR"
+    );
+    if (error) return error;
+
+    const params = new URL(request.url).searchParams;
+    const search = params.get("search")?.trim().toLowerCase() ?? "";
+    const researchField = params.get("researchField") as ResearchField | null;
+    const availableOnly = params.get("availableOnly") === "true";
+    const pageSize = Number(params.get("pageSize")) || DEFAULT_PAGE_SIZE;
+
+    const filtered = db.topics
+      .filter(isVisible)
+      .filter(
+        (topic) => !researchField || topic.researchField === researchField
+      )
+      .filter(
+        (topic) => !availableOnly || acceptedCount(topic.id) < topic.quota
+      )
+      .filter((topic) => !search || matchesSearch(topic, search))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
+    const page = Math.min(
+      totalPages,
+      Math.max(1, Number(params.get("page")) || 1)
+    );
+
+    return HttpResponse.json({
+      topics: filtered
+        .slice((page - 1) * pageSize, page * pageSize)
+        .map((topic) => toTopic(topic, user.id)),
+      pagination: { page, pageSize, total: filtered.length, totalPages },
+    });
+  }),
+
+  http.get(apiUrl("/topics/mine"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER");
+    if (error) return error;
+
+    return HttpResponse.json({
+      topics: db.topics
+        .filter((topic) => topic.lecturerId === user.id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map((topic) => toTopic(topic)),
+    });
+  }),
+
+  http.post(apiUrl("/topics"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER");
+    if (error) return error;
+
+    const data = (await request.json()) as TopicRequest;
+    const errors = topicErrors(data, 0);
+    if (Object.keys(errors).length > 0) {
+      return errorResponse(
+        400,
+        "Data topik tidak valid",
+        "VALIDATION_ERROR",
+        errors
+      );
+    }
+
+    const now = new Date().toISOString();
+    const topic: MockTopic = {
+      id: nextTopicId(),
+      lecturerId: user.id,
+      title: "",
+      description: "",
+      quota: 1,
+      requiredSkills: [],
+      researchField: data.researchField,
+      createdAt: now,
+      updatedAt: now,
+    };
+    applyTopicRequest(topic, data);
+    db.topics.push(topic);
+    publishTopicsChanged(user.id);
+
+    return HttpResponse.json(
+      { message: "Topik berhasil dipublikasikan", topic: toTopic(topic) },
+      { status: 201 }
+    );
+  }),
+
+  http.put(apiUrl("/topics/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER");
+    if (error) return error;
+    const topic = findOwnTopic(user.id, params.id);
+    if (!topic) return topicNotFound();
+
+    const data = (await request.json()) as TopicRequest;
+    const errors = topicErrors(data, acceptedCount(topic.id));
+    if (Object.keys(errors).length > 0) {
+      return errorResponse(
+        400,
+        "Data topik tidak valid",
+        "VALIDATION_ERROR",
+        errors
+      );
+    }
+
+    applyTopicRequest(topic, data);
+    publishTopicsChanged(user.id);
+
+    return HttpResponse.json({
+      message: "Topik berhasil diperbarui",
+      topic: toTopic(topic),
+    });
+  }),
+
+  http.delete(apiUrl("/topics/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER");
+    if (error) return error;
+    const topic = findOwnTopic(user.id, params.id);
+    if (!topic) return topicNotFound();
+    if (acceptedCount(topic.id) > 0) {
+      return errorResponse(
+        409,
+        "Topik yang sudah memiliki mahasiswa diterima tidak dapat dihapus",
+        "TOPIC_HAS_ACCEPTED"
+      );
+    }
+
+    applicationsOf(topic.id)
+      .filter((application) => application.status === "PENDING")
+      .forEach((application) => decline(application, "Topik ditutup dosen"));
+    db.topicApplications = db.topicApplications.filter(
+      (application) => application.topicId !== topic.id
+    );
+    db.topics = db.topics.filter((item) => item.id !== topic.id);
+    publishTopicsChanged(user.id);
+
+    return HttpResponse.json({ message: "Topik berhasil dihapus" });
+  }),
+
+  http.get(apiUrl("/topics/:id/applications"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER");
+    if (error) return error;
+    const topic = findOwnTopic(user.id, params.id);
+    if (!topic) return topicNotFound();
+
+    // Lamaran yang belum diputuskan ditampilkan lebih dulu
+    const applications = applicationsOf(topic.id).sort(
+      (a, b) =>
+        Number(b.status === "PENDING") - Number(a.status === "PENDING") ||
+        b.createdAt.localeCompare(a.createdAt)
+    );
+    return HttpResponse.json({
+      applications: applications.map(toTopicApplication),
+    });
+  }),
+
+  http.post(apiUrl("/topics/:id/applications"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+    const topic = db.topics.find((item) => item.id === Number(params.id));
+    if (!topic || !isVisible(topic)) return topicNotFound();
+    if (acceptedCount(topic.id) >= topic.quota) return topicFull();
+
+    const mine = db.topicApplications.filter(
+      (application) => application.studentId === user.id
+    );
+    if (mine.some((application) => application.status === "ACCEPTED")) {
+      return errorResponse(
+        409,
+        "Anda sudah diterima di salah satu topik",
+        "TOPIC_ALREADY_ACCEPTED"
+      );
+    }
+    // Lamaran yang sudah ditolak tidak bisa dikirim ulang ke topik yang sama
+    if (mine.some((application) => application.topicId === topic.id)) {
+      return errorResponse(
+        409,
+        "Anda sudah melamar topik ini",
+        "ALREADY_APPLIED"
+      );
+    }
+    if (
+      mine.filter((application) => application.status === "PENDING").length >=
+      MAX_PENDING_APPLICATIONS
+    ) {
+      return errorResponse(
+        409,
+        `Anda hanya bisa memiliki ${MAX_PENDING_APPLICATIONS} lamaran yang menunggu keputusan`,
+        "TOO_MANY_APPLICATIONS"
+      );
+    }
+    if (
+      db.proposals.some(
+        (proposal) =>
+          proposal.studentId === user.id &&
+          LOCKED_PROPOSAL_STATUSES.includes(proposal.status)
+      )
+    ) {
+      return errorResponse(
+        409,
+        "Anda sudah memiliki pengajuan judul yang sedang berjalan",
+        "PROPOSAL_EXISTS"
+      );
+    }
+
+    const { motivation = "" } = (await request.json()) as ApplyTopicRequest;
+    const trimmed = motivation.trim();
+    if (
+      trimmed.length < MOTIVATION_MIN_LENGTH ||
+      trimmed.length > MOTIVATION_MAX_LENGTH
+    ) {
+      return errorResponse(
+        400,
+        "Data lamaran tidak valid",
+        "VALIDATION_ERROR",
+        {
+          motivation: `Surat motivasi harus ${MOTIVATION_MIN_LENGTH}-${MOTIVATION_MAX_LENGTH} karakter`,
+        }
+      );
+    }
+
+    const application: MockTopicApplication = {
+      id: nextTopicApplicationId(),
+      topicId: topic.id,
+      studentId: user.id,
+      motivation: trimmed,
+      status: "PENDING",
+      createdAt: new Date().toISOString(),
+      decidedAt: null,
+    };
+    db.topicApplications.push(application);
+
+    pushNotification(topic.lecturerId, {
+      type: "GENERAL",
+      title: "Lamaran topik baru",
+      message: `${user.profile?.name ?? user.email} melamar "${topic.title}"`,
+      link: "/lecturer/topics",
+    });
+    publish([topic.lecturerId, user.id], { type: "topics.changed" });
+
+    return HttpResponse.json(
+      {
+        message: "Lamaran berhasil dikirim",
+        application: toTopicApplication(application),
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.get(apiUrl("/topic-applications/mine"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "STUDENT");
+    if (error) return error;
+
+    return HttpResponse.json({
+      applications: db.topicApplications
+        .filter((application) => application.studentId === user.id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(toTopicApplication),
+    });
+  }),
+
+  http.patch(apiUrl("/topic-applications/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireRole(request, "LECTURER");
+    if (error) return error;
+    const application = db.topicApplications.find(
+      (item) => item.id === Number(params.id)
+    );
+    const topic = application && findOwnTopic(user.id, application.topicId);
+    if (!application || !topic) {
+      return errorResponse(
+        404,
+        "Lamaran tidak ditemukan",
+        "APPLICATION_NOT_FOUND"
+      );
+    }
+    if (application.status !== "PENDING") {
+      return errorResponse(
+        409,
+        "Lamaran ini sudah diputuskan",
+        "APPLICATION_DECIDED"
+      );
+    }
+
+    const { status } = (await request.json()) as {
+      status: TopicApplicationDecision;
+    };
+    if (status === "DECLINED") {
+      decline(application, "Dosen menolak lamaran Anda untuk topik");
+      publish(user.id, { type: "topics.changed" });
+      return HttpResponse.json({
+        message: "Lamaran ditolak",
+        application: toTopicApplication(application),
+      });
+    }
+    if (status !== "ACCEPTED") {
+      return errorResponse(400, "Keputusan tidak dikenal", "VALIDATION_ERROR");
+    }
+
+    if (acceptedCount(topic.id) >= topic.quota) return topicFull();
+    if (
+      db.proposals.some(
+        (proposal) =>
+          proposal.studentId === application.studentId &&
+          LOCKED_PROPOSAL_STATUSES.includes(proposal.status)
+      )
+    ) {
+      return errorResponse(
+        409,
+        "Mahasiswa ini sudah memiliki pengajuan judul yang sedang berjalan",
+        "STUDENT_HAS_PROPOSAL"
+      );
+    }
+
+    application.status = "ACCEPTED";
+    application.decidedAt = new Date().toISOString();
+    createProposalDraft(application.studentId, topic);
+    pushNotification(application.studentId, {
+      type: "SUBMISSION_APPROVED",
+      title: "Lamaran topik diterima",
+      message: `Lamaran Anda untuk "${topic.title}" diterima dan draf pengajuan judul sudah dibuat`,
+      link: "/student/proposal",
+    });
+
+    // Mahasiswa hanya mengambil satu topik, lamaran lainnya dibatalkan
+    const others = db.topicApplications.filter(
+      (item) =>
+        item.studentId === application.studentId && item.status === "PENDING"
+    );
+    others.forEach((item) => {
+      item.status = "DECLINED";
+      item.decidedAt = application.decidedAt;
+      const otherTopic = db.topics.find((entry) => entry.id === item.topicId);
+      if (otherTopic)
+        publish(otherTopic.lecturerId, { type: "topics.changed" });
+    });
+
+    // Kuota penuh: pelamar lain yang masih menunggu langsung diberi kabar
+    if (acceptedCount(topic.id) >= topic.quota) {
+      applicationsOf(topic.id)
+        .filter((item) => item.status === "PENDING")
+        .forEach((item) => decline(item, "Kuota topik sudah penuh"));
+    }
+
+    publish(application.studentId, { type: "proposals.changed" });
+    publishTopicsChanged(user.id);
+
+    return HttpResponse.json({
+      message: "Lamaran diterima, draf pengajuan judul dibuat untuk mahasiswa",
+      application: toTopicApplication(application),
+    });
+  }),
+];
@@ -0,0 +1,158 @@
+import { delay, http, HttpResponse } from "msw";
+import { twoFactorRoleSchema, TwoFactorRole } from "@/types/twoFactor";
+import { db, toPublicUser, twoFactorRequiredFor } from "../db";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  totpUrl,
+  verifyTotp,
+} from "../totp";
+import {
+  apiUrl,
+  checkTwoFactorCode,
+  errorResponse,
+  requireCoordinator,
+  requireUser,
+  serverErrorScenario,
+  unauthorized,
+} from "../utils";
+
+const TWO_FACTOR_ROLES: string[] = twoFactorRoleSchema.options;
+
+const invalidCode = () =>
+  errorResponse(400, "Kode verifikasi tidak valid", "INVALID_TWO_FACTOR_CODE", {
+    code: "Kode verifikasi tidak valid",
+  });
+
+export const twoFactorHandlers = [
+  http.post(apiUrl("/auth/2fa/setup"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+    if (!TWO_FACTOR_ROLES.includes(user.role)) {
+      return errorResponse(
+        403,
+        "Verifikasi dua langkah tidak tersedia untuk akun ini",
+        "TWO_FACTOR_UNAVAILABLE"
+      );
+    }
+    if (user.twoFactor?.enabled) {
+      return errorResponse(
+        409,
+        "Verifikasi dua langkah sudah aktif",
+        "TWO_FACTOR_ALREADY_ENABLED"
+      );
+    }
+
+    // Setup ulang sebelum konfirmasi mengganti secret yang lama
+    user.twoFactor = {
+      secret: generateTotpSecret(),
+      enabled: false,
+      recoveryCodes: generateRecoveryCodes(),
+    };
+    return HttpResponse.json({
+      secret: user.twoFactor.secret,
+      otpauthUrl: totpUrl(user.twoFactor.secret, user.email),
+      recoveryCodes: user.twoFactor.recoveryCodes,
+    });
+  }),
+
+  http.post(apiUrl("/auth/2fa/confirm"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+    if (!user.twoFactor || user.twoFactor.enabled) {
+      return errorResponse(
+        409,
+        "Mulai ulang pengaturan verifikasi dua langkah",
+        "TWO_FACTOR_SETUP_MISSING"
+      );
+    }
+
+    const { code } = (await request.json()) as { code: string };
+    if (!(await verifyTotp(user.twoFactor.secret, code.trim()))) {
+      return invalidCode();
+    }
+
+    user.twoFactor.enabled = true;
+    return HttpResponse.json({
+      message: "Verifikasi dua langkah berhasil diaktifkan",
+      user: toPublicUser(user),
+    });
+  }),
+
+  http.post(apiUrl("/auth/2fa/disable"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const user = requireUser(request);
+    if (!user) return unauthorized();
+    if (twoFactorRequiredFor(user)) {
+      return errorResponse(
+        409,
+        "Verifikasi dua langkah diwajibkan untuk role Anda",
+        "TWO_FACTOR_REQUIRED"
+      );
+    }
+
+    const { currentPassword, code } = (await request.json()) as {
+      currentPassword: string;
+      code: string;
+    };
+    if (user.password !== currentPassword) {
+      return errorResponse(
+        400,
+        "Kata sandi saat ini salah",
+        "INVALID_CURRENT_PASSWORD",
+        { currentPassword: "Kata sandi saat ini salah" }
+      );
+    }
+    if (!(await checkTwoFactorCode(user, code))) return invalidCode();
+
+    user.twoFactor = undefined;
+    return HttpResponse.json({
+      message: "Verifikasi dua langkah dinonaktifkan",
+      user: toPublicUser(user),
+    });
+  }),
+
+  http.get(apiUrl("/auth/2fa/policy"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    return HttpResponse.json({ policy: db.twoFactorPolicy });
+  }),
+
+  http.put(apiUrl("/auth/2fa/policy"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+
+    const { requiredRoles } = (await request.json()) as {
+      requiredRoles: TwoFactorRole[];
+    };
+    db.twoFactorPolicy = {
+      requiredRoles: requiredRoles.filter((role) =>
+        TWO_FACTOR_ROLES.includes(role)
+      ),
+    };
+    return HttpResponse.json({
+      message: "Kebijakan verifikasi dua langkah disimpan",
+      policy: db.twoFactorPolicy,
+    });
+  }),
+];
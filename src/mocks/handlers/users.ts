@@ -0,0 +1,191 @@
+import { delay, http, HttpResponse } from "msw";
+import { Role } from "@/types/auth";
+import { UserStatus } from "@/types/users";
+import {
+  db,
+  MOCK_OTP,
+  MockUser,
+  createSessionExpiry,
+  toManagedUser,
+} from "../db";
+import { publish } from "../realtime";
+import {
+  apiUrl,
+  errorResponse,
+  publishToCoordinators,
+  requireCoordinator,
+  serverErrorScenario,
+} from "../utils";
+
+const DEFAULT_PAGE_SIZE = 10;
+
+const findTarget = (id: unknown) =>
+  db.users.find((user) => user.id === Number(id));
+
+const userNotFound = () =>
+  errorResponse(404, "Pengguna tidak ditemukan", "USER_NOT_FOUND");
+
+const matchesSearch = (user: MockUser, search: string) =>
+  [user.email, user.profile?.name, user.profile?.nim, user.profile?.nip].some(
+    (value) => value?.toLowerCase().includes(search)
+  );
+
+export const usersHandlers = [
+  http.get(apiUrl("/users"), async ({ request }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { user, error } = requireCoordinator(request);
+    if (error) return error;
+
+    const params = new URL(request.url).searchParams;
+    const search = params.get("search")?.trim().toLowerCase() ?? "";
+    const role = params.get("role") as Role | null;
+    const status = params.get("status") as UserStatus | null;
+    const pageSize = Number(params.get("pageSize")) || DEFAULT_PAGE_SIZE;
+
+    const filtered = db.users
+      .filter((item) => item.id !== user.id)
+      .filter((item) => !role || item.role === role)
+      .filter((item) => !status || item.status === status)
+      .filter((item) => !search || matchesSearch(item, search))
+      .sort((a, b) =>
+        (a.profile?.name ?? a.email).localeCompare(b.profile?.name ?? b.email)
+      );
+    const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
+    const page = Math.min(
+      totalPages,
+      Math.max(1, Number(params.get("page")) || 1)
+    );
+
+    return HttpResponse.json({
+      users: filtered
+        .slice((page - 1) * pageSize, page * pageSize)
+        .map(toManagedUser),
+      pagination: { page, pageSize, total: filtered.length, totalPages },
+    });
+  }),
+
+  http.patch(apiUrl("/users/:id"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const target = findTarget(params.id);
+    if (!target) return userNotFound();
+
+    const data = (await request.json()) as {
+      name: string;
+      nim?: string;
+      nip?: string;
+      phoneNumber: string;
+    };
+    const identity = target.role === "STUDENT" ? data.nim : data.nip;
+    const duplicate = db.users.find(
+      (user) =>
+        user.id !== target.id &&
+        !!identity &&
+        (user.profile?.nim === identity || user.profile?.nip === identity)
+    );
+    if (duplicate) {
+      const field = target.role === "STUDENT" ? "nim" : "nip";
+      return errorResponse(
+        409,
+        "Nomor identitas sudah dipakai pengguna lain",
+        "IDENTITY_ALREADY_USED",
+        { [field]: "Nomor identitas sudah dipakai pengguna lain" }
+      );
+    }
+
+    const isStudent = target.role === "STUDENT";
+    target.profile = {
+      ...target.profile,
+      name: data.name,
+      phoneNumber: data.phoneNumber,
+      nim: isStudent ? data.nim || undefined : undefined,
+      nip: isStudent ? undefined : data.nip || undefined,
+    };
+    publishToCoordinators({ type: "users.changed" });
+    return HttpResponse.json({
+      message: "Data pengguna berhasil diperbarui",
+      user: toManagedUser(target),
+    });
+  }),
+
+  http.patch(apiUrl("/users/:id/status"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const target = findTarget(params.id);
+    if (!target) return userNotFound();
+
+    const { status } = (await request.json()) as { status: UserStatus };
+    target.status = status;
+    publishToCoordinators({ type: "users.changed" });
+    // Stream akun yang dinonaktifkan ikut terputus saat menerima event ini
+    publish(target.id, { type: "sessions.changed" });
+    return HttpResponse.json({
+      message:
+        status === "ACTIVE"
+          ? "Akun berhasil diaktifkan"
+          : "Akun berhasil dinonaktifkan",
+      user: toManagedUser(target),
+    });
+  }),
+
+  http.post(
+    apiUrl("/users/:id/reset-password"),
+    async ({ request, params }) => {
+      await delay();
+      const failure = serverErrorScenario();
+      if (failure) return failure;
+
+      const { error } = requireCoordinator(request);
+      if (error) return error;
+      const target = findTarget(params.id);
+      if (!target) return userNotFound();
+
+      // Pengguna melanjutkan lewat alur lupa kata sandi dengan kode ini
+      db.passwordResets.set(target.email, {
+        code: MOCK_OTP,
+        resetToken: null,
+        expiresAt: createSessionExpiry(),
+      });
+      console.info(`[mock] OTP atur ulang untuk ${target.email}: ${MOCK_OTP}`);
+      return HttpResponse.json({
+        message: `Tautan atur ulang kata sandi telah dikirim ke ${target.email}`,
+      });
+    }
+  ),
+
+  http.post(apiUrl("/users/:id/promote"), async ({ request, params }) => {
+    await delay();
+    const failure = serverErrorScenario();
+    if (failure) return failure;
+
+    const { error } = requireCoordinator(request);
+    if (error) return error;
+    const target = findTarget(params.id);
+    if (!target) return userNotFound();
+    if (target.role !== "LECTURER") {
+      return errorResponse(
+        400,
+        "Hanya dosen yang dapat dijadikan koordinator",
+        "INVALID_ROLE"
+      );
+    }
+
+    target.role = "COORDINATOR";
+    publishToCoordinators({ type: "users.changed" });
+    return HttpResponse.json({
+      message: "Dosen berhasil dijadikan koordinator",
+      user: toManagedUser(target),
+    });
+  }),
+];
@@ -0,0 +1,8 @@
+import { setupServer } from "msw/node";
+import { handlers } from "./handlers";
+
+// Mock untuk lingkungan Node: server.listen() sebelum request dikirim,
+// resetDb() untuk mengembalikan data awal dan mematikan skenario error
+export const server = setupServer(...handlers);
+
+export { resetDb, setMockScenario } from "./db";
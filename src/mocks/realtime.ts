@@ -0,0 +1,41 @@
+import { RealtimeEvent } from "@/types/events";
+
+type Listener = (event: RealtimeEvent) => void;
+
+interface BroadcastMessage {
+  userId: number;
+  event: RealtimeEvent;
+}
+
+const listeners = new Map<number, Set<Listener>>();
+
+// Handler MSW berjalan di tiap tab, jadi event diteruskan ke tab lain lewat
+// BroadcastChannel agar perubahan dari satu tab sampai ke tab lainnya
+const channel =
+  typeof window !== "undefined" && typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel("mock:realtime")
+    : null;
+
+const deliver = ({ userId, event }: BroadcastMessage) => {
+  listeners.get(userId)?.forEach((listener) => listener(event));
+};
+
+channel?.addEventListener("message", (message: MessageEvent) =>
+  deliver(message.data as BroadcastMessage)
+);
+
+export const subscribe = (userId: number, listener: Listener) => {
+  const userListeners = listeners.get(userId) ?? new Set<Listener>();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+  return () => {
+    userListeners.delete(listener);
+  };
+};
+
+export const publish = (userIds: number | number[], event: RealtimeEvent) => {
+  [userIds].flat().forEach((userId) => {
+    deliver({ userId, event });
+    channel?.postMessage({ userId, event } satisfies BroadcastMessage);
+  });
+};
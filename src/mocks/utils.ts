@@ -0,0 +1,147 @@
+import { HttpResponse } from "msw";
+import { addDays } from "@/lib/appointments";
+import { env } from "@/lib/env";
+import { parseDateValue } from "@/lib/logbook";
+import { Role } from "@/types/auth";
+import { RealtimeEvent } from "@/types/events";
+import {
+  MockUser,
+  activeCoordinatorIds,
+  findActiveUser,
+  findSessionByToken,
+  getMockScenario,
+  nextUserId,
+  updateSession,
+} from "./db";
+import { publish } from "./realtime";
+import { verifyTotp } from "./totp";
+
+export const apiUrl = (path: string) => `${env.apiUrl}${path}`;
+
+export const errorResponse = (
+  status: number,
+  error: string,
+  code: string,
+  errors?: Record<string, string>
+) => HttpResponse.json({ error, code, errors }, { status });
+
+// Skenario "server-error" membuat semua endpoint gagal dengan 500
+export const serverErrorScenario = () =>
+  getMockScenario() === "server-error"
+    ? errorResponse(500, "Terjadi kesalahan pada server (mock)", "SERVER_ERROR")
+    : null;
+
+// Sesi dan pemiliknya dari header Authorization; waktu aktif terakhir ikut
+// diperbarui agar daftar sesi menunjukkan kapan perangkat terakhir dipakai
+export const requireSession = (request: Request) => {
+  const session = findSessionByToken(request.headers.get("Authorization"));
+  const user = session && findActiveUser(session.userId);
+  if (!session || !user) return undefined;
+
+  updateSession(session.id, { lastActiveAt: new Date().toISOString() });
+  return { session, user };
+};
+
+export const requireUser = (request: Request) => requireSession(request)?.user;
+
+// Browser tidak mengirim User-Agent lewat fetch yang dicegat MSW
+export const clientInfo = (request: Request) => ({
+  userAgent:
+    request.headers.get("User-Agent") ??
+    (typeof navigator !== "undefined" ? navigator.userAgent : "Unknown"),
+  ipAddress: "127.0.0.1",
+});
+
+export const unauthorized = () =>
+  errorResponse(401, "Sesi tidak valid", "UNAUTHORIZED");
+
+export const forbidden = () =>
+  errorResponse(403, "Anda tidak memiliki akses ke fitur ini", "FORBIDDEN");
+
+// Endpoint khusus role tertentu: mengembalikan user atau response error yang
+// siap dikirim
+export const requireRole = (request: Request, ...roles: Role[]) => {
+  const user = requireUser(request);
+  if (!user) return { error: unauthorized() };
+  if (!roles.includes(user.role)) return { error: forbidden() };
+  return { user };
+};
+
+export const requireCoordinator = (request: Request) =>
+  requireRole(request, "COORDINATOR");
+
+// Event untuk semua koordinator aktif, misalnya saat daftar pengguna berubah
+export const publishToCoordinators = (event: RealtimeEvent) =>
+  publish(activeCoordinatorIds(), event);
+
+// Akun baru dari form pendaftaran (mandiri maupun lewat undangan)
+export const createUserFromForm = (
+  formData: FormData,
+  email: string,
+  role: Role
+): MockUser => {
+  const picture = formData.get("profilePicture");
+  return {
+    id: nextUserId(),
+    email,
+    role,
+    password: String(formData.get("password") ?? ""),
+    status: "ACTIVE",
+    createdAt: new Date().toISOString(),
+    profile: {
+      name: String(formData.get("name") ?? ""),
+      phoneNumber: String(formData.get("phoneNumber") ?? ""),
+      nim: formData.get("nim")?.toString() || undefined,
+      nip: formData.get("nip")?.toString() || undefined,
+      profilePicture:
+        picture instanceof File ? URL.createObjectURL(picture) : undefined,
+    },
+  };
+};
+
+export const toRegisteredUser = (user: MockUser) => ({
+  id: user.id,
+  email: user.email,
+  role: user.role,
+  name: user.profile?.name,
+  profilePicture: user.profile?.profilePicture,
+});
+
+// Kode dari aplikasi autentikator atau kode pemulihan; kode pemulihan hanya
+// bisa dipakai sekali
+export const checkTwoFactorCode = async (user: MockUser, code: string) => {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabled) return false;
+
+  const normalized = code.trim().toLowerCase();
+  if (twoFactor.recoveryCodes.includes(normalized)) {
+    twoFactor.recoveryCodes = twoFactor.recoveryCodes.filter(
+      (item) => item !== normalized
+    );
+    return true;
+  }
+  return verifyTotp(twoFactor.secret, normalized);
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Rentang terpanjang yang dimuat sekaligus, cukup untuk satu tampilan bulan
+const MAX_RANGE_DAYS = 62;
+
+export const isValidDate = (value: unknown): value is string =>
+  typeof value === "string" &&
+  DATE_PATTERN.test(value) &&
+  !Number.isNaN(Date.parse(value));
+
+// Mengembalikan rentang tanggal from/to dari query string atau pesan
+// kesalahannya
+export const readRange = (url: URL) => {
+  const from = url.searchParams.get("from");
+  const to = url.searchParams.get("to");
+  if (!isValidDate(from) || !isValidDate(to) || to < from) {
+    return { error: "Rentang tanggal tidak valid" };
+  }
+  if (addDays(parseDateValue(from), MAX_RANGE_DAYS) <= parseDateValue(to)) {
+    return { error: `Rentang tanggal maksimal ${MAX_RANGE_DAYS} hari` };
+  }
+  return { from, to };
+};
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { CircleAlert, Leaf, Loader2, Lock, Mail } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import FormWizard from "@/components/FormWizard";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import RegistrationDetailsFields, {
+  RegistrationDetails,
+} from "@/components/RegistrationDetailsFields";
+import useFormWizard from "@/hooks/useFormWizard";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { identityFieldForRole } from "@/lib/domainPolicy";
+import {
+  identityFieldsSchema,
+  passwordFieldsSchema,
+  requireMatchingPasswords,
+  requireSingleIdentity,
+} from "@/lib/validations";
+import { formatDateTime } from "@/i18n/format";
+import { acceptInvitation, getInvitation } from "@/services/api/invitations";
+
+// Email dan role sudah ditentukan undangan, jadi tidak ada langkah OTP
+const detailsSchema = requireSingleIdentity(
+  requireMatchingPasswords(identityFieldsSchema.merge(passwordFieldsSchema))
+);
+
+const AcceptInvitation = () => {
+  const { token = "" } = useParams();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [profilePicture, setProfilePicture] = useState<File | undefined>(
+    undefined
+  );
+  const [uploadPercent, setUploadPercent] = useState(0);
+
+  const { data, error, isLoading } = useQuery({
+    queryKey: ["invitation", token],
+    queryFn: () => getInvitation(token),
+    // Undangan kedaluwarsa atau dibatalkan tidak perlu dicoba ulang
+    retry: false,
+  });
+  const invitation = data?.invitation;
+  const identityField = identityFieldForRole(invitation?.role ?? "EXAMINER");
+
+  const wizard = useFormWizard<RegistrationDetails>({
+    initialValues: {
+      name: "",
+      nim: "",
+      nip: "",
+      phoneNumber: "",
+      password: "",
+      confirmPassword: "",
+    },
+    steps: [
+      {
+        title: t("auth.invitation.steps.invitation"),
+      },
+      {
+        title: t("auth.register.steps.details"),
+        schema: detailsSchema,
+        submit: async (values) => {
+          setUploadPercent(0);
+          const result = await acceptInvitation(
+            token,
+            {
+              name: values.name,
+              phoneNumber: values.phoneNumber,
+              [identityField]: values[identityField],
+              password: values.password,
+              confirmPassword: values.confirmPassword,
+            },
+            profilePicture,
+            setUploadPercent
+          );
+          toaster.success(result.message);
+        },
+        submitLabel: t("auth.invitation.submit"),
+        submittingLabel: t("auth.register.submitting"),
+      },
+    ],
+    onComplete: () => navigate("/login", { replace: true }),
+  });
+  const { values, errors, currentStep, isSubmitting } = wizard;
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex flex-col items-center gap-2 py-10 text-sm text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin text-env-base" />
+          {t("auth.invitation.loading")}
+        </div>
+      );
+    }
+
+    if (error || !invitation) {
+      return (
+        <Alert variant="destructive">
+          <CircleAlert />
+          <AlertDescription>
+            <p>{toApiError(error).message}</p>
+            <p>{t("auth.invitation.invalidHint")}</p>
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    return (
+      <FormWizard wizard={wizard}>
+        {currentStep === 1 ? (
+          <>
+            <div className="space-y-2">
+              <Label
+                htmlFor="email"
+                className="text-sm font-medium text-gray-700"
+              >
+                {t("fields.email")}
+              </Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="email"
+                  type="email"
+                  className="h-11 pl-10 pr-10 border-gray-300"
+                  value={invitation.email}
+                  readOnly
+                  disabled
+                />
+                <Lock className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              </div>
+              <p className="text-sm text-gray-600">
+                {t("auth.invitation.emailLocked")}
+              </p>
+            </div>
+            <Alert variant="info">
+              <AlertDescription>
+                <p>
+                  {t("auth.invitation.summary", {
+                    name: invitation.invitedBy,
+                    role: t(`roles.${invitation.role}`),
+                  })}
+                </p>
+                <p>
+                  {t("auth.invitation.expiresAt", {
+                    date: formatDateTime(invitation.expiresAt),
+                  })}
+                </p>
+              </AlertDescription>
+            </Alert>
+          </>
+        ) : (
+          <RegistrationDetailsFields
+            values={values}
+            errors={errors}
+            identityField={identityField}
+            disabled={isSubmitting}
+            onChange={wizard.setValue}
+            setFieldError={wizard.setFieldError}
+            clearErrors={wizard.clearErrors}
+            profilePicture={profilePicture}
+            onProfilePictureChange={setProfilePicture}
+            uploadPercent={uploadPercent}
+          />
+        )}
+      </FormWizard>
+    );
+  };
+
+  return (
+    <div className="min-h-screen w-full lg:grid lg:grid-cols-2 bg-white">
+      {/* Left Column - Invitation Form */}
+      <div className="relative flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <LanguageSwitcher className="absolute top-4 right-4" />
+        <div className="w-full max-w-xl space-y-8">
+          <div className="text-center">
+            <div className="flex flex-col items-center gap-1 mb-6">
+              <h2 className="text-4xl font-black tracking-tight text-env-base font-heading">
+                {t("auth.invitation.title")}
+              </h2>
+              <p className="text-sm text-env-dark">
+                {t("auth.invitation.subtitle")}
+              </p>
+            </div>
+          </div>
+          <Card className="border-0 shadow-none">
+            <CardContent className="space-y-6 p-0">
+              {renderContent()}
+            </CardContent>
+            <div className="text-center text-sm text-gray-600">
+              {t("auth.hasAccount")}{" "}
+              <Link
+                to="/login"
+                className="font-medium text-env-base hover:text-env-light"
+              >
+                {t("auth.loginHere")}
+              </Link>
+            </div>
+          </Card>
+          <div className="text-center text-xs text-gray-600">
+            <p>
+              © {new Date().getFullYear()} {t("common.footer")}
+            </p>
+            <p className="mt-1">{t("common.appName")}</p>
+          </div>
+        </div>
+      </div>
+      {/* Right Column - Visual */}
+      <div className="hidden lg:block bg-gradient-to-br from-env-base via-env-dark to-blue-800 relative overflow-hidden">
+        <div className="absolute inset-0 bg-black/20" />
+        <div className="relative h-full flex flex-col justify-center items-center p-12 text-white">
+          <div className="max-w-md text-center space-y-6">
+            <div className="w-24 h-24 mx-auto bg-white/10 rounded-full flex items-center justify-center backdrop-blur-sm">
+              <Leaf className="w-12 h-12 text-white" />
+            </div>
+            <h3 className="text-2xl font-bold">
+              {t("auth.invitation.heroTitle")}
+            </h3>
+            <p className="text-lg text-blue-100">
+              {t("auth.invitation.heroText")}
+            </p>
+          </div>
+        </div>
+        <div className="absolute top-10 right-10 w-32 h-32 bg-white/5 rounded-full blur-xl" />
+        <div className="absolute bottom-10 left-10 w-40 h-40 bg-white/5 rounded-full blur-xl" />
+        <div className="absolute top-1/2 left-1/4 w-20 h-20 bg-white/10 rounded-full blur-lg" />
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { z } from "zod";
+import { useTranslation } from "react-i18next";
+import { toaster } from "@/lib/sonner";
+import {
+  forgotPassword,
+  verifyResetOtp,
+  resetPassword,
+} from "@/services/api/auth";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Mail, KeyRound, Leaf, EyeIcon, EyeOffIcon } from "lucide-react";
+import FormWizard from "@/components/FormWizard";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import OtpField from "@/components/OtpField";
+import useResendCountdown from "@/hooks/useResendCountdown";
+import useFormWizard from "@/hooks/useFormWizard";
+import { otpSchema, newPasswordSchema } from "@/lib/validations";
+import { toApiError } from "@/lib/errors";
+import { accountEmailSchema, allowedDomains } from "@/lib/domainPolicy";
+
+const emailSchema = z.object({
+  email: accountEmailSchema(),
+});
+
+type ForgotPasswordValues = {
+  email: string;
+  otp: string;
+  resetToken: string;
+  password: string;
+  confirmPassword: string;
+};
+
+const ForgotPassword = () => {
+  const [isResending, setIsResending] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const {
+    countdown,
+    resendDisabled,
+    start: startResendCountdown,
+  } = useResendCountdown();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const requestOtp = async (email: string) => {
+    const data = await forgotPassword({ email });
+    toaster.success(data.message);
+    startResendCountdown();
+  };
+
+  const wizard = useFormWizard<ForgotPasswordValues>({
+    initialValues: {
+      email: "",
+      otp: "",
+      resetToken: "",
+      password: "",
+      confirmPassword: "",
+    },
+    steps: [
+      {
+        title: t("auth.forgotPassword.steps.email"),
+        schema: emailSchema,
+        submit: (values) => requestOtp(values.email),
+        submittingLabel: t("auth.sendingOtp"),
+      },
+      {
+        title: t("auth.forgotPassword.steps.verify"),
+        schema: otpSchema,
+        guard: (values) => !!values.email,
+        fieldMap: { code: "otp" },
+        submit: async (values) => {
+          const data = await verifyResetOtp({
+            email: values.email,
+            code: Number(values.otp),
+          });
+          toaster.success(data.message);
+          return { resetToken: data.resetToken };
+        },
+        submittingLabel: t("auth.verifying"),
+      },
+      {
+        title: t("auth.forgotPassword.steps.password"),
+        schema: newPasswordSchema,
+        guard: (values) => !!values.resetToken,
+        submit: async (values) => {
+          const data = await resetPassword({
+            email: values.email,
+            resetToken: values.resetToken,
+            password: values.password,
+            confirmPassword: values.confirmPassword,
+          });
+          toaster.success(data.message);
+        },
+        submitLabel: t("auth.forgotPassword.submit"),
+        submittingLabel: t("auth.forgotPassword.submitting"),
+      },
+    ],
+    onComplete: () => navigate("/login", { replace: true }),
+  });
+  const { values, errors, currentStep, isSubmitting } = wizard;
+
+  const handleResendOtp = async () => {
+    if (isResending) return;
+
+    setIsResending(true);
+    try {
+      await requestOtp(values.email);
+    } catch (error) {
+      toaster.error(toApiError(error).message);
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  // Render konten berdasarkan langkah
+  const renderStepContent = () => {
+    switch (currentStep) {
+      case 1:
+        return (
+          <div className="space-y-2">
+            <Label
+              htmlFor="email"
+              className="text-sm font-medium text-gray-700"
+            >
+              {t("auth.campusEmail")}
+            </Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                id="email"
+                type="email"
+                placeholder={t("auth.emailPlaceholder", {
+                  domain: allowedDomains("login")[0],
+                })}
+                className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+                value={values.email}
+                onChange={(e) => {
+                  // Email baru harus diverifikasi ulang
+                  wizard.setValues((prev) => ({
+                    ...prev,
+                    email: e.target.value,
+                    resetToken: "",
+                  }));
+                  wizard.clearErrors("email");
+                }}
+                disabled={isSubmitting}
+              />
+            </div>
+            {errors.email && (
+              <p className="text-sm text-destructive">{errors.email}</p>
+            )}
+            <p className="text-sm text-gray-600">
+              {t("auth.forgotPassword.emailHint")}
+            </p>
+          </div>
+        );
+
+      case 2:
+        return (
+          <OtpField
+            value={values.otp}
+            onChange={(value) => wizard.setValue("otp", value)}
+            hint={t("auth.otp.sentTo", { email: values.email })}
+            error={errors.otp}
+            disabled={isSubmitting || isResending}
+            resend={{
+              countdown,
+              disabled: resendDisabled,
+              onResend: handleResendOtp,
+            }}
+          />
+        );
+
+      case 3:
+        return (
+          <>
+            <div className="space-y-2">
+              <Label
+                htmlFor="password"
+                className="text-sm font-medium text-gray-700"
+              >
+                {t("auth.forgotPassword.newPassword")}
+              </Label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="password"
+                  type={showPassword ? "text" : "password"}
+                  placeholder={t("auth.forgotPassword.newPasswordPlaceholder")}
+                  className="h-11 pl-10 pr-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+                  value={values.password}
+                  onChange={(e) => wizard.setValue("password", e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <button
+                  type="button"
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? (
+                    <EyeOffIcon className="h-4 w-4" />
+                  ) : (
+                    <EyeIcon className="h-4 w-4" />
+                  )}
+                </button>
+              </div>
+              {errors.password && (
+                <p className="text-sm text-destructive">{errors.password}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label
+                htmlFor="confirmPassword"
+                className="text-sm font-medium text-gray-700"
+              >
+                {t("auth.confirmPassword")}
+              </Label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="confirmPassword"
+                  type={showConfirmPassword ? "text" : "password"}
+                  placeholder={t("auth.confirmPasswordPlaceholder")}
+                  className="h-11 pl-10 pr-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+                  value={values.confirmPassword}
+                  onChange={(e) =>
+                    wizard.setValue("confirmPassword", e.target.value)
+                  }
+                  disabled={isSubmitting}
+                />
+                <button
+                  type="button"
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                >
+                  {showConfirmPassword ? (
+                    <EyeOffIcon className="h-4 w-4" />
+                  ) : (
+                    <EyeIcon className="h-4 w-4" />
+                  )}
+                </button>
+              </div>
+              {errors.confirmPassword && (
+                <p className="text-sm text-destructive">
+                  {errors.confirmPassword}
+                </p>
+              )}
+            </div>
+          </>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full lg:grid lg:grid-cols-2 bg-white">
+      {/* Left Column - Reset Form */}
+      <div className="relative flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <LanguageSwitcher className="absolute top-4 right-4" />
+        <div className="w-full max-w-md space-y-8">
+          <div className="text-center">
+            <div className="flex flex-col items-center gap-1 mb-6">
+              <h2 className="text-3xl font-black font-heading tracking-tight text-env-base">
+                {t("auth.forgotPassword.title")}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {t("auth.forgotPassword.subtitle")}
+              </p>
+            </div>
+          </div>
+          <Card className="border-0 shadow-none">
+            <CardContent className="space-y-6 p-0">
+              <FormWizard wizard={wizard} disabled={isResending}>
+                {renderStepContent()}
+              </FormWizard>
+            </CardContent>
+            <div className="text-center text-sm text-gray-600">
+              {t("auth.forgotPassword.remembered")}{" "}
+              <Link
+                to="/login"
+                className="font-medium text-env-base hover:text-env-light"
+              >
+                {t("auth.loginHere")}
+              </Link>
+            </div>
+          </Card>
+          <div className="text-center text-xs text-gray-600">
+            <p>
+              © {new Date().getFullYear()} {t("common.footer")}
+            </p>
+            <p className="mt-1">{t("common.appName")}</p>
+          </div>
+        </div>
+      </div>
+      {/* Right Column - Visual */}
+      <div className="hidden lg:block bg-gradient-to-br from-env-base via-env-dark to-blue-800 relative overflow-hidden">
+        <div className="absolute inset-0 bg-black/20" />
+        <div className="relative h-full flex flex-col justify-center items-center p-12 text-white">
+          <div className="max-w-md text-center space-y-6">
+            <div className="w-24 h-24 mx-auto bg-white/10 rounded-full flex items-center justify-center backdrop-blur-sm">
+              <Leaf className="w-12 h-12 text-white" />
+            </div>
+            <h3 className="text-2xl font-bold">
+              {t("auth.forgotPassword.heroTitle")}
+            </h3>
+            <p className="text-lg text-blue-100">
+              {t("auth.forgotPassword.heroText")}
+            </p>
+          </div>
+        </div>
+        <div className="absolute top-10 right-10 w-32 h-32 bg-white/5 rounded-full blur-xl" />
+        <div className="absolute bottom-10 left-10 w-40 h-40 bg-white/5 rounded-full blur-xl" />
+        <div className="absolute top-1/2 left-1/4 w-20 h-20 bg-white/10 rounded-full blur-lg" />
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
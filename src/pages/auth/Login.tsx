@@ -1,33 +1,36 @@
-import { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useRef, useState } from "react";
+import { useNavigate, useLocation, Link, Location } from "react-router-dom";
 import { z } from "zod";
+import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import useAuth from "@/hooks/useAuth";
-import { Loader2, Eye, EyeOff, Mail, KeyRound, Leaf } from "lucide-react";
-import ReCAPTCHA from "react-google-recaptcha";
+import {
+  Loader2,
+  Eye,
+  EyeOff,
+  Mail,
+  KeyRound,
+  Leaf,
+  Timer,
+} from "lucide-react";
 import { toaster } from "@/lib/sonner";
-import { handleError } from "@/lib/utils";
-import axios from "axios";
+import { toApiError } from "@/lib/errors";
+import { login } from "@/services/api/auth";
+import { accountEmailSchema, allowedDomains } from "@/lib/domainPolicy";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import TwoFactorLoginStep from "@/components/TwoFactorLoginStep";
+import BotProtection from "@/components/BotProtection";
+import { BotProtectionHandle } from "@/components/botProtection/types";
+import useLockoutCountdown from "@/hooks/useLockoutCountdown";
+import { LoginSuccessResponse } from "@/types/auth";
 
 const signInSchema = z.object({
-  email: z
-    .string()
-    .email("Email tidak valid")
-    .refine(
-      (email) =>
-        email.endsWith("@student.unri.ac.id") ||
-        email.endsWith("@lecturer.unri.ac.id") ||
-        email.endsWith("@eng.unri.ac.id"),
-      {
-        message:
-          "Gunakan email kampus Universitas Riau (student.unri.ac.id atau lecturer.unri.ac.id)",
-      }
-    ),
-  password: z.string().min(6, "Password minimal 6 karakter"),
+  email: accountEmailSchema(),
+  password: z.string().min(6),
 });
 
 type FormErrors = {
@@ -35,15 +38,28 @@ type FormErrors = {
   password?: string;
 };
 
+// Dipakai jika server tidak menyebutkan lama penguncian
+const DEFAULT_LOCKOUT_SECONDS = 60;
+
 const Login = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [formErrors, setFormErrors] = useState<FormErrors>({});
   const [isLoading, setIsLoading] = useState(false);
-  const [recaptchaToken, setRecaptchaToken] = useState<string | null>(null);
+  const botProtection = useRef<BotProtectionHandle>(null);
+  const lockout = useLockoutCountdown();
+  // Terisi jika akun meminta kode verifikasi dua langkah setelah kata sandi
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   const { setAuth } = useAuth();
+  const { t } = useTranslation();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Query dan hash ikut dipertahankan agar deep link kembali utuh setelah login
+  const fromLocation = (location.state as { from?: Location } | null)?.from;
+  const from = fromLocation
+    ? `${fromLocation.pathname}${fromLocation.search}${fromLocation.hash}`
+    : "/dashboard";
 
   const handleEmailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -61,13 +77,23 @@ const Login = () => {
     }
   };
 
-  const handleRecaptchaVerify = (token: string | null) => {
-    setRecaptchaToken(token);
+  const completeLogin = ({ token, user }: LoginSuccessResponse) => {
+    setAuth({ user, token });
+    localStorage.setItem("token", token);
+    navigate(from, { replace: true });
+  };
+
+  // Widget perlindungan bot dipasang ulang bersama form kata sandi
+  const cancelTwoFactor = () => setChallengeToken(null);
+
+  const handleTwoFactorLockout = (retryAfter: number | null) => {
+    lockout.lock(retryAfter ?? DEFAULT_LOCKOUT_SECONDS);
+    cancelTwoFactor();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (isLoading) return;
+    if (isLoading || lockout.isLocked) return;
 
     setIsLoading(true);
     setFormErrors({});
@@ -84,30 +110,35 @@ const Login = () => {
         return;
       }
 
+      const recaptchaToken = await botProtection.current?.getToken();
       if (!recaptchaToken) {
         setFormErrors({
           email: undefined,
-          password: "Harap selesaikan reCAPTCHA",
+          password: t("validation.recaptchaRequired"),
         });
         setIsLoading(false);
         return;
       }
 
-      const response = await axios.post(
-        "http://localhost:5500/api/auth/login",
-        {
-          email,
-          password,
-          recaptchaToken,
-        }
-      );
-      const { token, user } = response.data;
-      setAuth({ user, token });
-      localStorage.setItem("token", token);
-      navigate("/dashboard");
+      const response = await login({ email, password, recaptchaToken });
+      if ("challengeToken" in response) {
+        setChallengeToken(response.challengeToken);
+        setIsLoading(false);
+        return;
+      }
+      completeLogin(response);
     } catch (err) {
-      const errorMessage = handleError(err);
-      toaster.error(errorMessage);
+      const apiError = toApiError(err);
+      // Token lama sudah terpakai, tantangan baru diperlukan untuk percobaan berikutnya
+      botProtection.current?.reset();
+      if (apiError.code === "TOO_MANY_ATTEMPTS" || apiError.status === 429) {
+        lockout.lock(apiError.retryAfter ?? DEFAULT_LOCKOUT_SECONDS);
+      }
+      setFormErrors({
+        email: apiError.fieldErrors.email,
+        password: apiError.fieldErrors.password,
+      });
+      toaster.error(apiError.message);
       setIsLoading(false);
     }
   };
@@ -115,141 +146,170 @@ const Login = () => {
   return (
     <div className="min-h-screen w-full lg:grid lg:grid-cols-2 bg-white">
       {/* Left Column - Login Form */}
-      <div className="flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="relative flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <LanguageSwitcher className="absolute top-4 right-4" />
         <div className="w-full max-w-md space-y-8">
           <div className="text-center">
             <div className="flex flex-col items-center gap-1 mb-6">
               <h2 className="text-3xl font-black font-heading tracking-tight text-env-base">
-                Selamat Datang
+                {t("auth.login.title")}
               </h2>
               <p className="text-sm text-gray-600">
-                Masuk ke akun Anda untuk melanjutkan
+                {t("auth.login.subtitle")}
               </p>
             </div>
           </div>
 
           <Card className="border-0 shadow-none">
             <CardContent className="space-y-6 p-0">
-              {(formErrors.email || formErrors.password) && (
-                <Alert variant="destructive" className="mb-4 text-sm">
-                  <AlertDescription>
-                    {formErrors.email || formErrors.password}
-                  </AlertDescription>
-                </Alert>
-              )}
+              {challengeToken ? (
+                <TwoFactorLoginStep
+                  challengeToken={challengeToken}
+                  onSuccess={completeLogin}
+                  onCancel={cancelTwoFactor}
+                  onLockedOut={handleTwoFactorLockout}
+                />
+              ) : (
+                <>
+                  {(formErrors.email || formErrors.password) && (
+                    <Alert variant="destructive" className="mb-4 text-sm">
+                      <AlertDescription>
+                        {formErrors.email || formErrors.password}
+                      </AlertDescription>
+                    </Alert>
+                  )}
 
-              <div className="space-y-6">
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="email"
-                    className="text-sm font-medium text-gray-700"
-                  >
-                    Email Kampus
-                  </Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                    <Input
-                      id="email"
-                      type="email"
-                      placeholder="email@[student/lecturer].unri.ac.id"
-                      className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
-                      value={email}
-                      onChange={handleEmailChange}
-                      disabled={isLoading}
-                    />
-                  </div>
-                </div>
+                  <div className="space-y-6">
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="email"
+                        className="text-sm font-medium text-gray-700"
+                      >
+                        {t("auth.campusEmail")}
+                      </Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          id="email"
+                          type="email"
+                          placeholder={t("auth.emailPlaceholder", {
+                            domain: allowedDomains("login")[0],
+                          })}
+                          className="h-11 pl-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+                          value={email}
+                          onChange={handleEmailChange}
+                          disabled={isLoading}
+                          aria-invalid={!!formErrors.email}
+                        />
+                      </div>
+                    </div>
 
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <Label
-                      htmlFor="password"
-                      className="text-sm font-medium text-gray-700"
-                    >
-                      Kata Sandi
-                    </Label>
-                  </div>
-                  <div className="relative">
-                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                    <Input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="********"
-                      className="h-11 pl-10 pr-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
-                      value={password}
-                      onChange={handlePasswordChange}
-                      disabled={isLoading}
-                    />
-                    <button
-                      type="button"
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                      onClick={() => setShowPassword(!showPassword)}
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label
+                          htmlFor="password"
+                          className="text-sm font-medium text-gray-700"
+                        >
+                          {t("auth.password")}
+                        </Label>
+                        <Link
+                          to="/forgot-password"
+                          className="text-sm font-medium text-env-base hover:text-env-light"
+                        >
+                          {t("auth.login.forgotPassword")}
+                        </Link>
+                      </div>
+                      <div className="relative">
+                        <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          id="password"
+                          type={showPassword ? "text" : "password"}
+                          placeholder="********"
+                          className="h-11 pl-10 pr-10 placeholder:text-sm border-gray-300 focus:ring-2 focus:ring-env-base"
+                          value={password}
+                          onChange={handlePasswordChange}
+                          disabled={isLoading}
+                          aria-invalid={!!formErrors.password}
+                        />
+                        <button
+                          type="button"
+                          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                          onClick={() => setShowPassword(!showPassword)}
+                        >
+                          {showPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                          <span className="sr-only">
+                            {showPassword
+                              ? t("common.hidePassword")
+                              : t("common.showPassword")}
+                          </span>
+                        </button>
+                      </div>
+                    </div>
+
+                    <BotProtection ref={botProtection} />
+
+                    {lockout.isLocked && (
+                      <Alert variant="warning" className="text-sm">
+                        <Timer />
+                        <AlertDescription>
+                          {t("auth.login.lockedOut", {
+                            seconds: lockout.remaining,
+                          })}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <Button
+                      type="submit"
+                      className="w-full h-11 bg-env-base hover:bg-env-dark text-white font-medium text-base"
+                      disabled={isLoading || lockout.isLocked}
+                      onClick={handleSubmit}
                     >
-                      {showPassword ? (
-                        <EyeOff className="h-4 w-4" />
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          {t("auth.login.submitting")}
+                        </>
                       ) : (
-                        <Eye className="h-4 w-4" />
+                        t("auth.login.submit")
                       )}
-                      <span className="sr-only">
-                        {showPassword
-                          ? "Sembunyikan kata sandi"
-                          : "Tampilkan kata sandi"}
-                      </span>
-                    </button>
+                    </Button>
                   </div>
-                </div>
-
-                <div className="flex justify-center w-full">
-                  <ReCAPTCHA
-                    sitekey={import.meta.env.VITE_RECAPTCHA_SITE_KEY}
-                    onChange={handleRecaptchaVerify}
-                  />
-                </div>
-
-                <Button
-                  type="submit"
-                  className="w-full h-11 bg-env-base hover:bg-env-dark text-white font-medium text-base"
-                  disabled={isLoading}
-                  onClick={handleSubmit}
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Sedang masuk...
-                    </>
-                  ) : (
-                    "Masuk"
-                  )}
-                </Button>
-              </div>
 
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <span className="w-full border-t border-gray-300" />
-                </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="bg-white px-2 text-gray-500">Atau</span>
-                </div>
-              </div>
+                  <div className="relative">
+                    <div className="absolute inset-0 flex items-center">
+                      <span className="w-full border-t border-gray-300" />
+                    </div>
+                    <div className="relative flex justify-center text-sm">
+                      <span className="bg-white px-2 text-gray-500">
+                        {t("common.or")}
+                      </span>
+                    </div>
+                  </div>
 
-              <div className="text-center text-sm text-gray-600">
-                Belum punya akun?{" "}
-                <Link
-                  to="/register"
-                  className="font-medium text-env-base hover:text-env-light"
-                >
-                  Daftar sekarang
-                </Link>
-              </div>
+                  <div className="text-center text-sm text-gray-600">
+                    {t("auth.login.noAccount")}{" "}
+                    <Link
+                      to="/register"
+                      className="font-medium text-env-base hover:text-env-light"
+                    >
+                      {t("auth.login.registerNow")}
+                    </Link>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
 
           <div className="text-center text-xs text-gray-600">
             <p>
-              © {new Date().getFullYear()} S1 Teknik Lingkungan - Universitas
-              Riau
+              © {new Date().getFullYear()} {t("common.footer")}
             </p>
-            <p className="mt-1">Latest</p>
+            <p className="mt-1">{t("common.appName")}</p>
           </div>
         </div>
       </div>
@@ -262,11 +322,8 @@ const Login = () => {
             <div className="w-24 h-24 mx-auto bg-white/10 rounded-full flex items-center justify-center backdrop-blur-sm">
               <Leaf className="w-12 h-12 text-white" />
             </div>
-            <h3 className="text-2xl font-bold">Selamat Datang di Latest</h3>
-            <p className="text-lg text-blue-100">
-              Bergabunglah dengan ribuan pengguna yang mempercayai platform kami
-              untuk administrasi tugas akhir Teknik Lingkungan.
-            </p>
+            <h3 className="text-2xl font-bold">{t("auth.login.heroTitle")}</h3>
+            <p className="text-lg text-blue-100">{t("auth.login.heroText")}</p>
           </div>
         </div>
 
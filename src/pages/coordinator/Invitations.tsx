@@ -0,0 +1,419 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { z } from "zod";
+import { Ban, Loader2, Mail, RotateCw, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  INVITABLE_ROLES,
+  domainPolicies,
+  emailMatchesRole,
+} from "@/lib/domainPolicy";
+import { FormErrors, firstErrors } from "@/lib/validations";
+import { formatDate, formatDateTime } from "@/i18n/format";
+import {
+  createInvitation,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation,
+} from "@/services/api/invitations";
+import { Role, roleSchema } from "@/types/auth";
+import {
+  CreateInvitationRequest,
+  Invitation,
+  InvitationStatus,
+} from "@/types/invitations";
+
+const EXPIRY_OPTIONS = [3, 7, 14, 30];
+
+const invitationFormSchema = z
+  .object({
+    email: z.string().email(),
+    role: roleSchema,
+    expiresInDays: z.number().min(1),
+  })
+  .refine(({ email, role }) => emailMatchesRole(email, role), {
+    params: { i18n: "validation.invitationEmail" },
+    path: ["email"],
+  });
+
+const statusVariants: Record<
+  InvitationStatus,
+  "warning" | "success" | "outline" | "destructive"
+> = {
+  PENDING: "warning",
+  ACCEPTED: "success",
+  EXPIRED: "outline",
+  REVOKED: "destructive",
+};
+
+const emptyForm: CreateInvitationRequest = {
+  email: "",
+  role: INVITABLE_ROLES[0],
+  expiresInDays: 7,
+};
+
+const CoordinatorInvitations = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState<CreateInvitationRequest>(emptyForm);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | "">(
+    "PENDING"
+  );
+  const [revoking, setRevoking] = useState<Invitation | null>(null);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["invitations"],
+    queryFn: listInvitations,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createInvitation,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["invitations"] });
+      toaster.success(data.message, {
+        saveToInbox: { link: "/coordinator/invitations" },
+      });
+      setForm({ ...emptyForm, role: form.role });
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (invitation: Invitation) => resendInvitation(invitation.id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["invitations"] });
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitation: Invitation) => revokeInvitation(invitation.id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["invitations"] });
+      toaster.success(data.message);
+      setRevoking(null);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const updateForm = (patch: Partial<CreateInvitationRequest>) => {
+    setForm({ ...form, ...patch });
+    // Ganti role bisa membuat email yang sama menjadi valid
+    setErrors({});
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (createMutation.isPending) return;
+
+    const result = invitationFormSchema.safeParse(form);
+    if (!result.success) {
+      setErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    createMutation.mutate({ ...form, email: form.email.trim() });
+  };
+
+  const roleDomain = domainPolicies.find(
+    (policy) => policy.role === form.role
+  )?.domain;
+  const invitations = (data?.invitations ?? []).filter(
+    (invitation) => !statusFilter || invitation.status === statusFilter
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("invitations.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("invitations.subtitle")}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("invitations.create.title")}</CardTitle>
+          <CardDescription>
+            {t("invitations.create.description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-4 md:grid-cols-[1fr_12rem_10rem_auto] md:items-start"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">{t("fields.email")}</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="invite-email"
+                  type="email"
+                  className="pl-10"
+                  placeholder={
+                    roleDomain
+                      ? t("auth.emailPlaceholder", { domain: roleDomain })
+                      : t("invitations.create.externalPlaceholder")
+                  }
+                  value={form.email}
+                  onChange={(e) => updateForm({ email: e.target.value })}
+                  disabled={createMutation.isPending}
+                  aria-invalid={!!errors.email}
+                />
+              </div>
+              {errors.email ? (
+                <p className="text-sm text-destructive">{errors.email}</p>
+              ) : (
+                <p className="text-xs text-gray-600">
+                  {roleDomain
+                    ? t("invitations.create.campusHint", {
+                        role: t(`roles.${form.role}`),
+                        domain: roleDomain,
+                      })
+                    : t("invitations.create.externalHint")}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">
+                {t("invitations.create.role")}
+              </Label>
+              <NativeSelect
+                id="invite-role"
+                value={form.role}
+                onChange={(e) => updateForm({ role: e.target.value as Role })}
+                disabled={createMutation.isPending}
+              >
+                {INVITABLE_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {t(`roles.${role}`)}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-expiry">
+                {t("invitations.create.expiry")}
+              </Label>
+              <NativeSelect
+                id="invite-expiry"
+                value={form.expiresInDays}
+                onChange={(e) =>
+                  updateForm({ expiresInDays: Number(e.target.value) })
+                }
+                disabled={createMutation.isPending}
+              >
+                {EXPIRY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {t("invitations.create.days", { days })}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <Button
+              type="submit"
+              className="bg-env-base hover:bg-env-dark text-white md:mt-[1.375rem]"
+              disabled={createMutation.isPending}
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+              {t("invitations.create.submit")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle>{t("invitations.list.title")}</CardTitle>
+          <NativeSelect
+            aria-label={t("users.filters.status")}
+            className="w-44"
+            value={statusFilter}
+            onChange={(e) =>
+              setStatusFilter(e.target.value as InvitationStatus | "")
+            }
+          >
+            <option value="">{t("users.filters.allStatuses")}</option>
+            {Object.keys(statusVariants).map((status) => (
+              <option key={status} value={status}>
+                {t(`invitations.status.${status as InvitationStatus}`)}
+              </option>
+            ))}
+          </NativeSelect>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto rounded-md border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">{t("fields.email")}</th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("users.table.role")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("users.table.status")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("invitations.list.expiresAt")}
+                  </th>
+                  <th className="px-4 py-3 font-medium text-right">
+                    {t("users.table.actions")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-10 text-center">
+                      <Loader2 className="mx-auto h-6 w-6 animate-spin text-env-base" />
+                    </td>
+                  </tr>
+                ) : isError ? (
+                  <tr>
+                    <td
+                      colSpan={5}
+                      className="px-4 py-10 text-center text-destructive"
+                    >
+                      {t("invitations.list.loadFailed")}
+                    </td>
+                  </tr>
+                ) : invitations.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={5}
+                      className="px-4 py-10 text-center text-gray-500"
+                    >
+                      {t("invitations.list.empty")}
+                    </td>
+                  </tr>
+                ) : (
+                  invitations.map((invitation) => {
+                    const active =
+                      invitation.status === "PENDING" ||
+                      invitation.status === "EXPIRED";
+                    const isResending =
+                      resendMutation.isPending &&
+                      resendMutation.variables?.id === invitation.id;
+
+                    return (
+                      <tr key={invitation.id}>
+                        <td className="px-4 py-3">
+                          <p className="font-medium text-gray-900">
+                            {invitation.email}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {t("invitations.list.invitedBy", {
+                              name: invitation.invitedBy,
+                              date: formatDate(invitation.createdAt, {
+                                dateStyle: "medium",
+                              }),
+                            })}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3">
+                          <Badge variant="secondary">
+                            {t(`roles.${invitation.role}`)}
+                          </Badge>
+                        </td>
+                        <td className="px-4 py-3">
+                          <Badge variant={statusVariants[invitation.status]}>
+                            {t(`invitations.status.${invitation.status}`)}
+                          </Badge>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatDateTime(invitation.expiresAt)}
+                        </td>
+                        <td className="px-4 py-3">
+                          {active && (
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={t("invitations.actions.resend")}
+                                onClick={() =>
+                                  resendMutation.mutate(invitation)
+                                }
+                                disabled={isResending}
+                              >
+                                {isResending ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <RotateCw className="h-4 w-4" />
+                                )}
+                                <span className="sr-only">
+                                  {t("invitations.actions.resend")}
+                                </span>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={t("invitations.actions.revoke")}
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => setRevoking(invitation)}
+                              >
+                                <Ban className="h-4 w-4" />
+                                <span className="sr-only">
+                                  {t("invitations.actions.revoke")}
+                                </span>
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        open={!!revoking}
+        title={t("invitations.confirmRevoke.title")}
+        description={t("invitations.confirmRevoke.description", {
+          email: revoking?.email,
+        })}
+        confirmLabel={t("invitations.actions.revoke")}
+        destructive
+        isPending={revokeMutation.isPending}
+        onConfirm={() => revoking && revokeMutation.mutate(revoking)}
+        onCancel={() => setRevoking(null)}
+      />
+    </div>
+  );
+};
+
+export default CoordinatorInvitations;
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Megaphone, Plus } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import RoomManager from "@/components/RoomManager";
+import SeminarDialog from "@/components/SeminarDialog";
+import SeminarScheduler from "@/components/SeminarScheduler";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { calendarRange } from "@/lib/appointments";
+import { isSeminarClosed, SEMINARS_REFETCH_INTERVAL } from "@/lib/seminars";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  deleteSeminar,
+  getSeminarOptions,
+  listRooms,
+  listSeminars,
+  moveSeminar,
+  publishSeminars,
+} from "@/services/api/seminars";
+import { Seminar } from "@/types/seminars";
+
+// Penjadwalan seminar dan sidang: jadwal disusun sebagai draf, digeser di
+// grid pekan, lalu diumumkan ke mahasiswa, pembimbing, dan penguji
+const CoordinatorSeminars = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [anchor, setAnchor] = useState(() => new Date());
+  // null: dialog tertutup, "new": jadwal baru
+  const [editing, setEditing] = useState<Seminar | "new" | null>(null);
+  const [deleting, setDeleting] = useState<Seminar | null>(null);
+  const [publishing, setPublishing] = useState(false);
+  // Bentrok yang membatalkan pemindahan lewat seret dan lepas
+  const [moveConflicts, setMoveConflicts] = useState<string[] | null>(null);
+
+  const range = calendarRange("week", anchor);
+  const refetchInterval = usePollingInterval(SEMINARS_REFETCH_INTERVAL);
+  const seminarsQuery = useQuery({
+    queryKey: ["seminars", "list", range],
+    queryFn: () => listSeminars(range),
+    refetchInterval,
+  });
+  const optionsQuery = useQuery({
+    queryKey: ["seminars", "options"],
+    queryFn: getSeminarOptions,
+  });
+  const roomsQuery = useQuery({
+    queryKey: ["seminars", "rooms"],
+    queryFn: listRooms,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ seminar, start }: { seminar: Seminar; start: Date }) =>
+      moveSeminar(seminar.id, { start: start.toISOString() }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["seminars"] });
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      if (apiError.code === "SCHEDULE_CONFLICT") {
+        setMoveConflicts(Object.values(apiError.fieldErrors));
+      } else {
+        toaster.error(apiError.fieldErrors.start ?? apiError.message);
+      }
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSeminar,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["seminars"] });
+      toaster.success(data.message);
+      setDeleting(null);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+      setDeleting(null);
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: publishSeminars,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["seminars"] });
+      toaster.success(data.message);
+      setPublishing(false);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+      setPublishing(false);
+    },
+  });
+
+  const seminars = seminarsQuery.data?.seminars ?? [];
+  const drafts = seminars.filter(
+    (seminar) => seminar.status === "DRAFT" && !isSeminarClosed(seminar)
+  );
+  const rooms = roomsQuery.data?.rooms ?? [];
+  const options = optionsQuery.data;
+
+  // Jadwal yang sudah lewat hanya bisa dilihat; form tetap dibuka agar
+  // rinciannya terbaca, tetapi server menolak perubahan
+  const selectSeminar = (seminar: Seminar) => setEditing(seminar);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-black font-heading text-env-darker">
+            {t("seminars.coordinatorTitle")}
+          </h1>
+          <p className="text-sm text-gray-600">
+            {t("seminars.coordinatorSubtitle")}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setPublishing(true)}
+            disabled={drafts.length === 0}
+          >
+            <Megaphone className="h-4 w-4" />
+            {t("seminars.publish", { count: drafts.length })}
+          </Button>
+          <Button
+            className="bg-env-base hover:bg-env-dark text-white"
+            onClick={() => setEditing("new")}
+            disabled={!options || !roomsQuery.data}
+          >
+            <Plus className="h-4 w-4" />
+            {t("seminars.add")}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+            <Badge variant="warning">{t("seminars.status.DRAFT")}</Badge>
+            <Badge variant="success">{t("seminars.status.PUBLISHED")}</Badge>
+            <span>{t("seminars.dragHint")}</span>
+          </div>
+          {seminarsQuery.isError ? (
+            <p className="py-10 text-center text-sm text-destructive">
+              {t("seminars.loadFailed")}
+            </p>
+          ) : (
+            <SeminarScheduler
+              anchor={anchor}
+              seminars={seminars}
+              isLoading={seminarsQuery.isFetching || moveMutation.isPending}
+              movingId={
+                moveMutation.isPending
+                  ? moveMutation.variables.seminar.id
+                  : null
+              }
+              onAnchorChange={setAnchor}
+              onSelect={selectSeminar}
+              onMove={(seminar, start) =>
+                moveMutation.mutate({ seminar, start })
+              }
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {roomsQuery.isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : roomsQuery.isError ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("seminars.loadFailed")}
+        </p>
+      ) : (
+        <RoomManager rooms={rooms} />
+      )}
+
+      {editing && options && (
+        <SeminarDialog
+          seminar={editing === "new" ? null : editing}
+          options={options}
+          rooms={rooms}
+          onDelete={
+            editing === "new" || isSeminarClosed(editing)
+              ? undefined
+              : () => {
+                  setDeleting(editing);
+                  setEditing(null);
+                }
+          }
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <ConfirmDialog
+        open={!!deleting}
+        title={t("seminars.deleteTitle")}
+        description={
+          deleting &&
+          t(
+            deleting.status === "PUBLISHED"
+              ? "seminars.deletePublished"
+              : "seminars.deleteConfirm",
+            {
+              type: t(`seminars.types.${deleting.type}`),
+              name: deleting.student.name,
+            }
+          )
+        }
+        confirmLabel={t("seminars.form.delete")}
+        destructive
+        isPending={deleteMutation.isPending}
+        onConfirm={() => deleting && deleteMutation.mutate(deleting.id)}
+        onCancel={() => setDeleting(null)}
+      />
+
+      <ConfirmDialog
+        open={publishing}
+        title={t("seminars.publishTitle")}
+        description={t("seminars.publishConfirm", { count: drafts.length })}
+        confirmLabel={t("seminars.publish", { count: drafts.length })}
+        isPending={publishMutation.isPending}
+        onConfirm={() =>
+          publishMutation.mutate({ ids: drafts.map((seminar) => seminar.id) })
+        }
+        onCancel={() => setPublishing(false)}
+      />
+
+      <AlertDialog
+        open={!!moveConflicts}
+        onOpenChange={(open) => !open && setMoveConflicts(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("seminars.moveConflictsTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2 text-sm">
+                <p>{t("seminars.moveConflictsDescription")}</p>
+                <ul className="list-disc space-y-1 pl-4 text-jewel-red">
+                  {moveConflicts?.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setMoveConflicts(null)}>
+              {t("seminars.details.close")}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CoordinatorSeminars;
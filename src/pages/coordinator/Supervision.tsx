@@ -0,0 +1,401 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, Loader2, Save, Sparkles, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { NativeSelect } from "@/components/ui/native-select";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import SupervisionHistory from "@/components/SupervisionHistory";
+import SupervisorLoadCard from "@/components/SupervisorLoadCard";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  currentAssignment,
+  isFullyAssigned,
+  isSameAssignment,
+  projectedLoads,
+  SUPERVISIONS_REFETCH_INTERVAL,
+} from "@/lib/supervision";
+import { cn } from "@/lib/utils";
+import {
+  getSupervisionOverview,
+  saveSupervisions,
+  suggestSupervisions,
+} from "@/services/api/supervision";
+import {
+  SupervisedStudent,
+  SupervisionAssignment,
+  SupervisorPosition,
+} from "@/types/supervision";
+
+const POSITION_FIELDS = {
+  PRIMARY: "primaryId",
+  SECONDARY: "secondaryId",
+} as const satisfies Record<SupervisorPosition, keyof SupervisionAssignment>;
+
+const CoordinatorSupervision = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  // Perubahan yang belum disimpan, per mahasiswa
+  const [drafts, setDrafts] = useState<Record<number, SupervisionAssignment>>(
+    {}
+  );
+  const [incompleteOnly, setIncompleteOnly] = useState(true);
+  const [confirming, setConfirming] = useState(false);
+
+  const refetchInterval = usePollingInterval(SUPERVISIONS_REFETCH_INTERVAL);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["supervisions", "overview"],
+    queryFn: getSupervisionOverview,
+    refetchInterval,
+  });
+
+  const students = data?.students ?? [];
+  const supervisors = data?.supervisors ?? [];
+  const maxLoad = data?.maxLoad ?? 0;
+  const loads = projectedLoads(supervisors, students, drafts);
+  const overloaded = supervisors.filter(
+    (supervisor) => (loads.get(supervisor.id) ?? 0) > maxLoad
+  );
+  const pendingChanges = Object.values(drafts);
+
+  const assignmentOf = (student: SupervisedStudent) =>
+    drafts[student.studentId] ?? currentAssignment(student);
+
+  // Draf dibuang jika kembali sama dengan penetapan di server
+  const applyDraft = (
+    prev: Record<number, SupervisionAssignment>,
+    student: SupervisedStudent,
+    next: SupervisionAssignment
+  ) => {
+    const rest = { ...prev };
+    delete rest[student.studentId];
+    return isSameAssignment(next, currentAssignment(student))
+      ? rest
+      : { ...rest, [student.studentId]: next };
+  };
+
+  const updateDraft = (
+    student: SupervisedStudent,
+    position: SupervisorPosition,
+    value: string
+  ) => {
+    const next = {
+      ...assignmentOf(student),
+      [POSITION_FIELDS[position]]: value ? Number(value) : null,
+    };
+    setDrafts((prev) => applyDraft(prev, student, next));
+  };
+
+  const suggestMutation = useMutation({
+    mutationFn: suggestSupervisions,
+    onSuccess: ({ assignments }) => {
+      if (assignments.length === 0) {
+        toaster.info(t("supervision.suggest.none"));
+        return;
+      }
+      setDrafts((prev) =>
+        assignments.reduce((acc, assignment) => {
+          const student = students.find(
+            (item) => item.studentId === assignment.studentId
+          );
+          return student ? applyDraft(acc, student, assignment) : acc;
+        }, prev)
+      );
+      setIncompleteOnly(true);
+      toaster.success(
+        t("supervision.suggest.applied", { count: assignments.length })
+      );
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: saveSupervisions,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["supervisions"] });
+      setDrafts({});
+      setConfirming(false);
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const supervisorName = (id: number | null) =>
+    supervisors.find((supervisor) => supervisor.id === id)?.name ??
+    t("supervision.unassigned");
+
+  const visibleStudents = students.filter(
+    (student) =>
+      !incompleteOnly ||
+      !isFullyAssigned(student) ||
+      drafts[student.studentId] !== undefined
+  );
+
+  const renderSelect = (
+    student: SupervisedStudent,
+    position: SupervisorPosition
+  ) => {
+    const assignment = assignmentOf(student);
+    const value = assignment[POSITION_FIELDS[position]];
+    const other =
+      assignment[
+        POSITION_FIELDS[position === "PRIMARY" ? "SECONDARY" : "PRIMARY"]
+      ];
+    const over = value !== null && (loads.get(value) ?? 0) > maxLoad;
+
+    return (
+      <div className="flex items-center gap-2">
+        <NativeSelect
+          aria-label={t(`supervision.positions.${position}`)}
+          className="min-w-48"
+          value={value ?? ""}
+          onChange={(e) => updateDraft(student, position, e.target.value)}
+          disabled={saveMutation.isPending}
+          aria-invalid={over}
+        >
+          <option value="">{t("supervision.unassigned")}</option>
+          {supervisors.map((supervisor) => (
+            <option
+              key={supervisor.id}
+              value={supervisor.id}
+              disabled={supervisor.id === other}
+            >
+              {t("supervision.optionLabel", {
+                name: supervisor.name,
+                load: loads.get(supervisor.id) ?? 0,
+                maxLoad,
+              })}
+            </option>
+          ))}
+        </NativeSelect>
+        {over && (
+          <span title={t("supervision.overQuota")}>
+            <AlertTriangle className="h-4 w-4 shrink-0 text-jewel-red" />
+            <span className="sr-only">{t("supervision.overQuota")}</span>
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-black font-heading text-env-darker">
+            {t("supervision.title")}
+          </h1>
+          <p className="text-sm text-gray-600">{t("supervision.subtitle")}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => suggestMutation.mutate()}
+            disabled={!data || suggestMutation.isPending}
+          >
+            {suggestMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Sparkles className="h-4 w-4" />
+            )}
+            {t("supervision.suggest.action")}
+          </Button>
+          <Button
+            className="bg-env-base hover:bg-env-dark text-white"
+            onClick={() => setConfirming(true)}
+            disabled={pendingChanges.length === 0}
+          >
+            <Save className="h-4 w-4" />
+            {t("supervision.save", { count: pendingChanges.length })}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : isError || !data ? (
+        <p className="py-10 text-center text-destructive">
+          {t("supervision.loadFailed")}
+        </p>
+      ) : (
+        <>
+          <SupervisorLoadCard
+            supervisors={supervisors}
+            loads={loads}
+            maxLoad={maxLoad}
+          />
+
+          <Card>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
+              <CardTitle>{t("supervision.students.title")}</CardTitle>
+              <div className="flex items-center gap-4">
+                {pendingChanges.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDrafts({})}
+                    disabled={saveMutation.isPending}
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    {t("supervision.discard")}
+                  </Button>
+                )}
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-env-base"
+                    checked={incompleteOnly}
+                    onChange={(e) => setIncompleteOnly(e.target.checked)}
+                  />
+                  {t("supervision.students.incompleteOnly")}
+                </label>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto rounded-md border border-gray-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">
+                        {t("supervision.students.student")}
+                      </th>
+                      <th className="px-4 py-3 font-medium">
+                        {t("supervision.students.preferred")}
+                      </th>
+                      <th className="px-4 py-3 font-medium">
+                        {t("supervision.positions.PRIMARY")}
+                      </th>
+                      <th className="px-4 py-3 font-medium">
+                        {t("supervision.positions.SECONDARY")}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visibleStudents.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={4}
+                          className="px-4 py-10 text-center text-gray-500"
+                        >
+                          {incompleteOnly
+                            ? t("supervision.students.allAssigned")
+                            : t("supervision.students.empty")}
+                        </td>
+                      </tr>
+                    ) : (
+                      visibleStudents.map((student) => (
+                        <tr
+                          key={student.studentId}
+                          className={cn(
+                            drafts[student.studentId] && "bg-pastel-yellow/20"
+                          )}
+                        >
+                          <td className="px-4 py-3 align-top">
+                            <p className="font-medium text-gray-900">
+                              {student.name}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {student.nim ?? "-"}
+                            </p>
+                            <p className="mt-1 max-w-xs text-gray-700">
+                              {student.proposalTitle}
+                            </p>
+                            {student.researchField && (
+                              <Badge variant="secondary" className="mt-1">
+                                {t(
+                                  `proposals.researchFields.${student.researchField}`
+                                )}
+                              </Badge>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 align-top">
+                            {student.preferredSupervisors.length === 0 ? (
+                              <span className="text-gray-500">-</span>
+                            ) : (
+                              <ol className="list-decimal space-y-0.5 pl-4">
+                                {student.preferredSupervisors.map(
+                                  (supervisor) => (
+                                    <li key={supervisor.id}>
+                                      {supervisor.name}
+                                    </li>
+                                  )
+                                )}
+                              </ol>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 align-top">
+                            {renderSelect(student, "PRIMARY")}
+                          </td>
+                          <td className="px-4 py-3 align-top">
+                            {renderSelect(student, "SECONDARY")}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <SupervisionHistory />
+        </>
+      )}
+
+      <ConfirmDialog
+        open={confirming}
+        title={t("supervision.confirm.title")}
+        description={
+          <span className="block space-y-3">
+            <span className="block">
+              {t("supervision.confirm.description", {
+                count: pendingChanges.length,
+              })}
+            </span>
+            <span className="block max-h-60 space-y-1 overflow-y-auto">
+              {pendingChanges.map((assignment) => (
+                <span key={assignment.studentId} className="block">
+                  <strong>
+                    {
+                      students.find(
+                        (student) => student.studentId === assignment.studentId
+                      )?.name
+                    }
+                  </strong>
+                  {": "}
+                  {supervisorName(assignment.primaryId)} /{" "}
+                  {supervisorName(assignment.secondaryId)}
+                </span>
+              ))}
+            </span>
+            {overloaded.length > 0 && (
+              <span className="block text-jewel-red">
+                {t("supervision.confirm.overQuota", {
+                  names: overloaded
+                    .map((supervisor) => supervisor.name)
+                    .join(", "),
+                  maxLoad,
+                })}
+              </span>
+            )}
+          </span>
+        }
+        confirmLabel={t("supervision.confirm.submit")}
+        isPending={saveMutation.isPending}
+        onConfirm={() => saveMutation.mutate({ assignments: pendingChanges })}
+        onCancel={() => setConfirming(false)}
+      />
+    </div>
+  );
+};
+
+export default CoordinatorSupervision;
@@ -0,0 +1,447 @@
+import { useState } from "react";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  ChevronLeft,
+  ChevronRight,
+  KeyRound,
+  Loader2,
+  Pencil,
+  Power,
+  Search,
+  ShieldCheck,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import EditUserDialog from "@/components/EditUserDialog";
+import UserAvatar from "@/components/UserAvatar";
+import useDebouncedValue from "@/hooks/useDebouncedValue";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { formatDate, formatNumber } from "@/i18n/format";
+import {
+  listUsers,
+  promoteToCoordinator,
+  resetUserPassword,
+  updateUserStatus,
+} from "@/services/api/users";
+import { Role } from "@/types/auth";
+import { ManagedUser, UserStatus } from "@/types/users";
+
+type UserAction = "status" | "reset" | "promote";
+
+const PAGE_SIZE = 10;
+const ROLE_FILTERS: Role[] = ["STUDENT", "LECTURER", "COORDINATOR", "EXAMINER"];
+const STATUS_FILTERS: UserStatus[] = ["ACTIVE", "INACTIVE"];
+
+const CoordinatorUsers = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState<Role | "">("");
+  const [status, setStatus] = useState<UserStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [editing, setEditing] = useState<ManagedUser | null>(null);
+  const [pending, setPending] = useState<{
+    action: UserAction;
+    user: ManagedUser;
+  } | null>(null);
+  const debouncedSearch = useDebouncedValue(search.trim());
+
+  const params = {
+    page,
+    pageSize: PAGE_SIZE,
+    search: debouncedSearch || undefined,
+    role: role || undefined,
+    status: status || undefined,
+  };
+  const { data, isLoading, isFetching, isError } = useQuery({
+    queryKey: ["users", params],
+    queryFn: () => listUsers(params),
+    // Tabel lama tetap tampil selama halaman berikutnya dimuat
+    placeholderData: keepPreviousData,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({
+      action,
+      user,
+    }: {
+      action: UserAction;
+      user: ManagedUser;
+    }) => {
+      switch (action) {
+        case "status":
+          return updateUserStatus(
+            user.id,
+            user.status === "ACTIVE" ? "INACTIVE" : "ACTIVE"
+          );
+        case "reset":
+          return resetUserPassword(user.id);
+        case "promote":
+          return promoteToCoordinator(user.id);
+      }
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      toaster.success(data.message, {
+        saveToInbox: { link: "/coordinator/users" },
+      });
+      setPending(null);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  // Filter baru selalu dimulai dari halaman pertama
+  const withFirstPage =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value);
+      setPage(1);
+    };
+  const changeSearch = withFirstPage(setSearch);
+  const changeRole = withFirstPage(setRole);
+  const changeStatus = withFirstPage(setStatus);
+
+  const confirmCopy = (action: UserAction, user: ManagedUser) => {
+    const name = user.profile?.name || user.email;
+    switch (action) {
+      case "status":
+        return user.status === "ACTIVE"
+          ? {
+              title: t("users.confirm.deactivateTitle"),
+              description: t("users.confirm.deactivate", { name }),
+              confirmLabel: t("users.actions.deactivate"),
+              destructive: true,
+            }
+          : {
+              title: t("users.confirm.activateTitle"),
+              description: t("users.confirm.activate", { name }),
+              confirmLabel: t("users.actions.activate"),
+              destructive: false,
+            };
+      case "reset":
+        return {
+          title: t("users.confirm.resetTitle"),
+          description: t("users.confirm.reset", { name, email: user.email }),
+          confirmLabel: t("users.actions.resetPassword"),
+          destructive: false,
+        };
+      case "promote":
+        return {
+          title: t("users.confirm.promoteTitle"),
+          description: t("users.confirm.promote", { name }),
+          confirmLabel: t("users.actions.promote"),
+          destructive: false,
+        };
+    }
+  };
+
+  const pagination = data?.pagination;
+  const users = data?.users ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("users.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("users.subtitle")}</p>
+      </div>
+
+      <Card>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-3 md:flex-row">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                type="search"
+                aria-label={t("users.search")}
+                placeholder={t("users.search")}
+                className="pl-10"
+                value={search}
+                onChange={(e) => changeSearch(e.target.value)}
+              />
+            </div>
+            <NativeSelect
+              aria-label={t("users.filters.role")}
+              className="md:w-44"
+              value={role}
+              onChange={(e) => changeRole(e.target.value as Role)}
+            >
+              <option value="">{t("users.filters.allRoles")}</option>
+              {ROLE_FILTERS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`roles.${value}`)}
+                </option>
+              ))}
+            </NativeSelect>
+            <NativeSelect
+              aria-label={t("users.filters.status")}
+              className="md:w-44"
+              value={status}
+              onChange={(e) => changeStatus(e.target.value as UserStatus)}
+            >
+              <option value="">{t("users.filters.allStatuses")}</option>
+              {STATUS_FILTERS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`userStatus.${value}`)}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+
+          <div className="overflow-x-auto rounded-md border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">
+                    {t("users.table.user")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("users.table.identity")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("fields.phoneNumber")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("users.table.role")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("users.table.status")}
+                  </th>
+                  <th className="px-4 py-3 font-medium text-right">
+                    {t("users.table.actions")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-10 text-center">
+                      <Loader2 className="mx-auto h-6 w-6 animate-spin text-env-base" />
+                    </td>
+                  </tr>
+                ) : isError ? (
+                  <tr>
+                    <td
+                      colSpan={6}
+                      className="px-4 py-10 text-center text-destructive"
+                    >
+                      {t("users.loadFailed")}
+                    </td>
+                  </tr>
+                ) : users.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={6}
+                      className="px-4 py-10 text-center text-gray-500"
+                    >
+                      {t("users.empty")}
+                    </td>
+                  </tr>
+                ) : (
+                  users.map((user) => (
+                    <tr
+                      key={user.id}
+                      className={isFetching ? "opacity-60" : undefined}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-3">
+                          <UserAvatar
+                            name={user.profile?.name}
+                            src={user.profile?.profilePicture}
+                          />
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 truncate">
+                              {user.profile?.name || "-"}
+                            </p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {user.email}
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {user.profile?.nim || user.profile?.nip || "-"}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {user.profile?.phoneNumber || "-"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge variant="secondary">
+                          {t(`roles.${user.role}`)}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge
+                          variant={
+                            user.status === "ACTIVE" ? "success" : "outline"
+                          }
+                        >
+                          {t(`userStatus.${user.status}`)}
+                        </Badge>
+                        <p className="mt-1 text-xs text-gray-500 whitespace-nowrap">
+                          {t("users.joined", {
+                            date: formatDate(user.createdAt, {
+                              dateStyle: "medium",
+                            }),
+                          })}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={t("users.actions.edit")}
+                            onClick={() => setEditing(user)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                            <span className="sr-only">
+                              {t("users.actions.edit")}
+                            </span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={t("users.actions.resetPassword")}
+                            onClick={() =>
+                              setPending({ action: "reset", user })
+                            }
+                          >
+                            <KeyRound className="h-4 w-4" />
+                            <span className="sr-only">
+                              {t("users.actions.resetPassword")}
+                            </span>
+                          </Button>
+                          {user.role === "LECTURER" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={t("users.actions.promote")}
+                              onClick={() =>
+                                setPending({ action: "promote", user })
+                              }
+                            >
+                              <ShieldCheck className="h-4 w-4" />
+                              <span className="sr-only">
+                                {t("users.actions.promote")}
+                              </span>
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={
+                              user.status === "ACTIVE"
+                                ? t("users.actions.deactivate")
+                                : t("users.actions.activate")
+                            }
+                            className={
+                              user.status === "ACTIVE"
+                                ? "text-destructive hover:text-destructive"
+                                : "text-jewel-green hover:text-jewel-green"
+                            }
+                            onClick={() =>
+                              setPending({ action: "status", user })
+                            }
+                          >
+                            <Power className="h-4 w-4" />
+                            <span className="sr-only">
+                              {user.status === "ACTIVE"
+                                ? t("users.actions.deactivate")
+                                : t("users.actions.activate")}
+                            </span>
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination && pagination.total > 0 && (
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between text-sm text-gray-600">
+              <p>
+                {t("users.pagination.summary", {
+                  from: formatNumber(
+                    (pagination.page - 1) * pagination.pageSize + 1
+                  ),
+                  to: formatNumber(
+                    Math.min(
+                      pagination.page * pagination.pageSize,
+                      pagination.total
+                    )
+                  ),
+                  total: formatNumber(pagination.total),
+                })}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(pagination.page - 1)}
+                  disabled={pagination.page <= 1 || isFetching}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  {t("common.previous")}
+                </Button>
+                <span>
+                  {t("users.pagination.page", {
+                    page: pagination.page,
+                    totalPages: pagination.totalPages,
+                  })}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(pagination.page + 1)}
+                  disabled={
+                    pagination.page >= pagination.totalPages || isFetching
+                  }
+                >
+                  {t("common.next")}
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <EditUserDialog
+          key={editing.id}
+          user={editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+      {pending && (
+        <ConfirmDialog
+          open
+          {...confirmCopy(pending.action, pending.user)}
+          isPending={actionMutation.isPending}
+          onConfirm={() => actionMutation.mutate(pending)}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CoordinatorUsers;
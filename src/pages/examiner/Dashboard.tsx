@@ -0,0 +1,33 @@
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import useAuth from "@/hooks/useAuth";
+import { formatDate } from "@/i18n/format";
+
+const ExaminerDashboard = () => {
+  const { auth } = useAuth();
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-sm text-gray-500">
+          {formatDate(new Date(), { dateStyle: "full" })}
+        </p>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("dashboard.greeting", { name: auth.user?.profile?.name })}
+        </h1>
+        <p className="text-sm text-gray-600">{t("dashboard.examinerIntro")}</p>
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("dashboard.title")}</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-gray-600">
+          {t("dashboard.empty")}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ExaminerDashboard;
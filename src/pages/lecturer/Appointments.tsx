@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import AppointmentCalendar, {
+  CalendarItem,
+} from "@/components/AppointmentCalendar";
+import AppointmentDetailsDialog from "@/components/AppointmentDetailsDialog";
+import AvailabilityEditor from "@/components/AvailabilityEditor";
+import AvailabilityExceptions from "@/components/AvailabilityExceptions";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import {
+  APPOINTMENTS_REFETCH_INTERVAL,
+  calendarRange,
+  CalendarView,
+} from "@/lib/appointments";
+import {
+  getMyAvailability,
+  listAppointments,
+} from "@/services/api/appointments";
+import { Appointment } from "@/types/appointments";
+
+// Kalender janji temu dan pengaturan jadwal pembimbing; dipakai dosen maupun
+// koordinator yang ditetapkan sebagai pembimbing
+const SupervisorAppointments = () => {
+  const { t } = useTranslation();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [selected, setSelected] = useState<Appointment | null>(null);
+
+  const range = calendarRange(view, anchor);
+  const refetchInterval = usePollingInterval(APPOINTMENTS_REFETCH_INTERVAL);
+  const appointmentsQuery = useQuery({
+    queryKey: ["appointments", "list", range],
+    queryFn: () => listAppointments(range),
+    refetchInterval,
+  });
+  const availabilityQuery = useQuery({
+    queryKey: ["appointments", "availability"],
+    queryFn: getMyAvailability,
+  });
+
+  const items: CalendarItem[] = (
+    appointmentsQuery.data?.appointments ?? []
+  ).map((appointment) => ({
+    key: `appointment-${appointment.id}`,
+    start: appointment.start,
+    end: appointment.end,
+    title: appointment.student.name,
+    description: appointment.agenda,
+    tone: appointment.status === "CONFIRMED" ? "confirmed" : "cancelled",
+    onSelect: () => setSelected(appointment),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("appointments.supervisorTitle")}
+        </h1>
+        <p className="text-sm text-gray-600">
+          {t("appointments.supervisorSubtitle")}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {appointmentsQuery.isError ? (
+            <p className="py-10 text-center text-sm text-destructive">
+              {t("appointments.loadFailed")}
+            </p>
+          ) : (
+            <AppointmentCalendar
+              view={view}
+              anchor={anchor}
+              items={items}
+              isLoading={appointmentsQuery.isFetching}
+              onViewChange={setView}
+              onAnchorChange={setAnchor}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {availabilityQuery.isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : availabilityQuery.isError || !availabilityQuery.data ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("appointments.loadFailed")}
+        </p>
+      ) : (
+        <div className="grid gap-6 xl:grid-cols-2">
+          <AvailabilityEditor slots={availabilityQuery.data.slots} />
+          <AvailabilityExceptions
+            exceptions={availabilityQuery.data.exceptions}
+          />
+        </div>
+      )}
+
+      {selected && (
+        <AppointmentDetailsDialog
+          appointment={selected}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SupervisorAppointments;
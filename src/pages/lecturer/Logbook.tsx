@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { NativeSelect } from "@/components/ui/native-select";
+import LogbookEntryCard from "@/components/LogbookEntryCard";
+import LogbookReviewForm from "@/components/LogbookReviewForm";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { LOGBOOK_REFETCH_INTERVAL } from "@/lib/logbook";
+import { listLogbookQueue } from "@/services/api/logbook";
+import { LogbookStatus, logbookStatusSchema } from "@/types/logbook";
+
+// Antrean catatan bimbingan untuk pembimbing; dipakai dosen maupun
+// koordinator yang ditetapkan sebagai pembimbing
+const SupervisorLogbook = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<LogbookStatus | "">("PENDING");
+
+  const params = { status: status || undefined };
+  const refetchInterval = usePollingInterval(LOGBOOK_REFETCH_INTERVAL);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["logbook", "queue", params],
+    queryFn: () => listLogbookQueue(params),
+    refetchInterval,
+  });
+
+  const entries = data?.entries ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-black font-heading text-env-darker">
+            {t("logbook.queueTitle")}
+          </h1>
+          <p className="text-sm text-gray-600">{t("logbook.queueSubtitle")}</p>
+        </div>
+        <NativeSelect
+          aria-label={t("users.filters.status")}
+          className="w-44"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as LogbookStatus | "")}
+        >
+          <option value="">{t("users.filters.allStatuses")}</option>
+          {logbookStatusSchema.options.map((option) => (
+            <option key={option} value={option}>
+              {t(`logbook.status.${option}`)}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : isError ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("logbook.loadFailed")}
+        </p>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="py-6 text-center text-sm text-gray-500">
+            {status === "PENDING"
+              ? t("logbook.queueEmpty")
+              : t("logbook.empty")}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {entries.map((entry) => (
+            <LogbookEntryCard key={entry.id} entry={entry}>
+              <LogbookReviewForm entry={entry} />
+            </LogbookEntryCard>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupervisorLogbook;
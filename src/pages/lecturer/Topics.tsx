@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import TopicApplicants from "@/components/TopicApplicants";
+import TopicCard from "@/components/TopicCard";
+import TopicFormDialog from "@/components/TopicFormDialog";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { TOPICS_REFETCH_INTERVAL } from "@/lib/topics";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { deleteTopic, listMyTopics } from "@/services/api/topics";
+import { Topic } from "@/types/topics";
+
+const LecturerTopics = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  // null berarti dialog tertutup, undefined berarti membuat topik baru
+  const [editing, setEditing] = useState<Topic | undefined | null>(null);
+  const [deleting, setDeleting] = useState<Topic | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const refetchInterval = usePollingInterval(TOPICS_REFETCH_INTERVAL);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["topics", "mine"],
+    queryFn: listMyTopics,
+    refetchInterval,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (topic: Topic) => deleteTopic(topic.id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["topics"] });
+      toaster.success(data.message);
+      setDeleting(null);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const topics = data?.topics ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-black font-heading text-env-darker">
+            {t("topics.lecturerTitle")}
+          </h1>
+          <p className="text-sm text-gray-600">
+            {t("topics.lecturerSubtitle")}
+          </p>
+        </div>
+        <Button
+          className="bg-env-base hover:bg-env-dark text-white"
+          onClick={() => setEditing(undefined)}
+        >
+          <Plus className="h-4 w-4" />
+          {t("topics.new")}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : isError ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("topics.loadFailed")}
+        </p>
+      ) : topics.length === 0 ? (
+        <Card>
+          <CardContent className="py-6 text-center text-sm text-gray-500">
+            {t("topics.emptyMine")}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {topics.map((topic) => {
+            const expanded = expandedId === topic.id;
+            return (
+              <TopicCard
+                key={topic.id}
+                topic={topic}
+                actions={
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing(topic)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      {t("topics.edit")}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setDeleting(topic)}
+                      disabled={topic.acceptedCount > 0}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      {t("topics.delete")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setExpandedId(expanded ? null : topic.id)}
+                      aria-expanded={expanded}
+                    >
+                      {expanded ? (
+                        <ChevronUp className="h-4 w-4" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4" />
+                      )}
+                      {t("topics.applicants.toggle", {
+                        count: topic.pendingCount,
+                      })}
+                    </Button>
+                  </>
+                }
+              >
+                {expanded && <TopicApplicants topic={topic} />}
+              </TopicCard>
+            );
+          })}
+        </div>
+      )}
+
+      {editing !== null && (
+        <TopicFormDialog topic={editing} onClose={() => setEditing(null)} />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          open
+          title={t("topics.deleteTitle")}
+          description={t("topics.deleteConfirm", { title: deleting.title })}
+          confirmLabel={t("topics.delete")}
+          destructive
+          isPending={deleteMutation.isPending}
+          onConfirm={() => deleteMutation.mutate(deleting)}
+          onCancel={() => setDeleting(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LecturerTopics;
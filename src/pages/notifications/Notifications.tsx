@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { CheckCheck, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import NotificationItem from "@/components/NotificationItem";
+import useNotificationActions from "@/hooks/useNotificationActions";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { formatNumber } from "@/i18n/format";
+import {
+  NOTIFICATIONS_QUERY_KEY,
+  NOTIFICATIONS_REFETCH_INTERVAL,
+} from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import { listNotifications } from "@/services/api/notifications";
+
+const PAGE_SIZE = 10;
+
+type InboxFilter = "all" | "unread";
+
+const FILTERS: InboxFilter[] = ["all", "unread"];
+
+const Notifications = () => {
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState<InboxFilter>("all");
+  const [page, setPage] = useState(1);
+  const { toggleRead, markAllRead, open } = useNotificationActions();
+  const refetchInterval = usePollingInterval(NOTIFICATIONS_REFETCH_INTERVAL);
+
+  const params = {
+    page,
+    pageSize: PAGE_SIZE,
+    unreadOnly: filter === "unread" || undefined,
+  };
+  const { data, isLoading, isFetching, isError } = useQuery({
+    queryKey: [...NOTIFICATIONS_QUERY_KEY, "list", params],
+    queryFn: () => listNotifications(params),
+    placeholderData: keepPreviousData,
+    refetchInterval,
+  });
+
+  const changeFilter = (value: InboxFilter) => {
+    setFilter(value);
+    setPage(1);
+  };
+
+  const notifications = data?.notifications ?? [];
+  const pagination = data?.pagination;
+  const unreadCount = data?.unreadCount ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("notifications.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("notifications.subtitle")}</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
+          <div className="flex gap-1 rounded-md bg-gray-100 p-1">
+            {FILTERS.map((value) => (
+              <button
+                key={value}
+                type="button"
+                className={cn(
+                  "rounded px-3 py-1.5 text-sm font-medium text-gray-600",
+                  filter === value && "bg-white text-gray-900 shadow-sm"
+                )}
+                onClick={() => changeFilter(value)}
+              >
+                {value === "unread"
+                  ? t("notifications.filters.unread", {
+                      count: formatNumber(unreadCount),
+                    })
+                  : t("notifications.filters.all")}
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => markAllRead.mutate()}
+            disabled={unreadCount === 0 || markAllRead.isPending}
+          >
+            {markAllRead.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCheck className="h-4 w-4" />
+            )}
+            {t("notifications.markAllRead")}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="divide-y divide-gray-100 overflow-hidden rounded-md border border-gray-200">
+            {isLoading ? (
+              <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+            ) : isError ? (
+              <p className="px-4 py-10 text-center text-sm text-destructive">
+                {t("notifications.loadFailed")}
+              </p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-10 text-center text-sm text-gray-500">
+                {filter === "unread"
+                  ? t("notifications.emptyUnread")
+                  : t("notifications.empty")}
+              </p>
+            ) : (
+              notifications.map((notification) => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onOpen={open}
+                  onToggleRead={(item) => toggleRead.mutate(item)}
+                  toggling={
+                    toggleRead.isPending &&
+                    toggleRead.variables?.id === notification.id
+                  }
+                />
+              ))
+            )}
+          </div>
+
+          {pagination && pagination.total > 0 && (
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between text-sm text-gray-600">
+              <p>
+                {t("notifications.pagination.summary", {
+                  from: formatNumber(
+                    (pagination.page - 1) * pagination.pageSize + 1
+                  ),
+                  to: formatNumber(
+                    Math.min(
+                      pagination.page * pagination.pageSize,
+                      pagination.total
+                    )
+                  ),
+                  total: formatNumber(pagination.total),
+                })}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(pagination.page - 1)}
+                  disabled={pagination.page <= 1 || isFetching}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  {t("common.previous")}
+                </Button>
+                <span>
+                  {t("notifications.pagination.page", {
+                    page: pagination.page,
+                    totalPages: pagination.totalPages,
+                  })}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(pagination.page + 1)}
+                  disabled={
+                    pagination.page >= pagination.totalPages || isFetching
+                  }
+                >
+                  {t("common.next")}
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Notifications;
@@ -0,0 +1,447 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  EyeIcon,
+  EyeOffIcon,
+  IdCard,
+  KeyRound,
+  Loader2,
+  Mail,
+  Phone,
+  Upload,
+  User,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import UserAvatar from "@/components/UserAvatar";
+import AvatarEditor from "@/components/AvatarEditor";
+import UploadProgress from "@/components/UploadProgress";
+import useAuth from "@/hooks/useAuth";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { identityFieldForRole } from "@/lib/domainPolicy";
+import {
+  FormErrors,
+  changePasswordSchema,
+  firstErrors,
+  profileSchema,
+  validateProfilePicture,
+} from "@/lib/validations";
+import {
+  changePassword,
+  updateProfile,
+  updateProfilePicture,
+} from "@/services/api/profile";
+import { ChangePasswordRequest, UpdateProfileRequest } from "@/types/profile";
+
+const emptyPasswordForm: ChangePasswordRequest = {
+  currentPassword: "",
+  password: "",
+  confirmPassword: "",
+};
+
+const Profile = () => {
+  const { auth, updateUser } = useAuth();
+  const { t } = useTranslation();
+  const user = auth.user;
+  const identityField = identityFieldForRole(user?.role ?? "STUDENT");
+
+  const [profileForm, setProfileForm] = useState<UpdateProfileRequest>({
+    name: user?.profile?.name ?? "",
+    nim: user?.profile?.nim ?? "",
+    nip: user?.profile?.nip ?? "",
+    phoneNumber: user?.profile?.phoneNumber ?? "",
+  });
+  const [profileErrors, setProfileErrors] = useState<FormErrors>({});
+  const [passwordForm, setPasswordForm] =
+    useState<ChangePasswordRequest>(emptyPasswordForm);
+  const [passwordErrors, setPasswordErrors] = useState<FormErrors>({});
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [pictureError, setPictureError] = useState<string | null>(null);
+  const [pictureSource, setPictureSource] = useState<File | null>(null);
+  const [uploadPercent, setUploadPercent] = useState(0);
+
+  // API mutations
+  const profileMutation = useMutation({
+    mutationFn: updateProfile,
+    onSuccess: (data) => {
+      updateUser(data.user);
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setProfileErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const pictureMutation = useMutation({
+    mutationFn: (file: File) => {
+      setUploadPercent(0);
+      return updateProfilePicture(file, setUploadPercent);
+    },
+    onSuccess: (data) => {
+      // Avatar di header ikut berubah karena membaca user dari context
+      updateUser(data.user);
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setPictureError(apiError.fieldErrors.profilePicture ?? null);
+      toaster.error(apiError.message);
+    },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: changePassword,
+    onSuccess: (data) => {
+      setPasswordForm(emptyPasswordForm);
+      toaster.success(data.message);
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      setPasswordErrors(apiError.fieldErrors);
+      toaster.error(apiError.message);
+    },
+  });
+
+  // Handlers
+  const handlePictureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const error = validateProfilePicture(file);
+    setPictureError(error);
+    if (!error) setPictureSource(file);
+  };
+
+  const handlePictureCropped = (file: File) => {
+    setPictureSource(null);
+    pictureMutation.mutate(file);
+  };
+
+  const handleProfileSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (profileMutation.isPending) return;
+
+    // Hanya identitas sesuai role yang dikirim, NIM atau NIP
+    const data: UpdateProfileRequest = {
+      name: profileForm.name,
+      phoneNumber: profileForm.phoneNumber,
+    };
+    data[identityField] = profileForm[identityField];
+    const result = profileSchema.safeParse(data);
+    if (!result.success) {
+      setProfileErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    profileMutation.mutate(data);
+  };
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordMutation.isPending) return;
+
+    const result = changePasswordSchema.safeParse(passwordForm);
+    if (!result.success) {
+      setPasswordErrors(firstErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+
+    passwordMutation.mutate(passwordForm);
+  };
+
+  const passwordFields: {
+    id: keyof ChangePasswordRequest;
+    label: string;
+  }[] = [
+    { id: "currentPassword", label: t("profile.currentPassword") },
+    { id: "password", label: t("profile.newPassword") },
+    { id: "confirmPassword", label: t("auth.confirmPassword") },
+  ];
+
+  if (!user) return null;
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("profile.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("profile.subtitle")}</p>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-col sm:flex-row items-center gap-6">
+          <UserAvatar
+            name={user.profile?.name}
+            src={user.profile?.profilePicture}
+            className="w-24 h-24 text-2xl"
+          />
+          <div className="flex-1 text-center sm:text-left">
+            <p className="text-lg font-semibold text-gray-900">
+              {user.profile?.name || user.email}
+            </p>
+            <p className="text-sm text-gray-500">{t(`roles.${user.role}`)}</p>
+            <div className="mt-3 space-y-1">
+              <Label
+                htmlFor="profilePicture"
+                className="cursor-pointer inline-flex items-center justify-center rounded-md text-sm font-medium border border-gray-300 bg-white hover:bg-gray-50 hover:text-gray-700 h-9 px-4"
+              >
+                {pictureMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {t("profile.uploadingPhoto")}
+                  </>
+                ) : (
+                  <>
+                    <Upload className="mr-2 h-4 w-4" />
+                    {t("profile.changePhoto")}
+                  </>
+                )}
+                <input
+                  id="profilePicture"
+                  type="file"
+                  accept="image/*"
+                  className="sr-only"
+                  onChange={handlePictureChange}
+                  disabled={pictureMutation.isPending}
+                />
+              </Label>
+              <p className="text-xs text-gray-600">
+                {t("auth.register.photoHint")}
+              </p>
+              {pictureMutation.isPending && (
+                <UploadProgress value={uploadPercent} className="max-w-xs" />
+              )}
+              {pictureError && (
+                <p className="text-sm text-destructive">{pictureError}</p>
+              )}
+            </div>
+          </div>
+          <AvatarEditor
+            file={pictureSource}
+            onCancel={() => setPictureSource(null)}
+            onConfirm={handlePictureCropped}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("profile.personalData")}</CardTitle>
+          <CardDescription>{t("profile.personalDataHint")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleProfileSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">{t("auth.campusEmail")}</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="email"
+                  type="email"
+                  className="h-11 pl-10"
+                  value={user.email}
+                  disabled
+                />
+              </div>
+              <p className="text-xs text-gray-600">{t("profile.emailHint")}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="name">{t("auth.register.name")}</Label>
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="name"
+                  type="text"
+                  placeholder={t("auth.register.namePlaceholder")}
+                  className="h-11 pl-10"
+                  value={profileForm.name}
+                  onChange={(e) => {
+                    setProfileForm({ ...profileForm, name: e.target.value });
+                    setProfileErrors((prev) => ({ ...prev, name: undefined }));
+                  }}
+                  disabled={profileMutation.isPending}
+                  aria-invalid={!!profileErrors.name}
+                />
+              </div>
+              {profileErrors.name && (
+                <p className="text-sm text-destructive">{profileErrors.name}</p>
+              )}
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="identity">{t(`fields.${identityField}`)}</Label>
+                <div className="relative">
+                  <IdCard className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="identity"
+                    type="text"
+                    placeholder={t("auth.register.identityPlaceholder", {
+                      field: t(`fields.${identityField}`),
+                    })}
+                    className="h-11 pl-10"
+                    value={profileForm[identityField]}
+                    onChange={(e) => {
+                      setProfileForm({
+                        ...profileForm,
+                        [identityField]: e.target.value,
+                      });
+                      setProfileErrors((prev) => ({
+                        ...prev,
+                        nim: undefined,
+                        nip: undefined,
+                      }));
+                    }}
+                    disabled={profileMutation.isPending}
+                    aria-invalid={!!profileErrors[identityField]}
+                  />
+                </div>
+                {(profileErrors.nim || profileErrors.nip) && (
+                  <p className="text-sm text-destructive">
+                    {profileErrors.nim || profileErrors.nip}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phoneNumber">{t("auth.register.phone")}</Label>
+                <div className="relative">
+                  <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="phoneNumber"
+                    type="tel"
+                    placeholder={t("auth.register.phonePlaceholder")}
+                    className="h-11 pl-10"
+                    value={profileForm.phoneNumber}
+                    onChange={(e) => {
+                      setProfileForm({
+                        ...profileForm,
+                        phoneNumber: e.target.value,
+                      });
+                      setProfileErrors((prev) => ({
+                        ...prev,
+                        phoneNumber: undefined,
+                      }));
+                    }}
+                    disabled={profileMutation.isPending}
+                    aria-invalid={!!profileErrors.phoneNumber}
+                  />
+                </div>
+                {profileErrors.phoneNumber && (
+                  <p className="text-sm text-destructive">
+                    {profileErrors.phoneNumber}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                className="bg-env-base hover:bg-env-dark text-white"
+                disabled={profileMutation.isPending}
+              >
+                {profileMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {t("profile.saving")}
+                  </>
+                ) : (
+                  t("profile.save")
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("profile.security")}</CardTitle>
+          <CardDescription>{t("profile.securityHint")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handlePasswordSubmit} className="space-y-4">
+            {passwordFields.map(({ id, label }) => (
+              <div key={id} className="space-y-2">
+                <Label htmlFor={id}>{label}</Label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id={id}
+                    type={showPasswords ? "text" : "password"}
+                    placeholder="********"
+                    className="h-11 pl-10 pr-10"
+                    value={passwordForm[id]}
+                    onChange={(e) => {
+                      setPasswordForm({
+                        ...passwordForm,
+                        [id]: e.target.value,
+                      });
+                      setPasswordErrors((prev) => ({
+                        ...prev,
+                        [id]: undefined,
+                      }));
+                    }}
+                    disabled={passwordMutation.isPending}
+                    aria-invalid={!!passwordErrors[id]}
+                  />
+                  <button
+                    type="button"
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    onClick={() => setShowPasswords(!showPasswords)}
+                  >
+                    {showPasswords ? (
+                      <EyeOffIcon className="h-4 w-4" />
+                    ) : (
+                      <EyeIcon className="h-4 w-4" />
+                    )}
+                    <span className="sr-only">
+                      {showPasswords
+                        ? t("common.hidePassword")
+                        : t("common.showPassword")}
+                    </span>
+                  </button>
+                </div>
+                {passwordErrors[id] && (
+                  <p className="text-sm text-destructive">
+                    {passwordErrors[id]}
+                  </p>
+                )}
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                className="bg-env-base hover:bg-env-dark text-white"
+                disabled={passwordMutation.isPending}
+              >
+                {passwordMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {t("profile.changingPassword")}
+                  </>
+                ) : (
+                  t("profile.changePassword")
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  Loader2,
+  LogOut,
+  Monitor,
+  Smartphone,
+  Tablet,
+  type LucideIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import TwoFactorPolicyCard from "@/components/TwoFactorPolicyCard";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import useAuth from "@/hooks/useAuth";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { DeviceType, describeUserAgent } from "@/lib/userAgent";
+import { formatDateTime, formatRelativeTime } from "@/i18n/format";
+import {
+  getLoginHistory,
+  listSessions,
+  revokeOtherSessions,
+  revokeSession,
+} from "@/services/api/sessions";
+import { Session } from "@/types/sessions";
+import { twoFactorRoleSchema } from "@/types/twoFactor";
+
+// Perangkat yang dikeluarkan dari tab atau perangkat lain ikut terlihat
+// walau stream event sedang tidak tersambung
+const SESSIONS_REFETCH_INTERVAL = 30_000;
+
+const KNOWN_FAILURE_REASONS = [
+  "INVALID_CREDENTIALS",
+  "ACCOUNT_INACTIVE",
+  "INVALID_TWO_FACTOR",
+] as const;
+
+type KnownFailureReason = (typeof KNOWN_FAILURE_REASONS)[number];
+
+const isKnownFailureReason = (reason: string): reason is KnownFailureReason =>
+  (KNOWN_FAILURE_REASONS as readonly string[]).includes(reason);
+
+const deviceIcons: Record<DeviceType, LucideIcon> = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+};
+
+const Security = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { auth } = useAuth();
+  const refetchInterval = usePollingInterval(SESSIONS_REFETCH_INTERVAL);
+  const role = auth.user?.role;
+  const supportsTwoFactor =
+    !!role && (twoFactorRoleSchema.options as string[]).includes(role);
+  // null berarti mengeluarkan semua perangkat lain
+  const [pending, setPending] = useState<Session | null | undefined>(undefined);
+
+  const sessionsQuery = useQuery({
+    queryKey: ["sessions"],
+    queryFn: listSessions,
+    refetchInterval,
+  });
+  const historyQuery = useQuery({
+    queryKey: ["login-history"],
+    queryFn: getLoginHistory,
+  });
+  const sessions = sessionsQuery.data?.sessions ?? [];
+  const attempts = historyQuery.data?.attempts ?? [];
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: Session | null) =>
+      session ? revokeSession(session.id) : revokeOtherSessions(),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+      toaster.success(data.message);
+      setPending(undefined);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const describeDevice = (userAgent: string) => {
+    const { browser, os } = describeUserAgent(userAgent);
+    if (browser && os) return t("security.device", { browser, os });
+    return browser || os || t("security.unknownDevice");
+  };
+
+  const failureReason = (reason: string | null) =>
+    reason && isKnownFailureReason(reason)
+      ? t(`security.history.reasons.${reason}`)
+      : t("security.history.failed");
+
+  const confirmCopy =
+    pending === null
+      ? {
+          title: t("security.confirm.revokeOthersTitle"),
+          description: t("security.confirm.revokeOthers", {
+            count: otherSessions.length,
+          }),
+          confirmLabel: t("security.sessions.revokeOthers"),
+        }
+      : {
+          title: t("security.confirm.revokeTitle"),
+          description: t("security.confirm.revoke", {
+            device: pending ? describeDevice(pending.userAgent) : "",
+          }),
+          confirmLabel: t("security.sessions.revoke"),
+        };
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("security.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("security.subtitle")}</p>
+      </div>
+
+      {supportsTwoFactor && <TwoFactorSettings />}
+      {role === "COORDINATOR" && <TwoFactorPolicyCard />}
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t("security.sessions.title")}</CardTitle>
+            <CardDescription>{t("security.sessions.subtitle")}</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            className="text-jewel-red hover:text-jewel-red"
+            disabled={otherSessions.length === 0}
+            onClick={() => setPending(null)}
+          >
+            <LogOut className="h-4 w-4" />
+            {t("security.sessions.revokeOthers")}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {sessionsQuery.isLoading ? (
+            <Loader2 className="mx-auto h-6 w-6 animate-spin text-env-base" />
+          ) : sessionsQuery.isError ? (
+            <p className="text-sm text-destructive">
+              {t("security.sessions.loadFailed")}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {sessions.map((session) => {
+                const Icon =
+                  deviceIcons[describeUserAgent(session.userAgent).device];
+                return (
+                  <li
+                    key={session.id}
+                    className="flex items-center gap-4 py-3 first:pt-0 last:pb-0"
+                  >
+                    <div className="h-10 w-10 shrink-0 rounded-full bg-gray-100 flex items-center justify-center">
+                      <Icon className="h-5 w-5 text-gray-600" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium text-gray-900">
+                          {describeDevice(session.userAgent)}
+                        </p>
+                        {session.current && (
+                          <Badge variant="success">
+                            {t("security.sessions.current")}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {t("security.sessions.details", {
+                          ip: session.ipAddress,
+                          lastActive: formatRelativeTime(session.lastActiveAt),
+                          signedIn: formatDateTime(session.createdAt),
+                        })}
+                      </p>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-600 hover:text-jewel-red"
+                        onClick={() => setPending(session)}
+                      >
+                        {t("security.sessions.revoke")}
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("security.history.title")}</CardTitle>
+          <CardDescription>{t("security.history.subtitle")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto rounded-md border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">
+                    {t("security.history.time")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("security.history.status")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("security.history.device")}
+                  </th>
+                  <th className="px-4 py-3 font-medium">
+                    {t("security.history.ipAddress")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {historyQuery.isLoading ? (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-10 text-center">
+                      <Loader2 className="mx-auto h-6 w-6 animate-spin text-env-base" />
+                    </td>
+                  </tr>
+                ) : historyQuery.isError ? (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-4 py-10 text-center text-destructive"
+                    >
+                      {t("security.history.loadFailed")}
+                    </td>
+                  </tr>
+                ) : attempts.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-4 py-10 text-center text-gray-500"
+                    >
+                      {t("security.history.empty")}
+                    </td>
+                  </tr>
+                ) : (
+                  attempts.map((attempt) => (
+                    <tr key={attempt.id}>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <p>{formatDateTime(attempt.createdAt)}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatRelativeTime(attempt.createdAt)}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        {attempt.success ? (
+                          <Badge variant="success">
+                            {t("security.history.success")}
+                          </Badge>
+                        ) : (
+                          <Badge variant="destructive">
+                            {failureReason(attempt.reason)}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {describeDevice(attempt.userAgent)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {attempt.ipAddress}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        open={pending !== undefined}
+        {...confirmCopy}
+        destructive
+        isPending={revokeMutation.isPending}
+        onConfirm={() =>
+          pending !== undefined && revokeMutation.mutate(pending)
+        }
+        onCancel={() => setPending(undefined)}
+      />
+    </div>
+  );
+};
+
+export default Security;
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent } from "@/components/ui/card";
+import AppointmentCalendar, {
+  CalendarItem,
+} from "@/components/AppointmentCalendar";
+import SeminarDetailsDialog from "@/components/SeminarDetailsDialog";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { calendarRange, CalendarView } from "@/lib/appointments";
+import { SEMINARS_REFETCH_INTERVAL } from "@/lib/seminars";
+import { listSeminars } from "@/services/api/seminars";
+import { Seminar } from "@/types/seminars";
+
+// Jadwal seminar dan sidang yang sudah diumumkan; dipakai mahasiswa, dosen,
+// dan penguji sesuai keterlibatannya
+const Seminars = () => {
+  const { t } = useTranslation();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [selected, setSelected] = useState<Seminar | null>(null);
+
+  const range = calendarRange(view, anchor);
+  const refetchInterval = usePollingInterval(SEMINARS_REFETCH_INTERVAL);
+  const seminarsQuery = useQuery({
+    queryKey: ["seminars", "list", range],
+    queryFn: () => listSeminars(range),
+    refetchInterval,
+  });
+
+  const items: CalendarItem[] = (seminarsQuery.data?.seminars ?? []).map(
+    (seminar) => ({
+      key: `seminar-${seminar.id}`,
+      start: seminar.start,
+      end: seminar.end,
+      title: `${t(`seminars.types.${seminar.type}`)} · ${seminar.student.name}`,
+      description: seminar.room.name,
+      tone: "confirmed",
+      onSelect: () => setSelected(seminar),
+    })
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("seminars.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("seminars.subtitle")}</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {seminarsQuery.isError ? (
+            <p className="py-10 text-center text-sm text-destructive">
+              {t("seminars.loadFailed")}
+            </p>
+          ) : (
+            <AppointmentCalendar
+              view={view}
+              anchor={anchor}
+              items={items}
+              isLoading={seminarsQuery.isFetching}
+              onViewChange={setView}
+              onAnchorChange={setAnchor}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <SeminarDetailsDialog
+          seminar={selected}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Seminars;
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { NativeSelect } from "@/components/ui/native-select";
+import AppointmentCalendar, {
+  CalendarItem,
+} from "@/components/AppointmentCalendar";
+import AppointmentDetailsDialog from "@/components/AppointmentDetailsDialog";
+import BookAppointmentDialog from "@/components/BookAppointmentDialog";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import LogbookEntryDialog from "@/components/LogbookEntryDialog";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { formatDate } from "@/i18n/format";
+import {
+  APPOINTMENTS_REFETCH_INTERVAL,
+  calendarRange,
+  CalendarView,
+  canRecordAppointment,
+  overlaps,
+} from "@/lib/appointments";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import {
+  listAppointments,
+  listOpenSlots,
+  rescheduleAppointment,
+} from "@/services/api/appointments";
+import { getMyLogbook } from "@/services/api/logbook";
+import { Appointment, OpenSlot } from "@/types/appointments";
+
+const StudentAppointments = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+  // Kosong berarti pembimbing pertama
+  const [supervisorId, setSupervisorId] = useState("");
+  const [selected, setSelected] = useState<Appointment | null>(null);
+  const [booking, setBooking] = useState<OpenSlot | null>(null);
+  // Selama menjadwalkan ulang, slot kosong yang dipilih menjadi waktu baru
+  const [rescheduling, setRescheduling] = useState<Appointment | null>(null);
+  const [moveTarget, setMoveTarget] = useState<OpenSlot | null>(null);
+  const [recording, setRecording] = useState<Appointment | null>(null);
+
+  const logbookQuery = useQuery({
+    queryKey: ["logbook", "mine"],
+    queryFn: getMyLogbook,
+  });
+  const supervisors = logbookQuery.data?.supervisors ?? [];
+  const supervisor =
+    supervisors.find((item) => String(item.id) === supervisorId) ??
+    supervisors[0];
+
+  const range = calendarRange(view, anchor);
+  const refetchInterval = usePollingInterval(APPOINTMENTS_REFETCH_INTERVAL);
+  const appointmentsQuery = useQuery({
+    queryKey: ["appointments", "list", range],
+    queryFn: () => listAppointments(range),
+    refetchInterval,
+    enabled: !!supervisor,
+  });
+  const slotParams = { supervisorId: supervisor?.id ?? 0, ...range };
+  const slotsQuery = useQuery({
+    queryKey: ["appointments", "slots", slotParams],
+    queryFn: () => listOpenSlots(slotParams),
+    refetchInterval,
+    enabled: !!supervisor,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ id, slot }: { id: number; slot: OpenSlot }) =>
+      rescheduleAppointment(id, { start: slot.start }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      toaster.success(data.message);
+      setRescheduling(null);
+      setMoveTarget(null);
+    },
+    onError: (error) => {
+      const apiError = toApiError(error);
+      toaster.error(apiError.fieldErrors.start ?? apiError.message);
+      queryClient.invalidateQueries({ queryKey: ["appointments", "slots"] });
+      setMoveTarget(null);
+    },
+  });
+
+  const appointments = appointmentsQuery.data?.appointments ?? [];
+  const booked = appointments.filter((item) => item.status === "CONFIRMED");
+  const items: CalendarItem[] = [
+    ...appointments.map((appointment): CalendarItem => ({
+      key: `appointment-${appointment.id}`,
+      start: appointment.start,
+      end: appointment.end,
+      title: appointment.supervisor.name,
+      description: canRecordAppointment(appointment)
+        ? `${appointment.agenda} · ${t("appointments.notRecorded")}`
+        : appointment.agenda,
+      tone: appointment.status === "CONFIRMED" ? "confirmed" : "cancelled",
+      onSelect: () => setSelected(appointment),
+    })),
+    // Slot yang bertepatan dengan janji sendiri cukup ditampilkan sebagai janji
+    ...(slotsQuery.data?.slots ?? [])
+      .filter((slot) => !booked.some((item) => overlaps(item, slot)))
+      .map((slot): CalendarItem => ({
+        key: `slot-${slot.start}`,
+        start: slot.start,
+        end: slot.end,
+        title: slot.booked
+          ? t("appointments.taken")
+          : t("appointments.openSlot"),
+        description: slot.venue,
+        tone: slot.booked ? "taken" : "open",
+        onSelect: slot.booked
+          ? undefined
+          : () => (rescheduling ? setMoveTarget(slot) : setBooking(slot)),
+      })),
+  ];
+
+  const startRescheduling = (appointment: Appointment) => {
+    setSupervisorId(String(appointment.supervisor.id));
+    setRescheduling(appointment);
+    setSelected(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-black font-heading text-env-darker">
+            {t("appointments.title")}
+          </h1>
+          <p className="text-sm text-gray-600">{t("appointments.subtitle")}</p>
+        </div>
+        {supervisors.length > 0 && (
+          <NativeSelect
+            aria-label={t("fields.supervisorId")}
+            className="w-64"
+            value={supervisor?.id ?? ""}
+            onChange={(e) => setSupervisorId(e.target.value)}
+            disabled={!!rescheduling}
+          >
+            {supervisors.map((item) => (
+              <option key={item.id} value={item.id}>
+                {`${item.name} (${t(`supervision.positions.${item.position}`)})`}
+              </option>
+            ))}
+          </NativeSelect>
+        )}
+      </div>
+
+      {logbookQuery.isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : logbookQuery.isError ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("appointments.loadFailed")}
+        </p>
+      ) : !supervisor ? (
+        <Card>
+          <CardContent className="py-6 text-center text-sm text-gray-500">
+            {t("appointments.noSupervisor")}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {rescheduling && (
+            <Alert variant="info">
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                {t("appointments.reschedule.banner", {
+                  agenda: rescheduling.agenda,
+                })}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRescheduling(null)}
+                >
+                  {t("appointments.reschedule.stop")}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+          <Card>
+            <CardContent className="pt-6">
+              {appointmentsQuery.isError || slotsQuery.isError ? (
+                <p className="py-10 text-center text-sm text-destructive">
+                  {t("appointments.loadFailed")}
+                </p>
+              ) : (
+                <AppointmentCalendar
+                  view={view}
+                  anchor={anchor}
+                  items={items}
+                  isLoading={
+                    appointmentsQuery.isFetching || slotsQuery.isFetching
+                  }
+                  onViewChange={setView}
+                  onAnchorChange={setAnchor}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {booking && supervisor && (
+        <BookAppointmentDialog
+          supervisor={supervisor}
+          slot={booking}
+          onClose={() => setBooking(null)}
+        />
+      )}
+
+      {selected && (
+        <AppointmentDetailsDialog
+          appointment={selected}
+          onReschedule={() => startRescheduling(selected)}
+          onRecord={() => {
+            setRecording(selected);
+            setSelected(null);
+          }}
+          onClose={() => setSelected(null)}
+        />
+      )}
+
+      {rescheduling && moveTarget && (
+        <ConfirmDialog
+          open
+          title={t("appointments.reschedule.confirmTitle")}
+          description={t("appointments.reschedule.confirm", {
+            time: formatDate(moveTarget.start, {
+              dateStyle: "full",
+              timeStyle: "short",
+            }),
+            venue: moveTarget.venue,
+          })}
+          confirmLabel={t("appointments.reschedule.submit")}
+          isPending={rescheduleMutation.isPending}
+          onConfirm={() =>
+            rescheduleMutation.mutate({
+              id: rescheduling.id,
+              slot: moveTarget,
+            })
+          }
+          onCancel={() => setMoveTarget(null)}
+        />
+      )}
+
+      {recording && (
+        <LogbookEntryDialog
+          appointment={recording}
+          supervisors={supervisors}
+          onClose={() => setRecording(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StudentAppointments;
@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import LogbookProgress from "@/components/LogbookProgress";
+import useAuth from "@/hooks/useAuth";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { formatDate } from "@/i18n/format";
+import { LOGBOOK_REFETCH_INTERVAL } from "@/lib/logbook";
+import { getMyLogbook } from "@/services/api/logbook";
+
+const StudentDashboard = () => {
+  const { auth } = useAuth();
+  const { t } = useTranslation();
+
+  const refetchInterval = usePollingInterval(LOGBOOK_REFETCH_INTERVAL);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["logbook", "mine"],
+    queryFn: getMyLogbook,
+    refetchInterval,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-sm text-gray-500">
+          {formatDate(new Date(), { dateStyle: "full" })}
+        </p>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("dashboard.greeting", { name: auth.user?.profile?.name })}
+        </h1>
+        <p className="text-sm text-gray-600">{t("dashboard.studentIntro")}</p>
+      </div>
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t("logbook.progress.title")}</CardTitle>
+            <CardDescription>{t("logbook.progress.subtitle")}</CardDescription>
+          </div>
+          <Link
+            to="/student/logbook"
+            className="text-sm font-medium text-env-base hover:text-env-dark"
+          >
+            {t("logbook.open")}
+          </Link>
+        </CardHeader>
+        <CardContent className="text-sm text-gray-600">
+          {isLoading ? (
+            <Loader2 className="mx-auto h-5 w-5 animate-spin text-env-base" />
+          ) : isError || !data ? (
+            <p className="text-destructive">{t("logbook.loadFailed")}</p>
+          ) : data.supervisors.length === 0 ? (
+            t("logbook.noSupervisor")
+          ) : (
+            <LogbookProgress
+              entries={data.entries}
+              minApproved={data.minApproved}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StudentDashboard;
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Pencil, Plus, Printer, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { NativeSelect } from "@/components/ui/native-select";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import LogbookEntryCard from "@/components/LogbookEntryCard";
+import LogbookEntryDialog from "@/components/LogbookEntryDialog";
+import LogbookProgress from "@/components/LogbookProgress";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { toaster } from "@/lib/sonner";
+import { toApiError } from "@/lib/errors";
+import { isLogbookEditable, LOGBOOK_REFETCH_INTERVAL } from "@/lib/logbook";
+import { LOGBOOK_PRINT_PATH } from "@/lib/navigation";
+import { deleteLogbookEntry, getMyLogbook } from "@/services/api/logbook";
+import {
+  LogbookEntry,
+  LogbookStatus,
+  logbookStatusSchema,
+} from "@/types/logbook";
+
+const StudentLogbook = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  // null berarti dialog tertutup, undefined berarti catatan baru
+  const [editing, setEditing] = useState<LogbookEntry | undefined | null>(null);
+  const [deleting, setDeleting] = useState<LogbookEntry | null>(null);
+  const [statusFilter, setStatusFilter] = useState<LogbookStatus | "">("");
+
+  const refetchInterval = usePollingInterval(LOGBOOK_REFETCH_INTERVAL);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["logbook", "mine"],
+    queryFn: getMyLogbook,
+    refetchInterval,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entry: LogbookEntry) => deleteLogbookEntry(entry.id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["logbook"] });
+      toaster.success(data.message);
+      setDeleting(null);
+    },
+    onError: (error) => {
+      toaster.error(toApiError(error).message);
+    },
+  });
+
+  const supervisors = data?.supervisors ?? [];
+  const entries = (data?.entries ?? []).filter(
+    (entry) => !statusFilter || entry.status === statusFilter
+  );
+  const hasSupervisors = supervisors.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-black font-heading text-env-darker">
+            {t("logbook.title")}
+          </h1>
+          <p className="text-sm text-gray-600">{t("logbook.subtitle")}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => navigate(LOGBOOK_PRINT_PATH)}
+            disabled={
+              !data?.entries.some((entry) => entry.status === "APPROVED")
+            }
+          >
+            <Printer className="h-4 w-4" />
+            {t("logbook.print.action")}
+          </Button>
+          <Button
+            className="bg-env-base hover:bg-env-dark text-white"
+            onClick={() => setEditing(undefined)}
+            disabled={!hasSupervisors}
+          >
+            <Plus className="h-4 w-4" />
+            {t("logbook.new")}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : isError || !data ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("logbook.loadFailed")}
+        </p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("logbook.progress.title")}</CardTitle>
+              <CardDescription>
+                {hasSupervisors
+                  ? supervisors
+                      .map(
+                        (supervisor) =>
+                          `${t(`supervision.positions.${supervisor.position}`)}: ${supervisor.name}`
+                      )
+                      .join(" · ")
+                  : t("logbook.noSupervisor")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LogbookProgress
+                entries={data.entries}
+                minApproved={data.minApproved}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="font-semibold text-gray-900">
+              {t("logbook.entries")}
+            </h2>
+            <NativeSelect
+              aria-label={t("users.filters.status")}
+              className="w-44"
+              value={statusFilter}
+              onChange={(e) =>
+                setStatusFilter(e.target.value as LogbookStatus | "")
+              }
+            >
+              <option value="">{t("users.filters.allStatuses")}</option>
+              {logbookStatusSchema.options.map((status) => (
+                <option key={status} value={status}>
+                  {t(`logbook.status.${status}`)}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+
+          {entries.length === 0 ? (
+            <Card>
+              <CardContent className="py-6 text-center text-sm text-gray-500">
+                {t("logbook.empty")}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {entries.map((entry) => (
+                <LogbookEntryCard
+                  key={entry.id}
+                  entry={entry}
+                  actions={
+                    isLogbookEditable(entry) && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t("logbook.edit")}
+                          onClick={() => setEditing(entry)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">{t("logbook.edit")}</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t("logbook.delete")}
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setDeleting(entry)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">{t("logbook.delete")}</span>
+                        </Button>
+                      </>
+                    )
+                  }
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {editing !== null && (
+        <LogbookEntryDialog
+          entry={editing}
+          supervisors={supervisors}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          open
+          title={t("logbook.deleteTitle")}
+          description={t("logbook.deleteConfirm", { topic: deleting.topic })}
+          confirmLabel={t("logbook.delete")}
+          destructive
+          isPending={deleteMutation.isPending}
+          onConfirm={() => deleteMutation.mutate(deleting)}
+          onCancel={() => setDeleting(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StudentLogbook;
@@ -0,0 +1,169 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import useAuth from "@/hooks/useAuth";
+import { formatDate } from "@/i18n/format";
+import { parseDateValue } from "@/lib/logbook";
+import { getMyLogbook } from "@/services/api/logbook";
+
+// Kartu bimbingan siap cetak: hanya pertemuan yang sudah disetujui, diurutkan
+// dari yang paling awal
+const StudentLogbookPrint = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { auth } = useAuth();
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["logbook", "mine"],
+    queryFn: getMyLogbook,
+  });
+
+  if (isLoading) {
+    return (
+      <Loader2 className="mx-auto my-20 h-6 w-6 animate-spin text-env-base" />
+    );
+  }
+  if (isError || !data) {
+    return (
+      <p className="py-20 text-center text-sm text-destructive">
+        {t("logbook.loadFailed")}
+      </p>
+    );
+  }
+
+  const approved = data.entries
+    .filter((entry) => entry.status === "APPROVED")
+    .sort((a, b) => a.meetingDate.localeCompare(b.meetingDate));
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 print:bg-white print:py-0">
+      <div className="mx-auto mb-4 flex max-w-4xl justify-between gap-2 px-4 print:hidden">
+        <Button variant="outline" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4" />
+          {t("common.back")}
+        </Button>
+        <Button
+          className="bg-env-base hover:bg-env-dark text-white"
+          onClick={() => window.print()}
+        >
+          <Printer className="h-4 w-4" />
+          {t("logbook.print.print")}
+        </Button>
+      </div>
+
+      <article className="mx-auto max-w-4xl space-y-6 bg-white p-10 text-sm text-gray-900 shadow print:max-w-none print:p-0 print:shadow-none">
+        <header className="border-b-2 border-gray-900 pb-4 text-center">
+          <h1 className="text-lg font-bold uppercase">
+            {t("logbook.print.title")}
+          </h1>
+          <p>{t("common.footer")}</p>
+        </header>
+
+        <dl className="grid grid-cols-[10rem_1fr] gap-x-4 gap-y-1">
+          <dt>{t("fields.name")}</dt>
+          <dd>: {auth.user?.profile?.name ?? "-"}</dd>
+          <dt>{t("fields.nim")}</dt>
+          <dd>: {auth.user?.profile?.nim ?? "-"}</dd>
+          <dt>{t("fields.title")}</dt>
+          <dd>: {data.thesisTitle ?? "-"}</dd>
+          {data.supervisors.map((supervisor) => (
+            <div key={supervisor.id} className="contents">
+              <dt>{t(`supervision.positions.${supervisor.position}`)}</dt>
+              <dd>: {supervisor.name}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-100 print:bg-transparent">
+              {[
+                t("logbook.print.number"),
+                t("fields.meetingDate"),
+                t("fields.topic"),
+                t("fields.nextActions"),
+                t("logbook.print.supervisor"),
+                t("logbook.print.signOff"),
+              ].map((label) => (
+                <th
+                  key={label}
+                  className="border border-gray-400 px-2 py-1.5 text-left font-semibold"
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {approved.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="border border-gray-400 px-2 py-6 text-center text-gray-500"
+                >
+                  {t("logbook.print.empty")}
+                </td>
+              </tr>
+            ) : (
+              approved.map((entry, index) => (
+                <tr key={entry.id} className="break-inside-avoid align-top">
+                  <td className="border border-gray-400 px-2 py-1.5 text-center">
+                    {index + 1}
+                  </td>
+                  <td className="whitespace-nowrap border border-gray-400 px-2 py-1.5">
+                    {formatDate(parseDateValue(entry.meetingDate), {
+                      dateStyle: "medium",
+                    })}
+                  </td>
+                  <td className="border border-gray-400 px-2 py-1.5">
+                    {entry.topic}
+                  </td>
+                  <td className="whitespace-pre-line border border-gray-400 px-2 py-1.5">
+                    {entry.nextActions}
+                  </td>
+                  <td className="border border-gray-400 px-2 py-1.5">
+                    {entry.supervisor.name}
+                  </td>
+                  <td className="border border-gray-400 px-2 py-1.5 text-xs">
+                    {entry.reviewedAt &&
+                      t("logbook.print.approvedAt", {
+                        date: formatDate(entry.reviewedAt, {
+                          dateStyle: "medium",
+                        }),
+                      })}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+
+        <p>
+          {t("logbook.progress.count", {
+            approved: approved.length,
+            minimum: data.minApproved,
+          })}
+        </p>
+
+        <footer className="grid grid-cols-2 gap-8 pt-6 text-center">
+          {data.supervisors.map((supervisor) => (
+            <div key={supervisor.id} className="space-y-16">
+              <p>{t(`supervision.positions.${supervisor.position}`)}</p>
+              <p className="font-semibold underline">{supervisor.name}</p>
+            </div>
+          ))}
+        </footer>
+
+        <p className="text-right text-xs text-gray-500">
+          {t("logbook.print.printedAt", {
+            date: formatDate(new Date(), { dateStyle: "long" }),
+          })}
+        </p>
+      </article>
+    </div>
+  );
+};
+
+export default StudentLogbookPrint;
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { FilePlus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import ProposalForm from "@/components/ProposalForm";
+import ProposalStatusCard from "@/components/ProposalStatusCard";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import {
+  isProposalEditable,
+  PROPOSALS_REFETCH_INTERVAL,
+} from "@/lib/proposals";
+import {
+  listMyProposals,
+  listSupervisorOptions,
+} from "@/services/api/proposals";
+
+const StudentProposal = () => {
+  const { t } = useTranslation();
+  // Pengajuan yang ditolak boleh diganti dengan pengajuan baru
+  const [startingNew, setStartingNew] = useState(false);
+
+  const refetchInterval = usePollingInterval(PROPOSALS_REFETCH_INTERVAL);
+  const proposalsQuery = useQuery({
+    queryKey: ["proposals", "mine"],
+    queryFn: listMyProposals,
+    refetchInterval,
+  });
+  const supervisorsQuery = useQuery({
+    queryKey: ["proposals", "supervisors"],
+    queryFn: listSupervisorOptions,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const isLoading = proposalsQuery.isLoading || supervisorsQuery.isLoading;
+  const isError = proposalsQuery.isError || supervisorsQuery.isError;
+
+  // Daftar diurutkan dari yang terbaru, jadi pengajuan aktif ada di depan
+  const current = proposalsQuery.data?.proposals[0];
+  const editable = current && isProposalEditable(current.status);
+  const showForm =
+    !current || editable || (startingNew && current.status === "REJECTED");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("proposals.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("proposals.subtitle")}</p>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : isError ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("proposals.loadFailed")}
+        </p>
+      ) : (
+        <>
+          {current && (
+            <ProposalStatusCard key={current.id} proposal={current} />
+          )}
+
+          {current?.status === "REJECTED" && !startingNew && (
+            <Button
+              className="bg-env-base hover:bg-env-dark text-white"
+              onClick={() => setStartingNew(true)}
+            >
+              <FilePlus className="h-4 w-4" />
+              {t("proposals.startNew")}
+            </Button>
+          )}
+
+          {/* Posisi form dijaga tetap agar tidak di-mount ulang saat draf pertama tersimpan */}
+          {showForm && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {current?.status === "REVISION_REQUESTED"
+                    ? t("proposals.form.reviseTitle")
+                    : t("proposals.form.title")}
+                </CardTitle>
+                <CardDescription>
+                  {t("proposals.form.subtitle")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ProposalForm
+                  proposal={editable ? current : undefined}
+                  supervisors={supervisorsQuery.data?.supervisors ?? []}
+                />
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StudentProposal;
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { ChevronLeft, ChevronRight, Loader2, Search, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import ApplyTopicDialog from "@/components/ApplyTopicDialog";
+import TopicCard from "@/components/TopicCard";
+import useDebouncedValue from "@/hooks/useDebouncedValue";
+import usePollingInterval from "@/hooks/usePollingInterval";
+import { formatDateTime } from "@/i18n/format";
+import {
+  isTopicFull,
+  topicApplicationStatusVariants,
+  TOPICS_REFETCH_INTERVAL,
+} from "@/lib/topics";
+import { cn } from "@/lib/utils";
+import { listMyTopicApplications, listTopics } from "@/services/api/topics";
+import { ResearchField, researchFieldSchema } from "@/types/proposals";
+import { Topic } from "@/types/topics";
+
+const PAGE_SIZE = 6;
+
+const StudentTopics = () => {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState("");
+  const [researchField, setResearchField] = useState<ResearchField | "">("");
+  const [availableOnly, setAvailableOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [applying, setApplying] = useState<Topic | null>(null);
+  const debouncedSearch = useDebouncedValue(search.trim());
+
+  const params = {
+    page,
+    pageSize: PAGE_SIZE,
+    search: debouncedSearch || undefined,
+    researchField: researchField || undefined,
+    availableOnly: availableOnly || undefined,
+  };
+  const refetchInterval = usePollingInterval(TOPICS_REFETCH_INTERVAL);
+  const { data, isLoading, isFetching, isError } = useQuery({
+    queryKey: ["topics", "board", params],
+    queryFn: () => listTopics(params),
+    refetchInterval,
+    placeholderData: keepPreviousData,
+  });
+  const applicationsQuery = useQuery({
+    queryKey: ["topic-applications", "mine"],
+    queryFn: listMyTopicApplications,
+    refetchInterval,
+  });
+
+  // Filter baru selalu dimulai dari halaman pertama
+  const withFirstPage =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value);
+      setPage(1);
+    };
+  const changeSearch = withFirstPage(setSearch);
+  const changeResearchField = withFirstPage(setResearchField);
+  const changeAvailableOnly = withFirstPage(setAvailableOnly);
+
+  const topics = data?.topics ?? [];
+  const pagination = data?.pagination;
+  const applications = applicationsQuery.data?.applications ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-black font-heading text-env-darker">
+          {t("topics.title")}
+        </h1>
+        <p className="text-sm text-gray-600">{t("topics.subtitle")}</p>
+      </div>
+
+      {applications.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("topics.myApplications")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {applications.map((application) => (
+                <li
+                  key={application.id}
+                  className="flex flex-wrap items-center justify-between gap-2 py-2"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {application.topicTitle}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {application.lecturerName} ·{" "}
+                      {formatDateTime(application.createdAt)}
+                    </p>
+                  </div>
+                  <Badge
+                    variant={topicApplicationStatusVariants[application.status]}
+                  >
+                    {t(`topics.applicationStatus.${application.status}`)}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex flex-col gap-3 md:flex-row md:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            type="search"
+            aria-label={t("topics.search")}
+            placeholder={t("topics.search")}
+            className="pl-10"
+            value={search}
+            onChange={(e) => changeSearch(e.target.value)}
+          />
+        </div>
+        <NativeSelect
+          aria-label={t("fields.researchField")}
+          className="md:w-56"
+          value={researchField}
+          onChange={(e) =>
+            changeResearchField(e.target.value as ResearchField | "")
+          }
+        >
+          <option value="">{t("topics.allFields")}</option>
+          {researchFieldSchema.options.map((field) => (
+            <option key={field} value={field}>
+              {t(`proposals.researchFields.${field}`)}
+            </option>
+          ))}
+        </NativeSelect>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-env-base"
+            checked={availableOnly}
+            onChange={(e) => changeAvailableOnly(e.target.checked)}
+          />
+          {t("topics.availableOnly")}
+        </label>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="mx-auto my-10 h-6 w-6 animate-spin text-env-base" />
+      ) : isError ? (
+        <p className="py-10 text-center text-sm text-destructive">
+          {t("topics.loadFailed")}
+        </p>
+      ) : topics.length === 0 ? (
+        <p className="py-10 text-center text-sm text-gray-500">
+          {t("topics.empty")}
+        </p>
+      ) : (
+        <div
+          className={cn(
+            "grid gap-4 lg:grid-cols-2",
+            isFetching && "opacity-60"
+          )}
+        >
+          {topics.map((topic) => (
+            <TopicCard
+              key={topic.id}
+              topic={topic}
+              actions={
+                topic.myApplicationStatus ? (
+                  <Badge
+                    variant={
+                      topicApplicationStatusVariants[topic.myApplicationStatus]
+                    }
+                  >
+                    {t(`topics.applicationStatus.${topic.myApplicationStatus}`)}
+                  </Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    className="bg-env-base hover:bg-env-dark text-white"
+                    onClick={() => setApplying(topic)}
+                    disabled={isTopicFull(topic)}
+                  >
+                    <Send className="h-4 w-4" />
+                    {t("topics.apply.action")}
+                  </Button>
+                )
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-gray-600">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(pagination.page - 1)}
+            disabled={pagination.page <= 1 || isFetching}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            {t("common.previous")}
+          </Button>
+          <span>
+            {t("topics.page", {
+              page: pagination.page,
+              totalPages: pagination.totalPages,
+            })}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(pagination.page + 1)}
+            disabled={pagination.page >= pagination.totalPages || isFetching}
+          >
+            {t("common.next")}
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {applying && (
+        <ApplyTopicDialog topic={applying} onClose={() => setApplying(null)} />
+      )}
+    </div>
+  );
+};
+
+export default StudentTopics;
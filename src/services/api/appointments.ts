@@ -0,0 +1,112 @@
+import { request } from "./client";
+import {
+  AppointmentResponse,
+  appointmentResponseSchema,
+  AppointmentsResponse,
+  appointmentsResponseSchema,
+  AvailabilityExceptionRequest,
+  AvailabilityExceptionResponse,
+  availabilityExceptionResponseSchema,
+  AvailabilityResponse,
+  availabilityResponseSchema,
+  BookAppointmentRequest,
+  CancelAppointmentRequest,
+  DateRangeParams,
+  DeleteAvailabilityExceptionResponse,
+  deleteAvailabilityExceptionResponseSchema,
+  ListOpenSlotsParams,
+  OpenSlotsResponse,
+  openSlotsResponseSchema,
+  RescheduleAppointmentRequest,
+  UpdateAvailabilityRequest,
+  UpdateAvailabilityResponse,
+  updateAvailabilityResponseSchema,
+} from "../../types/appointments";
+
+export const getMyAvailability = async (): Promise<AvailabilityResponse> => {
+  return request(availabilityResponseSchema, {
+    method: "GET",
+    url: "/availability/mine",
+  });
+};
+
+export const updateMyAvailability = async (
+  data: UpdateAvailabilityRequest
+): Promise<UpdateAvailabilityResponse> => {
+  return request(updateAvailabilityResponseSchema, {
+    method: "PUT",
+    url: "/availability/mine",
+    data,
+  });
+};
+
+export const createAvailabilityException = async (
+  data: AvailabilityExceptionRequest
+): Promise<AvailabilityExceptionResponse> => {
+  return request(availabilityExceptionResponseSchema, {
+    method: "POST",
+    url: "/availability/exceptions",
+    data,
+  });
+};
+
+export const deleteAvailabilityException = async (
+  id: string
+): Promise<DeleteAvailabilityExceptionResponse> => {
+  return request(deleteAvailabilityExceptionResponseSchema, {
+    method: "DELETE",
+    url: `/availability/exceptions/${id}`,
+  });
+};
+
+export const listOpenSlots = async (
+  params: ListOpenSlotsParams
+): Promise<OpenSlotsResponse> => {
+  return request(openSlotsResponseSchema, {
+    method: "GET",
+    url: "/appointments/slots",
+    params,
+  });
+};
+
+export const listAppointments = async (
+  params: DateRangeParams
+): Promise<AppointmentsResponse> => {
+  return request(appointmentsResponseSchema, {
+    method: "GET",
+    url: "/appointments",
+    params,
+  });
+};
+
+export const bookAppointment = async (
+  data: BookAppointmentRequest
+): Promise<AppointmentResponse> => {
+  return request(appointmentResponseSchema, {
+    method: "POST",
+    url: "/appointments",
+    data,
+  });
+};
+
+export const rescheduleAppointment = async (
+  id: number,
+  data: RescheduleAppointmentRequest
+): Promise<AppointmentResponse> => {
+  return request(appointmentResponseSchema, {
+    method: "PATCH",
+    url: `/appointments/${id}/reschedule`,
+    data,
+  });
+};
+
+export const cancelAppointment = async (
+  id: number,
+  data: CancelAppointmentRequest
+): Promise<AppointmentResponse> => {
+  return request(appointmentResponseSchema, {
+    method: "POST",
+    url: `/appointments/${id}/cancel`,
+    data,
+  });
+};
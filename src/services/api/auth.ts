@@ -1,36 +1,59 @@
-import api from "../../lib/axios";
+import { request, uploadProgress } from "./client";
 import {
   RegisterEmailRequest,
   RegisterEmailResponse,
+  registerEmailResponseSchema,
   VerifyOtpRequest,
   VerifyOtpResponse,
+  verifyOtpResponseSchema,
   RegisterUserRequest,
   RegisterUserResponse,
+  registerUserResponseSchema,
+  LoginRequest,
+  LoginResponse,
+  loginResponseSchema,
+  LoginSuccessResponse,
+  loginSuccessResponseSchema,
+  VerifyTwoFactorLoginRequest,
+  CurrentUserResponse,
+  currentUserResponseSchema,
+  ForgotPasswordRequest,
+  ForgotPasswordResponse,
+  forgotPasswordResponseSchema,
+  VerifyResetOtpRequest,
+  VerifyResetOtpResponse,
+  verifyResetOtpResponseSchema,
+  ResetPasswordRequest,
+  ResetPasswordResponse,
+  resetPasswordResponseSchema,
+  LogoutResponse,
+  logoutResponseSchema,
 } from "../../types/auth";
 
 export const registerEmail = async (
   data: RegisterEmailRequest
 ): Promise<RegisterEmailResponse> => {
-  const response = await api.post<RegisterEmailResponse>(
-    "/auth/register/email",
-    data
-  );
-  return response.data;
+  return request(registerEmailResponseSchema, {
+    method: "POST",
+    url: "/auth/register/email",
+    data,
+  });
 };
 
 export const verifyOtp = async (
   data: VerifyOtpRequest
 ): Promise<VerifyOtpResponse> => {
-  const response = await api.post<VerifyOtpResponse>(
-    "/auth/register/verify-otp",
-    data
-  );
-  return response.data;
+  return request(verifyOtpResponseSchema, {
+    method: "POST",
+    url: "/auth/register/verify-otp",
+    data,
+  });
 };
 
 export const registerUser = async (
   data: RegisterUserRequest,
-  file?: File
+  file?: File,
+  onProgress?: (percent: number) => void
 ): Promise<RegisterUserResponse> => {
   const formData = new FormData();
   Object.entries(data).forEach(([key, value]) => {
@@ -42,12 +65,74 @@ export const registerUser = async (
     formData.append("profilePicture", file);
   }
 
-  const response = await api.post<RegisterUserResponse>(
-    "/auth/register/user",
-    formData,
-    {
-      headers: { "Content-Type": "multipart/form-data" },
-    }
-  );
-  return response.data;
+  return request(registerUserResponseSchema, {
+    method: "POST",
+    url: "/auth/register/user",
+    data: formData,
+    headers: { "Content-Type": "multipart/form-data" },
+    onUploadProgress: uploadProgress(onProgress),
+  });
+};
+
+export const login = async (data: LoginRequest): Promise<LoginResponse> => {
+  return request(loginResponseSchema, {
+    method: "POST",
+    url: "/auth/login",
+    data,
+  });
+};
+
+export const verifyTwoFactorLogin = async (
+  data: VerifyTwoFactorLoginRequest
+): Promise<LoginSuccessResponse> => {
+  return request(loginSuccessResponseSchema, {
+    method: "POST",
+    url: "/auth/login/2fa",
+    data,
+  });
+};
+
+export const getCurrentUser = async (): Promise<CurrentUserResponse> => {
+  return request(currentUserResponseSchema, {
+    method: "GET",
+    url: "/auth/me",
+  });
+};
+
+export const forgotPassword = async (
+  data: ForgotPasswordRequest
+): Promise<ForgotPasswordResponse> => {
+  return request(forgotPasswordResponseSchema, {
+    method: "POST",
+    url: "/auth/password/forgot",
+    data,
+  });
+};
+
+export const verifyResetOtp = async (
+  data: VerifyResetOtpRequest
+): Promise<VerifyResetOtpResponse> => {
+  return request(verifyResetOtpResponseSchema, {
+    method: "POST",
+    url: "/auth/password/verify-otp",
+    data,
+  });
+};
+
+export const resetPassword = async (
+  data: ResetPasswordRequest
+): Promise<ResetPasswordResponse> => {
+  return request(resetPasswordResponseSchema, {
+    method: "POST",
+    url: "/auth/password/reset",
+    data,
+  });
+};
+
+// Mencabut sesi perangkat ini di server dan menghapus cookie refresh
+export const logout = async (): Promise<LogoutResponse> => {
+  return request(logoutResponseSchema, {
+    method: "POST",
+    url: "/auth/logout",
+  });
 };
@@ -0,0 +1,35 @@
+import { AxiosProgressEvent, AxiosRequestConfig } from "axios";
+import { z } from "zod";
+import i18n from "i18next";
+import api from "../../lib/axios";
+import { ApiError, toApiError } from "../../lib/errors";
+
+// Mengirim request lewat instance api lalu memvalidasi bentuk responsnya
+export const request = async <S extends z.ZodTypeAny>(
+  schema: S,
+  config: AxiosRequestConfig
+): Promise<z.output<S>> => {
+  let response;
+  try {
+    response = await api.request(config);
+  } catch (error) {
+    throw toApiError(error);
+  }
+
+  const result = schema.safeParse(response.data);
+  if (!result.success) {
+    throw new ApiError({
+      message: i18n.t("errors.invalidResponse"),
+      status: response.status,
+      code: "INVALID_RESPONSE",
+    });
+  }
+  return result.data;
+};
+
+// Mengubah event progres axios menjadi persentase (0-100) untuk UI
+export const uploadProgress =
+  (onProgress?: (percent: number) => void) => (event: AxiosProgressEvent) => {
+    if (!onProgress || !event.total) return;
+    onProgress(Math.round((event.loaded * 100) / event.total));
+  };
@@ -0,0 +1,13 @@
+import { request } from "./client";
+import {
+  StreamTicketResponse,
+  streamTicketResponseSchema,
+} from "../../types/events";
+
+// Lewat instance api agar token yang kedaluwarsa diperbarui terlebih dahulu
+export const createStreamTicket = async (): Promise<StreamTicketResponse> => {
+  return request(streamTicketResponseSchema, {
+    method: "POST",
+    url: "/events/ticket",
+  });
+};
@@ -0,0 +1,84 @@
+import { request, uploadProgress } from "./client";
+import {
+  ListInvitationsResponse,
+  listInvitationsResponseSchema,
+  CreateInvitationRequest,
+  InvitationResponse,
+  invitationResponseSchema,
+  RevokeInvitationResponse,
+  revokeInvitationResponseSchema,
+  InvitationDetailsResponse,
+  invitationDetailsResponseSchema,
+  AcceptInvitationRequest,
+  AcceptInvitationResponse,
+  acceptInvitationResponseSchema,
+} from "../../types/invitations";
+
+export const listInvitations = async (): Promise<ListInvitationsResponse> => {
+  return request(listInvitationsResponseSchema, {
+    method: "GET",
+    url: "/invitations",
+  });
+};
+
+export const createInvitation = async (
+  data: CreateInvitationRequest
+): Promise<InvitationResponse> => {
+  return request(invitationResponseSchema, {
+    method: "POST",
+    url: "/invitations",
+    data,
+  });
+};
+
+export const resendInvitation = async (
+  id: number
+): Promise<InvitationResponse> => {
+  return request(invitationResponseSchema, {
+    method: "POST",
+    url: `/invitations/${id}/resend`,
+  });
+};
+
+export const revokeInvitation = async (
+  id: number
+): Promise<RevokeInvitationResponse> => {
+  return request(revokeInvitationResponseSchema, {
+    method: "POST",
+    url: `/invitations/${id}/revoke`,
+  });
+};
+
+export const getInvitation = async (
+  token: string
+): Promise<InvitationDetailsResponse> => {
+  return request(invitationDetailsResponseSchema, {
+    method: "GET",
+    url: `/auth/invitations/${token}`,
+  });
+};
+
+export const acceptInvitation = async (
+  token: string,
+  data: AcceptInvitationRequest,
+  file?: File,
+  onProgress?: (percent: number) => void
+): Promise<AcceptInvitationResponse> => {
+  const formData = new FormData();
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined) {
+      formData.append(key, value.toString());
+    }
+  });
+  if (file) {
+    formData.append("profilePicture", file);
+  }
+
+  return request(acceptInvitationResponseSchema, {
+    method: "POST",
+    url: `/auth/invitations/${token}/accept`,
+    data: formData,
+    headers: { "Content-Type": "multipart/form-data" },
+    onUploadProgress: uploadProgress(onProgress),
+  });
+};
@@ -0,0 +1,100 @@
+import { request, uploadProgress } from "./client";
+import {
+  DeleteLogbookEntryResponse,
+  deleteLogbookEntryResponseSchema,
+  ListLogbookQueueParams,
+  LogbookEntryRequest,
+  LogbookEntryResponse,
+  logbookEntryResponseSchema,
+  LogbookQueueResponse,
+  logbookQueueResponseSchema,
+  LogbookReviewRequest,
+  LogbookReviewResponse,
+  logbookReviewResponseSchema,
+  MyLogbookResponse,
+  myLogbookResponseSchema,
+} from "../../types/logbook";
+
+// Lampiran baru dikirim sebagai file, lampiran lama yang dihapus lewat id-nya
+const toFormData = (
+  data: LogbookEntryRequest,
+  files: File[],
+  removedAttachmentIds: string[] = []
+) => {
+  const formData = new FormData();
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined) formData.append(key, value.toString());
+  });
+  files.forEach((file) => formData.append("attachments", file));
+  removedAttachmentIds.forEach((id) =>
+    formData.append("removedAttachmentIds", id)
+  );
+  return formData;
+};
+
+export const getMyLogbook = async (): Promise<MyLogbookResponse> => {
+  return request(myLogbookResponseSchema, {
+    method: "GET",
+    url: "/logbook/mine",
+  });
+};
+
+export const createLogbookEntry = async (
+  data: LogbookEntryRequest,
+  files: File[],
+  onProgress?: (percent: number) => void
+): Promise<LogbookEntryResponse> => {
+  return request(logbookEntryResponseSchema, {
+    method: "POST",
+    url: "/logbook",
+    data: toFormData(data, files),
+    headers: { "Content-Type": "multipart/form-data" },
+    onUploadProgress: uploadProgress(onProgress),
+  });
+};
+
+export const updateLogbookEntry = async (
+  id: number,
+  data: LogbookEntryRequest,
+  files: File[],
+  removedAttachmentIds: string[],
+  onProgress?: (percent: number) => void
+): Promise<LogbookEntryResponse> => {
+  return request(logbookEntryResponseSchema, {
+    method: "PUT",
+    url: `/logbook/${id}`,
+    data: toFormData(data, files, removedAttachmentIds),
+    headers: { "Content-Type": "multipart/form-data" },
+    onUploadProgress: uploadProgress(onProgress),
+  });
+};
+
+export const deleteLogbookEntry = async (
+  id: number
+): Promise<DeleteLogbookEntryResponse> => {
+  return request(deleteLogbookEntryResponseSchema, {
+    method: "DELETE",
+    url: `/logbook/${id}`,
+  });
+};
+
+export const listLogbookQueue = async (
+  params: ListLogbookQueueParams
+): Promise<LogbookQueueResponse> => {
+  return request(logbookQueueResponseSchema, {
+    method: "GET",
+    url: "/logbook/queue",
+    params,
+  });
+};
+
+export const reviewLogbookEntry = async (
+  id: number,
+  data: LogbookReviewRequest
+): Promise<LogbookReviewResponse> => {
+  return request(logbookReviewResponseSchema, {
+    method: "PATCH",
+    url: `/logbook/${id}/review`,
+    data,
+  });
+};
@@ -0,0 +1,60 @@
+import { request } from "./client";
+import {
+  ListNotificationsParams,
+  ListNotificationsResponse,
+  listNotificationsResponseSchema,
+  UnreadCountResponse,
+  unreadCountResponseSchema,
+  CreateNotificationRequest,
+  NotificationResponse,
+  notificationResponseSchema,
+  MarkAllNotificationsReadResponse,
+  markAllNotificationsReadResponseSchema,
+} from "../../types/notifications";
+
+export const listNotifications = async (
+  params: ListNotificationsParams
+): Promise<ListNotificationsResponse> => {
+  return request(listNotificationsResponseSchema, {
+    method: "GET",
+    url: "/notifications",
+    params,
+  });
+};
+
+export const getUnreadNotificationCount =
+  async (): Promise<UnreadCountResponse> => {
+    return request(unreadCountResponseSchema, {
+      method: "GET",
+      url: "/notifications/unread-count",
+    });
+  };
+
+export const createNotification = async (
+  data: CreateNotificationRequest
+): Promise<NotificationResponse> => {
+  return request(notificationResponseSchema, {
+    method: "POST",
+    url: "/notifications",
+    data,
+  });
+};
+
+export const setNotificationRead = async (
+  id: string,
+  read: boolean
+): Promise<NotificationResponse> => {
+  return request(notificationResponseSchema, {
+    method: "PATCH",
+    url: `/notifications/${id}`,
+    data: { read },
+  });
+};
+
+export const markAllNotificationsRead =
+  async (): Promise<MarkAllNotificationsReadResponse> => {
+    return request(markAllNotificationsReadResponseSchema, {
+      method: "POST",
+      url: "/notifications/read-all",
+    });
+  };
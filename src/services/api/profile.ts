@@ -0,0 +1,47 @@
+import { request, uploadProgress } from "./client";
+import {
+  UpdateProfileRequest,
+  UpdateProfileResponse,
+  updateProfileResponseSchema,
+  UpdateProfilePictureResponse,
+  updateProfilePictureResponseSchema,
+  ChangePasswordRequest,
+  ChangePasswordResponse,
+  changePasswordResponseSchema,
+} from "../../types/profile";
+
+export const updateProfile = async (
+  data: UpdateProfileRequest
+): Promise<UpdateProfileResponse> => {
+  return request(updateProfileResponseSchema, {
+    method: "PATCH",
+    url: "/users/me",
+    data,
+  });
+};
+
+export const updateProfilePicture = async (
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<UpdateProfilePictureResponse> => {
+  const formData = new FormData();
+  formData.append("profilePicture", file);
+
+  return request(updateProfilePictureResponseSchema, {
+    method: "PUT",
+    url: "/users/me/profile-picture",
+    data: formData,
+    headers: { "Content-Type": "multipart/form-data" },
+    onUploadProgress: uploadProgress(onProgress),
+  });
+};
+
+export const changePassword = async (
+  data: ChangePasswordRequest
+): Promise<ChangePasswordResponse> => {
+  return request(changePasswordResponseSchema, {
+    method: "PUT",
+    url: "/users/me/password",
+    data,
+  });
+};
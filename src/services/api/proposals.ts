@@ -0,0 +1,53 @@
+import { request } from "./client";
+import {
+  ListProposalsResponse,
+  listProposalsResponseSchema,
+  SupervisorOptionsResponse,
+  supervisorOptionsResponseSchema,
+  ProposalRequest,
+  ProposalResponse,
+  proposalResponseSchema,
+} from "../../types/proposals";
+
+export const listMyProposals = async (): Promise<ListProposalsResponse> => {
+  return request(listProposalsResponseSchema, {
+    method: "GET",
+    url: "/proposals/mine",
+  });
+};
+
+export const listSupervisorOptions =
+  async (): Promise<SupervisorOptionsResponse> => {
+    return request(supervisorOptionsResponseSchema, {
+      method: "GET",
+      url: "/proposals/supervisors",
+    });
+  };
+
+export const createProposal = async (
+  data: ProposalRequest
+): Promise<ProposalResponse> => {
+  return request(proposalResponseSchema, {
+    method: "POST",
+    url: "/proposals",
+    data,
+  });
+};
+
+export const updateProposal = async (
+  id: number,
+  data: ProposalRequest
+): Promise<ProposalResponse> => {
+  return request(proposalResponseSchema, {
+    method: "PUT",
+    url: `/proposals/${id}`,
+    data,
+  });
+};
+
+export const submitProposal = async (id: number): Promise<ProposalResponse> => {
+  return request(proposalResponseSchema, {
+    method: "POST",
+    url: `/proposals/${id}/submit`,
+  });
+};
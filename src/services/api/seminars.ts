@@ -0,0 +1,153 @@
+import { request } from "./client";
+import { DateRangeParams } from "../../types/appointments";
+import {
+  CheckSeminarRequest,
+  DeleteRoomResponse,
+  deleteRoomResponseSchema,
+  DeleteSeminarResponse,
+  deleteSeminarResponseSchema,
+  MoveSeminarRequest,
+  PublishSeminarsRequest,
+  PublishSeminarsResponse,
+  publishSeminarsResponseSchema,
+  RoomRequest,
+  RoomResponse,
+  roomResponseSchema,
+  RoomsResponse,
+  roomsResponseSchema,
+  SeminarConflictsResponse,
+  seminarConflictsResponseSchema,
+  SeminarOptionsResponse,
+  seminarOptionsResponseSchema,
+  SeminarRequest,
+  SeminarResponse,
+  seminarResponseSchema,
+  SeminarsResponse,
+  seminarsResponseSchema,
+  SeminarSuggestionsResponse,
+  seminarSuggestionsResponseSchema,
+  SuggestSeminarSlotsRequest,
+} from "../../types/seminars";
+
+export const listRooms = async (): Promise<RoomsResponse> => {
+  return request(roomsResponseSchema, {
+    method: "GET",
+    url: "/rooms",
+  });
+};
+
+export const createRoom = async (data: RoomRequest): Promise<RoomResponse> => {
+  return request(roomResponseSchema, {
+    method: "POST",
+    url: "/rooms",
+    data,
+  });
+};
+
+export const updateRoom = async (
+  id: number,
+  data: RoomRequest
+): Promise<RoomResponse> => {
+  return request(roomResponseSchema, {
+    method: "PUT",
+    url: `/rooms/${id}`,
+    data,
+  });
+};
+
+export const deleteRoom = async (id: number): Promise<DeleteRoomResponse> => {
+  return request(deleteRoomResponseSchema, {
+    method: "DELETE",
+    url: `/rooms/${id}`,
+  });
+};
+
+// Koordinator menerima semua jadwal, peran lain hanya jadwal yang sudah
+// diumumkan dan melibatkan dirinya
+export const listSeminars = async (
+  params: DateRangeParams
+): Promise<SeminarsResponse> => {
+  return request(seminarsResponseSchema, {
+    method: "GET",
+    url: "/seminars",
+    params,
+  });
+};
+
+export const getSeminarOptions = async (): Promise<SeminarOptionsResponse> => {
+  return request(seminarOptionsResponseSchema, {
+    method: "GET",
+    url: "/seminars/options",
+  });
+};
+
+export const checkSeminarConflicts = async (
+  data: CheckSeminarRequest
+): Promise<SeminarConflictsResponse> => {
+  return request(seminarConflictsResponseSchema, {
+    method: "POST",
+    url: "/seminars/check",
+    data,
+  });
+};
+
+export const suggestSeminarSlots = async (
+  data: SuggestSeminarSlotsRequest
+): Promise<SeminarSuggestionsResponse> => {
+  return request(seminarSuggestionsResponseSchema, {
+    method: "POST",
+    url: "/seminars/suggestions",
+    data,
+  });
+};
+
+export const createSeminar = async (
+  data: SeminarRequest
+): Promise<SeminarResponse> => {
+  return request(seminarResponseSchema, {
+    method: "POST",
+    url: "/seminars",
+    data,
+  });
+};
+
+export const updateSeminar = async (
+  id: number,
+  data: SeminarRequest
+): Promise<SeminarResponse> => {
+  return request(seminarResponseSchema, {
+    method: "PUT",
+    url: `/seminars/${id}`,
+    data,
+  });
+};
+
+export const moveSeminar = async (
+  id: number,
+  data: MoveSeminarRequest
+): Promise<SeminarResponse> => {
+  return request(seminarResponseSchema, {
+    method: "PATCH",
+    url: `/seminars/${id}/move`,
+    data,
+  });
+};
+
+export const deleteSeminar = async (
+  id: number
+): Promise<DeleteSeminarResponse> => {
+  return request(deleteSeminarResponseSchema, {
+    method: "DELETE",
+    url: `/seminars/${id}`,
+  });
+};
+
+export const publishSeminars = async (
+  data: PublishSeminarsRequest
+): Promise<PublishSeminarsResponse> => {
+  return request(publishSeminarsResponseSchema, {
+    method: "POST",
+    url: "/seminars/publish",
+    data,
+  });
+};
@@ -0,0 +1,42 @@
+import { request } from "./client";
+import {
+  ListSessionsResponse,
+  listSessionsResponseSchema,
+  RevokeSessionResponse,
+  revokeSessionResponseSchema,
+  RevokeOtherSessionsResponse,
+  revokeOtherSessionsResponseSchema,
+  LoginHistoryResponse,
+  loginHistoryResponseSchema,
+} from "../../types/sessions";
+
+export const listSessions = async (): Promise<ListSessionsResponse> => {
+  return request(listSessionsResponseSchema, {
+    method: "GET",
+    url: "/auth/sessions",
+  });
+};
+
+export const revokeSession = async (
+  id: string
+): Promise<RevokeSessionResponse> => {
+  return request(revokeSessionResponseSchema, {
+    method: "DELETE",
+    url: `/auth/sessions/${id}`,
+  });
+};
+
+export const revokeOtherSessions =
+  async (): Promise<RevokeOtherSessionsResponse> => {
+    return request(revokeOtherSessionsResponseSchema, {
+      method: "DELETE",
+      url: "/auth/sessions",
+    });
+  };
+
+export const getLoginHistory = async (): Promise<LoginHistoryResponse> => {
+  return request(loginHistoryResponseSchema, {
+    method: "GET",
+    url: "/auth/login-history",
+  });
+};
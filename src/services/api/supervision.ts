@@ -0,0 +1,59 @@
+import { request } from "./client";
+import {
+  SaveSupervisionsRequest,
+  SaveSupervisionsResponse,
+  saveSupervisionsResponseSchema,
+  SupervisionHistoryResponse,
+  supervisionHistoryResponseSchema,
+  SupervisionOverviewResponse,
+  supervisionOverviewResponseSchema,
+  SupervisionSettingsRequest,
+  SupervisionSettingsResponse,
+  supervisionSettingsResponseSchema,
+  SupervisionSuggestionsResponse,
+  supervisionSuggestionsResponseSchema,
+} from "../../types/supervision";
+
+export const getSupervisionOverview =
+  async (): Promise<SupervisionOverviewResponse> => {
+    return request(supervisionOverviewResponseSchema, {
+      method: "GET",
+      url: "/supervisions",
+    });
+  };
+
+export const suggestSupervisions =
+  async (): Promise<SupervisionSuggestionsResponse> => {
+    return request(supervisionSuggestionsResponseSchema, {
+      method: "POST",
+      url: "/supervisions/suggestions",
+    });
+  };
+
+export const saveSupervisions = async (
+  data: SaveSupervisionsRequest
+): Promise<SaveSupervisionsResponse> => {
+  return request(saveSupervisionsResponseSchema, {
+    method: "PUT",
+    url: "/supervisions",
+    data,
+  });
+};
+
+export const updateSupervisionSettings = async (
+  data: SupervisionSettingsRequest
+): Promise<SupervisionSettingsResponse> => {
+  return request(supervisionSettingsResponseSchema, {
+    method: "PUT",
+    url: "/supervisions/settings",
+    data,
+  });
+};
+
+export const getSupervisionHistory =
+  async (): Promise<SupervisionHistoryResponse> => {
+    return request(supervisionHistoryResponseSchema, {
+      method: "GET",
+      url: "/supervisions/history",
+    });
+  };
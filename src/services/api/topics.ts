@@ -0,0 +1,103 @@
+import { request } from "./client";
+import {
+  ApplyTopicRequest,
+  DeleteTopicResponse,
+  deleteTopicResponseSchema,
+  ListTopicApplicationsResponse,
+  listTopicApplicationsResponseSchema,
+  ListTopicsParams,
+  ListTopicsResponse,
+  listTopicsResponseSchema,
+  MyTopicsResponse,
+  myTopicsResponseSchema,
+  TopicApplicationDecision,
+  TopicApplicationResponse,
+  topicApplicationResponseSchema,
+  TopicRequest,
+  TopicResponse,
+  topicResponseSchema,
+} from "../../types/topics";
+
+export const listTopics = async (
+  params: ListTopicsParams
+): Promise<ListTopicsResponse> => {
+  return request(listTopicsResponseSchema, {
+    method: "GET",
+    url: "/topics",
+    params,
+  });
+};
+
+export const listMyTopics = async (): Promise<MyTopicsResponse> => {
+  return request(myTopicsResponseSchema, {
+    method: "GET",
+    url: "/topics/mine",
+  });
+};
+
+export const createTopic = async (
+  data: TopicRequest
+): Promise<TopicResponse> => {
+  return request(topicResponseSchema, {
+    method: "POST",
+    url: "/topics",
+    data,
+  });
+};
+
+export const updateTopic = async (
+  id: number,
+  data: TopicRequest
+): Promise<TopicResponse> => {
+  return request(topicResponseSchema, {
+    method: "PUT",
+    url: `/topics/${id}`,
+    data,
+  });
+};
+
+export const deleteTopic = async (id: number): Promise<DeleteTopicResponse> => {
+  return request(deleteTopicResponseSchema, {
+    method: "DELETE",
+    url: `/topics/${id}`,
+  });
+};
+
+export const listTopicApplications = async (
+  topicId: number
+): Promise<ListTopicApplicationsResponse> => {
+  return request(listTopicApplicationsResponseSchema, {
+    method: "GET",
+    url: `/topics/${topicId}/applications`,
+  });
+};
+
+export const applyToTopic = async (
+  topicId: number,
+  data: ApplyTopicRequest
+): Promise<TopicApplicationResponse> => {
+  return request(topicApplicationResponseSchema, {
+    method: "POST",
+    url: `/topics/${topicId}/applications`,
+    data,
+  });
+};
+
+export const listMyTopicApplications =
+  async (): Promise<ListTopicApplicationsResponse> => {
+    return request(listTopicApplicationsResponseSchema, {
+      method: "GET",
+      url: "/topic-applications/mine",
+    });
+  };
+
+export const decideTopicApplication = async (
+  id: number,
+  status: TopicApplicationDecision
+): Promise<TopicApplicationResponse> => {
+  return request(topicApplicationResponseSchema, {
+    method: "PATCH",
+    url: `/topic-applications/${id}`,
+    data: { status },
+  });
+};
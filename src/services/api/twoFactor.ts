@@ -0,0 +1,59 @@
+import { request } from "./client";
+import {
+  TwoFactorSetupResponse,
+  twoFactorSetupResponseSchema,
+  ConfirmTwoFactorRequest,
+  DisableTwoFactorRequest,
+  TwoFactorUserResponse,
+  twoFactorUserResponseSchema,
+  TwoFactorPolicy,
+  TwoFactorPolicyResponse,
+  twoFactorPolicyResponseSchema,
+  UpdateTwoFactorPolicyResponse,
+  updateTwoFactorPolicyResponseSchema,
+} from "../../types/twoFactor";
+
+export const setupTwoFactor = async (): Promise<TwoFactorSetupResponse> => {
+  return request(twoFactorSetupResponseSchema, {
+    method: "POST",
+    url: "/auth/2fa/setup",
+  });
+};
+
+export const confirmTwoFactor = async (
+  data: ConfirmTwoFactorRequest
+): Promise<TwoFactorUserResponse> => {
+  return request(twoFactorUserResponseSchema, {
+    method: "POST",
+    url: "/auth/2fa/confirm",
+    data,
+  });
+};
+
+export const disableTwoFactor = async (
+  data: DisableTwoFactorRequest
+): Promise<TwoFactorUserResponse> => {
+  return request(twoFactorUserResponseSchema, {
+    method: "POST",
+    url: "/auth/2fa/disable",
+    data,
+  });
+};
+
+export const getTwoFactorPolicy =
+  async (): Promise<TwoFactorPolicyResponse> => {
+    return request(twoFactorPolicyResponseSchema, {
+      method: "GET",
+      url: "/auth/2fa/policy",
+    });
+  };
+
+export const updateTwoFactorPolicy = async (
+  data: TwoFactorPolicy
+): Promise<UpdateTwoFactorPolicyResponse> => {
+  return request(updateTwoFactorPolicyResponseSchema, {
+    method: "PUT",
+    url: "/auth/2fa/policy",
+    data,
+  });
+};
@@ -0,0 +1,62 @@
+import { request } from "./client";
+import {
+  ListUsersParams,
+  ListUsersResponse,
+  listUsersResponseSchema,
+  UpdateUserRequest,
+  ManagedUserResponse,
+  managedUserResponseSchema,
+  UserStatus,
+  ResetUserPasswordResponse,
+  resetUserPasswordResponseSchema,
+} from "../../types/users";
+
+export const listUsers = async (
+  params: ListUsersParams
+): Promise<ListUsersResponse> => {
+  return request(listUsersResponseSchema, {
+    method: "GET",
+    url: "/users",
+    params,
+  });
+};
+
+export const updateUser = async (
+  id: number,
+  data: UpdateUserRequest
+): Promise<ManagedUserResponse> => {
+  return request(managedUserResponseSchema, {
+    method: "PATCH",
+    url: `/users/${id}`,
+    data,
+  });
+};
+
+export const updateUserStatus = async (
+  id: number,
+  status: UserStatus
+): Promise<ManagedUserResponse> => {
+  return request(managedUserResponseSchema, {
+    method: "PATCH",
+    url: `/users/${id}/status`,
+    data: { status },
+  });
+};
+
+export const resetUserPassword = async (
+  id: number
+): Promise<ResetUserPasswordResponse> => {
+  return request(resetUserPasswordResponseSchema, {
+    method: "POST",
+    url: `/users/${id}/reset-password`,
+  });
+};
+
+export const promoteToCoordinator = async (
+  id: number
+): Promise<ManagedUserResponse> => {
+  return request(managedUserResponseSchema, {
+    method: "POST",
+    url: `/users/${id}/promote`,
+  });
+};
@@ -0,0 +1,163 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+import { supervisorOptionSchema } from "./proposals";
+
+// Slot mingguan dosen; weekday mengikuti Date.getDay(), 0 = Minggu.
+// Jam berformat HH:mm waktu lokal kampus
+export const availabilitySlotSchema = z.object({
+  id: z.string(),
+  weekday: z.number(),
+  startTime: z.string(),
+  endTime: z.string(),
+  venue: z.string(),
+});
+
+export type AvailabilitySlot = z.infer<typeof availabilitySlotSchema>;
+
+// Pengecualian satu tanggal: available false menutup jadwal (seharian jika
+// jamnya kosong), available true membuka slot tambahan di luar jadwal rutin
+export const availabilityExceptionSchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  startTime: z.string().nullable(),
+  endTime: z.string().nullable(),
+  available: z.boolean(),
+  venue: z.string(),
+  note: z.string(),
+});
+
+export type AvailabilityException = z.infer<typeof availabilityExceptionSchema>;
+
+export const availabilityResponseSchema = z.object({
+  slots: z.array(availabilitySlotSchema),
+  exceptions: z.array(availabilityExceptionSchema),
+});
+
+export type AvailabilityResponse = z.infer<typeof availabilityResponseSchema>;
+
+export interface AvailabilitySlotRequest {
+  // Kosong untuk slot yang baru ditambahkan
+  id?: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  venue: string;
+}
+
+export interface UpdateAvailabilityRequest {
+  slots: AvailabilitySlotRequest[];
+}
+
+export const updateAvailabilityResponseSchema = messageResponseSchema.extend({
+  slots: z.array(availabilitySlotSchema),
+});
+
+export type UpdateAvailabilityResponse = z.infer<
+  typeof updateAvailabilityResponseSchema
+>;
+
+export interface AvailabilityExceptionRequest {
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+  available: boolean;
+  venue: string;
+  note: string;
+}
+
+export const availabilityExceptionResponseSchema = messageResponseSchema.extend(
+  {
+    exception: availabilityExceptionSchema,
+  }
+);
+
+export type AvailabilityExceptionResponse = z.infer<
+  typeof availabilityExceptionResponseSchema
+>;
+
+export const deleteAvailabilityExceptionResponseSchema = messageResponseSchema;
+
+export type DeleteAvailabilityExceptionResponse = z.infer<
+  typeof deleteAvailabilityExceptionResponseSchema
+>;
+
+// Satu kemunculan slot pada tanggal tertentu yang bisa dipesan mahasiswa
+export const openSlotSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  venue: z.string(),
+  // Sudah dipesan mahasiswa lain
+  booked: z.boolean(),
+});
+
+export type OpenSlot = z.infer<typeof openSlotSchema>;
+
+// Rentang tanggal berformat YYYY-MM-DD, inklusif
+export interface DateRangeParams {
+  from: string;
+  to: string;
+}
+
+export interface ListOpenSlotsParams extends DateRangeParams {
+  supervisorId: number;
+}
+
+export const openSlotsResponseSchema = z.object({
+  slots: z.array(openSlotSchema),
+});
+
+export type OpenSlotsResponse = z.infer<typeof openSlotsResponseSchema>;
+
+export const appointmentStatusSchema = z.enum(["CONFIRMED", "CANCELLED"]);
+
+export type AppointmentStatus = z.infer<typeof appointmentStatusSchema>;
+
+export const appointmentSchema = z.object({
+  id: z.number(),
+  student: z.object({
+    id: z.number(),
+    name: z.string(),
+    nim: z.string().nullable(),
+  }),
+  supervisor: supervisorOptionSchema,
+  start: z.string(),
+  end: z.string(),
+  venue: z.string(),
+  agenda: z.string(),
+  status: appointmentStatusSchema,
+  cancelReason: z.string().nullable(),
+  // Nama pihak yang membatalkan
+  cancelledBy: z.string().nullable(),
+  // Catatan logbook yang dibuat dari janji temu ini
+  logbookEntryId: z.number().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Appointment = z.infer<typeof appointmentSchema>;
+
+export const appointmentsResponseSchema = z.object({
+  appointments: z.array(appointmentSchema),
+});
+
+export type AppointmentsResponse = z.infer<typeof appointmentsResponseSchema>;
+
+export interface BookAppointmentRequest {
+  supervisorId: number;
+  start: string;
+  agenda: string;
+}
+
+export interface RescheduleAppointmentRequest {
+  start: string;
+}
+
+export interface CancelAppointmentRequest {
+  reason: string;
+}
+
+export const appointmentResponseSchema = messageResponseSchema.extend({
+  appointment: appointmentSchema,
+});
+
+export type AppointmentResponse = z.infer<typeof appointmentResponseSchema>;
@@ -1,19 +1,61 @@
+import { z } from "zod";
+
+// Nilai opsional dari server bisa berupa null, dinormalisasi menjadi undefined
+export const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+export const messageResponseSchema = z.object({
+  message: z.string(),
+});
+
+export const roleSchema = z.enum([
+  "STUDENT",
+  "LECTURER",
+  "COORDINATOR",
+  "EXAMINER",
+]);
+
+export type Role = z.infer<typeof roleSchema>;
+
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  role: roleSchema,
+  profile: z
+    .object({
+      name: z.string(),
+      profilePicture: optionalString,
+      nim: optionalString,
+      nip: optionalString,
+      phoneNumber: optionalString,
+    })
+    .nullable(),
+  // Status verifikasi dua langkah; `twoFactorRequired` berasal dari kebijakan
+  // koordinator untuk role pengguna
+  twoFactorEnabled: z.boolean().optional(),
+  twoFactorRequired: z.boolean().optional(),
+});
+
+export type User = z.infer<typeof userSchema>;
+
 export interface RegisterEmailRequest {
   email: string;
 }
 
-export interface RegisterEmailResponse {
-  message: string;
-}
+export const registerEmailResponseSchema = messageResponseSchema;
+
+export type RegisterEmailResponse = z.infer<typeof registerEmailResponseSchema>;
 
 export interface VerifyOtpRequest {
   email: string;
   code: number;
 }
 
-export interface VerifyOtpResponse {
-  message: string;
-}
+export const verifyOtpResponseSchema = messageResponseSchema;
+
+export type VerifyOtpResponse = z.infer<typeof verifyOtpResponseSchema>;
 
 export interface RegisterUserRequest {
   email: string;
@@ -25,25 +67,100 @@ export interface RegisterUserRequest {
   confirmPassword: string;
 }
 
-export interface RegisterUserResponse {
-  message: string;
-  user: {
-    id: number;
-    email: string;
-    role: "STUDENT" | "LECTURER";
-    name: string;
-    profilePicture?: string;
-  };
+export const registerUserResponseSchema = z.object({
+  message: z.string(),
+  user: z.object({
+    id: z.number(),
+    email: z.string(),
+    role: z.enum(["STUDENT", "LECTURER"]),
+    name: z.string(),
+    profilePicture: optionalString,
+  }),
+});
+
+export type RegisterUserResponse = z.infer<typeof registerUserResponseSchema>;
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+  recaptchaToken: string;
+}
+
+export const loginSuccessResponseSchema = z.object({
+  message: z.string(),
+  token: z.string(),
+  user: userSchema,
+});
+
+export type LoginSuccessResponse = z.infer<typeof loginSuccessResponseSchema>;
+
+// Akun dengan verifikasi dua langkah belum mendapat token setelah kata sandi
+export const twoFactorChallengeResponseSchema = z.object({
+  message: z.string(),
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string(),
+});
+
+export const loginResponseSchema = z.union([
+  loginSuccessResponseSchema,
+  twoFactorChallengeResponseSchema,
+]);
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+// `code` berisi kode 6 digit dari aplikasi autentikator atau kode pemulihan
+export interface VerifyTwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
 }
 
-export interface User {
-  id: number;
+export const currentUserResponseSchema = z.object({
+  user: userSchema,
+});
+
+export type CurrentUserResponse = z.infer<typeof currentUserResponseSchema>;
+
+export const refreshTokenResponseSchema = z.object({
+  token: z.string(),
+});
+
+export type RefreshTokenResponse = z.infer<typeof refreshTokenResponseSchema>;
+
+export interface ForgotPasswordRequest {
   email: string;
-  role: "STUDENT" | "LECTURER" | "COORDINATOR";
-  profile: {
-    name: string;
-    profilePicture?: string;
-    nim?: string;
-    nip?: string;
-  } | null;
 }
+
+export const forgotPasswordResponseSchema = messageResponseSchema;
+
+export type ForgotPasswordResponse = z.infer<
+  typeof forgotPasswordResponseSchema
+>;
+
+export interface VerifyResetOtpRequest {
+  email: string;
+  code: number;
+}
+
+export const verifyResetOtpResponseSchema = z.object({
+  message: z.string(),
+  resetToken: z.string(),
+});
+
+export type VerifyResetOtpResponse = z.infer<
+  typeof verifyResetOtpResponseSchema
+>;
+
+export interface ResetPasswordRequest {
+  email: string;
+  resetToken: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export const resetPasswordResponseSchema = messageResponseSchema;
+
+export type ResetPasswordResponse = z.infer<typeof resetPasswordResponseSchema>;
+
+export const logoutResponseSchema = messageResponseSchema;
+
+export type LogoutResponse = z.infer<typeof logoutResponseSchema>;
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const paginationSchema = z.object({
+  page: z.number(),
+  pageSize: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+export type Pagination = z.infer<typeof paginationSchema>;
+
+export interface PaginationParams {
+  page?: number;
+  pageSize?: number;
+}
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { notificationSchema } from "./notifications";
+
+// Event tanpa isi hanya memberi tahu bahwa data di domain tersebut berubah
+export const realtimeChangeEventSchema = z.object({
+  type: z.enum([
+    "notifications.changed",
+    "users.changed",
+    "invitations.changed",
+    "sessions.changed",
+    "proposals.changed",
+    "topics.changed",
+    "supervisions.changed",
+    "logbook.changed",
+    "appointments.changed",
+    "seminars.changed",
+  ]),
+});
+
+export const notificationCreatedEventSchema = z.object({
+  type: z.literal("notification.created"),
+  notification: notificationSchema,
+});
+
+export const realtimeEventSchema = z.union([
+  notificationCreatedEventSchema,
+  realtimeChangeEventSchema,
+]);
+
+export type RealtimeEvent = z.infer<typeof realtimeEventSchema>;
+
+export type RealtimeEventType = RealtimeEvent["type"];
+
+// Tiket sekali pakai untuk membuka stream, karena EventSource tidak bisa
+// mengirim header Authorization
+export const streamTicketResponseSchema = z.object({
+  ticket: z.string(),
+  expiresIn: z.number(),
+});
+
+export type StreamTicketResponse = z.infer<typeof streamTicketResponseSchema>;
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { messageResponseSchema, optionalString, roleSchema } from "./auth";
+
+export const invitationStatusSchema = z.enum([
+  "PENDING",
+  "ACCEPTED",
+  "EXPIRED",
+  "REVOKED",
+]);
+
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>;
+
+export const invitationSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  role: roleSchema,
+  status: invitationStatusSchema,
+  expiresAt: z.string(),
+  createdAt: z.string(),
+  invitedBy: z.string(),
+});
+
+export type Invitation = z.infer<typeof invitationSchema>;
+
+export const listInvitationsResponseSchema = z.object({
+  invitations: z.array(invitationSchema),
+});
+
+export type ListInvitationsResponse = z.infer<
+  typeof listInvitationsResponseSchema
+>;
+
+export interface CreateInvitationRequest {
+  email: string;
+  role: z.infer<typeof roleSchema>;
+  expiresInDays: number;
+}
+
+export const invitationResponseSchema = z.object({
+  message: z.string(),
+  invitation: invitationSchema,
+});
+
+export type InvitationResponse = z.infer<typeof invitationResponseSchema>;
+
+export const revokeInvitationResponseSchema = messageResponseSchema;
+
+export type RevokeInvitationResponse = z.infer<
+  typeof revokeInvitationResponseSchema
+>;
+
+// Detail undangan yang bisa dibaca tanpa login lewat token di tautan
+export const invitationDetailsResponseSchema = z.object({
+  invitation: z.object({
+    email: z.string(),
+    role: roleSchema,
+    expiresAt: z.string(),
+    invitedBy: z.string(),
+  }),
+});
+
+export type InvitationDetailsResponse = z.infer<
+  typeof invitationDetailsResponseSchema
+>;
+
+export interface AcceptInvitationRequest {
+  name: string;
+  nim?: string;
+  nip?: string;
+  phoneNumber: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export const acceptInvitationResponseSchema = z.object({
+  message: z.string(),
+  user: z.object({
+    id: z.number(),
+    email: z.string(),
+    role: roleSchema,
+    name: z.string(),
+    profilePicture: optionalString,
+  }),
+});
+
+export type AcceptInvitationResponse = z.infer<
+  typeof acceptInvitationResponseSchema
+>;
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+import { supervisorOptionSchema } from "./proposals";
+import { supervisorPositionSchema } from "./supervision";
+
+export const logbookStatusSchema = z.enum(["PENDING", "APPROVED", "REJECTED"]);
+
+export type LogbookStatus = z.infer<typeof logbookStatusSchema>;
+
+export const logbookAttachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  size: z.number(),
+  url: z.string(),
+});
+
+export type LogbookAttachment = z.infer<typeof logbookAttachmentSchema>;
+
+export const logbookCommentSchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  message: z.string(),
+  // Status catatan setelah komentar ini diberikan
+  status: logbookStatusSchema,
+  createdAt: z.string(),
+});
+
+export type LogbookComment = z.infer<typeof logbookCommentSchema>;
+
+// Satu pertemuan bimbingan pada kartu bimbingan
+export const logbookEntrySchema = z.object({
+  id: z.number(),
+  // Tanggal pertemuan, format YYYY-MM-DD
+  meetingDate: z.string(),
+  supervisor: supervisorOptionSchema,
+  topic: z.string(),
+  notes: z.string(),
+  nextActions: z.string(),
+  attachments: z.array(logbookAttachmentSchema),
+  status: logbookStatusSchema,
+  comments: z.array(logbookCommentSchema),
+  reviewedAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type LogbookEntry = z.infer<typeof logbookEntrySchema>;
+
+// Catatan yang dilihat pembimbing menyertakan identitas mahasiswa
+export const supervisedLogbookEntrySchema = logbookEntrySchema.extend({
+  student: z.object({
+    id: z.number(),
+    name: z.string(),
+    nim: z.string().nullable(),
+  }),
+});
+
+export type SupervisedLogbookEntry = z.infer<
+  typeof supervisedLogbookEntrySchema
+>;
+
+export const myLogbookResponseSchema = z.object({
+  entries: z.array(logbookEntrySchema),
+  // Pembimbing yang sudah ditetapkan koordinator
+  supervisors: z.array(
+    supervisorOptionSchema.extend({ position: supervisorPositionSchema })
+  ),
+  thesisTitle: z.string().nullable(),
+  // Jumlah pertemuan disetujui yang menjadi syarat sidang
+  minApproved: z.number(),
+});
+
+export type MyLogbookResponse = z.infer<typeof myLogbookResponseSchema>;
+
+export interface LogbookEntryRequest {
+  meetingDate: string;
+  supervisorId: number;
+  topic: string;
+  notes: string;
+  nextActions: string;
+  // Janji temu yang dicatat, hanya dikirim saat membuat catatan baru
+  appointmentId?: number;
+}
+
+export const logbookEntryResponseSchema = messageResponseSchema.extend({
+  entry: logbookEntrySchema,
+});
+
+export type LogbookEntryResponse = z.infer<typeof logbookEntryResponseSchema>;
+
+export const deleteLogbookEntryResponseSchema = messageResponseSchema;
+
+export type DeleteLogbookEntryResponse = z.infer<
+  typeof deleteLogbookEntryResponseSchema
+>;
+
+export interface ListLogbookQueueParams {
+  status?: LogbookStatus;
+}
+
+export const logbookQueueResponseSchema = z.object({
+  entries: z.array(supervisedLogbookEntrySchema),
+});
+
+export type LogbookQueueResponse = z.infer<typeof logbookQueueResponseSchema>;
+
+// COMMENT memberi masukan tanpa mengubah status catatan
+export const logbookReviewDecisionSchema = z.enum([
+  "APPROVED",
+  "REJECTED",
+  "COMMENT",
+]);
+
+export type LogbookReviewDecision = z.infer<typeof logbookReviewDecisionSchema>;
+
+export interface LogbookReviewRequest {
+  decision: LogbookReviewDecision;
+  comment: string;
+}
+
+export const logbookReviewResponseSchema = messageResponseSchema.extend({
+  entry: supervisedLogbookEntrySchema,
+});
+
+export type LogbookReviewResponse = z.infer<typeof logbookReviewResponseSchema>;
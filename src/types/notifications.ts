@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+import { PaginationParams, paginationSchema } from "./common";
+
+export const notificationTypeSchema = z.enum([
+  "SUPERVISOR_ASSIGNED",
+  "SEMINAR_SCHEDULED",
+  "LOGBOOK_APPROVED",
+  "SUBMISSION_APPROVED",
+  "SUBMISSION_REJECTED",
+  "INVITATION_ACCEPTED",
+  "GENERAL",
+]);
+
+export type NotificationType = z.infer<typeof notificationTypeSchema>;
+
+// `link` berisi path halaman di aplikasi ini yang dibuka dari notifikasi
+export const notificationSchema = z.object({
+  id: z.string(),
+  type: notificationTypeSchema,
+  title: z.string(),
+  message: z.string(),
+  link: z.string().nullable(),
+  read: z.boolean(),
+  createdAt: z.string(),
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+export interface ListNotificationsParams extends PaginationParams {
+  unreadOnly?: boolean;
+}
+
+export const listNotificationsResponseSchema = z.object({
+  notifications: z.array(notificationSchema),
+  pagination: paginationSchema,
+  unreadCount: z.number(),
+});
+
+export type ListNotificationsResponse = z.infer<
+  typeof listNotificationsResponseSchema
+>;
+
+export const unreadCountResponseSchema = z.object({
+  unreadCount: z.number(),
+});
+
+export type UnreadCountResponse = z.infer<typeof unreadCountResponseSchema>;
+
+// Notifikasi yang disimpan sendiri oleh pengguna dari toast
+export interface CreateNotificationRequest {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+}
+
+export const notificationResponseSchema = messageResponseSchema.extend({
+  notification: notificationSchema,
+});
+
+export type NotificationResponse = z.infer<typeof notificationResponseSchema>;
+
+export const markAllNotificationsReadResponseSchema =
+  messageResponseSchema.extend({
+    updatedCount: z.number(),
+  });
+
+export type MarkAllNotificationsReadResponse = z.infer<
+  typeof markAllNotificationsReadResponseSchema
+>;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { messageResponseSchema, userSchema } from "./auth";
+
+export interface UpdateProfileRequest {
+  name: string;
+  nim?: string;
+  nip?: string;
+  phoneNumber: string;
+}
+
+export const updateProfileResponseSchema = z.object({
+  message: z.string(),
+  user: userSchema,
+});
+
+export type UpdateProfileResponse = z.infer<typeof updateProfileResponseSchema>;
+
+export const updateProfilePictureResponseSchema = updateProfileResponseSchema;
+
+export type UpdateProfilePictureResponse = z.infer<
+  typeof updateProfilePictureResponseSchema
+>;
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export const changePasswordResponseSchema = messageResponseSchema;
+
+export type ChangePasswordResponse = z.infer<
+  typeof changePasswordResponseSchema
+>;
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+
+export const proposalStatusSchema = z.enum([
+  "DRAFT",
+  "SUBMITTED",
+  "REVISION_REQUESTED",
+  "ACCEPTED",
+  "REJECTED",
+]);
+
+export type ProposalStatus = z.infer<typeof proposalStatusSchema>;
+
+// Bidang penelitian mengikuti laboratorium di Teknik Lingkungan
+export const researchFieldSchema = z.enum([
+  "WATER_QUALITY",
+  "WASTEWATER",
+  "SOLID_WASTE",
+  "AIR_QUALITY",
+  "ENVIRONMENTAL_MANAGEMENT",
+]);
+
+export type ResearchField = z.infer<typeof researchFieldSchema>;
+
+export const supervisorOptionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+export type SupervisorOption = z.infer<typeof supervisorOptionSchema>;
+
+export const reviewCommentSchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  message: z.string(),
+  // Status yang diberikan peninjau bersama komentar ini
+  status: proposalStatusSchema,
+  createdAt: z.string(),
+});
+
+export type ReviewComment = z.infer<typeof reviewCommentSchema>;
+
+// Draf boleh belum lengkap, kelengkapan diperiksa saat diajukan
+export const proposalSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  abstract: z.string(),
+  researchField: researchFieldSchema.nullable(),
+  location: z.string(),
+  preferredSupervisors: z.array(supervisorOptionSchema),
+  status: proposalStatusSchema,
+  comments: z.array(reviewCommentSchema),
+  submittedAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Proposal = z.infer<typeof proposalSchema>;
+
+export const listProposalsResponseSchema = z.object({
+  proposals: z.array(proposalSchema),
+});
+
+export type ListProposalsResponse = z.infer<typeof listProposalsResponseSchema>;
+
+export const supervisorOptionsResponseSchema = z.object({
+  supervisors: z.array(supervisorOptionSchema),
+});
+
+export type SupervisorOptionsResponse = z.infer<
+  typeof supervisorOptionsResponseSchema
+>;
+
+export interface ProposalRequest {
+  title: string;
+  abstract: string;
+  researchField: ResearchField | null;
+  location: string;
+  preferredSupervisorIds: number[];
+}
+
+export const proposalResponseSchema = messageResponseSchema.extend({
+  proposal: proposalSchema,
+});
+
+export type ProposalResponse = z.infer<typeof proposalResponseSchema>;
@@ -0,0 +1,181 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+import { supervisorOptionSchema } from "./proposals";
+
+export const roomSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  capacity: z.number(),
+});
+
+export type Room = z.infer<typeof roomSchema>;
+
+export const roomsResponseSchema = z.object({
+  rooms: z.array(roomSchema),
+});
+
+export type RoomsResponse = z.infer<typeof roomsResponseSchema>;
+
+export interface RoomRequest {
+  name: string;
+  capacity: number;
+}
+
+export const roomResponseSchema = messageResponseSchema.extend({
+  room: roomSchema,
+});
+
+export type RoomResponse = z.infer<typeof roomResponseSchema>;
+
+export const deleteRoomResponseSchema = messageResponseSchema;
+
+export type DeleteRoomResponse = z.infer<typeof deleteRoomResponseSchema>;
+
+// Seminar proposal, seminar hasil, dan sidang akhir
+export const seminarTypeSchema = z.enum(["PROPOSAL", "RESULT", "DEFENSE"]);
+
+export type SeminarType = z.infer<typeof seminarTypeSchema>;
+
+// DRAFT hanya terlihat koordinator sampai jadwalnya diumumkan
+export const seminarStatusSchema = z.enum(["DRAFT", "PUBLISHED"]);
+
+export type SeminarStatus = z.infer<typeof seminarStatusSchema>;
+
+export const seminarSchema = z.object({
+  id: z.number(),
+  type: seminarTypeSchema,
+  status: seminarStatusSchema,
+  student: z.object({
+    id: z.number(),
+    name: z.string(),
+    nim: z.string().nullable(),
+  }),
+  // Judul tugas akhir dari pengajuan yang diterima
+  title: z.string(),
+  room: roomSchema.pick({ id: true, name: true }),
+  start: z.string(),
+  end: z.string(),
+  supervisors: z.array(supervisorOptionSchema),
+  examiners: z.array(supervisorOptionSchema),
+  publishedAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Seminar = z.infer<typeof seminarSchema>;
+
+export const seminarsResponseSchema = z.object({
+  seminars: z.array(seminarSchema),
+});
+
+export type SeminarsResponse = z.infer<typeof seminarsResponseSchema>;
+
+// Mahasiswa yang bisa dijadwalkan beserta pembimbingnya, dan calon penguji
+export const seminarOptionsResponseSchema = z.object({
+  students: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      nim: z.string().nullable(),
+      title: z.string(),
+      supervisors: z.array(supervisorOptionSchema),
+    })
+  ),
+  examiners: z.array(supervisorOptionSchema),
+});
+
+export type SeminarOptionsResponse = z.infer<
+  typeof seminarOptionsResponseSchema
+>;
+
+export type SeminarStudentOption = SeminarOptionsResponse["students"][number];
+
+export interface SeminarRequest {
+  type: SeminarType;
+  studentId: number;
+  roomId: number;
+  start: string;
+  end: string;
+  examinerIds: number[];
+}
+
+// Hanya waktu mulai yang berubah saat jadwal digeser, durasi dan ruang tetap
+export interface MoveSeminarRequest {
+  start: string;
+}
+
+export interface PublishSeminarsRequest {
+  ids: number[];
+}
+
+export const seminarResponseSchema = messageResponseSchema.extend({
+  seminar: seminarSchema,
+});
+
+export type SeminarResponse = z.infer<typeof seminarResponseSchema>;
+
+export const publishSeminarsResponseSchema = messageResponseSchema.extend({
+  published: z.number(),
+});
+
+export type PublishSeminarsResponse = z.infer<
+  typeof publishSeminarsResponseSchema
+>;
+
+export const deleteSeminarResponseSchema = messageResponseSchema;
+
+export type DeleteSeminarResponse = z.infer<typeof deleteSeminarResponseSchema>;
+
+export const seminarConflictTypeSchema = z.enum([
+  "ROOM",
+  "LECTURER",
+  "STUDENT",
+]);
+
+export type SeminarConflictType = z.infer<typeof seminarConflictTypeSchema>;
+
+export const seminarConflictSchema = z.object({
+  type: seminarConflictTypeSchema,
+  message: z.string(),
+});
+
+export type SeminarConflict = z.infer<typeof seminarConflictSchema>;
+
+// seminarId diisi saat memeriksa perubahan jadwal yang sudah ada agar
+// jadwal itu sendiri tidak dianggap bentrok
+export interface CheckSeminarRequest extends SeminarRequest {
+  seminarId?: number;
+}
+
+export const seminarConflictsResponseSchema = z.object({
+  conflicts: z.array(seminarConflictSchema),
+});
+
+export type SeminarConflictsResponse = z.infer<
+  typeof seminarConflictsResponseSchema
+>;
+
+// roomId null berarti semua ruang boleh dipakai
+export interface SuggestSeminarSlotsRequest {
+  seminarId?: number;
+  studentId: number;
+  examinerIds: number[];
+  roomId: number | null;
+  durationMinutes: number;
+}
+
+export const seminarSuggestionSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  room: roomSchema.pick({ id: true, name: true }),
+});
+
+export type SeminarSuggestion = z.infer<typeof seminarSuggestionSchema>;
+
+export const seminarSuggestionsResponseSchema = z.object({
+  suggestions: z.array(seminarSuggestionSchema),
+});
+
+export type SeminarSuggestionsResponse = z.infer<
+  typeof seminarSuggestionsResponseSchema
+>;
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+
+// Satu perangkat yang sedang login; `current` menandai perangkat ini
+export const sessionSchema = z.object({
+  id: z.string(),
+  userAgent: z.string(),
+  ipAddress: z.string(),
+  createdAt: z.string(),
+  lastActiveAt: z.string(),
+  current: z.boolean(),
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+export const listSessionsResponseSchema = z.object({
+  sessions: z.array(sessionSchema),
+});
+
+export type ListSessionsResponse = z.infer<typeof listSessionsResponseSchema>;
+
+export const revokeSessionResponseSchema = messageResponseSchema;
+
+export type RevokeSessionResponse = z.infer<typeof revokeSessionResponseSchema>;
+
+export const revokeOtherSessionsResponseSchema = messageResponseSchema.extend({
+  revokedCount: z.number(),
+});
+
+export type RevokeOtherSessionsResponse = z.infer<
+  typeof revokeOtherSessionsResponseSchema
+>;
+
+// `reason` berisi kode error untuk percobaan login yang gagal
+export const loginAttemptSchema = z.object({
+  id: z.string(),
+  success: z.boolean(),
+  reason: z.string().nullable(),
+  userAgent: z.string(),
+  ipAddress: z.string(),
+  createdAt: z.string(),
+});
+
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+
+export const loginHistoryResponseSchema = z.object({
+  attempts: z.array(loginAttemptSchema),
+});
+
+export type LoginHistoryResponse = z.infer<typeof loginHistoryResponseSchema>;
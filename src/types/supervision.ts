@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+import { researchFieldSchema, supervisorOptionSchema } from "./proposals";
+
+// Pembimbing 1 (utama) dan pembimbing 2 (pendamping)
+export const supervisorPositionSchema = z.enum(["PRIMARY", "SECONDARY"]);
+
+export type SupervisorPosition = z.infer<typeof supervisorPositionSchema>;
+
+export const supervisorLoadSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  expertise: z.array(researchFieldSchema),
+  primaryCount: z.number(),
+  secondaryCount: z.number(),
+});
+
+export type SupervisorLoad = z.infer<typeof supervisorLoadSchema>;
+
+// Mahasiswa yang judulnya sudah diterima beserta pembimbingnya saat ini
+export const supervisedStudentSchema = z.object({
+  studentId: z.number(),
+  name: z.string(),
+  nim: z.string().nullable(),
+  proposalTitle: z.string(),
+  researchField: researchFieldSchema.nullable(),
+  preferredSupervisors: z.array(supervisorOptionSchema),
+  primary: supervisorOptionSchema.nullable(),
+  secondary: supervisorOptionSchema.nullable(),
+  assignedAt: z.string().nullable(),
+});
+
+export type SupervisedStudent = z.infer<typeof supervisedStudentSchema>;
+
+export const supervisionOverviewResponseSchema = z.object({
+  students: z.array(supervisedStudentSchema),
+  supervisors: z.array(supervisorLoadSchema),
+  // Batas jumlah mahasiswa bimbingan per dosen, diatur koordinator
+  maxLoad: z.number(),
+});
+
+export type SupervisionOverviewResponse = z.infer<
+  typeof supervisionOverviewResponseSchema
+>;
+
+export const supervisionAssignmentSchema = z.object({
+  studentId: z.number(),
+  primaryId: z.number().nullable(),
+  secondaryId: z.number().nullable(),
+});
+
+export type SupervisionAssignment = z.infer<typeof supervisionAssignmentSchema>;
+
+export const supervisionSuggestionsResponseSchema = z.object({
+  assignments: z.array(supervisionAssignmentSchema),
+});
+
+export type SupervisionSuggestionsResponse = z.infer<
+  typeof supervisionSuggestionsResponseSchema
+>;
+
+export interface SaveSupervisionsRequest {
+  assignments: SupervisionAssignment[];
+}
+
+export const saveSupervisionsResponseSchema = messageResponseSchema.extend({
+  updatedCount: z.number(),
+});
+
+export type SaveSupervisionsResponse = z.infer<
+  typeof saveSupervisionsResponseSchema
+>;
+
+export interface SupervisionSettingsRequest {
+  maxLoad: number;
+}
+
+export const supervisionSettingsResponseSchema = messageResponseSchema.extend({
+  maxLoad: z.number(),
+});
+
+export type SupervisionSettingsResponse = z.infer<
+  typeof supervisionSettingsResponseSchema
+>;
+
+// Satu baris riwayat: pergantian pembimbing pada satu posisi
+export const supervisionChangeSchema = z.object({
+  id: z.string(),
+  student: supervisorOptionSchema,
+  position: supervisorPositionSchema,
+  previous: supervisorOptionSchema.nullable(),
+  next: supervisorOptionSchema.nullable(),
+  changedBy: z.string(),
+  createdAt: z.string(),
+});
+
+export type SupervisionChange = z.infer<typeof supervisionChangeSchema>;
+
+export const supervisionHistoryResponseSchema = z.object({
+  changes: z.array(supervisionChangeSchema),
+});
+
+export type SupervisionHistoryResponse = z.infer<
+  typeof supervisionHistoryResponseSchema
+>;
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { messageResponseSchema } from "./auth";
+import { PaginationParams, paginationSchema } from "./common";
+import { researchFieldSchema, ResearchField } from "./proposals";
+
+export const topicApplicationStatusSchema = z.enum([
+  "PENDING",
+  "ACCEPTED",
+  "DECLINED",
+]);
+
+export type TopicApplicationStatus = z.infer<
+  typeof topicApplicationStatusSchema
+>;
+
+// Topik penelitian yang ditawarkan dosen dari proyeknya sendiri
+export const topicSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string(),
+  quota: z.number(),
+  acceptedCount: z.number(),
+  pendingCount: z.number(),
+  requiredSkills: z.array(z.string()),
+  researchField: researchFieldSchema,
+  lecturer: z.object({
+    id: z.number(),
+    name: z.string(),
+  }),
+  // Status lamaran mahasiswa yang sedang login, null jika belum melamar
+  myApplicationStatus: topicApplicationStatusSchema.nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Topic = z.infer<typeof topicSchema>;
+
+export const topicApplicationSchema = z.object({
+  id: z.number(),
+  topicId: z.number(),
+  topicTitle: z.string(),
+  lecturerName: z.string(),
+  student: z.object({
+    id: z.number(),
+    name: z.string(),
+    nim: z.string().nullable(),
+  }),
+  motivation: z.string(),
+  status: topicApplicationStatusSchema,
+  createdAt: z.string(),
+  decidedAt: z.string().nullable(),
+});
+
+export type TopicApplication = z.infer<typeof topicApplicationSchema>;
+
+export interface ListTopicsParams extends PaginationParams {
+  search?: string;
+  researchField?: ResearchField;
+  // Hanya topik yang kuotanya belum penuh
+  availableOnly?: boolean;
+}
+
+export const listTopicsResponseSchema = z.object({
+  topics: z.array(topicSchema),
+  pagination: paginationSchema,
+});
+
+export type ListTopicsResponse = z.infer<typeof listTopicsResponseSchema>;
+
+export const myTopicsResponseSchema = z.object({
+  topics: z.array(topicSchema),
+});
+
+export type MyTopicsResponse = z.infer<typeof myTopicsResponseSchema>;
+
+export interface TopicRequest {
+  title: string;
+  description: string;
+  quota: number;
+  requiredSkills: string[];
+  researchField: ResearchField;
+}
+
+export const topicResponseSchema = messageResponseSchema.extend({
+  topic: topicSchema,
+});
+
+export type TopicResponse = z.infer<typeof topicResponseSchema>;
+
+export const deleteTopicResponseSchema = messageResponseSchema;
+
+export type DeleteTopicResponse = z.infer<typeof deleteTopicResponseSchema>;
+
+export interface ApplyTopicRequest {
+  motivation: string;
+}
+
+export const topicApplicationResponseSchema = messageResponseSchema.extend({
+  application: topicApplicationSchema,
+});
+
+export type TopicApplicationResponse = z.infer<
+  typeof topicApplicationResponseSchema
+>;
+
+export const listTopicApplicationsResponseSchema = z.object({
+  applications: z.array(topicApplicationSchema),
+});
+
+export type ListTopicApplicationsResponse = z.infer<
+  typeof listTopicApplicationsResponseSchema
+>;
+
+// Lamaran hanya bisa diputuskan sekali, diterima atau ditolak
+export type TopicApplicationDecision = Exclude<
+  TopicApplicationStatus,
+  "PENDING"
+>;
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { userSchema } from "./auth";
+
+// Verifikasi dua langkah hanya tersedia untuk akun yang memegang nilai dan
+// penugasan pembimbing
+export const twoFactorRoleSchema = z.enum(["COORDINATOR", "LECTURER"]);
+
+export type TwoFactorRole = z.infer<typeof twoFactorRoleSchema>;
+
+// Kode pemulihan ikut dibuat saat setup agar bisa disimpan sebelum konfirmasi
+export const twoFactorSetupResponseSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  recoveryCodes: z.array(z.string()),
+});
+
+export type TwoFactorSetupResponse = z.infer<
+  typeof twoFactorSetupResponseSchema
+>;
+
+export interface ConfirmTwoFactorRequest {
+  code: string;
+}
+
+export interface DisableTwoFactorRequest {
+  currentPassword: string;
+  code: string;
+}
+
+export const twoFactorUserResponseSchema = z.object({
+  message: z.string(),
+  user: userSchema,
+});
+
+export type TwoFactorUserResponse = z.infer<typeof twoFactorUserResponseSchema>;
+
+export const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(twoFactorRoleSchema),
+});
+
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+
+export const twoFactorPolicyResponseSchema = z.object({
+  policy: twoFactorPolicySchema,
+});
+
+export type TwoFactorPolicyResponse = z.infer<
+  typeof twoFactorPolicyResponseSchema
+>;
+
+export const updateTwoFactorPolicyResponseSchema = z.object({
+  message: z.string(),
+  policy: twoFactorPolicySchema,
+});
+
+export type UpdateTwoFactorPolicyResponse = z.infer<
+  typeof updateTwoFactorPolicyResponseSchema
+>;
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { messageResponseSchema, Role, userSchema } from "./auth";
+import { PaginationParams, paginationSchema } from "./common";
+
+export const userStatusSchema = z.enum(["ACTIVE", "INACTIVE"]);
+
+export type UserStatus = z.infer<typeof userStatusSchema>;
+
+// Data pengguna yang dilihat koordinator di halaman manajemen pengguna
+export const managedUserSchema = userSchema.extend({
+  status: userStatusSchema,
+  createdAt: z.string(),
+});
+
+export type ManagedUser = z.infer<typeof managedUserSchema>;
+
+export interface ListUsersParams extends PaginationParams {
+  search?: string;
+  role?: Role;
+  status?: UserStatus;
+}
+
+export const listUsersResponseSchema = z.object({
+  users: z.array(managedUserSchema),
+  pagination: paginationSchema,
+});
+
+export type ListUsersResponse = z.infer<typeof listUsersResponseSchema>;
+
+export interface UpdateUserRequest {
+  name: string;
+  nim?: string;
+  nip?: string;
+  phoneNumber: string;
+}
+
+export const managedUserResponseSchema = z.object({
+  message: z.string(),
+  user: managedUserSchema,
+});
+
+export type ManagedUserResponse = z.infer<typeof managedUserResponseSchema>;
+
+export const resetUserPasswordResponseSchema = messageResponseSchema;
+
+export type ResetUserPasswordResponse = z.infer<
+  typeof resetUserPasswordResponseSchema
+>;
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_RECAPTCHA_SITE_KEY?: string;
+  readonly VITE_BOT_PROTECTION?: string;
+  readonly VITE_BOT_PROTECTION_MODE?: string;
+  readonly VITE_REALTIME?: string;
+  readonly VITE_API_MOCKING?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}